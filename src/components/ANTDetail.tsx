@@ -0,0 +1,374 @@
+import { useMemo } from 'react'
+
+import { Link } from '@tanstack/react-router'
+import { AlertTriangle, ExternalLink, Loader2 } from 'lucide-react'
+
+import { ANTManagement } from '@/components/ANTManagement'
+import { AddressLink, Field, Section } from '@/components/DetailSection'
+import { Button } from '@/components/ui/button'
+import { useANTState } from '@/hooks/useANT'
+import { useANTProcessMetadata, useANTVersions } from '@/hooks/useANTVersions'
+import { useARNSDomains } from '@/hooks/useARNSDomains'
+import {
+  type ANTRecordRow,
+  type ANTVersionInfo,
+  type ANTVersionStatus,
+  BASE_RECORD,
+  antVersionInfo,
+  namesForANT,
+  resolvesUnder,
+  undernameLabel,
+} from '@/lib/ant'
+import {
+  type ArNSName,
+  arnsNameUrl,
+  daysUntilExpiry,
+  expiresAt,
+  toNameList,
+} from '@/lib/arns-names'
+import { cn } from '@/lib/utils'
+import { useAppStore } from '@/store/app-store'
+
+const VERSION_STYLES: Record<ANTVersionStatus, string> = {
+  latest: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  outdated:
+    'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  unknown: 'bg-muted text-muted-foreground',
+}
+
+interface ANTDetailProps {
+  id: string
+  className?: string
+}
+
+function VersionBadge({ info }: { info: ANTVersionInfo }) {
+  const label =
+    info.status === 'unknown'
+      ? 'Version unknown'
+      : info.status === 'latest'
+        ? `v${info.version} (latest)`
+        : info.version
+          ? `v${info.version}, latest is v${info.latestVersion}`
+          : `Unlisted module, latest is v${info.latestVersion}`
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center rounded-full px-2 py-1 text-xs font-medium',
+        VERSION_STYLES[info.status],
+      )}
+    >
+      {label}
+    </span>
+  )
+}
+
+// Undernames past the limit of a name are registered but not served
+const undernamesUsed = (records: Array<ANTRecordRow>) =>
+  records.filter((record) => record.undername !== BASE_RECORD).length
+
+function NamesTable({
+  names,
+  records,
+}: {
+  names: Array<ArNSName>
+  records: Array<ANTRecordRow>
+}) {
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+  const used = undernamesUsed(records)
+
+  if (!names.length) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No ArNS names point at this ANT
+      </p>
+    )
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left text-muted-foreground">
+          <th className="py-2 pr-4 font-medium">Name</th>
+          <th className="py-2 pr-4 font-medium">Type</th>
+          <th className="py-2 pr-4 font-medium">Expires</th>
+          <th className="py-2 font-medium">Undernames</th>
+        </tr>
+      </thead>
+      <tbody>
+        {names.map((record) => {
+          const end = expiresAt(record)
+          const days = daysUntilExpiry(record)
+          return (
+            <tr key={record.name} className="border-b last:border-b-0">
+              <td className="py-2 pr-4">
+                <a
+                  href={arnsNameUrl(record.name, gatewayUrl)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="flex items-center font-medium hover:underline"
+                >
+                  {record.name}
+                  <ExternalLink className="ml-1 h-3 w-3 text-muted-foreground" />
+                </a>
+              </td>
+              <td className="py-2 pr-4">{record.type}</td>
+              <td className="py-2 pr-4">
+                {end === undefined ? (
+                  <span className="text-muted-foreground">Never</span>
+                ) : (
+                  <span className={cn(days! < 0 && 'text-destructive')}>
+                    {new Date(end).toLocaleDateString()}
+                    {days! < 0 && ' (grace period)'}
+                  </span>
+                )}
+              </td>
+              <td className="py-2">
+                <span
+                  className={cn(
+                    'font-mono',
+                    used > record.undernameLimit && 'text-destructive',
+                  )}
+                >
+                  {used.toLocaleString()} of{' '}
+                  {record.undernameLimit.toLocaleString()}
+                </span>
+              </td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
+
+function RecordsTable({
+  records,
+  names,
+}: {
+  records: Array<ANTRecordRow>
+  names: Array<ArNSName>
+}) {
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+  // Undernames are linked through the first name, and flagged against the
+  // name with the lowest limit
+  const name = names[0]
+  const limiting = useMemo(
+    () =>
+      names.reduce<ArNSName | undefined>(
+        (lowest, record) =>
+          !lowest || record.undernameLimit < lowest.undernameLimit
+            ? record
+            : lowest,
+        undefined,
+      ),
+    [names],
+  )
+
+  if (!records.length) {
+    return <p className="text-sm text-muted-foreground">No records</p>
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left text-muted-foreground">
+          <th className="py-2 pr-4 font-medium">Undername</th>
+          <th className="py-2 pr-4 font-medium">Transaction</th>
+          <th className="py-2 pr-4 font-medium">TTL</th>
+          <th className="py-2 pr-4 font-medium">Priority</th>
+          <th className="py-2 font-medium">Resolves</th>
+        </tr>
+      </thead>
+      <tbody>
+        {records.map((record) => {
+          const resolves =
+            !limiting || resolvesUnder(record, limiting.undernameLimit)
+          return (
+            <tr key={record.undername} className="border-b last:border-b-0">
+              <td className="py-2 pr-4">
+                {name ? (
+                  <a
+                    href={arnsNameUrl(
+                      undernameLabel(record.undername, name.name),
+                      gatewayUrl,
+                    )}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="font-mono hover:underline"
+                    title={record.displayName}
+                  >
+                    {record.undername}
+                  </a>
+                ) : (
+                  <span className="font-mono">{record.undername}</span>
+                )}
+              </td>
+              <td className="py-2 pr-4">
+                <Link
+                  to="/message/$id"
+                  params={{ id: record.transactionId }}
+                  className="break-all font-mono hover:underline"
+                >
+                  {record.transactionId}
+                </Link>
+              </td>
+              <td className="whitespace-nowrap py-2 pr-4 font-mono">
+                {record.ttlSeconds.toLocaleString()}s
+              </td>
+              <td className="py-2 pr-4 font-mono">
+                {record.priority ?? (
+                  <span className="text-muted-foreground">-</span>
+                )}
+              </td>
+              <td className="py-2">
+                {resolves ? (
+                  'Yes'
+                ) : (
+                  <span className="flex items-center text-destructive">
+                    <AlertTriangle className="mr-1 h-3 w-3" />
+                    Over the undername limit of {limiting?.name}
+                  </span>
+                )}
+              </td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
+
+export function ANTDetail({ id, className }: ANTDetailProps) {
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+  const ant = useANTState(id)
+  const { data: domains } = useARNSDomains()
+  const { data: versions } = useANTVersions()
+  const ants = useMemo(() => [id], [id])
+  const { data: metadata } = useANTProcessMetadata(ants)
+
+  const names = useMemo(
+    () => namesForANT(toNameList(domains ?? {}), id),
+    [domains, id],
+  )
+  const moduleId = metadata?.[0]?.moduleId
+  const versionInfo = antVersionInfo(moduleId, versions)
+
+  if (ant.isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading ANT...</span>
+      </div>
+    )
+  }
+
+  if (ant.error || !ant.data) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8 text-center">
+        <h2 className="text-lg font-semibold">ANT state unavailable</h2>
+        <p className="font-mono text-sm text-muted-foreground">{id}</p>
+        {ant.error && (
+          <p className="text-sm text-destructive">{ant.error.message}</p>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => ant.refetch()}
+          className="mt-4"
+        >
+          Try Again
+        </Button>
+      </div>
+    )
+  }
+
+  const { state, records } = ant.data
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Header */}
+      <div className="flex items-center space-x-4">
+        {state.Logo && (
+          <img
+            src={`${gatewayUrl}/${state.Logo}`}
+            alt={`${state.Name} logo`}
+            className="h-12 w-12 rounded-md border object-contain"
+          />
+        )}
+        <div className="space-y-1">
+          <div className="flex items-center space-x-2">
+            <h1 className="text-2xl font-bold">{state.Name || 'ANT'}</h1>
+            {state.Ticker && (
+              <span className="font-mono text-muted-foreground">
+                {state.Ticker}
+              </span>
+            )}
+            <VersionBadge info={versionInfo} />
+          </div>
+          <Link
+            to="/process/$id"
+            params={{ id }}
+            className="break-all font-mono text-sm text-muted-foreground hover:underline"
+          >
+            {id}
+          </Link>
+        </div>
+      </div>
+
+      <Section title="Overview">
+        <dl className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <Field label="Owner">
+            <AddressLink address={state.Owner} to="address" />
+          </Field>
+          <Field label="Controllers">
+            {state.Controllers.length ? (
+              <ul className="space-y-1">
+                {state.Controllers.map((controller) => (
+                  <li key={controller}>
+                    <AddressLink address={controller} to="address" />
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <span className="text-muted-foreground">None</span>
+            )}
+          </Field>
+          <Field label="Module">
+            <AddressLink address={moduleId ?? ''} to="module" />
+          </Field>
+          {versionInfo.status === 'outdated' && (
+            <Field label={`Latest module (v${versionInfo.latestVersion})`}>
+              <AddressLink
+                address={versionInfo.latestModuleId ?? ''}
+                to="module"
+              />
+            </Field>
+          )}
+          {state.Description && (
+            <Field label="Description">{state.Description}</Field>
+          )}
+          {state.Keywords.length > 0 && (
+            <Field label="Keywords">{state.Keywords.join(', ')}</Field>
+          )}
+        </dl>
+      </Section>
+
+      <Section title={`ArNS names (${names.length})`}>
+        <NamesTable names={names} records={records} />
+      </Section>
+
+      <Section title={`Records (${records.length})`}>
+        <RecordsTable records={records} names={names} />
+      </Section>
+
+      <Section title="Manage">
+        <ANTManagement
+          id={id}
+          owner={state.Owner}
+          controllers={state.Controllers}
+          names={names}
+          versionInfo={versionInfo}
+        />
+      </Section>
+    </div>
+  )
+}
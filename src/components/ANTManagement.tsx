@@ -0,0 +1,566 @@
+import { useState } from 'react'
+
+import {
+  useAoSigner,
+  useConnection,
+  useAddress as useWalletAddress,
+} from '@project-kardeshev/ao-wallet-kit'
+import { useQueryClient } from '@tanstack/react-query'
+import { Link } from '@tanstack/react-router'
+import {
+  AlertTriangle,
+  ArrowUpCircle,
+  Check,
+  Loader2,
+  Send,
+} from 'lucide-react'
+
+import { AddressLink } from '@/components/DetailSection'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { ANTVersionInfo } from '@/lib/ant'
+import {
+  type ANTAction,
+  type ANTActionType,
+  ANT_ACTION_LABELS,
+  antActionError,
+  antActionTags,
+  upgradeANT,
+} from '@/lib/ant-actions'
+import type { ArNSName } from '@/lib/arns-names'
+import {
+  type HandlerResponse,
+  type MessageTag,
+  callHandler,
+} from '@/lib/process-handlers'
+import { useAppStore } from '@/store/app-store'
+
+interface ANTManagementProps {
+  id: string
+  owner: string
+  controllers: Array<string>
+  names: Array<ArNSName>
+  versionInfo: ANTVersionInfo
+}
+
+interface ActionFields {
+  undername: string
+  transactionId: string
+  ttlSeconds: string
+  address: string
+  text: string
+}
+
+const EMPTY_FIELDS: ActionFields = {
+  undername: '@',
+  transactionId: '',
+  ttlSeconds: '3600',
+  address: '',
+  text: '',
+}
+
+// Dry run of the exact message, shown before the wallet is asked to sign
+interface Preview {
+  tags: Array<MessageTag>
+  response?: HandlerResponse
+  rejection?: string
+}
+
+interface Sent {
+  messageId?: string
+  rejection?: string
+}
+
+const toAction = (type: ANTActionType, fields: ActionFields): ANTAction => {
+  switch (type) {
+    case 'set-record':
+      return {
+        type,
+        undername: fields.undername.trim(),
+        transactionId: fields.transactionId.trim(),
+        ttlSeconds: Number(fields.ttlSeconds),
+      }
+    case 'remove-record':
+      return { type, undername: fields.undername.trim() }
+    case 'add-controller':
+    case 'remove-controller':
+      return { type, controller: fields.address.trim() }
+    case 'transfer':
+      return { type, target: fields.address.trim() }
+    case 'set-name':
+      return { type, name: fields.text }
+    case 'set-ticker':
+      return { type, ticker: fields.text }
+    case 'set-logo':
+      return { type, logo: fields.text.trim() }
+  }
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error)
+
+function TagTable({ tags }: { tags: Array<MessageTag> }) {
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {tags.map(({ name, value }) => (
+          <tr key={name} className="border-t first:border-t-0">
+            <td className="py-1 pr-4 align-top font-medium">{name}</td>
+            <td className="break-all py-1 font-mono">{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+function ActionFieldInputs({
+  type,
+  fields,
+  onChange,
+}: {
+  type: ANTActionType
+  fields: ActionFields
+  onChange: (update: Partial<ActionFields>) => void
+}) {
+  const field = (
+    key: keyof ActionFields,
+    label: string,
+    placeholder: string,
+    className = 'font-mono',
+  ) => (
+    <div className="space-y-1">
+      <Label htmlFor={`ant-${key}`}>{label}</Label>
+      <Input
+        id={`ant-${key}`}
+        value={fields[key]}
+        onChange={(e) => onChange({ [key]: e.target.value })}
+        placeholder={placeholder}
+        className={className}
+      />
+    </div>
+  )
+
+  switch (type) {
+    case 'set-record':
+      return (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          {field('undername', 'Undername', '@ for the name itself')}
+          {field('transactionId', 'Transaction id', 'Target transaction')}
+          {field('ttlSeconds', 'TTL (seconds)', '3600')}
+        </div>
+      )
+    case 'remove-record':
+      return field('undername', 'Undername', 'Undername to remove')
+    case 'add-controller':
+    case 'remove-controller':
+      return field('address', 'Controller', 'Wallet address')
+    case 'transfer':
+      return field('address', 'New owner', 'Wallet address')
+    case 'set-name':
+      return field('text', 'Name', 'ANT name', '')
+    case 'set-ticker':
+      return field('text', 'Ticker', 'ANT ticker', '')
+    case 'set-logo':
+      return field('text', 'Logo', 'Logo transaction id')
+  }
+}
+
+function ActionForm({ id }: { id: string }) {
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+  const signer = useAoSigner()
+  const walletAddress = useWalletAddress()
+  const { connected } = useConnection()
+  const queryClient = useQueryClient()
+  const [type, setType] = useState<ANTActionType>('set-record')
+  const [fields, setFields] = useState<ActionFields>(EMPTY_FIELDS)
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [invalid, setInvalid] = useState<string | null>(null)
+  const [sent, setSent] = useState<Sent | null>(null)
+  const [pending, setPending] = useState<'preview' | 'send' | null>(null)
+
+  // Any edit invalidates the previewed message
+  const reset = () => {
+    setPreview(null)
+    setInvalid(null)
+    setSent(null)
+  }
+
+  const runPreview = async () => {
+    reset()
+    let tags: Array<MessageTag>
+    try {
+      tags = antActionTags(toAction(type, fields))
+    } catch (error) {
+      setInvalid(errorMessage(error))
+      return
+    }
+
+    setPending('preview')
+    try {
+      const response = await callHandler({
+        processId: id,
+        cuUrl,
+        mode: 'dryrun',
+        data: '',
+        tags,
+        // The ANT checks the sender against its owner and controllers
+        from: walletAddress,
+      })
+      setPreview({ tags, response, rejection: antActionError(response) })
+    } catch (error) {
+      setPreview({ tags, rejection: errorMessage(error) })
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const send = async () => {
+    if (!preview) return
+    setPending('send')
+    try {
+      const response = await callHandler({
+        processId: id,
+        cuUrl,
+        mode: 'message',
+        data: '',
+        tags: preview.tags,
+        signer,
+      })
+      setSent({
+        messageId: response.messageId,
+        rejection: antActionError(response),
+      })
+      await queryClient.invalidateQueries({ queryKey: ['ant-state', id] })
+    } catch (error) {
+      setSent({ rejection: errorMessage(error) })
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Label className="whitespace-nowrap text-sm">Action:</Label>
+        <Select
+          value={type}
+          onValueChange={(value) => {
+            setType(value as ANTActionType)
+            setFields(EMPTY_FIELDS)
+            reset()
+          }}
+        >
+          <SelectTrigger size="sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(ANT_ACTION_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <ActionFieldInputs
+        type={type}
+        fields={fields}
+        onChange={(update) => {
+          setFields({ ...fields, ...update })
+          reset()
+        }}
+      />
+
+      <Button
+        size="sm"
+        onClick={runPreview}
+        disabled={pending !== null || !connected}
+        title={
+          connected
+            ? 'Dry run the message as the connected wallet'
+            : 'Connect a wallet to manage the ANT'
+        }
+      >
+        {pending === 'preview' && (
+          <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+        )}
+        Preview
+      </Button>
+
+      {invalid && <p className="text-sm text-destructive">{invalid}</p>}
+
+      {preview && (
+        <div className="space-y-3 rounded-md border p-3">
+          <h3 className="text-sm font-medium">Message to sign</h3>
+          <TagTable tags={preview.tags} />
+          {preview.rejection ? (
+            <p className="flex items-start text-sm text-destructive">
+              <AlertTriangle className="mr-1 mt-0.5 h-3 w-3 shrink-0" />
+              The dry run was rejected: {preview.rejection}
+            </p>
+          ) : (
+            <p className="flex items-center text-sm text-green-700 dark:text-green-400">
+              <Check className="mr-1 h-3 w-3" />
+              The dry run was accepted
+            </p>
+          )}
+          {!sent && (
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant={preview.rejection ? 'destructive' : 'default'}
+                onClick={send}
+                disabled={pending !== null || !signer}
+              >
+                {pending === 'send' ? (
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                ) : (
+                  <Send className="mr-1 h-3 w-3" />
+                )}
+                {preview.rejection ? 'Send anyway' : 'Confirm and send'}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={reset}
+                disabled={pending !== null}
+              >
+                Cancel
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {sent && (
+        <div className="space-y-1 text-sm">
+          {sent.messageId && (
+            <p>
+              <span className="text-muted-foreground">Sent as </span>
+              <Link
+                to="/message/$id"
+                params={{ id: sent.messageId }}
+                className="font-mono hover:underline"
+              >
+                {sent.messageId}
+              </Link>
+            </p>
+          )}
+          {sent.rejection && (
+            <p className="text-destructive">{sent.rejection}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface UpgradeOutcome {
+  forkedProcessId?: string
+  reassigned: Array<string>
+  failed: Array<{ name: string; error: string }>
+  error?: string
+}
+
+function UpgradePanel({
+  id,
+  names,
+  versionInfo,
+}: {
+  id: string
+  names: Array<ArNSName>
+  versionInfo: ANTVersionInfo
+}) {
+  const { cuUrl, arioProcessId } = useAppStore((s) => s.config)
+  const signer = useAoSigner()
+  const { connected } = useConnection()
+  const queryClient = useQueryClient()
+  const [confirming, setConfirming] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [steps, setSteps] = useState<Array<string>>([])
+  const [outcome, setOutcome] = useState<UpgradeOutcome | null>(null)
+
+  const upgrade = async () => {
+    setRunning(true)
+    setSteps([])
+    setOutcome(null)
+    try {
+      const result = await upgradeANT({
+        processId: id,
+        cuUrl,
+        arioProcessId,
+        signer,
+        onProgress: (step) => setSteps((previous) => [...previous, step]),
+      })
+      setOutcome({
+        forkedProcessId: result.forkedProcessId,
+        reassigned: Object.keys(result.reassignedNames),
+        failed: Object.entries(result.failedReassignedNames).map(
+          ([name, { error }]) => ({ name, error: error.message }),
+        ),
+      })
+      await queryClient.invalidateQueries({ queryKey: ['arns-domains'] })
+    } catch (error) {
+      setOutcome({ reassigned: [], failed: [], error: errorMessage(error) })
+    } finally {
+      setRunning(false)
+      setConfirming(false)
+    }
+  }
+
+  if (versionInfo.status === 'latest') {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This ANT runs the latest module (v{versionInfo.version})
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        Upgrading forks the state of this ANT into a new process on the latest
+        module
+        {versionInfo.latestVersion && ` (v${versionInfo.latestVersion})`} and
+        points its ArNS names at the new process. Each step is signed by the
+        connected wallet.
+      </p>
+
+      {!confirming && !outcome && (
+        <Button
+          size="sm"
+          onClick={() => setConfirming(true)}
+          disabled={!connected || !signer || !versionInfo.latestModuleId}
+          title={
+            connected
+              ? 'Review the upgrade'
+              : 'Connect the owner wallet to upgrade'
+          }
+        >
+          <ArrowUpCircle className="mr-1 h-3 w-3" />
+          Upgrade to latest version
+        </Button>
+      )}
+
+      {confirming && (
+        <div className="space-y-3 rounded-md border p-3 text-sm">
+          <h3 className="font-medium">Confirm upgrade</h3>
+          <dl className="space-y-1">
+            <div>
+              <dt className="inline text-muted-foreground">New module: </dt>
+              <dd className="inline">
+                <AddressLink
+                  address={versionInfo.latestModuleId ?? ''}
+                  to="module"
+                />
+              </dd>
+            </div>
+            <div>
+              <dt className="inline text-muted-foreground">
+                Names to reassign:{' '}
+              </dt>
+              <dd className="inline font-mono">
+                {names.length
+                  ? names.map((record) => record.name).join(', ')
+                  : 'none'}
+              </dd>
+            </div>
+          </dl>
+          <div className="flex items-center gap-2">
+            <Button size="sm" onClick={upgrade} disabled={running}>
+              {running && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+              Confirm upgrade
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setConfirming(false)}
+              disabled={running}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {steps.length > 0 && (
+        <ol className="list-inside list-decimal font-mono text-xs text-muted-foreground">
+          {steps.map((step, index) => (
+            <li key={index}>{step}</li>
+          ))}
+        </ol>
+      )}
+
+      {outcome && (
+        <div className="space-y-1 text-sm">
+          {outcome.error && <p className="text-destructive">{outcome.error}</p>}
+          {outcome.forkedProcessId && (
+            <p>
+              <span className="text-muted-foreground">Upgraded to </span>
+              <Link
+                to="/ant/$id"
+                params={{ id: outcome.forkedProcessId }}
+                className="font-mono hover:underline"
+              >
+                {outcome.forkedProcessId}
+              </Link>
+            </p>
+          )}
+          {outcome.reassigned.length > 0 && (
+            <p>
+              <span className="text-muted-foreground">Reassigned </span>
+              {outcome.reassigned.join(', ')}
+            </p>
+          )}
+          {outcome.failed.map(({ name, error }) => (
+            <p key={name} className="text-destructive">
+              Failed to reassign {name}: {error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Signed ANT messages, each previewed with a dry run before it is sent
+export function ANTManagement({
+  id,
+  owner,
+  controllers,
+  names,
+  versionInfo,
+}: ANTManagementProps) {
+  const walletAddress = useWalletAddress()
+  const authorized =
+    !walletAddress ||
+    walletAddress === owner ||
+    controllers.includes(walletAddress)
+
+  return (
+    <div className="space-y-6">
+      {!authorized && (
+        <p className="flex items-center text-sm text-yellow-700 dark:text-yellow-400">
+          <AlertTriangle className="mr-1 h-3 w-3" />
+          The connected wallet is neither the owner nor a controller of this
+          ANT, its messages will be rejected
+        </p>
+      )}
+      <ActionForm id={id} />
+      <div className="space-y-2 border-t pt-4">
+        <h3 className="font-medium">Upgrade</h3>
+        <UpgradePanel id={id} names={names} versionInfo={versionInfo} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,434 @@
+import { useMemo, useState } from 'react'
+
+import { ANT_REGISTRY_ID } from '@ar.io/sdk'
+import {
+  useAoSigner,
+  useConnection,
+  useAddress as useWalletAddress,
+} from '@project-kardeshev/ao-wallet-kit'
+import { useQueryClient } from '@tanstack/react-query'
+import { Link } from '@tanstack/react-router'
+import { AlertTriangle, Check, Loader2, Search } from 'lucide-react'
+
+import { AddressLink, Field, Section } from '@/components/DetailSection'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useANTState } from '@/hooks/useANT'
+import { useANTRegistryACL, useANTRegistryCounts } from '@/hooks/useANTRegistry'
+import { useANTStatistics, useANTVersions } from '@/hooks/useANTVersions'
+import {
+  formatAddressForDisplay,
+  isArweaveAddress,
+  isValidAddress,
+} from '@/lib/address-utils'
+import {
+  type ANTAccessStatus,
+  type ANTRegistryACL,
+  diagnoseANTAccess,
+  registerANT,
+  toVersionRows,
+} from '@/lib/ant-registry'
+import { cn } from '@/lib/utils'
+import { useAppStore } from '@/store/app-store'
+
+const ACCESS_STYLES: Record<ANTAccessStatus, string> = {
+  listed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  unregistered:
+    'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  stale:
+    'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  'no-access': 'bg-muted text-muted-foreground',
+  unknown: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+}
+
+const ACCESS_LABELS: Record<ANTAccessStatus, string> = {
+  listed: 'Listed',
+  unregistered: 'Not registered',
+  stale: 'Registry out of date',
+  'no-access': 'No access',
+  unknown: 'State unavailable',
+}
+
+interface ANTRegistryExplorerProps {
+  // Prefill the lookup, as linked from support conversations
+  initialAddress?: string
+  initialANT?: string
+  className?: string
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error)
+
+function Stat({ label, value }: { label: string; value?: number }) {
+  return (
+    <div className="rounded-md border p-4">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="text-2xl font-bold">
+        {value === undefined ? '-' : value.toLocaleString()}
+      </div>
+    </div>
+  )
+}
+
+function ANTList({ ants }: { ants: Array<string> }) {
+  if (!ants.length) {
+    return <span className="text-muted-foreground">None</span>
+  }
+  return (
+    <ul className="space-y-1">
+      {ants.map((ant) => (
+        <li key={ant}>
+          <Link
+            to="/ant/$id"
+            params={{ id: ant }}
+            className="break-all font-mono text-sm hover:underline"
+          >
+            {ant}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function RegisterButton({ antId }: { antId: string }) {
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+  const signer = useAoSigner()
+  const { connected } = useConnection()
+  const queryClient = useQueryClient()
+  const [pending, setPending] = useState(false)
+  const [messageId, setMessageId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const register = async () => {
+    setPending(true)
+    setError(null)
+    setMessageId(null)
+    try {
+      setMessageId(await registerANT({ antProcessId: antId, cuUrl, signer }))
+      // The registry updates the ACL once the ANT answers its state request
+      await queryClient.invalidateQueries({ queryKey: ['ant-registry-acl'] })
+    } catch (err) {
+      setError(errorMessage(err))
+    } finally {
+      setPending(false)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <Button
+        size="sm"
+        onClick={register}
+        disabled={pending || !connected || !signer}
+        title={
+          connected
+            ? 'Ask the registry to read the ANT state again'
+            : 'Connect a wallet to register the ANT'
+        }
+      >
+        {pending && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+        Register this ANT
+      </Button>
+      {messageId && (
+        <p className="flex items-center text-sm">
+          <Check className="mr-1 h-3 w-3 text-green-600" />
+          <span className="text-muted-foreground">Registered in&nbsp;</span>
+          <Link
+            to="/message/$id"
+            params={{ id: messageId }}
+            className="font-mono hover:underline"
+          >
+            {messageId}
+          </Link>
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
+
+function AccessCheck({
+  antId,
+  address,
+  acl,
+}: {
+  antId: string
+  address: string
+  acl: ANTRegistryACL
+}) {
+  const ant = useANTState(antId)
+
+  if (ant.isLoading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Reading the ANT state...
+      </div>
+    )
+  }
+
+  const diagnosis = diagnoseANTAccess({
+    processId: antId,
+    acl,
+    state: ant.data?.state,
+    address,
+  })
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span
+          className={cn(
+            'inline-flex items-center rounded-full px-2 py-1 text-xs font-medium',
+            ACCESS_STYLES[diagnosis.status],
+          )}
+        >
+          {ACCESS_LABELS[diagnosis.status]}
+        </span>
+        <span className="text-sm">{diagnosis.message}</span>
+      </div>
+      {ant.error && (
+        <p className="text-sm text-destructive">{ant.error.message}</p>
+      )}
+      {ant.data && (
+        <dl className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <Field label="ANT owner">
+            <AddressLink address={ant.data.state.Owner} to="address" />
+          </Field>
+          <Field label="ANT controllers">
+            {ant.data.state.Controllers.length ? (
+              <ul className="space-y-1">
+                {ant.data.state.Controllers.map((controller) => (
+                  <li key={controller}>
+                    <AddressLink address={controller} to="address" />
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <span className="text-muted-foreground">None</span>
+            )}
+          </Field>
+        </dl>
+      )}
+      {(diagnosis.status === 'unregistered' ||
+        diagnosis.status === 'stale') && <RegisterButton antId={antId} />}
+    </div>
+  )
+}
+
+function ACLLookup({
+  initialAddress,
+  initialANT,
+}: {
+  initialAddress: string
+  initialANT: string
+}) {
+  const walletAddress = useWalletAddress()
+  const [addressInput, setAddressInput] = useState(
+    initialAddress || walletAddress || '',
+  )
+  const [antInput, setAntInput] = useState(initialANT)
+  const [lookup, setLookup] = useState({
+    address: initialAddress,
+    ant: initialANT,
+  })
+  const acl = useANTRegistryACL(lookup.address)
+
+  const invalidAddress =
+    addressInput.trim() !== '' && !isValidAddress(addressInput.trim())
+  const invalidANT =
+    antInput.trim() !== '' && !isArweaveAddress(antInput.trim())
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="flex flex-wrap items-end gap-3"
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (invalidAddress || invalidANT) return
+          setLookup({ address: addressInput.trim(), ant: antInput.trim() })
+        }}
+      >
+        <div className="space-y-1">
+          <Label htmlFor="aclAddress">Address</Label>
+          <Input
+            id="aclAddress"
+            value={addressInput}
+            onChange={(e) => setAddressInput(e.target.value)}
+            placeholder="Wallet address"
+            className="h-8 w-96 font-mono"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="aclANT">ANT (optional)</Label>
+          <Input
+            id="aclANT"
+            value={antInput}
+            onChange={(e) => setAntInput(e.target.value)}
+            placeholder="ANT process id to check"
+            className="h-8 w-96 font-mono"
+          />
+        </div>
+        <Button
+          type="submit"
+          size="sm"
+          disabled={!addressInput.trim() || invalidAddress || invalidANT}
+        >
+          <Search className="mr-1 h-3 w-3" />
+          Look up
+        </Button>
+        {walletAddress && walletAddress !== addressInput && (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => setAddressInput(walletAddress)}
+          >
+            Use connected wallet
+          </Button>
+        )}
+      </form>
+      {invalidAddress && (
+        <p className="text-sm text-destructive">
+          Enter an Arweave or Ethereum address
+        </p>
+      )}
+      {invalidANT && (
+        <p className="text-sm text-destructive">
+          Enter the 43 character process id of the ANT
+        </p>
+      )}
+
+      {acl.isLoading && (
+        <div className="flex items-center text-sm text-muted-foreground">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Looking up the registry...
+        </div>
+      )}
+      {acl.error && (
+        <p className="flex items-center text-sm text-destructive">
+          <AlertTriangle className="mr-1 h-3 w-3" />
+          {acl.error.message}
+        </p>
+      )}
+      {acl.data && (
+        <div className="space-y-4">
+          <dl className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <Field label={`Owned (${acl.data.Owned.length})`}>
+              <ANTList ants={acl.data.Owned} />
+            </Field>
+            <Field label={`Controlled (${acl.data.Controlled.length})`}>
+              <ANTList ants={acl.data.Controlled} />
+            </Field>
+          </dl>
+          {lookup.ant && (
+            <div className="border-t pt-4">
+              <AccessCheck
+                key={`${lookup.address}-${lookup.ant}`}
+                antId={lookup.ant}
+                address={lookup.address}
+                acl={acl.data}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ANTRegistryExplorer({
+  initialAddress = '',
+  initialANT = '',
+  className,
+}: ANTRegistryExplorerProps) {
+  const counts = useANTRegistryCounts()
+  const { data: versions } = useANTVersions()
+  const statistics = useANTStatistics()
+  const rows = useMemo(() => toVersionRows(versions), [versions])
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">ANT Registry</h1>
+        <p className="text-muted-foreground">
+          Which ANTs each address owns or controls, as wallets and the ArNS app
+          list them
+        </p>
+        <AddressLink address={ANT_REGISTRY_ID} to="process" />
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <Stat label="Registered ANTs" value={counts.data?.ants} />
+        <Stat label="Users" value={counts.data?.users} />
+        <Stat label="ANTs with ArNS names" value={statistics.totalAnts} />
+      </div>
+      {counts.error && (
+        <p className="flex items-center text-sm text-muted-foreground">
+          <AlertTriangle className="mr-1 h-3 w-3" />
+          Registry counts unavailable: {counts.error.message}
+        </p>
+      )}
+
+      <Section title="Access control lookup">
+        <ACLLookup initialAddress={initialAddress} initialANT={initialANT} />
+      </Section>
+
+      <Section title={`Versions (${rows.length})`}>
+        {rows.length ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Version</th>
+                <th className="py-2 pr-4 font-medium">Released</th>
+                <th className="py-2 pr-4 font-medium">Module</th>
+                <th className="py-2 pr-4 font-medium">Lua source</th>
+                <th className="py-2 pr-4 font-medium">ANTs</th>
+                <th className="py-2 font-medium">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.version} className="border-b last:border-b-0">
+                  <td className="py-2 pr-4 font-mono">v{row.version}</td>
+                  <td className="whitespace-nowrap py-2 pr-4">
+                    {new Date(row.releaseTimestamp).toLocaleDateString()}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <AddressLink address={row.moduleId} to="module" short />
+                  </td>
+                  <td className="py-2 pr-4">
+                    {row.luaSourceId ? (
+                      <Link
+                        to="/message/$id"
+                        params={{ id: row.luaSourceId }}
+                        className="font-mono hover:underline"
+                      >
+                        {formatAddressForDisplay(row.luaSourceId)}
+                      </Link>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 font-mono">
+                    {(
+                      statistics.antVersionCounts[row.moduleId] ?? 0
+                    ).toLocaleString()}
+                  </td>
+                  <td className="py-2 text-muted-foreground">
+                    {row.notes || '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-muted-foreground">Loading versions...</p>
+        )}
+      </Section>
+    </div>
+  )
+}
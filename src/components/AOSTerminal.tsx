@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 
+import { useAoSigner, useConnection } from '@project-kardeshev/ao-wallet-kit'
 import { FitAddon } from '@xterm/addon-fit'
 import { WebLinksAddon } from '@xterm/addon-web-links'
 import { Terminal } from '@xterm/xterm'
@@ -7,20 +8,35 @@ import '@xterm/xterm/css/xterm.css'
 
 import { Button } from '@/components/ui/button'
 import { useAOSProcess } from '@/hooks/useAOSProcess'
+import {
+  type EvalMode,
+  formatEvalError,
+  formatEvalResult,
+  formatNotice,
+  stripAnsi,
+} from '@/lib/aos-eval'
+import { useAppStore } from '@/store/app-store'
+
+const DEFAULT_PROMPT = '> '
 
 interface AOSTerminalProps {
   sessionProcessId?: string
 }
 
 export function AOSTerminal({ sessionProcessId }: AOSTerminalProps) {
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+  const signer = useAoSigner()
+  const { connected: walletConnected } = useConnection()
   const {
     processId,
+    owner,
     isConnected,
     selectedProcessHistory,
     isLoading,
     error,
     connectProcess,
     disconnectProcess,
+    evaluate,
   } = useAOSProcess()
 
   const terminalRef = useRef<HTMLDivElement | null>(null)
@@ -28,9 +44,11 @@ export function AOSTerminal({ sessionProcessId }: AOSTerminalProps) {
   const [terminal, setTerminal] = useState<Terminal | null>(null)
   const [fitAddon, setFitAddon] = useState<FitAddon | null>(null)
   const [isTerminalInitialized, setIsTerminalInitialized] = useState(false)
-  const [currentLine, setCurrentLine] = useState('')
-  const [commandHistory, setCommandHistory] = useState<string[]>([])
-  const [historyIndex, setHistoryIndex] = useState(-1)
+  const [mode, setMode] = useState<EvalMode>('dryrun')
+  // Read from the input handler, which is bound once with the terminal
+  const commandHistoryRef = useRef<string[]>([])
+  const promptRef = useRef(DEFAULT_PROMPT)
+  const busyRef = useRef(false)
 
   const handleDisconnect = useCallback(() => {
     disconnectProcess()
@@ -41,20 +59,17 @@ export function AOSTerminal({ sessionProcessId }: AOSTerminalProps) {
 
   const writePrompt = useCallback(() => {
     if (terminal && isConnected) {
-      terminal.write('> ')
+      terminal.write(promptRef.current)
     }
   }, [terminal, isConnected])
 
   const processCommand = useCallback(
-    (command: string) => {
+    async (command: string) => {
       if (!terminal) return
 
       const trimmedCommand = command.trim()
       if (trimmedCommand) {
-        setCommandHistory((prev) => [...prev, trimmedCommand])
-        setHistoryIndex(-1)
-
-        // Process built-in commands
+        // Process built-in commands, anything else is Lua for the process
         switch (trimmedCommand.toLowerCase()) {
           case 'clear':
             terminal.clear()
@@ -64,36 +79,76 @@ export function AOSTerminal({ sessionProcessId }: AOSTerminalProps) {
             terminal.writeln('  help    - Show this help message')
             terminal.writeln('  clear   - Clear the terminal')
             terminal.writeln('  status  - Show process status')
-            terminal.writeln('  logs    - Show recent logs')
             terminal.writeln('  exit    - Disconnect from process')
+            terminal.writeln('Anything else is evaluated as Lua in the process')
             break
           case 'status':
             terminal.writeln(`\r\nProcess Status:`)
             terminal.writeln(`  ID: ${processId}`)
-            terminal.writeln(`  Status: Connected`)
-            terminal.writeln(`  Uptime: ${new Date().toLocaleString()}`)
-            break
-          case 'logs':
-            terminal.writeln('\r\nRecent logs:')
-            terminal.writeln('  [INFO] Process initialized')
-            terminal.writeln('  [INFO] Terminal connected')
-            terminal.writeln('  [INFO] Ready for commands')
+            terminal.writeln(`  Owner: ${owner}`)
+            terminal.writeln(`  Compute unit: ${cuUrl}`)
+            terminal.writeln(
+              `  Mode: ${mode === 'dryrun' ? 'dry run' : 'signed message'}`,
+            )
             break
           case 'exit':
             terminal.writeln('\r\nDisconnecting...')
             setTimeout(() => handleDisconnect(), 1000)
             return
           default:
-            terminal.writeln(`\r\nExecuting: ${trimmedCommand}`)
-            terminal.writeln('Command executed successfully')
+            busyRef.current = true
+            try {
+              const result = await evaluate(trimmedCommand, mode, signer)
+              if (result.prompt) promptRef.current = result.prompt
+              for (const line of formatEvalResult(result)) {
+                terminal.writeln(line)
+              }
+            } catch (err) {
+              terminal.writeln(formatEvalError(err))
+            } finally {
+              busyRef.current = false
+            }
             break
         }
       }
       writePrompt()
     },
-    [terminal, processId, writePrompt, handleDisconnect],
+    [
+      terminal,
+      processId,
+      owner,
+      cuUrl,
+      mode,
+      signer,
+      evaluate,
+      writePrompt,
+      handleDisconnect,
+    ],
   )
 
+  // Signing is opted into per wallet connection
+  useEffect(() => {
+    if (!walletConnected) setMode('dryrun')
+  }, [walletConnected])
+
+  const processCommandRef = useRef(processCommand)
+  const writePromptRef = useRef(writePrompt)
+  processCommandRef.current = processCommand
+  writePromptRef.current = writePrompt
+
+  const changeMode = (next: EvalMode) => {
+    setMode(next)
+    terminal?.writeln(
+      '\r\n' +
+        formatNotice(
+          next === 'dryrun'
+            ? 'Dry run mode: code is evaluated by the CU and not persisted'
+            : 'Signed mode: code is sent as an Eval message and changes the process',
+        ),
+    )
+    writePrompt()
+  }
+
   useEffect(() => {
     if (terminalRef.current && terminal == null && !isTerminalInitialized) {
       const newTerminal = new Terminal({
@@ -123,9 +178,9 @@ export function AOSTerminal({ sessionProcessId }: AOSTerminalProps) {
 
       const renderLine = () => {
         // Clear the current line and rewrite it
-        newTerminal.write('\r\x1b[K> ' + currentInput)
-        // Position cursor correctly
-        const targetPos = 2 + cursorPosition // 2 for "> "
+        newTerminal.write('\r\x1b[K' + promptRef.current + currentInput)
+        // Position cursor correctly, after the visible prompt
+        const targetPos = stripAnsi(promptRef.current).length + cursorPosition
         newTerminal.write('\r')
         for (let i = 0; i < targetPos; i++) {
           newTerminal.write('\x1b[C') // Move cursor right
@@ -135,10 +190,10 @@ export function AOSTerminal({ sessionProcessId }: AOSTerminalProps) {
       const executeCommand = (command: string) => {
         newTerminal.write('\r\n')
         if (command.trim()) {
-          setCommandHistory((prev) => [...prev, command.trim()])
-          processCommand(command.trim())
+          commandHistoryRef.current.push(command.trim())
+          processCommandRef.current(command.trim())
         } else {
-          writePrompt()
+          writePromptRef.current()
         }
         currentInput = ''
         cursorPosition = 0
@@ -180,6 +235,9 @@ export function AOSTerminal({ sessionProcessId }: AOSTerminalProps) {
 
       // Handle keyboard input with proper terminal behavior
       newTerminal.onData((data) => {
+        // Input is ignored while an evaluation is running
+        if (busyRef.current) return
+
         // Debug: log the raw data to see what key combinations actually send
         if (
           data.length > 1 ||
@@ -213,6 +271,7 @@ export function AOSTerminal({ sessionProcessId }: AOSTerminalProps) {
               const escapeCode = data[i + 2]
               if (escapeCode === 'A') {
                 // Up arrow
+                const commandHistory = commandHistoryRef.current
                 if (historyPos < commandHistory.length - 1) {
                   historyPos++
                   const cmd =
@@ -224,6 +283,7 @@ export function AOSTerminal({ sessionProcessId }: AOSTerminalProps) {
                 i += 2 // Skip the escape sequence
               } else if (escapeCode === 'B') {
                 // Down arrow
+                const commandHistory = commandHistoryRef.current
                 if (historyPos > 0) {
                   historyPos--
                   const cmd =
@@ -382,7 +442,7 @@ export function AOSTerminal({ sessionProcessId }: AOSTerminalProps) {
             currentInput = ''
             cursorPosition = 0
             historyPos = -1
-            writePrompt()
+            writePromptRef.current()
           } else if (code === 12) {
             // Ctrl+L
             newTerminal.clear()
@@ -436,6 +496,7 @@ export function AOSTerminal({ sessionProcessId }: AOSTerminalProps) {
   ])
 
   useEffect(() => {
+    promptRef.current = DEFAULT_PROMPT
     if (terminal !== null) {
       terminal.reset()
     }
@@ -498,6 +559,30 @@ export function AOSTerminal({ sessionProcessId }: AOSTerminalProps) {
           >
             Disconnect
           </Button>
+          <span className="ml-4">Evaluate as:</span>
+          <Button
+            onClick={() => changeMode('dryrun')}
+            variant={mode === 'dryrun' ? 'default' : 'outline'}
+            size="sm"
+            className="ml-2 h-6 text-xs"
+            title="Evaluate on the CU without changing the process"
+          >
+            Dry run
+          </Button>
+          <Button
+            onClick={() => changeMode('message')}
+            variant={mode === 'message' ? 'default' : 'outline'}
+            size="sm"
+            className="ml-1 h-6 text-xs"
+            disabled={!walletConnected || !signer}
+            title={
+              walletConnected
+                ? 'Send a signed Eval message that changes the process'
+                : 'Connect a wallet to send signed messages'
+            }
+          >
+            Signed message
+          </Button>
         </div>
       )}
 
@@ -0,0 +1,560 @@
+import { useMemo, useState } from 'react'
+
+import { Link, useNavigate } from '@tanstack/react-router'
+import { type ColumnDef } from '@tanstack/react-table'
+import {
+  flexRender,
+  getCoreRowModel,
+  getSortedRowModel,
+  useReactTable,
+} from '@tanstack/react-table'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Check,
+  ChevronRight,
+  Clock,
+  Copy,
+  Download,
+  ExternalLink,
+  File,
+  Folder,
+  History,
+  Loader2,
+  Lock,
+} from 'lucide-react'
+
+import { ARFSDriveUnlock } from '@/components/ARFSDriveUnlock'
+import { ARFSFolderExport } from '@/components/ARFSFolderExport'
+import { ARFSRevisionHistory } from '@/components/ARFSRevisionHistory'
+import { Button } from '@/components/ui/button'
+import { useArFSDownload } from '@/hooks/useArFSDownload'
+import { useArFSDriveTree } from '@/hooks/useArFSDriveTree'
+import { formatAddressForDisplay } from '@/lib/address-utils'
+import {
+  type ArFSEntityType,
+  type ArFSFile,
+  type ArFSTreeNode,
+  entityId,
+  entityName,
+  findFolderNode,
+  folderPath,
+} from '@/lib/arfs-client'
+import { cn } from '@/lib/utils'
+
+interface ARFSDriveBrowserProps {
+  driveId: string
+  folderId?: string
+  // Entity whose revision history is open
+  historyId?: string
+  className?: string
+}
+
+export function ARFSDriveBrowser({
+  driveId,
+  folderId,
+  historyId,
+  className,
+}: ARFSDriveBrowserProps) {
+  const navigate = useNavigate()
+  const { tree, loading, error, decryptor, refetch } = useArFSDriveTree(driveId)
+  const [copiedItems, setCopiedItems] = useState<Set<string>>(new Set())
+  const {
+    downloading,
+    error: downloadError,
+    downloadFile,
+  } = useArFSDownload(decryptor)
+
+  // Copy to clipboard helper with animation
+  const copyToClipboard = async (text: string, itemId: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopiedItems((prev) => new Set(prev).add(itemId))
+      // Remove the copied state after 2 seconds
+      setTimeout(() => {
+        setCopiedItems((prev) => {
+          const newSet = new Set(prev)
+          newSet.delete(itemId)
+          return newSet
+        })
+      }, 2000)
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err)
+    }
+  }
+
+  // Resolve the folder being browsed, the drive root by default
+  const currentFolder = useMemo(() => {
+    if (!tree) return null
+    return folderId ? findFolderNode(tree, folderId) : tree.root
+  }, [tree, folderId])
+
+  const breadcrumbs = useMemo(
+    () =>
+      tree && currentFolder
+        ? folderPath(tree, entityId(currentFolder.entity))
+        : [],
+    [tree, currentFolder],
+  )
+
+  const isUnlocked = decryptor.isUnlocked(driveId)
+
+  const historyType = useMemo<ArFSEntityType | null>(() => {
+    if (!tree || !historyId) return null
+    if (historyId === driveId) return 'drive'
+    return findFolderNode(tree, historyId) ? 'folder' : 'file'
+  }, [tree, historyId, driveId])
+
+  const isOrphanBranch =
+    !!tree &&
+    breadcrumbs.length > 0 &&
+    breadcrumbs[0].folderId !== (tree.root && entityId(tree.root.entity))
+
+  // Define table columns
+  const columns = useMemo<Array<ColumnDef<ArFSTreeNode>>>(
+    () => [
+      {
+        id: 'name',
+        header: 'Name',
+        accessorFn: (node) => entityName(node.entity),
+        cell: ({ row }) => {
+          const node = row.original
+          const Icon = node.type === 'folder' ? Folder : File
+          return (
+            <div className="flex items-center space-x-2">
+              <Icon
+                className={cn(
+                  'h-4 w-4',
+                  node.type === 'folder'
+                    ? 'text-yellow-500'
+                    : 'text-muted-foreground',
+                )}
+              />
+              {node.type === 'folder' ? (
+                <Link
+                  to="/arfs/explorer/$driveId"
+                  params={{ driveId }}
+                  search={{ folderId: entityId(node.entity) }}
+                  className="font-medium hover:underline"
+                >
+                  {entityName(node.entity)}
+                </Link>
+              ) : (
+                <span className="font-medium">{entityName(node.entity)}</span>
+              )}
+              {node.type === 'folder' && (
+                <span className="text-xs text-muted-foreground">
+                  {node.children.length} items
+                </span>
+              )}
+            </div>
+          )
+        },
+      },
+      {
+        id: 'entityId',
+        header: 'Entity ID',
+        accessorFn: (node) => entityId(node.entity),
+        cell: ({ row }) => {
+          const id = entityId(row.original.entity)
+          return (
+            <div className="flex items-center space-x-2">
+              <span className="font-mono text-sm">
+                {formatAddressForDisplay(id)}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => copyToClipboard(id, `entity-${id}`)}
+                title={
+                  copiedItems.has(`entity-${id}`) ? 'Copied!' : 'Copy Entity ID'
+                }
+              >
+                {copiedItems.has(`entity-${id}`) ? (
+                  <Check className="h-3 w-3 text-green-500" />
+                ) : (
+                  <Copy className="h-3 w-3" />
+                )}
+              </Button>
+            </div>
+          )
+        },
+      },
+      {
+        id: 'transaction',
+        header: 'Latest Revision',
+        accessorFn: (node) => node.entity.id,
+        cell: ({ row }) => {
+          const { id } = row.original.entity
+          return (
+            <div className="flex items-center space-x-2">
+              <span className="font-mono text-sm">
+                {formatAddressForDisplay(id)}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => copyToClipboard(id, `tx-${id}`)}
+                title={
+                  copiedItems.has(`tx-${id}`)
+                    ? 'Copied!'
+                    : 'Copy Transaction ID'
+                }
+              >
+                {copiedItems.has(`tx-${id}`) ? (
+                  <Check className="h-3 w-3 text-green-500" />
+                ) : (
+                  <Copy className="h-3 w-3" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() =>
+                  window.open(`https://arscan.io/tx/${id}`, '_blank')
+                }
+                title="View on ArScan"
+              >
+                <ExternalLink className="h-3 w-3" />
+              </Button>
+            </div>
+          )
+        },
+      },
+      {
+        id: 'unixTime',
+        header: 'Modified',
+        accessorFn: (node) => node.entity.unixTime,
+        cell: ({ row }) => {
+          const { unixTime } = row.original.entity
+          if (!unixTime) return <span className="text-muted-foreground">-</span>
+
+          const date = new Date(unixTime * 1000)
+          return (
+            <div className="flex items-center space-x-1">
+              <Clock className="h-3 w-3 text-muted-foreground" />
+              <div className="flex flex-col">
+                <span className="text-sm">{date.toLocaleDateString()}</span>
+                <span className="text-xs text-muted-foreground">
+                  {date.toLocaleTimeString()}
+                </span>
+              </div>
+            </div>
+          )
+        },
+      },
+      {
+        id: 'actions',
+        header: '',
+        enableSorting: false,
+        cell: ({ row }) => {
+          const node = row.original
+          const file = node.type === 'file' ? (node.entity as ArFSFile) : null
+          return (
+            <div className="flex items-center space-x-2">
+              {file && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  disabled={!file.metadata || !!downloading}
+                  onClick={() => downloadFile(file)}
+                  title={
+                    file.metadata
+                      ? `Download ${file.metadata.name}`
+                      : 'File metadata is not available'
+                  }
+                >
+                  {downloading === file.fileId ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
+              <Link
+                to="/arfs/explorer/$driveId"
+                params={{ driveId }}
+                search={{ folderId, history: entityId(node.entity) }}
+                className="flex items-center text-sm text-muted-foreground hover:text-foreground"
+                title="Show revision history"
+              >
+                <History className="h-4 w-4" />
+              </Link>
+            </div>
+          )
+        },
+      },
+    ],
+    [copiedItems, driveId, folderId, downloading],
+  )
+
+  // Table configuration
+  const table = useReactTable({
+    data: currentFolder?.children ?? [],
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    enableSorting: true,
+  })
+
+  // Loading state
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="flex items-center space-x-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="text-muted-foreground">Loading ArFS drive...</span>
+        </div>
+      </div>
+    )
+  }
+
+  // Error state
+  if (error || !tree) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-center">
+          <p className="text-destructive">Failed to load ArFS drive</p>
+          <p className="text-sm text-muted-foreground">{error?.message}</p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            className="mt-2"
+          >
+            Try Again
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">
+            {tree.drive?.metadata?.name || formatAddressForDisplay(driveId)}
+          </h1>
+          <p className="font-mono text-sm text-muted-foreground">{driveId}</p>
+        </div>
+        <div className="space-y-1 text-right">
+          <div className="text-sm text-muted-foreground">
+            <span>
+              {tree.folderCount.toLocaleString()} folders,{' '}
+              {tree.fileCount.toLocaleString()} files
+            </span>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link
+              to="/arfs/explorer/$driveId"
+              params={{ driveId }}
+              search={{ folderId, history: driveId }}
+            >
+              <History className="mr-1 h-3 w-3" />
+              Drive history
+            </Link>
+          </Button>
+          {isUnlocked && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                decryptor.lock(driveId)
+                refetch()
+              }}
+            >
+              <Lock className="mr-1 h-3 w-3" />
+              Lock drive
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Private drive unlock */}
+      {tree.drive?.privacy === 'private' && !isUnlocked && (
+        <ARFSDriveUnlock
+          drive={tree.drive}
+          decryptor={decryptor}
+          onUnlocked={() => refetch()}
+        />
+      )}
+
+      {/* Breadcrumbs */}
+      <nav className="flex flex-wrap items-center gap-1 text-sm">
+        <Link
+          to="/arfs/explorer"
+          className="flex items-center text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Drives
+        </Link>
+        {isOrphanBranch && (
+          <>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+            <span className="text-yellow-600 dark:text-yellow-400">
+              Orphaned
+            </span>
+          </>
+        )}
+        {breadcrumbs.map((folder) => (
+          <span key={folder.folderId} className="flex items-center gap-1">
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+            <Link
+              to="/arfs/explorer/$driveId"
+              params={{ driveId }}
+              search={{ folderId: folder.folderId }}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              {entityName(folder)}
+            </Link>
+          </span>
+        ))}
+      </nav>
+
+      {/* Downloads */}
+      {currentFolder && (
+        <ARFSFolderExport
+          key={entityId(currentFolder.entity)}
+          folder={currentFolder}
+          decryptor={decryptor}
+        />
+      )}
+      {downloadError && (
+        <p className="text-sm text-destructive">
+          Download failed: {downloadError.message}
+        </p>
+      )}
+
+      {/* Table */}
+      {currentFolder ? (
+        <div className="rounded-md border">
+          <table className="w-full">
+            <thead>
+              {table.getHeaderGroups().map((headerGroup) => (
+                <tr key={headerGroup.id} className="bg-muted/50 border-b">
+                  {headerGroup.headers.map((header) => (
+                    <th
+                      key={header.id}
+                      className="px-4 py-3 text-left font-medium"
+                    >
+                      {header.isPlaceholder
+                        ? null
+                        : flexRender(
+                            header.column.columnDef.header,
+                            header.getContext(),
+                          )}
+                    </th>
+                  ))}
+                </tr>
+              ))}
+            </thead>
+            <tbody>
+              {table.getRowModel().rows?.length ? (
+                table.getRowModel().rows.map((row) => (
+                  <tr
+                    key={row.id}
+                    className="hover:bg-muted/50 border-b transition-colors"
+                  >
+                    {row.getVisibleCells().map((cell) => (
+                      <td key={cell.id} className="px-4 py-3">
+                        {flexRender(
+                          cell.column.columnDef.cell,
+                          cell.getContext(),
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td
+                    colSpan={columns.length}
+                    className="px-4 py-8 text-center text-muted-foreground"
+                  >
+                    This folder is empty
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="rounded-md border px-4 py-8 text-center text-muted-foreground">
+          {folderId
+            ? `Folder ${folderId} is not part of this drive`
+            : 'No root folder found for this drive'}
+        </div>
+      )}
+
+      {/* Revision history */}
+      {historyId && historyType && (
+        <ARFSRevisionHistory
+          key={historyId}
+          entityType={historyType}
+          entityId={historyId}
+          driveOwner={tree.drive?.owner}
+          onClose={() =>
+            navigate({
+              to: '/arfs/explorer/$driveId',
+              params: { driveId },
+              search: { folderId },
+            })
+          }
+        />
+      )}
+
+      {/* Orphans, only listed at the drive root */}
+      {!folderId && tree.orphans.length > 0 && (
+        <div className="space-y-2 rounded-md border border-yellow-500/50 p-4">
+          <div className="flex items-center space-x-2">
+            <AlertTriangle className="h-4 w-4 text-yellow-500" />
+            <h2 className="font-semibold">
+              {tree.orphans.length} orphaned{' '}
+              {tree.orphans.length === 1 ? 'entity' : 'entities'}
+            </h2>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            These folders and files are not reachable from the root folder,
+            usually because their Parent-Folder-Id does not exist in this drive.
+          </p>
+          <ul className="space-y-1">
+            {tree.orphans.map((node) => (
+              <li
+                key={entityId(node.entity)}
+                className="flex items-center space-x-2 text-sm"
+              >
+                {node.type === 'folder' ? (
+                  <>
+                    <Folder className="h-4 w-4 text-yellow-500" />
+                    <Link
+                      to="/arfs/explorer/$driveId"
+                      params={{ driveId }}
+                      search={{ folderId: entityId(node.entity) }}
+                      className="hover:underline"
+                    >
+                      {entityName(node.entity)}
+                    </Link>
+                  </>
+                ) : (
+                  <>
+                    <File className="h-4 w-4 text-muted-foreground" />
+                    <span>{entityName(node.entity)}</span>
+                  </>
+                )}
+                <span className="font-mono text-xs text-muted-foreground">
+                  parent {node.entity.parentFolderId ?? 'none'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
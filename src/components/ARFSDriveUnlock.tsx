@@ -0,0 +1,134 @@
+import { useState } from 'react'
+
+import { useApi, useConnection } from '@project-kardeshev/ao-wallet-kit'
+import { KeyRound, Loader2, Lock, Wallet } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { ArFSDecryptor, ArFSDrive } from '@/lib/arfs-client'
+import { cn } from '@/lib/utils'
+
+interface ARFSDriveUnlockProps {
+  drive: ArFSDrive
+  decryptor: ArFSDecryptor
+  onUnlocked: () => void
+  className?: string
+}
+
+type UnlockMode = 'wallet' | 'key'
+
+export function ARFSDriveUnlock({
+  drive,
+  decryptor,
+  onUnlocked,
+  className,
+}: ARFSDriveUnlockProps) {
+  const api = useApi()
+  const { connected, connect } = useConnection()
+  const [mode, setMode] = useState<UnlockMode>('wallet')
+  const [secret, setSecret] = useState('')
+  const [unlocking, setUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const canSign = connected && !!api?.signature
+
+  const unlock = async () => {
+    setUnlocking(true)
+    setError(null)
+
+    try {
+      if (mode === 'wallet') {
+        if (!api?.signature) {
+          throw new Error('The connected wallet cannot sign data')
+        }
+        const signature = api.signature.bind(api)
+        await decryptor.unlockWithWallet(drive, secret, (data) =>
+          signature(data, { name: 'RSA-PSS', saltLength: 0 }),
+        )
+      } else {
+        await decryptor.unlockWithKey(drive, secret)
+      }
+
+      setSecret('')
+      onUnlocked()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock drive')
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  return (
+    <div className={cn('space-y-3 rounded-md border p-4', className)}>
+      <div className="flex items-center space-x-2">
+        <Lock className="h-4 w-4 text-yellow-500" />
+        <h2 className="font-semibold">Private drive</h2>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Names and file contents are encrypted. Keys are derived in this browser
+        and kept in memory until the page is closed, they are never stored.
+      </p>
+
+      {/* Unlock method */}
+      <div className="flex space-x-2">
+        <Button
+          variant={mode === 'wallet' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setMode('wallet')}
+        >
+          <Wallet className="mr-1 h-4 w-4" />
+          Wallet and password
+        </Button>
+        <Button
+          variant={mode === 'key' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setMode('key')}
+        >
+          <KeyRound className="mr-1 h-4 w-4" />
+          Drive key
+        </Button>
+      </div>
+
+      {mode === 'wallet' && !connected ? (
+        <Button variant="outline" size="sm" onClick={() => connect()}>
+          Connect wallet
+        </Button>
+      ) : (
+        <form
+          className="flex space-x-2"
+          onSubmit={(event) => {
+            event.preventDefault()
+            unlock()
+          }}
+        >
+          <Input
+            type="password"
+            autoComplete="off"
+            value={secret}
+            onChange={(event) => setSecret(event.target.value)}
+            placeholder={
+              mode === 'wallet' ? 'Drive password' : 'Base64url drive key'
+            }
+            className="max-w-sm"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={!secret || unlocking || (mode === 'wallet' && !canSign)}
+          >
+            {unlocking && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+            Unlock
+          </Button>
+        </form>
+      )}
+
+      {mode === 'wallet' && connected && !canSign && (
+        <p className="text-sm text-muted-foreground">
+          The connected wallet does not support signing data, use a drive key
+          instead.
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
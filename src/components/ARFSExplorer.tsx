@@ -1,5 +1,6 @@
 import { useMemo, useState } from 'react'
 
+import { Link } from '@tanstack/react-router'
 import { type ColumnDef } from '@tanstack/react-table'
 import {
   flexRender,
@@ -7,7 +8,14 @@ import {
   getSortedRowModel,
   useReactTable,
 } from '@tanstack/react-table'
-import { Check, Copy, ExternalLink, Loader2 } from 'lucide-react'
+import {
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  ExternalLink,
+  Loader2,
+} from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import { useArFSDrives } from '@/hooks/useArFSDrives'
@@ -20,7 +28,20 @@ interface ARFSExplorerProps {
 }
 
 export function ARFSExplorer({ className }: ARFSExplorerProps) {
-  const { drives, loading, error, refetch } = useArFSDrives()
+  const {
+    drives,
+    total,
+    privacyStats,
+    page,
+    pageCount,
+    hasNextPage,
+    hasPreviousPage,
+    nextPage,
+    previousPage,
+    loading,
+    error,
+    refetch,
+  } = useArFSDrives()
   const [copiedItems, setCopiedItems] = useState<Set<string>>(new Set())
 
   // Copy to clipboard helper with animation
@@ -44,6 +65,25 @@ export function ARFSExplorer({ className }: ARFSExplorerProps) {
   // Define table columns
   const columns = useMemo<Array<ColumnDef<ArFSDrive>>>(
     () => [
+      {
+        id: 'name',
+        header: 'Name',
+        accessorFn: (drive) => drive.metadata?.name ?? '',
+        cell: ({ row }) => {
+          const drive = row.original
+          return drive.metadata ? (
+            <Link
+              to="/arfs/explorer/$driveId"
+              params={{ driveId: drive.driveId }}
+              className="font-medium hover:underline"
+            >
+              {drive.metadata.name}
+            </Link>
+          ) : (
+            <span className="text-muted-foreground">-</span>
+          )
+        },
+      },
       {
         accessorKey: 'driveId',
         header: 'Drive ID',
@@ -51,9 +91,14 @@ export function ARFSExplorer({ className }: ARFSExplorerProps) {
           const drive = row.original
           return (
             <div className="flex items-center space-x-2">
-              <span className="font-mono text-sm">
+              <Link
+                to="/arfs/explorer/$driveId"
+                params={{ driveId: drive.driveId }}
+                className="font-mono text-sm hover:underline"
+                title="Browse drive"
+              >
                 {formatAddressForDisplay(drive.driveId)}
-              </span>
+              </Link>
               <Button
                 variant="ghost"
                 size="sm"
@@ -206,8 +251,8 @@ export function ARFSExplorer({ className }: ARFSExplorerProps) {
     enableSorting: true,
   })
 
-  // Loading state
-  if (loading) {
+  // Loading state, pages after the first keep showing the current one
+  if (loading && drives.length === 0) {
     return (
       <div className="flex h-64 items-center justify-center">
         <div className="flex items-center space-x-2">
@@ -245,13 +290,20 @@ export function ARFSExplorer({ className }: ARFSExplorerProps) {
         <div>
           <h1 className="text-2xl font-bold">ArFS Explorer</h1>
           <p className="text-muted-foreground">
-            Browse Arweave File System (ArFS) drives
+            Browse Arweave File System (ArFS) drives, select a drive to open its
+            folders and files
           </p>
         </div>
         <div className="text-right">
           <div className="text-sm text-muted-foreground">
-            <span>Total: {drives.length.toLocaleString()} drives</span>
+            <span>Total: {total.toLocaleString()} drives</span>
           </div>
+          {privacyStats && (
+            <div className="text-xs text-muted-foreground">
+              {privacyStats.public.toLocaleString()} public,{' '}
+              {privacyStats.private.toLocaleString()} private
+            </div>
+          )}
         </div>
       </div>
 
@@ -307,6 +359,36 @@ export function ARFSExplorer({ className }: ARFSExplorerProps) {
           </tbody>
         </table>
       </div>
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <div className="flex items-center justify-end space-x-2">
+          {loading && (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+          <span className="text-sm text-muted-foreground">
+            Page {(page + 1).toLocaleString()} of {pageCount.toLocaleString()}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={previousPage}
+            disabled={!hasPreviousPage || loading}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={nextPage}
+            disabled={!hasNextPage || loading}
+          >
+            Next
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,152 @@
+import { useState } from 'react'
+
+import { AlertTriangle, Download, Loader2, X } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  MAX_BUFFERED_EXPORT_SIZE,
+  useArFSDownload,
+} from '@/hooks/useArFSDownload'
+import {
+  type ArFSDecryptor,
+  type ArFSTreeNode,
+  entityName,
+} from '@/lib/arfs-client'
+import { cn } from '@/lib/utils'
+
+interface ARFSFolderExportProps {
+  folder: ArFSTreeNode
+  decryptor?: ArFSDecryptor
+  className?: string
+}
+
+// Format bytes to human readable
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB']
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), 3)
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i]
+}
+
+export function ARFSFolderExport({
+  folder,
+  decryptor,
+  className,
+}: ARFSFolderExportProps) {
+  const [expandManifests, setExpandManifests] = useState(false)
+  const {
+    streamsExports,
+    downloading,
+    progress,
+    failures,
+    error,
+    exportFolder,
+    cancel,
+  } = useArFSDownload(decryptor)
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex flex-wrap items-center gap-4">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!!downloading}
+          onClick={() => exportFolder(folder, expandManifests)}
+        >
+          {downloading ? (
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+          ) : (
+            <Download className="mr-1 h-3 w-3" />
+          )}
+          Download {entityName(folder.entity)} as zip
+        </Button>
+        <Label>
+          <Switch
+            checked={expandManifests}
+            onCheckedChange={setExpandManifests}
+            disabled={!!downloading}
+          />
+          Include files of manifests
+        </Label>
+      </div>
+      {!streamsExports && (
+        <p className="text-xs text-muted-foreground">
+          This browser holds the archive in memory until it is saved, so exports
+          stop at {formatBytes(MAX_BUFFERED_EXPORT_SIZE)}. Chrome and Edge write
+          it to disk as files arrive.
+        </p>
+      )}
+
+      {/* Progress */}
+      {downloading && progress && (
+        <div className="space-y-1 rounded-md border p-3 text-sm">
+          <div className="flex items-center justify-between">
+            <span>
+              {progress.completed.toLocaleString()} of{' '}
+              {progress.total.toLocaleString()} files,{' '}
+              {formatBytes(progress.bytes)}
+              {progress.skipped > 0 &&
+                `, ${progress.skipped.toLocaleString()} resumed`}
+              {progress.failed > 0 &&
+                `, ${progress.failed.toLocaleString()} failed`}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={cancel}
+              title="Cancel download"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <progress
+            className="h-2 w-full"
+            value={progress.completed}
+            max={Math.max(progress.total, 1)}
+          />
+          {progress.current && (
+            <p className="truncate font-mono text-xs text-muted-foreground">
+              {progress.current}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Error state */}
+      {error && (
+        <p className="text-sm text-destructive">
+          Download failed: {error.message}
+        </p>
+      )}
+
+      {/* Files left out of the last export */}
+      {!downloading && failures.length > 0 && (
+        <div className="space-y-2 rounded-md border border-yellow-500/50 p-3 text-sm">
+          <div className="flex items-center space-x-2">
+            <AlertTriangle className="h-4 w-4 text-yellow-500" />
+            <span className="font-medium">
+              {failures.length} {failures.length === 1 ? 'file' : 'files'} could
+              not be downloaded
+            </span>
+          </div>
+          <p className="text-muted-foreground">
+            Download the folder again to retry them, files that were already
+            fetched are not downloaded twice.
+          </p>
+          <ul className="space-y-1">
+            {failures.map((failure) => (
+              <li key={failure.path} className="break-all">
+                <span className="font-mono">{failure.path}</span>{' '}
+                <span className="text-muted-foreground">{failure.error}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
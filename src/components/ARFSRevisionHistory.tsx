@@ -0,0 +1,196 @@
+import {
+  AlertTriangle,
+  Clock,
+  ExternalLink,
+  History,
+  Loader2,
+  X,
+} from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { useArFSRevisions } from '@/hooks/useArFSRevisions'
+import { formatAddressForDisplay } from '@/lib/address-utils'
+import type { ArFSChangeKind, ArFSEntityType } from '@/lib/arfs-client'
+import { cn } from '@/lib/utils'
+
+interface ARFSRevisionHistoryProps {
+  entityType: ArFSEntityType
+  entityId: string
+  // Revisions signed by anyone else are flagged
+  driveOwner?: string
+  onClose?: () => void
+  className?: string
+}
+
+const KIND_STYLES: Record<ArFSChangeKind, string> = {
+  created: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  renamed: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  moved:
+    'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  privacy:
+    'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  owner: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  hidden: 'bg-muted text-muted-foreground',
+  content: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  updated: 'bg-muted text-muted-foreground',
+}
+
+export function ARFSRevisionHistory({
+  entityType,
+  entityId,
+  driveOwner,
+  onClose,
+  className,
+}: ARFSRevisionHistoryProps) {
+  const { revisions, loading, error, refetch } = useArFSRevisions(
+    entityType,
+    entityId,
+  )
+
+  return (
+    <div className={cn('space-y-4 rounded-md border p-4', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <History className="h-4 w-4" />
+          <h2 className="font-semibold">
+            Revision history of {entityType}{' '}
+            <span className="font-mono text-sm text-muted-foreground">
+              {formatAddressForDisplay(entityId)}
+            </span>
+          </h2>
+        </div>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={onClose}
+            title="Close history"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {/* Loading state */}
+      {loading && (
+        <div className="flex items-center space-x-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="text-muted-foreground">Loading revisions...</span>
+        </div>
+      )}
+
+      {/* Error state */}
+      {!loading && error && (
+        <div className="text-sm">
+          <p className="text-destructive">Failed to load revisions</p>
+          <p className="text-muted-foreground">{error.message}</p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            className="mt-2"
+          >
+            Try Again
+          </Button>
+        </div>
+      )}
+
+      {!loading && !error && revisions.length === 0 && (
+        <p className="text-sm text-muted-foreground">No revisions found</p>
+      )}
+
+      {/* Timeline */}
+      {!loading && !error && revisions.length > 0 && (
+        <ol className="space-y-4 border-l pl-4">
+          {revisions.map(({ entity, changes, kinds }) => {
+            const foreignOwner = !!driveOwner && entity.owner !== driveOwner
+            return (
+              <li key={entity.id} className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-mono font-medium">
+                    #{entity.height.toString()}
+                  </span>
+                  <span className="flex items-center text-muted-foreground">
+                    <Clock className="mr-1 h-3 w-3" />
+                    {new Date(entity.unixTime * 1000).toLocaleString()}
+                  </span>
+                  <span
+                    className={cn(
+                      'flex items-center font-mono',
+                      foreignOwner && 'text-destructive',
+                    )}
+                    title={entity.owner}
+                  >
+                    {foreignOwner && <AlertTriangle className="mr-1 h-3 w-3" />}
+                    {formatAddressForDisplay(entity.owner)}
+                  </span>
+                  <a
+                    href={`https://arscan.io/tx/${entity.id}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex items-center font-mono text-muted-foreground hover:text-foreground"
+                  >
+                    {formatAddressForDisplay(entity.id)}
+                    <ExternalLink className="ml-1 h-3 w-3" />
+                  </a>
+                  {kinds.map((kind) => (
+                    <span
+                      key={kind}
+                      className={cn(
+                        'inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium',
+                        KIND_STYLES[kind],
+                      )}
+                    >
+                      {kind}
+                    </span>
+                  ))}
+                </div>
+
+                {changes.length > 0 ? (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="py-1 pr-4 font-medium">Field</th>
+                        <th className="py-1 pr-4 font-medium">Before</th>
+                        <th className="py-1 font-medium">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changes.map((change) => (
+                        <tr
+                          key={`${change.source}:${change.field}`}
+                          className="border-t"
+                        >
+                          <td className="py-1 pr-4">
+                            <span className="font-medium">{change.field}</span>{' '}
+                            <span className="text-xs text-muted-foreground">
+                              {change.source}
+                            </span>
+                          </td>
+                          <td className="break-all py-1 pr-4 font-mono text-red-600 line-through dark:text-red-400">
+                            {change.before ?? ''}
+                          </td>
+                          <td className="break-all py-1 font-mono text-green-600 dark:text-green-400">
+                            {change.after ?? ''}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  !kinds.includes('created') && (
+                    <p className="text-sm text-muted-foreground">
+                      No field changes
+                    </p>
+                  )
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,311 @@
+import { type ReactNode } from 'react'
+
+import { type ColumnDef } from '@tanstack/react-table'
+import { Copy, ExternalLink, Loader2 } from 'lucide-react'
+
+import { Field, Section } from '@/components/DetailSection'
+import { InfiniteTable } from '@/components/InfiniteTable'
+import {
+  dateColumn,
+  getMessagesFromPage,
+  messageColumns,
+  processColumns,
+  tokenColumns,
+} from '@/components/MessageColumns'
+import { Button } from '@/components/ui/button'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { useAddressIdentity, usePrimaryName } from '@/hooks/useAddress'
+import { type AddressIdentity } from '@/lib/address-utils'
+import {
+  type AoMessage,
+  useInfiniteModules,
+  useInfiniteOutgoingMessages,
+  useInfiniteOwnedDomainsHistory,
+  useInfiniteSpawnedProcesses,
+  useInfiniteTokenTransfers,
+} from '@/lib/ao-queries'
+import { cn } from '@/lib/utils'
+import { useAppStore } from '@/store/app-store'
+
+const PAGE_SIZE = 50
+
+interface AddressDetailProps {
+  address: string
+  className?: string
+}
+
+// Copy to clipboard helper
+const copyToClipboard = async (text: string) => {
+  try {
+    await navigator.clipboard.writeText(text)
+  } catch (error) {
+    console.error('Failed to copy to clipboard:', error)
+  }
+}
+
+const domainColumns: Array<ColumnDef<AoMessage>> = [
+  messageColumns[0],
+  {
+    accessorKey: 'tags.Name',
+    header: 'Name',
+    cell: ({ row }) =>
+      row.original.tags['Name'] ?? (
+        <span className="text-muted-foreground">-</span>
+      ),
+  },
+  { ...dateColumn, header: 'Purchased' },
+]
+
+// Lists queried by owner cannot be shown for a 0x address whose key has not
+// been seen, see resolveAddressIdentity
+function UnknownOwner() {
+  return (
+    <div className="flex h-32 items-center justify-center text-center">
+      <p className="max-w-md text-sm text-muted-foreground">
+        Transactions are indexed by the owner address derived from the signing
+        key, which is not known for this Ethereum address. Open the wallet from
+        one of its messages to see what it signed.
+      </p>
+    </div>
+  )
+}
+
+function OutgoingMessages({ owner }: { owner: string }) {
+  const query = useInfiniteOutgoingMessages(owner, PAGE_SIZE)
+  return (
+    <InfiniteTable
+      query={query as any}
+      getDataFromPage={getMessagesFromPage}
+      columns={messageColumns}
+      emptyMessage="No messages sent"
+      loadingMessage="Loading messages..."
+      errorMessage="Failed to load messages"
+    />
+  )
+}
+
+function SpawnedProcesses({ owner }: { owner: string }) {
+  const query = useInfiniteSpawnedProcesses(owner, PAGE_SIZE)
+  return (
+    <InfiniteTable
+      query={query as any}
+      getDataFromPage={getMessagesFromPage}
+      columns={processColumns}
+      emptyMessage="No processes spawned"
+      loadingMessage="Loading processes..."
+      errorMessage="Failed to load processes"
+    />
+  )
+}
+
+function UploadedModules({ owner }: { owner: string }) {
+  const query = useInfiniteModules(PAGE_SIZE, false, [owner])
+  return (
+    <InfiniteTable
+      query={query as any}
+      getDataFromPage={getMessagesFromPage}
+      columns={processColumns.filter((column) => column.header !== 'Module')}
+      emptyMessage="No modules uploaded"
+      loadingMessage="Loading modules..."
+      errorMessage="Failed to load modules"
+    />
+  )
+}
+
+function TokenTransfers({ address }: { address: string }) {
+  const query = useInfiniteTokenTransfers(address, PAGE_SIZE)
+  return (
+    <InfiniteTable
+      query={query as any}
+      getDataFromPage={getMessagesFromPage}
+      columns={tokenColumns}
+      emptyMessage="No token transfers"
+      loadingMessage="Loading token transfers..."
+      errorMessage="Failed to load token transfers"
+    />
+  )
+}
+
+function OwnedDomains({ address }: { address: string }) {
+  const query = useInfiniteOwnedDomainsHistory(address, PAGE_SIZE)
+  return (
+    <InfiniteTable
+      query={query as any}
+      getDataFromPage={getMessagesFromPage}
+      columns={domainColumns}
+      emptyMessage="No ArNS names bought"
+      loadingMessage="Loading ArNS names..."
+      errorMessage="Failed to load ArNS names"
+    />
+  )
+}
+
+// Owner based tabs need the owner address, the others the address processes
+// know the wallet by
+const ADDRESS_TABS: Array<{
+  value: string
+  label: string
+  render: (identity: AddressIdentity) => ReactNode
+}> = [
+  {
+    value: 'outgoing',
+    label: 'Outgoing',
+    render: ({ owner }) =>
+      owner ? <OutgoingMessages owner={owner} /> : <UnknownOwner />,
+  },
+  {
+    value: 'spawns',
+    label: 'Spawned processes',
+    render: ({ owner }) =>
+      owner ? <SpawnedProcesses owner={owner} /> : <UnknownOwner />,
+  },
+  {
+    value: 'modules',
+    label: 'Modules',
+    render: ({ owner }) =>
+      owner ? <UploadedModules owner={owner} /> : <UnknownOwner />,
+  },
+  {
+    value: 'tokens',
+    label: 'Token transfers',
+    render: ({ address }) => <TokenTransfers address={address} />,
+  },
+  {
+    value: 'arns',
+    label: 'ArNS names',
+    render: ({ address }) => <OwnedDomains address={address} />,
+  },
+]
+
+function PrimaryName({ address }: { address: string }) {
+  const primaryName = usePrimaryName(address)
+
+  if (primaryName.isLoading) {
+    return <Loader2 className="h-3 w-3 animate-spin" />
+  }
+  if (primaryName.error) {
+    return <span className="text-destructive">{primaryName.error.message}</span>
+  }
+  if (!primaryName.data) {
+    return <span className="text-muted-foreground">None</span>
+  }
+  return <span className="font-medium">{primaryName.data.name}</span>
+}
+
+export function AddressDetail({ address, className }: AddressDetailProps) {
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+  const identity = useAddressIdentity(address)
+
+  if (identity.isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading address...</span>
+      </div>
+    )
+  }
+
+  if (identity.error || !identity.data) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8 text-center">
+        <h2 className="text-lg font-semibold">Address could not be resolved</h2>
+        <p className="font-mono text-sm text-muted-foreground">{address}</p>
+        {identity.error && (
+          <p className="text-sm text-destructive">{identity.error.message}</p>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => identity.refetch()}
+          className="mt-4"
+        >
+          Try Again
+        </Button>
+      </div>
+    )
+  }
+
+  const wallet = identity.data
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Header */}
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <h1 className="text-2xl font-bold">Address</h1>
+          <span className="bg-accent/50 rounded px-2 py-1 text-xs">
+            {wallet.type}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="break-all font-mono text-sm text-muted-foreground">
+            {wallet.address}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => copyToClipboard(wallet.address)}
+            title="Copy Address"
+          >
+            <Copy className="h-3 w-3" />
+          </Button>
+          {wallet.owner && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() =>
+                window.open(
+                  `${gatewayUrl}/wallet/${wallet.owner}/balance`,
+                  '_blank',
+                )
+              }
+              title="View AR balance on gateway"
+            >
+              <ExternalLink className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Overview */}
+      <Section title="Overview">
+        <dl className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <Field label="Primary name">
+            <PrimaryName address={wallet.address} />
+          </Field>
+          {wallet.type === 'ethereum' && (
+            <Field label="Ethereum address">
+              <span className="font-mono">{wallet.address}</span>
+            </Field>
+          )}
+          <Field label="Owner address">
+            {wallet.owner ? (
+              <span className="font-mono">{wallet.owner}</span>
+            ) : (
+              <span className="text-muted-foreground">
+                Unknown until the wallet signs a message
+              </span>
+            )}
+          </Field>
+        </dl>
+      </Section>
+
+      {/* Relations */}
+      <Tabs defaultValue={wallet.owner ? 'outgoing' : 'tokens'}>
+        <TabsList>
+          {ADDRESS_TABS.map((tab) => (
+            <TabsTrigger key={tab.value} value={tab.value}>
+              {tab.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        {ADDRESS_TABS.map((tab) => (
+          <TabsContent key={tab.value} value={tab.value}>
+            {tab.render(wallet)}
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  )
+}
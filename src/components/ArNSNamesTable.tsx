@@ -0,0 +1,430 @@
+import { useMemo, useState } from 'react'
+
+import { Link } from '@tanstack/react-router'
+import {
+  type ColumnDef,
+  type SortingState,
+  flexRender,
+  getCoreRowModel,
+  getSortedRowModel,
+  useReactTable,
+} from '@tanstack/react-table'
+import {
+  ChevronDown,
+  ChevronUp,
+  Clock,
+  ExternalLink,
+  Loader2,
+  RefreshCw,
+} from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useARNSDomains } from '@/hooks/useARNSDomains'
+import { formatAddressForDisplay } from '@/lib/address-utils'
+import {
+  type ArNSName,
+  type ArNSNameFilter,
+  DEFAULT_NAME_FILTER,
+  EXPIRING_SOON_DAYS,
+  arnsNameUrl,
+  daysUntilExpiry,
+  expiresAt,
+  filterArNSNames,
+  toNameList,
+} from '@/lib/arns-names'
+import { formatARIO } from '@/lib/gateways'
+import { cn } from '@/lib/utils'
+import { useAppStore } from '@/store/app-store'
+
+// Rows rendered at a time, there are tens of thousands of names
+const PAGE_SIZE = 100
+
+const TYPE_STYLES: Record<ArNSName['type'], string> = {
+  permabuy: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  lease: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+}
+
+interface ArNSNamesTableProps {
+  // Prefills the search, as linked from the universal search
+  initialSearch?: string
+  className?: string
+}
+
+function Expiry({ record }: { record: ArNSName }) {
+  const end = expiresAt(record)
+  if (end === undefined) {
+    return <span className="text-muted-foreground">Never</span>
+  }
+  const days = daysUntilExpiry(record)!
+  return (
+    <div className="text-sm">
+      <span className="flex items-center">
+        <Clock className="mr-1 h-3 w-3 text-muted-foreground" />
+        {new Date(end).toLocaleDateString()}
+      </span>
+      <span
+        className={cn(
+          'text-xs',
+          days < 0
+            ? 'text-destructive'
+            : days <= EXPIRING_SOON_DAYS
+              ? 'text-yellow-600 dark:text-yellow-400'
+              : 'text-muted-foreground',
+        )}
+      >
+        {days < 0 ? 'In grace period' : `${days.toLocaleString()} days left`}
+      </span>
+    </div>
+  )
+}
+
+export function ArNSNamesTable({
+  initialSearch = '',
+  className,
+}: ArNSNamesTableProps) {
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+  const { data, isLoading, error, refetch, isFetching } = useARNSDomains()
+  const [filter, setFilter] = useState<ArNSNameFilter>({
+    ...DEFAULT_NAME_FILTER,
+    search: initialSearch,
+  })
+  const [sorting, setSorting] = useState<SortingState>([
+    { id: 'startTimestamp', desc: true },
+  ])
+  const [visible, setVisible] = useState(PAGE_SIZE)
+
+  const names = useMemo(() => toNameList(data ?? {}), [data])
+  const filtered = useMemo(
+    () => filterArNSNames(names, filter),
+    [names, filter],
+  )
+  const counts = useMemo(
+    () => ({
+      lease: names.filter((record) => record.type === 'lease').length,
+      expiring: filterArNSNames(names, {
+        ...DEFAULT_NAME_FILTER,
+        expiringWithinDays: EXPIRING_SOON_DAYS,
+      }).length,
+    }),
+    [names],
+  )
+
+  const updateFilter = (update: Partial<ArNSNameFilter>) => {
+    setFilter({ ...filter, ...update })
+    setVisible(PAGE_SIZE)
+  }
+
+  const columns = useMemo<Array<ColumnDef<ArNSName>>>(
+    () => [
+      {
+        id: 'name',
+        header: 'Name',
+        accessorFn: (record) => record.name,
+        cell: ({ row }) => (
+          <a
+            href={arnsNameUrl(row.original.name, gatewayUrl)}
+            target="_blank"
+            rel="noreferrer"
+            className="flex items-center font-medium hover:underline"
+          >
+            {row.original.name}
+            <ExternalLink className="ml-1 h-3 w-3 text-muted-foreground" />
+          </a>
+        ),
+      },
+      {
+        id: 'type',
+        header: 'Type',
+        accessorFn: (record) => record.type,
+        cell: ({ row }) => (
+          <span
+            className={cn(
+              'inline-flex items-center rounded-full px-2 py-1 text-xs font-medium',
+              TYPE_STYLES[row.original.type],
+            )}
+          >
+            {row.original.type}
+          </span>
+        ),
+      },
+      {
+        id: 'startTimestamp',
+        header: 'Registered',
+        accessorFn: (record) => record.startTimestamp,
+        cell: ({ getValue }) => (
+          <span className="text-sm text-muted-foreground">
+            {new Date(getValue<number>()).toLocaleDateString()}
+          </span>
+        ),
+      },
+      {
+        id: 'endTimestamp',
+        header: 'Expires',
+        // Permabuys sort after every lease
+        accessorFn: (record) => expiresAt(record) ?? Number.MAX_SAFE_INTEGER,
+        cell: ({ row }) => <Expiry record={row.original} />,
+      },
+      {
+        id: 'undernameLimit',
+        header: 'Undernames',
+        accessorFn: (record) => record.undernameLimit,
+        cell: ({ getValue }) => (
+          <span className="font-mono text-sm">
+            {getValue<number>().toLocaleString()}
+          </span>
+        ),
+      },
+      {
+        id: 'purchasePrice',
+        header: 'Price (ARIO)',
+        accessorFn: (record) => record.purchasePrice ?? 0,
+        cell: ({ getValue }) => (
+          <span className="font-mono text-sm">
+            {formatARIO(getValue<number>())}
+          </span>
+        ),
+      },
+      {
+        id: 'processId',
+        header: 'ANT',
+        accessorFn: (record) => record.processId,
+        enableSorting: false,
+        cell: ({ row }) => (
+          <Link
+            to="/ant/$id"
+            params={{ id: row.original.processId }}
+            className="font-mono text-sm hover:underline"
+            title={row.original.processId}
+          >
+            {formatAddressForDisplay(row.original.processId)}
+          </Link>
+        ),
+      },
+    ],
+    [gatewayUrl],
+  )
+
+  const table = useReactTable({
+    data: filtered,
+    columns,
+    state: { sorting },
+    onSortingChange: setSorting,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+  })
+  const rows = table.getRowModel().rows
+
+  if (isLoading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span className="ml-2 text-muted-foreground">
+          Loading ArNS names...
+        </span>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-center">
+          <p className="text-destructive">Failed to load ArNS names</p>
+          <p className="text-sm text-muted-foreground">{error.message}</p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            className="mt-2"
+          >
+            Try Again
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">ArNS Names</h1>
+          <p className="text-muted-foreground">
+            Names registered with the ARIO process and the ANTs they point to
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="text-right text-sm text-muted-foreground">
+            <div>Total: {names.length.toLocaleString()} names</div>
+            <div className="text-xs">
+              {counts.lease.toLocaleString()} leased,{' '}
+              {(names.length - counts.lease).toLocaleString()} permabought,{' '}
+              {counts.expiring.toLocaleString()} expiring soon
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isFetching}
+          >
+            <RefreshCw
+              className={cn('mr-2 h-4 w-4', isFetching && 'animate-spin')}
+            />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="nameSearch" className="whitespace-nowrap text-sm">
+            Search:
+          </Label>
+          <Input
+            id="nameSearch"
+            value={filter.search}
+            onChange={(e) => updateFilter({ search: e.target.value })}
+            placeholder="Name or ANT process id"
+            className="h-8 w-64"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Label className="whitespace-nowrap text-sm">Type:</Label>
+          <Select
+            value={filter.type}
+            onValueChange={(type) =>
+              updateFilter({ type: type as ArNSNameFilter['type'] })
+            }
+          >
+            <SelectTrigger size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any</SelectItem>
+              <SelectItem value="lease">Lease</SelectItem>
+              <SelectItem value="permabuy">Permabuy</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          variant={filter.expiringWithinDays === null ? 'outline' : 'default'}
+          size="sm"
+          onClick={() => {
+            const expiring = filter.expiringWithinDays === null
+            updateFilter({
+              expiringWithinDays: expiring ? EXPIRING_SOON_DAYS : null,
+            })
+            if (expiring) setSorting([{ id: 'endTimestamp', desc: false }])
+          }}
+        >
+          <Clock className="mr-2 h-4 w-4" />
+          Expiring within {EXPIRING_SOON_DAYS} days
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          {filtered.length.toLocaleString()} matching
+        </span>
+      </div>
+
+      {/* Table */}
+      <div className="rounded-md border">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              {table.getHeaderGroups().map((headerGroup) => (
+                <tr key={headerGroup.id} className="bg-muted/50 border-b">
+                  {headerGroup.headers.map((header) => (
+                    <th
+                      key={header.id}
+                      className="h-12 px-4 text-left align-middle font-medium text-muted-foreground"
+                    >
+                      <div
+                        className={cn(
+                          'flex items-center space-x-2',
+                          header.column.getCanSort() &&
+                            'cursor-pointer select-none hover:text-foreground',
+                        )}
+                        onClick={header.column.getToggleSortingHandler()}
+                      >
+                        <span>
+                          {flexRender(
+                            header.column.columnDef.header,
+                            header.getContext(),
+                          )}
+                        </span>
+                        {header.column.getCanSort() && (
+                          <div className="flex flex-col">
+                            <ChevronUp
+                              className={cn(
+                                'h-3 w-3',
+                                header.column.getIsSorted() === 'asc'
+                                  ? 'text-foreground'
+                                  : 'text-muted-foreground/50',
+                              )}
+                            />
+                            <ChevronDown
+                              className={cn(
+                                '-mt-1 h-3 w-3',
+                                header.column.getIsSorted() === 'desc'
+                                  ? 'text-foreground'
+                                  : 'text-muted-foreground/50',
+                              )}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              ))}
+            </thead>
+            <tbody>
+              {rows.slice(0, visible).map((row) => (
+                <tr
+                  key={row.id}
+                  className="hover:bg-muted/50 border-b transition-colors"
+                >
+                  {row.getVisibleCells().map((cell) => (
+                    <td key={cell.id} className="px-4 py-2 align-middle">
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {rows.length === 0 && (
+          <p className="p-8 text-center text-muted-foreground">
+            No names match the filters
+          </p>
+        )}
+      </div>
+
+      {rows.length > visible && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={() => setVisible(visible + PAGE_SIZE)}
+          >
+            Show more ({(rows.length - visible).toLocaleString()} remaining)
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { type ReactNode } from 'react'
+
+import { Link } from '@tanstack/react-router'
+
+import { formatAddressForDisplay } from '@/lib/address-utils'
+import { cn } from '@/lib/utils'
+
+// Building blocks shared by the message, process and address pages
+
+export function Field({
+  label,
+  children,
+}: {
+  label: string
+  children: ReactNode
+}) {
+  return (
+    <div>
+      <dt className="text-xs text-muted-foreground">{label}</dt>
+      <dd className="break-all text-sm">{children}</dd>
+    </div>
+  )
+}
+
+export function Section({
+  title,
+  children,
+  className,
+}: {
+  title: string
+  children: ReactNode
+  className?: string
+}) {
+  return (
+    <section className={cn('space-y-3 rounded-md border p-4', className)}>
+      <h2 className="font-semibold">{title}</h2>
+      {children}
+    </section>
+  )
+}
+
+export function TagList({ tags }: { tags: Record<string, string> }) {
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {Object.entries(tags).map(([name, value]) => (
+          <tr key={name} className="border-t first:border-t-0">
+            <td className="py-1 pr-4 align-top font-medium">{name}</td>
+            <td className="break-all py-1 font-mono">{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+type ProfilePage = 'address' | 'process' | 'module'
+
+export const profilePath = (page: ProfilePage, id: string): string =>
+  `/${page}/${encodeURIComponent(id)}`
+
+export function AddressLink({
+  address,
+  to,
+  label = address,
+  short = false,
+}: {
+  address: string
+  to: ProfilePage
+  // Shown instead of the address, such as the 0x form of an owner
+  label?: string
+  // Abbreviated for tables
+  short?: boolean
+}) {
+  if (!address) return <span className="text-muted-foreground">-</span>
+  return (
+    <Link
+      to={profilePath(to, address)}
+      className="font-mono hover:underline"
+      title={label}
+    >
+      {short ? formatAddressForDisplay(label) : label}
+    </Link>
+  )
+}
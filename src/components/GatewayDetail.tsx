@@ -0,0 +1,208 @@
+import { Link } from '@tanstack/react-router'
+import { ArrowLeft, ExternalLink, Loader2 } from 'lucide-react'
+
+import { AddressLink, Field, Section } from '@/components/DetailSection'
+import { Button } from '@/components/ui/button'
+import { useGateway } from '@/hooks/useGateways'
+import {
+  DELEGATION_LABELS,
+  delegationMode,
+  epochPassRate,
+  formatARIO,
+  gatewayLabel,
+  totalStake,
+} from '@/lib/gateways'
+import { cn } from '@/lib/utils'
+
+interface GatewayDetailProps {
+  address: string
+  className?: string
+}
+
+const WEIGHT_LABELS: Record<string, string> = {
+  stakeWeight: 'Stake weight',
+  tenureWeight: 'Tenure weight',
+  gatewayRewardRatioWeight: 'Gateway reward ratio weight',
+  observerRewardRatioWeight: 'Observer reward ratio weight',
+  gatewayPerformanceRatio: 'Gateway performance ratio',
+  observerPerformanceRatio: 'Observer performance ratio',
+  compositeWeight: 'Composite weight',
+  normalizedCompositeWeight: 'Normalized composite weight',
+}
+
+const ARIO = ({ mARIO }: { mARIO: number }) => (
+  <span className="font-mono">{formatARIO(mARIO)} ARIO</span>
+)
+
+export function GatewayDetail({ address, className }: GatewayDetailProps) {
+  const { gateway, data, isLoading, error, refetch } = useGateway(address)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading gateway...</span>
+      </div>
+    )
+  }
+
+  if (error || !gateway) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8 text-center">
+        <h2 className="text-lg font-semibold">Gateway not found</h2>
+        <p className="font-mono text-sm text-muted-foreground">{address}</p>
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+        <Button variant="outline" onClick={() => refetch()} className="mt-4">
+          Try Again
+        </Button>
+      </div>
+    )
+  }
+
+  const { settings, stats, weights } = gateway
+  const mode = delegationMode(gateway)
+  const passRate = epochPassRate(gateway)
+  const url = `${settings.protocol}://${settings.fqdn}${
+    settings.port === 443 ? '' : `:${settings.port}`
+  }`
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Header */}
+      <div className="space-y-1">
+        <Link
+          to="/gateways"
+          className="flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-1 h-3 w-3" />
+          All gateways
+        </Link>
+        <div className="flex items-center space-x-2">
+          <h1 className="text-2xl font-bold">{gatewayLabel(gateway)}</h1>
+          <span
+            className={cn(
+              'inline-flex items-center rounded-full px-2 py-1 text-xs font-medium',
+              gateway.status === 'joined'
+                ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+            )}
+          >
+            {gateway.status}
+          </span>
+        </div>
+        <a
+          href={url}
+          target="_blank"
+          rel="noreferrer"
+          className="flex items-center font-mono text-sm text-muted-foreground hover:underline"
+        >
+          {url}
+          <ExternalLink className="ml-1 h-3 w-3" />
+        </a>
+        {data?.source === 'snapshot' && (
+          <p className="text-xs text-muted-foreground">
+            From the bundled gateway snapshot
+          </p>
+        )}
+      </div>
+
+      <Section title="Overview">
+        <dl className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <Field label="Gateway address">
+            <AddressLink address={gateway.gatewayAddress} to="address" />
+          </Field>
+          <Field label="Observer address">
+            <AddressLink address={gateway.observerAddress} to="address" />
+          </Field>
+          <Field label="Joined">
+            {new Date(gateway.startTimestamp).toLocaleString()}
+          </Field>
+          {gateway.endTimestamp > 0 && (
+            <Field label="Leaving">
+              {new Date(gateway.endTimestamp).toLocaleString()}
+            </Field>
+          )}
+          {settings.note && <Field label="Note">{settings.note}</Field>}
+          {settings.properties && (
+            <Field label="Properties">
+              <Link
+                to="/message/$id"
+                params={{ id: settings.properties }}
+                className="font-mono hover:underline"
+              >
+                {settings.properties}
+              </Link>
+            </Field>
+          )}
+        </dl>
+      </Section>
+
+      <Section title="Stake and delegation">
+        <dl className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <Field label="Operator stake">
+            <ARIO mARIO={gateway.operatorStake} />
+          </Field>
+          <Field label="Delegated stake">
+            <ARIO mARIO={gateway.totalDelegatedStake} />
+          </Field>
+          <Field label="Total stake">
+            <ARIO mARIO={totalStake(gateway)} />
+          </Field>
+          <Field label="Delegation">{DELEGATION_LABELS[mode]}</Field>
+          {mode !== 'closed' && (
+            <>
+              <Field label="Reward share to delegates">
+                {settings.delegateRewardShareRatio}%
+              </Field>
+              <Field label="Minimum delegation">
+                <ARIO mARIO={settings.minDelegatedStake} />
+              </Field>
+            </>
+          )}
+          <Field label="Auto stake rewards">
+            {settings.autoStake ? 'Yes' : 'No'}
+          </Field>
+        </dl>
+      </Section>
+
+      <Section title="Epoch performance">
+        <dl className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <Field label="Epochs passed">
+            {stats.passedEpochCount.toLocaleString()} of{' '}
+            {stats.totalEpochCount.toLocaleString()}
+            {passRate !== null && ` (${(passRate * 100).toFixed(1)}%)`}
+          </Field>
+          <Field label="Epochs failed">
+            {stats.failedEpochCount.toLocaleString()}
+          </Field>
+          <Field label="Consecutive epochs passed">
+            {stats.passedConsecutiveEpochs.toLocaleString()}
+          </Field>
+          <Field label="Consecutive epochs failed">
+            {stats.failedConsecutiveEpochs.toLocaleString()}
+          </Field>
+          <Field label="Epochs prescribed as observer">
+            {stats.prescribedEpochCount.toLocaleString()}
+          </Field>
+          <Field label="Epochs observed">
+            {stats.observedEpochCount.toLocaleString()}
+          </Field>
+        </dl>
+      </Section>
+
+      <Section title="Weights">
+        <dl className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          {Object.entries(WEIGHT_LABELS)
+            .filter(([key]) => key in weights)
+            .map(([key, label]) => (
+              <Field key={key} label={label}>
+                <span className="font-mono">
+                  {weights[key as keyof typeof weights]}
+                </span>
+              </Field>
+            ))}
+        </dl>
+      </Section>
+    </div>
+  )
+}
@@ -0,0 +1,503 @@
+import { useMemo, useState } from 'react'
+
+import type { AoGatewayWithAddress } from '@ar.io/sdk'
+import { Link } from '@tanstack/react-router'
+import {
+  type ColumnDef,
+  type SortingState,
+  flexRender,
+  getCoreRowModel,
+  getSortedRowModel,
+  useReactTable,
+} from '@tanstack/react-table'
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  RefreshCw,
+} from 'lucide-react'
+import { Bar, BarChart, XAxis, YAxis } from 'recharts'
+
+import { Button } from '@/components/ui/button'
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useGateways } from '@/hooks/useGateways'
+import {
+  DEFAULT_GATEWAY_FILTER,
+  DELEGATION_LABELS,
+  type GatewayFilter,
+  delegationMode,
+  epochPassRate,
+  filterGateways,
+  formatARIO,
+  gatewayLabel,
+  totalStake,
+} from '@/lib/gateways'
+import { cn } from '@/lib/utils'
+
+// Gateways shown in the charts, the rest of the network is in the table
+const CHART_SIZE = 20
+
+const weightChartConfig: ChartConfig = {
+  compositeWeight: { label: 'Composite weight', color: 'hsl(var(--chart-1))' },
+}
+
+const epochChartConfig: ChartConfig = {
+  passed: { label: 'Passed', color: 'hsl(var(--chart-2))' },
+  failed: { label: 'Failed', color: 'hsl(var(--chart-5))' },
+}
+
+const formatPercent = (ratio: number | null) =>
+  ratio === null ? '-' : `${(ratio * 100).toFixed(1)}%`
+
+interface GatewaysTableProps {
+  className?: string
+}
+
+function GatewayCharts({
+  gateways,
+}: {
+  gateways: Array<AoGatewayWithAddress>
+}) {
+  const top = useMemo(
+    () =>
+      [...gateways]
+        .sort((a, b) => b.weights.compositeWeight - a.weights.compositeWeight)
+        .slice(0, CHART_SIZE)
+        .map((gateway) => ({
+          label: gatewayLabel(gateway),
+          compositeWeight: gateway.weights.compositeWeight,
+          passed: gateway.stats.passedEpochCount,
+          failed: gateway.stats.failedEpochCount,
+        })),
+    [gateways],
+  )
+
+  if (!top.length) return null
+
+  return (
+    <div className="grid grid-cols-1 gap-4 xl:grid-cols-2">
+      <div className="space-y-2 rounded-md border p-4">
+        <h2 className="font-semibold">Composite weight</h2>
+        <p className="text-sm text-muted-foreground">
+          Top {top.length} gateways by composite weight, the product of stake,
+          tenure, reward ratio and performance weights
+        </p>
+        <ChartContainer config={weightChartConfig} className="h-[480px]">
+          <BarChart data={top} layout="vertical" margin={{ left: 0 }}>
+            <XAxis type="number" />
+            <YAxis
+              dataKey="label"
+              type="category"
+              tickLine={false}
+              axisLine={false}
+              width={120}
+            />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar
+              dataKey="compositeWeight"
+              fill="var(--color-compositeWeight)"
+              radius={4}
+            />
+          </BarChart>
+        </ChartContainer>
+      </div>
+      <div className="space-y-2 rounded-md border p-4">
+        <h2 className="font-semibold">Epoch results</h2>
+        <p className="text-sm text-muted-foreground">
+          Epochs passed and failed by the same gateways
+        </p>
+        <ChartContainer config={epochChartConfig} className="h-[480px]">
+          <BarChart data={top} layout="vertical" margin={{ left: 0 }}>
+            <XAxis type="number" />
+            <YAxis
+              dataKey="label"
+              type="category"
+              tickLine={false}
+              axisLine={false}
+              width={120}
+            />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="passed" stackId="epochs" fill="var(--color-passed)" />
+            <Bar
+              dataKey="failed"
+              stackId="epochs"
+              fill="var(--color-failed)"
+              radius={[0, 4, 4, 0]}
+            />
+          </BarChart>
+        </ChartContainer>
+      </div>
+    </div>
+  )
+}
+
+export function GatewaysTable({ className }: GatewaysTableProps) {
+  const { data, isLoading, error, refetch, isFetching } = useGateways()
+  const [filter, setFilter] = useState<GatewayFilter>(DEFAULT_GATEWAY_FILTER)
+  const [sorting, setSorting] = useState<SortingState>([
+    { id: 'compositeWeight', desc: true },
+  ])
+
+  const gateways = useMemo(
+    () => filterGateways(data?.gateways ?? [], filter),
+    [data?.gateways, filter],
+  )
+
+  const columns = useMemo<Array<ColumnDef<AoGatewayWithAddress>>>(
+    () => [
+      {
+        id: 'label',
+        header: 'Gateway',
+        accessorFn: gatewayLabel,
+        cell: ({ row }) => {
+          const gateway = row.original
+          return (
+            <div>
+              <Link
+                to="/gateway/$address"
+                params={{ address: gateway.gatewayAddress }}
+                className="font-medium hover:underline"
+              >
+                {gatewayLabel(gateway)}
+              </Link>
+              <div className="font-mono text-xs text-muted-foreground">
+                {gateway.settings.fqdn}
+              </div>
+            </div>
+          )
+        },
+      },
+      {
+        id: 'status',
+        header: 'Status',
+        accessorFn: (gateway) => gateway.status,
+      },
+      {
+        id: 'operatorStake',
+        header: 'Operator stake',
+        accessorFn: (gateway) => gateway.operatorStake,
+        cell: ({ getValue }) => (
+          <span className="font-mono text-sm">
+            {formatARIO(getValue<number>())}
+          </span>
+        ),
+      },
+      {
+        id: 'totalDelegatedStake',
+        header: 'Delegated stake',
+        accessorFn: (gateway) => gateway.totalDelegatedStake,
+        cell: ({ getValue }) => (
+          <span className="font-mono text-sm">
+            {formatARIO(getValue<number>())}
+          </span>
+        ),
+      },
+      {
+        id: 'totalStake',
+        header: 'Total stake',
+        accessorFn: totalStake,
+        cell: ({ getValue }) => (
+          <span className="font-mono text-sm">
+            {formatARIO(getValue<number>())}
+          </span>
+        ),
+      },
+      {
+        id: 'delegateRewardShareRatio',
+        header: 'Delegation',
+        accessorFn: (gateway) =>
+          delegationMode(gateway) === 'closed'
+            ? -1
+            : gateway.settings.delegateRewardShareRatio,
+        cell: ({ row }) => {
+          const gateway = row.original
+          const mode = delegationMode(gateway)
+          return (
+            <div className="text-sm">
+              {DELEGATION_LABELS[mode]}
+              {mode !== 'closed' && (
+                <div className="text-xs text-muted-foreground">
+                  {gateway.settings.delegateRewardShareRatio}% share, min{' '}
+                  {formatARIO(gateway.settings.minDelegatedStake)} ARIO
+                </div>
+              )}
+            </div>
+          )
+        },
+      },
+      {
+        id: 'compositeWeight',
+        header: 'Composite weight',
+        accessorFn: (gateway) => gateway.weights.compositeWeight,
+        cell: ({ getValue }) => (
+          <span className="font-mono text-sm">
+            {getValue<number>().toFixed(4)}
+          </span>
+        ),
+      },
+      {
+        id: 'passRate',
+        header: 'Epochs passed',
+        accessorFn: (gateway) => epochPassRate(gateway) ?? -1,
+        cell: ({ row }) => {
+          const { stats } = row.original
+          return (
+            <div className="text-sm">
+              {formatPercent(epochPassRate(row.original))}
+              <div className="text-xs text-muted-foreground">
+                {stats.passedEpochCount}/{stats.totalEpochCount}
+                {stats.failedConsecutiveEpochs > 0 &&
+                  `, ${stats.failedConsecutiveEpochs} failing`}
+              </div>
+            </div>
+          )
+        },
+      },
+      {
+        id: 'startTimestamp',
+        header: 'Joined',
+        accessorFn: (gateway) => gateway.startTimestamp,
+        cell: ({ getValue }) => (
+          <span className="text-sm text-muted-foreground">
+            {new Date(getValue<number>()).toLocaleDateString()}
+          </span>
+        ),
+      },
+    ],
+    [],
+  )
+
+  const table = useReactTable({
+    data: gateways,
+    columns,
+    state: { sorting },
+    onSortingChange: setSorting,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+  })
+
+  if (isLoading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span className="ml-2 text-muted-foreground">Loading gateways...</span>
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="text-center">
+          <p className="text-destructive">Failed to load gateways</p>
+          {error && (
+            <p className="text-sm text-muted-foreground">{error.message}</p>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            className="mt-2"
+          >
+            Try Again
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Gateways</h1>
+          <p className="text-muted-foreground">
+            Compare ar.io gateways by stake, weights and epoch performance
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="text-right text-sm text-muted-foreground">
+            {gateways.length.toLocaleString()} of{' '}
+            {data.gateways.length.toLocaleString()} gateways
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isFetching}
+          >
+            <RefreshCw
+              className={cn('mr-2 h-4 w-4', isFetching && 'animate-spin')}
+            />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {data.source === 'snapshot' && (
+        <div className="flex items-start gap-2 rounded-md border border-yellow-500/50 p-3 text-sm">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-500" />
+          <span>
+            The ARIO process could not be reached, showing the bundled gateway
+            snapshot instead. {data.networkError}
+          </span>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="gatewaySearch" className="whitespace-nowrap text-sm">
+            Search:
+          </Label>
+          <Input
+            id="gatewaySearch"
+            value={filter.search}
+            onChange={(e) => setFilter({ ...filter, search: e.target.value })}
+            placeholder="Label, domain or address"
+            className="h-8 w-64"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Label className="whitespace-nowrap text-sm">Delegation:</Label>
+          <Select
+            value={filter.delegation}
+            onValueChange={(delegation) =>
+              setFilter({
+                ...filter,
+                delegation: delegation as GatewayFilter['delegation'],
+              })
+            }
+          >
+            <SelectTrigger size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any</SelectItem>
+              {Object.entries(DELEGATION_LABELS).map(([mode, label]) => (
+                <SelectItem key={mode} value={mode}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label
+            htmlFor="gatewayRewardShare"
+            className="whitespace-nowrap text-sm"
+          >
+            Min reward share (%):
+          </Label>
+          <Input
+            id="gatewayRewardShare"
+            type="number"
+            min={0}
+            max={100}
+            value={filter.minRewardShare}
+            onChange={(e) =>
+              setFilter({
+                ...filter,
+                minRewardShare: Number(e.target.value) || 0,
+              })
+            }
+            className="h-8 w-20"
+          />
+        </div>
+      </div>
+
+      <GatewayCharts gateways={gateways} />
+
+      {/* Table */}
+      <div className="rounded-md border">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              {table.getHeaderGroups().map((headerGroup) => (
+                <tr key={headerGroup.id} className="bg-muted/50 border-b">
+                  {headerGroup.headers.map((header) => (
+                    <th
+                      key={header.id}
+                      className="h-12 px-4 text-left align-middle font-medium text-muted-foreground"
+                    >
+                      <div
+                        className="flex cursor-pointer select-none items-center space-x-2 hover:text-foreground"
+                        onClick={header.column.getToggleSortingHandler()}
+                      >
+                        <span>
+                          {flexRender(
+                            header.column.columnDef.header,
+                            header.getContext(),
+                          )}
+                        </span>
+                        <div className="flex flex-col">
+                          <ChevronUp
+                            className={cn(
+                              'h-3 w-3',
+                              header.column.getIsSorted() === 'asc'
+                                ? 'text-foreground'
+                                : 'text-muted-foreground/50',
+                            )}
+                          />
+                          <ChevronDown
+                            className={cn(
+                              '-mt-1 h-3 w-3',
+                              header.column.getIsSorted() === 'desc'
+                                ? 'text-foreground'
+                                : 'text-muted-foreground/50',
+                            )}
+                          />
+                        </div>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              ))}
+            </thead>
+            <tbody>
+              {table.getRowModel().rows.map((row) => (
+                <tr
+                  key={row.id}
+                  className="hover:bg-muted/50 border-b transition-colors"
+                >
+                  {row.getVisibleCells().map((cell) => (
+                    <td key={cell.id} className="px-4 py-2 align-middle">
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {gateways.length === 0 && (
+          <p className="p-8 text-center text-muted-foreground">
+            No gateways match the filters
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+import { Link } from '@tanstack/react-router'
+import { type ColumnDef } from '@tanstack/react-table'
+import { Clock } from 'lucide-react'
+
+import { AddressLink } from '@/components/DetailSection'
+import { formatAddressForDisplay } from '@/lib/address-utils'
+import { type AoMessage, parseAoMessage } from '@/lib/ao-queries'
+
+// Table columns shared by the pages listing messages of an entity
+
+// Queries run with isProcess return their edges under processTransactions
+export const getMessagesFromPage = (page: any): Array<AoMessage> => {
+  const transactions = page?.processTransactions ?? page?.transactions
+  if (!transactions?.edges) return []
+  return transactions.edges.map((edge: any) => parseAoMessage(edge))
+}
+
+export const dateColumn: ColumnDef<AoMessage> = {
+  id: 'timestamp',
+  accessorFn: (row) => row.block?.timestamp,
+  header: 'Date',
+  cell: ({ row }) => {
+    const timestamp = row.original.block?.timestamp
+    if (!timestamp) return <span className="text-muted-foreground">-</span>
+
+    const date = new Date(timestamp * 1000)
+    return (
+      <div className="flex items-center space-x-1">
+        <Clock className="h-3 w-3 text-muted-foreground" />
+        <div className="flex flex-col">
+          <span className="text-sm">{date.toLocaleDateString()}</span>
+          <span className="text-xs text-muted-foreground">
+            {date.toLocaleTimeString()}
+          </span>
+        </div>
+      </div>
+    )
+  },
+}
+
+export const actionColumn: ColumnDef<AoMessage> = {
+  accessorKey: 'tags.Action',
+  header: 'Action',
+  cell: ({ row }) => {
+    const action = row.original.tags['Action']
+    return action ? (
+      <span className="bg-secondary/50 inline-flex items-center rounded-full px-2 py-1 text-xs font-medium text-secondary-foreground">
+        {action}
+      </span>
+    ) : (
+      <span className="text-muted-foreground">-</span>
+    )
+  },
+}
+
+export const messageColumns: Array<ColumnDef<AoMessage>> = [
+  {
+    accessorKey: 'id',
+    header: 'ID',
+    cell: ({ row }) => (
+      <Link
+        to="/message/$id"
+        params={{ id: row.original.id }}
+        className="font-mono text-sm hover:underline"
+      >
+        {formatAddressForDisplay(row.original.id)}
+      </Link>
+    ),
+  },
+  actionColumn,
+  {
+    accessorKey: 'from',
+    header: 'From',
+    cell: ({ row }) => {
+      // Messages pushed by a CU are owned by its wallet, show the process
+      const fromProcess = row.original.tags['From-Process']
+      return fromProcess ? (
+        <AddressLink address={fromProcess} to="process" short />
+      ) : (
+        <AddressLink
+          address={row.original.fromParsed.normalizedAddress}
+          label={row.original.from}
+          to="address"
+          short
+        />
+      )
+    },
+  },
+  {
+    accessorKey: 'to',
+    header: 'To',
+    cell: ({ row }) => (
+      <AddressLink address={row.original.to} to="process" short />
+    ),
+  },
+  dateColumn,
+]
+
+export const tokenColumns: Array<ColumnDef<AoMessage>> = [
+  ...messageColumns.slice(0, 2),
+  {
+    id: 'token',
+    header: 'Token',
+    cell: ({ row }) => (
+      <AddressLink
+        address={row.original.tags['From-Process'] ?? row.original.from}
+        to="process"
+        short
+      />
+    ),
+  },
+  {
+    id: 'counterparty',
+    header: 'Counterparty',
+    cell: ({ row }) => {
+      const { tags } = row.original
+      const counterparty =
+        tags['Action'] === 'Credit-Notice' ? tags['Sender'] : tags['Recipient']
+      return <AddressLink address={counterparty ?? ''} to="address" short />
+    },
+  },
+  {
+    accessorKey: 'tags.Quantity',
+    header: 'Quantity',
+    cell: ({ row }) => (
+      <span className="font-mono text-sm">
+        {row.original.tags['Quantity'] ?? '-'}
+      </span>
+    ),
+  },
+  dateColumn,
+]
+
+export const processColumns: Array<ColumnDef<AoMessage>> = [
+  {
+    accessorKey: 'id',
+    header: 'Process ID',
+    cell: ({ row }) => (
+      <AddressLink address={row.original.id} to="process" short />
+    ),
+  },
+  {
+    accessorKey: 'tags.Name',
+    header: 'Name',
+    cell: ({ row }) =>
+      row.original.tags['Name'] ?? (
+        <span className="italic text-muted-foreground">Unnamed</span>
+      ),
+  },
+  {
+    accessorKey: 'tags.Module',
+    header: 'Module',
+    cell: ({ row }) => (
+      <AddressLink
+        address={row.original.tags['Module'] ?? ''}
+        to="module"
+        short
+      />
+    ),
+  },
+  { ...dateColumn, header: 'Created' },
+]
@@ -0,0 +1,429 @@
+import { Link } from '@tanstack/react-router'
+import {
+  AlertTriangle,
+  Clock,
+  Copy,
+  Download,
+  ExternalLink,
+  Loader2,
+  Network,
+  RefreshCw,
+  Square,
+} from 'lucide-react'
+
+import {
+  AddressLink,
+  Field,
+  Section,
+  TagList,
+} from '@/components/DetailSection'
+import { MessageGraph } from '@/components/MessageGraph'
+import { Button } from '@/components/ui/button'
+import {
+  MAX_DATA_PREVIEW_SIZE,
+  useMessage,
+  useMessageData,
+  useMessageGraph,
+} from '@/hooks/useMessage'
+import { formatAddressForDisplay } from '@/lib/address-utils'
+import { cn } from '@/lib/utils'
+import { useAppStore } from '@/store/app-store'
+
+interface MessageDetailProps {
+  id: string
+  className?: string
+}
+
+// Terminal colour codes in process output
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g
+
+// Output is either plain text or an object with data (and a prompt)
+const formatOutput = (output: unknown): string | undefined => {
+  if (output === undefined || output === null || output === '') return
+  if (typeof output === 'string') return output.replace(ANSI_PATTERN, '')
+  if (typeof output === 'object' && 'data' in output) {
+    return formatOutput((output as { data: unknown }).data)
+  }
+  return JSON.stringify(output, null, 2)
+}
+
+// Pretty print JSON payloads, anything else is shown as is
+const formatData = (data: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(data), null, 2)
+  } catch {
+    return data
+  }
+}
+
+// Copy to clipboard helper
+const copyToClipboard = async (text: string) => {
+  try {
+    await navigator.clipboard.writeText(text)
+  } catch (error) {
+    console.error('Failed to copy to clipboard:', error)
+  }
+}
+
+export function MessageDetail({ id, className }: MessageDetailProps) {
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+  const message = useMessage(id)
+  const graph = useMessageGraph(id)
+  const dataSize = message.data ? Number(message.data.data.size) : undefined
+  const data = useMessageData(id, dataSize)
+
+  if (message.isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading message...</span>
+      </div>
+    )
+  }
+
+  if (message.error || !message.data) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8 text-center">
+        <h2 className="text-lg font-semibold">Message not found</h2>
+        <p className="font-mono text-sm text-muted-foreground">{id}</p>
+        {message.error && (
+          <p className="text-sm text-destructive">{message.error.message}</p>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => message.refetch()}
+          className="mt-4"
+        >
+          Try Again
+        </Button>
+      </div>
+    )
+  }
+
+  const msg = message.data
+  const isAoMessage = msg.tags['Data-Protocol'] === 'ao'
+  const result = graph.root?.result
+  const output = formatOutput(result?.Output)
+  const resultError = result?.Error
+  const resultMessages: any[] = result?.Messages ?? []
+  const spawns: any[] = result?.Spawns ?? []
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Header */}
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <h1 className="text-2xl font-bold">
+            {isAoMessage ? msg.type : 'Transaction'}
+          </h1>
+          {msg.tags['Action'] && (
+            <span className="bg-secondary/50 inline-flex items-center rounded-full px-2 py-1 text-xs font-medium text-secondary-foreground">
+              {msg.tags['Action']}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="break-all font-mono text-sm text-muted-foreground">
+            {msg.id}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => copyToClipboard(msg.id)}
+            title="Copy Message ID"
+          >
+            <Copy className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => window.open(`${gatewayUrl}/${msg.id}`, '_blank')}
+            title="View on gateway"
+          >
+            <ExternalLink className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Overview */}
+      <Section title="Overview">
+        <dl className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <Field label={`From (${msg.fromParsed.type})`}>
+            <AddressLink
+              address={msg.fromParsed.normalizedAddress}
+              label={msg.from}
+              to="address"
+            />
+          </Field>
+          <Field label="To">
+            <AddressLink
+              address={msg.to}
+              to={isAoMessage ? 'process' : 'address'}
+            />
+          </Field>
+          <Field label="Block">
+            {msg.block ? (
+              <span className="flex items-center">
+                <span className="mr-2 font-mono">
+                  #{msg.block.height.toLocaleString()}
+                </span>
+                {msg.block.timestamp && (
+                  <span className="flex items-center text-muted-foreground">
+                    <Clock className="mr-1 h-3 w-3" />
+                    {new Date(msg.block.timestamp * 1000).toLocaleString()}
+                  </span>
+                )}
+              </span>
+            ) : (
+              <span className="text-muted-foreground">Pending</span>
+            )}
+          </Field>
+          <Field label="Data">
+            {Number(msg.data.size).toLocaleString()} bytes
+            {msg.data.type && (
+              <span className="ml-2 text-muted-foreground">
+                {msg.data.type}
+              </span>
+            )}
+          </Field>
+          {msg.bundledIn && (
+            <Field label="Bundled in">
+              <Link
+                to="/message/$id"
+                params={{ id: msg.bundledIn.id }}
+                className="font-mono hover:underline"
+              >
+                {msg.bundledIn.id}
+              </Link>
+            </Field>
+          )}
+          {msg.quantity.winston !== '0' && (
+            <Field label="Quantity">{msg.quantity.ar} AR</Field>
+          )}
+          {msg.fee.winston !== '0' && (
+            <Field label="Fee">{msg.fee.ar} AR</Field>
+          )}
+        </dl>
+      </Section>
+
+      {/* Tags */}
+      <Section title="Tags">
+        <TagList tags={msg.tags} />
+      </Section>
+
+      {/* Data */}
+      <Section title="Data">
+        {dataSize === 0 ? (
+          <p className="text-sm text-muted-foreground">No data</p>
+        ) : dataSize !== undefined && dataSize > MAX_DATA_PREVIEW_SIZE ? (
+          <Button variant="outline" size="sm" asChild>
+            <a href={`${gatewayUrl}/raw/${msg.id}`} download={msg.id}>
+              <Download className="mr-1 h-3 w-3" />
+              Download data
+            </a>
+          </Button>
+        ) : data.isLoading ? (
+          <div className="flex items-center space-x-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="text-muted-foreground">Loading data...</span>
+          </div>
+        ) : data.error ? (
+          <p className="text-sm text-destructive">{data.error.message}</p>
+        ) : (
+          <pre className="bg-muted/50 max-h-96 overflow-auto whitespace-pre-wrap break-all rounded-md p-3 font-mono text-xs">
+            {formatData(data.data ?? '')}
+          </pre>
+        )}
+      </Section>
+
+      {/* CU result and crank graph */}
+      {isAoMessage && (
+        <>
+          <Section title="Result">
+            {graph.root?.error ? (
+              <p className="text-sm text-destructive">
+                Failed to fetch the result: {graph.root.error}
+              </p>
+            ) : graph.loading && (!graph.root || graph.root.loading) ? (
+              <div className="flex items-center space-x-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                <span className="text-muted-foreground">
+                  Evaluating message result...
+                </span>
+              </div>
+            ) : !result ? (
+              <p className="text-sm text-muted-foreground">
+                No result, the recipient is not a process or the CU could not
+                evaluate the message
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {resultError && (
+                  <div className="flex items-start space-x-2 text-sm text-destructive">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                    <pre className="whitespace-pre-wrap break-all font-mono text-xs">
+                      {typeof resultError === 'string'
+                        ? resultError
+                        : JSON.stringify(resultError, null, 2)}
+                    </pre>
+                  </div>
+                )}
+
+                <div>
+                  <h3 className="mb-1 text-sm font-medium">Output</h3>
+                  {output ? (
+                    <pre className="bg-muted/50 max-h-64 overflow-auto whitespace-pre-wrap break-all rounded-md p-3 font-mono text-xs">
+                      {output}
+                    </pre>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No output</p>
+                  )}
+                </div>
+
+                <div>
+                  <h3 className="mb-1 text-sm font-medium">
+                    Messages ({resultMessages.length})
+                  </h3>
+                  {resultMessages.length > 0 ? (
+                    <ul className="space-y-2">
+                      {resultMessages.map((outbox, index) => (
+                        <OutboxEntry key={index} entry={outbox} />
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      No messages sent
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <h3 className="mb-1 text-sm font-medium">
+                    Spawns ({spawns.length})
+                  </h3>
+                  {spawns.length > 0 ? (
+                    <ul className="space-y-2">
+                      {spawns.map((spawn, index) => (
+                        <OutboxEntry key={index} entry={spawn} />
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      No processes spawned
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </Section>
+
+          <Section title="Crank graph">
+            <div className="mb-2 flex flex-wrap items-center gap-2 text-sm">
+              {graph.loading ? (
+                <>
+                  <Network className="h-4 w-4 animate-pulse" />
+                  <span className="text-muted-foreground">
+                    Following resulting messages...
+                  </span>
+                  <Button variant="outline" size="sm" onClick={graph.cancel}>
+                    <Square className="mr-1 h-3 w-3" />
+                    Stop
+                  </Button>
+                </>
+              ) : graph.cancelled || graph.error ? (
+                <>
+                  <span
+                    className={cn(
+                      graph.error
+                        ? 'text-destructive'
+                        : 'text-muted-foreground',
+                    )}
+                  >
+                    {graph.error
+                      ? `The crank graph could not be built: ${graph.error.message}`
+                      : 'Stopped, the graph below is incomplete'}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => graph.refetch()}
+                  >
+                    <RefreshCw className="mr-1 h-3 w-3" />
+                    {graph.error ? 'Try Again' : 'Resume'}
+                  </Button>
+                </>
+              ) : (
+                <>
+                  {graph.truncated && (
+                    <span className="text-muted-foreground">
+                      Limited to {graph.nodeCount} messages, collapsed branches
+                      are marked
+                    </span>
+                  )}
+                  {graph.errors.length > 0 && (
+                    <span className="flex items-center text-destructive">
+                      <AlertTriangle className="mr-1 h-3 w-3" />
+                      {graph.errors.length}{' '}
+                      {graph.errors.length === 1 ? 'message' : 'messages'} could
+                      not be followed
+                    </span>
+                  )}
+                </>
+              )}
+            </div>
+            {graph.root && (
+              <MessageGraph root={graph.root} currentId={msg.id} />
+            )}
+          </Section>
+        </>
+      )}
+    </div>
+  )
+}
+
+// Message or spawn from a CU result outbox
+function OutboxEntry({ entry }: { entry: any }) {
+  const tags: Array<{ name: string; value: string }> = entry.Tags ?? []
+  const action = tags.find((tag) => tag.name === 'Action')?.value
+
+  return (
+    <li className="rounded-md border p-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {action && (
+          <span className="bg-secondary/50 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium text-secondary-foreground">
+            {action}
+          </span>
+        )}
+        {entry.Target && (
+          <span className="font-mono text-xs text-muted-foreground">
+            to {formatAddressForDisplay(String(entry.Target))}
+          </span>
+        )}
+      </div>
+      {tags.length > 0 && (
+        <div className="mt-1 flex flex-wrap gap-1">
+          {tags
+            .filter((tag) => tag.name !== 'Action')
+            .map((tag) => (
+              <span
+                key={`${tag.name}:${tag.value}`}
+                className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs"
+              >
+                {tag.name}: {tag.value}
+              </span>
+            ))}
+        </div>
+      )}
+      {entry.Data && (
+        <pre className="bg-muted/50 mt-1 max-h-32 overflow-auto whitespace-pre-wrap break-all rounded p-2 font-mono text-xs">
+          {typeof entry.Data === 'string'
+            ? formatData(entry.Data)
+            : JSON.stringify(entry.Data, null, 2)}
+        </pre>
+      )}
+    </li>
+  )
+}
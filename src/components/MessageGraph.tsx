@@ -0,0 +1,169 @@
+import { useState } from 'react'
+
+import { Link } from '@tanstack/react-router'
+import {
+  AlertTriangle,
+  ArrowRight,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  MoreHorizontal,
+} from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { formatAddressForDisplay } from '@/lib/address-utils'
+import type { MessageGraphNode } from '@/lib/message-graph'
+import { cn } from '@/lib/utils'
+
+// Levels expanded when the graph is first shown
+const INITIAL_EXPANDED_DEPTH = 3
+
+interface MessageGraphProps {
+  root: MessageGraphNode
+  // Highlighted node, usually the message the page is about
+  currentId?: string
+  className?: string
+}
+
+// Number of messages and deepest level below a node, the node included
+const measure = (node: MessageGraphNode): { count: number; depth: number } =>
+  node.children.reduce(
+    (total, child) => {
+      const { count, depth } = measure(child)
+      return {
+        count: total.count + count,
+        depth: Math.max(total.depth, depth + 1),
+      }
+    },
+    { count: 1, depth: 1 },
+  )
+
+function MessageGraphItem({
+  node,
+  depth,
+  currentId,
+}: {
+  node: MessageGraphNode
+  depth: number
+  currentId?: string
+}) {
+  const [expanded, setExpanded] = useState(depth < INITIAL_EXPANDED_DEPTH)
+  const action = node.tags['Action']
+  const error = node.result?.Error
+
+  return (
+    <li>
+      <div
+        className={cn(
+          'flex flex-wrap items-center gap-2 rounded-md px-2 py-1 text-sm',
+          node.id === currentId && 'bg-accent text-accent-foreground',
+        )}
+      >
+        {node.children.length > 0 ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0"
+            onClick={() => setExpanded(!expanded)}
+            title={expanded ? 'Collapse' : 'Expand'}
+          >
+            {expanded ? (
+              <ChevronDown className="h-3 w-3" />
+            ) : (
+              <ChevronRight className="h-3 w-3" />
+            )}
+          </Button>
+        ) : (
+          <span className="w-5" />
+        )}
+        {action ? (
+          <span className="bg-secondary/50 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium text-secondary-foreground">
+            {action}
+          </span>
+        ) : (
+          <span className="text-xs text-muted-foreground">{node.type}</span>
+        )}
+        <Link
+          to="/message/$id"
+          params={{ id: node.id }}
+          className="font-mono hover:underline"
+        >
+          {formatAddressForDisplay(node.id)}
+        </Link>
+        <span className="flex items-center font-mono text-xs text-muted-foreground">
+          {formatAddressForDisplay(node.from)}
+          <ArrowRight className="mx-1 h-3 w-3" />
+          {node.to ? formatAddressForDisplay(node.to) : '-'}
+        </span>
+        {error && (
+          <span
+            className="flex items-center text-xs text-destructive"
+            title={typeof error === 'string' ? error : JSON.stringify(error)}
+          >
+            <AlertTriangle className="mr-1 h-3 w-3" />
+            Error
+          </span>
+        )}
+        {node.loading && (
+          <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+        )}
+        {node.error && (
+          <span
+            className="flex items-center text-xs text-destructive"
+            title={node.error}
+          >
+            <AlertTriangle className="mr-1 h-3 w-3" />
+            Not followed
+          </span>
+        )}
+        {node.truncated && (
+          <span
+            className="flex items-center text-xs text-muted-foreground"
+            title="Resulting messages left out by the graph limits"
+          >
+            <MoreHorizontal className="mr-1 h-3 w-3" />
+            Truncated
+          </span>
+        )}
+        {!expanded && node.children.length > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {node.children.length} more
+          </span>
+        )}
+      </div>
+
+      {expanded && node.children.length > 0 && (
+        <ul className="ml-4 border-l pl-2">
+          {node.children.map((child) => (
+            <MessageGraphItem
+              key={child.id}
+              node={child}
+              depth={depth + 1}
+              currentId={currentId}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+export function MessageGraph({
+  root,
+  currentId,
+  className,
+}: MessageGraphProps) {
+  const { count, depth } = measure(root)
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <p className="text-sm text-muted-foreground">
+        {count} {count === 1 ? 'message' : 'messages'}, {depth}{' '}
+        {depth === 1 ? 'level' : 'levels'} deep
+      </p>
+      <ul>
+        <MessageGraphItem node={root} depth={0} currentId={currentId} />
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,340 @@
+import { useState } from 'react'
+
+import { Clock, Copy, Download, ExternalLink, Loader2 } from 'lucide-react'
+
+import {
+  AddressLink,
+  Field,
+  Section,
+  TagList,
+} from '@/components/DetailSection'
+import { InfiniteTable } from '@/components/InfiniteTable'
+import {
+  getMessagesFromPage,
+  processColumns,
+} from '@/components/MessageColumns'
+import { Button } from '@/components/ui/button'
+import { useMessage } from '@/hooks/useMessage'
+import { useModuleWasm } from '@/hooks/useModule'
+import { useInfiniteProcesses } from '@/lib/ao-queries'
+import { cn } from '@/lib/utils'
+import {
+  WASM_PAGE_SIZE,
+  type WasmLimits,
+  type WasmModuleInfo,
+} from '@/lib/wasm-inspect'
+import { useAppStore } from '@/store/app-store'
+
+const PAGE_SIZE = 50
+
+// Module tags describing how the CU runs it
+const RUNTIME_TAGS = [
+  'Module-Format',
+  'Memory-Limit',
+  'Compute-Limit',
+  'Input-Encoding',
+  'Output-Encoding',
+  'Variant',
+]
+
+interface ModuleDetailProps {
+  id: string
+  className?: string
+}
+
+// Copy to clipboard helper
+const copyToClipboard = async (text: string) => {
+  try {
+    await navigator.clipboard.writeText(text)
+  } catch (error) {
+    console.error('Failed to copy to clipboard:', error)
+  }
+}
+
+// Format bytes to human readable
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(k)),
+    sizes.length - 1,
+  )
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i]
+}
+
+const formatLimits = ({ min, max, shared, memory64 }: WasmLimits) =>
+  [
+    `${formatBytes(min * WASM_PAGE_SIZE)} initial`,
+    max === undefined
+      ? 'no maximum'
+      : `${formatBytes(max * WASM_PAGE_SIZE)} maximum`,
+    memory64 ? 'memory64' : 'memory32',
+    shared && 'shared',
+  ]
+    .filter(Boolean)
+    .join(', ')
+
+function WasmStructure({ info }: { info: WasmModuleInfo }) {
+  return (
+    <div className="space-y-4">
+      <dl className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <Field label="Binary">
+          {formatBytes(info.size)}, WASM version {info.version}
+        </Field>
+        <Field label="Functions">{info.functionCount.toLocaleString()}</Field>
+        <Field label="Memory">
+          {info.memories.length > 0 ? (
+            info.memories.map((memory, index) => (
+              <span key={index} className="block">
+                {formatLimits(memory)}
+              </span>
+            ))
+          ) : (
+            <span className="text-muted-foreground">None</span>
+          )}
+        </Field>
+      </dl>
+
+      {info.producers.length > 0 && (
+        <div>
+          <h3 className="mb-1 text-sm font-medium">Producers</h3>
+          <ul className="text-sm">
+            {info.producers.map((producer, index) => (
+              <li key={index}>
+                <span className="text-muted-foreground">{producer.field}:</span>{' '}
+                {producer.name}{' '}
+                <span className="font-mono">{producer.version}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div>
+          <h3 className="mb-1 text-sm font-medium">
+            Imports ({info.imports.length})
+          </h3>
+          <ul className="max-h-64 overflow-auto font-mono text-xs">
+            {info.imports.map((entry, index) => (
+              <li key={index}>
+                {entry.module}.{entry.name}{' '}
+                <span className="text-muted-foreground">{entry.kind}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div>
+          <h3 className="mb-1 text-sm font-medium">
+            Exports ({info.exports.length})
+          </h3>
+          <ul className="max-h-64 overflow-auto font-mono text-xs">
+            {info.exports.map((entry) => (
+              <li key={entry.name}>
+                {entry.name}{' '}
+                <span className="text-muted-foreground">{entry.kind}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="mb-1 text-sm font-medium">
+          Custom sections ({info.customSections.length})
+        </h3>
+        <ul className="font-mono text-xs">
+          {info.customSections.map((custom, index) => (
+            <li key={index}>
+              {custom.name}{' '}
+              <span className="text-muted-foreground">
+                {formatBytes(custom.size)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
+
+function SpawnedProcesses({ moduleId }: { moduleId: string }) {
+  const query = useInfiniteProcesses(PAGE_SIZE, false, moduleId)
+  return (
+    <InfiniteTable
+      query={query as any}
+      getDataFromPage={getMessagesFromPage}
+      columns={processColumns}
+      emptyMessage="No processes spawned from this module"
+      loadingMessage="Loading processes..."
+      errorMessage="Failed to load processes"
+    />
+  )
+}
+
+export function ModuleDetail({ id, className }: ModuleDetailProps) {
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+  const module = useMessage(id)
+  const [inspect, setInspect] = useState(false)
+  const wasm = useModuleWasm(id, inspect)
+
+  if (module.isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading module...</span>
+      </div>
+    )
+  }
+
+  if (module.error || !module.data) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8 text-center">
+        <h2 className="text-lg font-semibold">Module not found</h2>
+        <p className="font-mono text-sm text-muted-foreground">{id}</p>
+        {module.error && (
+          <p className="text-sm text-destructive">{module.error.message}</p>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => module.refetch()}
+          className="mt-4"
+        >
+          Try Again
+        </Button>
+      </div>
+    )
+  }
+
+  const msg = module.data
+  const { tags } = msg
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Header */}
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <h1 className="text-2xl font-bold">{tags['Name'] ?? 'Module'}</h1>
+          {msg.type !== 'Module' && (
+            <span className="inline-flex items-center rounded-full bg-destructive px-2 py-1 text-xs font-medium text-destructive-foreground">
+              Not a module: {msg.type}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="break-all font-mono text-sm text-muted-foreground">
+            {msg.id}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => copyToClipboard(msg.id)}
+            title="Copy Module ID"
+          >
+            <Copy className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => window.open(`${gatewayUrl}/${msg.id}`, '_blank')}
+            title="View on gateway"
+          >
+            <ExternalLink className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Overview */}
+      <Section title="Overview">
+        <dl className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <Field label={`Owner (${msg.fromParsed.type})`}>
+            <AddressLink
+              address={msg.fromParsed.normalizedAddress}
+              label={msg.from}
+              to="address"
+            />
+          </Field>
+          <Field label="Published">
+            {msg.block ? (
+              <span className="flex items-center">
+                <span className="mr-2 font-mono">
+                  #{msg.block.height.toLocaleString()}
+                </span>
+                {msg.block.timestamp && (
+                  <span className="flex items-center text-muted-foreground">
+                    <Clock className="mr-1 h-3 w-3" />
+                    {new Date(msg.block.timestamp * 1000).toLocaleString()}
+                  </span>
+                )}
+              </span>
+            ) : (
+              <span className="text-muted-foreground">Pending</span>
+            )}
+          </Field>
+          <Field label="Size">{formatBytes(Number(msg.data.size))}</Field>
+          {RUNTIME_TAGS.map((name) => (
+            <Field key={name} label={name}>
+              {tags[name] ?? <span className="text-muted-foreground">-</span>}
+            </Field>
+          ))}
+        </dl>
+      </Section>
+
+      {/* Tags */}
+      <Section title="Tags">
+        <TagList tags={tags} />
+      </Section>
+
+      {/* Binary */}
+      <Section title="WASM binary">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={`${gatewayUrl}/raw/${msg.id}`} download={`${msg.id}.wasm`}>
+              <Download className="mr-1 h-3 w-3" />
+              Download WASM
+            </a>
+          </Button>
+          {!inspect && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setInspect(true)}
+            >
+              Inspect binary
+            </Button>
+          )}
+        </div>
+        {wasm.isLoading ? (
+          <div className="flex items-center space-x-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span className="text-muted-foreground">
+              Downloading and parsing {formatBytes(Number(msg.data.size))}...
+            </span>
+          </div>
+        ) : wasm.error ? (
+          <div className="text-sm">
+            <p className="text-destructive">{wasm.error.message}</p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => wasm.refetch()}
+              className="mt-2"
+            >
+              Try Again
+            </Button>
+          </div>
+        ) : (
+          wasm.data && <WasmStructure info={wasm.data} />
+        )}
+      </Section>
+
+      {/* Processes */}
+      <Section title="Spawned processes">
+        <SpawnedProcesses moduleId={msg.id} />
+      </Section>
+    </div>
+  )
+}
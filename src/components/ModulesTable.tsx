@@ -1,5 +1,6 @@
 import { useMemo, useState } from 'react'
 
+import { Link } from '@tanstack/react-router'
 import { type ColumnDef } from '@tanstack/react-table'
 import { Check, Clock, Copy, ExternalLink, Settings } from 'lucide-react'
 
@@ -137,9 +138,13 @@ export function ModulesTable({
           const module = row.original
           return (
             <div className="flex items-center space-x-2">
-              <span className="font-mono text-sm">
+              <Link
+                to="/module/$id"
+                params={{ id: module.id }}
+                className="font-mono text-sm hover:underline"
+              >
                 {formatAddressForDisplay(module.id)}
-              </span>
+              </Link>
               <Button
                 variant="ghost"
                 size="sm"
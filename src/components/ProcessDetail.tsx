@@ -0,0 +1,281 @@
+import { Link } from '@tanstack/react-router'
+import { Clock, Copy, ExternalLink, Loader2 } from 'lucide-react'
+
+import {
+  AddressLink,
+  Field,
+  Section,
+  TagList,
+} from '@/components/DetailSection'
+import { InfiniteTable } from '@/components/InfiniteTable'
+import {
+  getMessagesFromPage,
+  messageColumns,
+  processColumns,
+  tokenColumns,
+} from '@/components/MessageColumns'
+import { ProcessHandlers } from '@/components/ProcessHandlers'
+import { ProcessSource } from '@/components/ProcessSource'
+import { ProcessStatePanel } from '@/components/ProcessStatePanel'
+import { Button } from '@/components/ui/button'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { useMessage } from '@/hooks/useMessage'
+import { useProcessOwner } from '@/hooks/useProcessOwner'
+import {
+  useInfiniteEvalMessages,
+  useInfiniteIncomingMessages,
+  useInfiniteOutgoingMessages,
+  useInfiniteSpawnedProcesses,
+  useInfiniteTokenTransfers,
+} from '@/lib/ao-queries'
+import { cn } from '@/lib/utils'
+import { useAppStore } from '@/store/app-store'
+
+const PAGE_SIZE = 50
+
+interface ProcessDetailProps {
+  id: string
+  className?: string
+}
+
+// Copy to clipboard helper
+const copyToClipboard = async (text: string) => {
+  try {
+    await navigator.clipboard.writeText(text)
+  } catch (error) {
+    console.error('Failed to copy to clipboard:', error)
+  }
+}
+
+// One tab per relation; tab contents mount on selection, so each relation
+// is only queried once it is opened
+
+function IncomingMessages({ id }: { id: string }) {
+  const query = useInfiniteIncomingMessages(id, PAGE_SIZE)
+  return (
+    <InfiniteTable
+      query={query as any}
+      getDataFromPage={getMessagesFromPage}
+      columns={messageColumns}
+      emptyMessage="No incoming messages"
+      loadingMessage="Loading incoming messages..."
+      errorMessage="Failed to load incoming messages"
+    />
+  )
+}
+
+function OutgoingMessages({ id }: { id: string }) {
+  const query = useInfiniteOutgoingMessages(id, PAGE_SIZE, false, true)
+  return (
+    <InfiniteTable
+      query={query as any}
+      getDataFromPage={getMessagesFromPage}
+      columns={messageColumns}
+      emptyMessage="No outgoing messages"
+      loadingMessage="Loading outgoing messages..."
+      errorMessage="Failed to load outgoing messages"
+    />
+  )
+}
+
+function SpawnedProcesses({ id }: { id: string }) {
+  const query = useInfiniteSpawnedProcesses(id, PAGE_SIZE, false, true)
+  return (
+    <InfiniteTable
+      query={query as any}
+      getDataFromPage={getMessagesFromPage}
+      columns={processColumns}
+      emptyMessage="No spawned processes"
+      loadingMessage="Loading spawned processes..."
+      errorMessage="Failed to load spawned processes"
+    />
+  )
+}
+
+function EvalMessages({ id }: { id: string }) {
+  const query = useInfiniteEvalMessages(id, PAGE_SIZE)
+  return (
+    <InfiniteTable
+      query={query as any}
+      getDataFromPage={getMessagesFromPage}
+      columns={messageColumns}
+      emptyMessage="No evals"
+      loadingMessage="Loading evals..."
+      errorMessage="Failed to load evals"
+    />
+  )
+}
+
+function TokenTransfers({ id }: { id: string }) {
+  const query = useInfiniteTokenTransfers(id, PAGE_SIZE)
+  return (
+    <InfiniteTable
+      query={query as any}
+      getDataFromPage={getMessagesFromPage}
+      columns={tokenColumns}
+      emptyMessage="No token transfers"
+      loadingMessage="Loading token transfers..."
+      errorMessage="Failed to load token transfers"
+    />
+  )
+}
+
+const PROCESS_TABS = [
+  { value: 'incoming', label: 'Incoming', content: IncomingMessages },
+  { value: 'outgoing', label: 'Outgoing', content: OutgoingMessages },
+  { value: 'spawns', label: 'Spawns', content: SpawnedProcesses },
+  { value: 'evals', label: 'Evals', content: EvalMessages },
+  { value: 'source', label: 'Source', content: ProcessSource },
+  { value: 'handlers', label: 'Handlers', content: ProcessHandlers },
+  { value: 'tokens', label: 'Token transfers', content: TokenTransfers },
+]
+
+export function ProcessDetail({ id, className }: ProcessDetailProps) {
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+  const process = useMessage(id)
+  const owner = useProcessOwner(id)
+
+  if (process.isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading process...</span>
+      </div>
+    )
+  }
+
+  if (process.error || !process.data) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8 text-center">
+        <h2 className="text-lg font-semibold">Process not found</h2>
+        <p className="font-mono text-sm text-muted-foreground">{id}</p>
+        {process.error && (
+          <p className="text-sm text-destructive">{process.error.message}</p>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => process.refetch()}
+          className="mt-4"
+        >
+          Try Again
+        </Button>
+      </div>
+    )
+  }
+
+  const spawn = process.data
+  const { tags } = spawn
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Header */}
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <h1 className="text-2xl font-bold">{tags['Name'] ?? 'Process'}</h1>
+          {spawn.type !== 'Process' && (
+            <span className="inline-flex items-center rounded-full bg-destructive px-2 py-1 text-xs font-medium text-destructive-foreground">
+              Not a process: {spawn.type}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="break-all font-mono text-sm text-muted-foreground">
+            {spawn.id}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => copyToClipboard(spawn.id)}
+            title="Copy Process ID"
+          >
+            <Copy className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => window.open(`${gatewayUrl}/${spawn.id}`, '_blank')}
+            title="View on gateway"
+          >
+            <ExternalLink className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Overview */}
+      <Section title="Overview">
+        <dl className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <Field label={`Owner (${spawn.fromParsed.type})`}>
+            <AddressLink
+              address={spawn.fromParsed.normalizedAddress}
+              label={spawn.from}
+              to="address"
+            />
+          </Field>
+          <Field label="Module">
+            <AddressLink address={tags['Module'] ?? ''} to="module" />
+          </Field>
+          <Field label="Scheduler">
+            <AddressLink address={tags['Scheduler'] ?? ''} to="address" />
+          </Field>
+          {tags['From-Process'] && (
+            <Field label="Spawned by">
+              <AddressLink address={tags['From-Process']} to="process" />
+            </Field>
+          )}
+          <Field label="Spawn height">
+            {spawn.block ? (
+              <span className="flex items-center">
+                <span className="mr-2 font-mono">
+                  #{spawn.block.height.toLocaleString()}
+                </span>
+                {spawn.block.timestamp && (
+                  <span className="flex items-center text-muted-foreground">
+                    <Clock className="mr-1 h-3 w-3" />
+                    {new Date(spawn.block.timestamp * 1000).toLocaleString()}
+                  </span>
+                )}
+              </span>
+            ) : (
+              <span className="text-muted-foreground">Pending</span>
+            )}
+          </Field>
+          <Field label="Spawn message">
+            <Link
+              to="/message/$id"
+              params={{ id: spawn.id }}
+              className="font-mono hover:underline"
+            >
+              View spawn message and result
+            </Link>
+          </Field>
+        </dl>
+      </Section>
+
+      {/* Evaluation and scheduler state */}
+      <ProcessStatePanel id={spawn.id} owner={owner.data ?? undefined} />
+
+      {/* Spawn tags */}
+      <Section title="Tags">
+        <TagList tags={tags} />
+      </Section>
+
+      {/* Relations */}
+      <Tabs defaultValue="incoming">
+        <TabsList>
+          {PROCESS_TABS.map((tab) => (
+            <TabsTrigger key={tab.value} value={tab.value}>
+              {tab.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        {PROCESS_TABS.map(({ value, content: Content }) => (
+          <TabsContent key={value} value={value}>
+            <Content id={spawn.id} />
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  )
+}
@@ -0,0 +1,474 @@
+import { useMemo, useState } from 'react'
+
+import {
+  useAoSigner,
+  useConnection,
+  useAddress as useWalletAddress,
+} from '@project-kardeshev/ao-wallet-kit'
+import { Link } from '@tanstack/react-router'
+import { Loader2, Plus, Send, Trash2, X } from 'lucide-react'
+
+import { AddressLink } from '@/components/DetailSection'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { useLuaSource } from '@/hooks/useLuaSource'
+import {
+  useHandlerHistory,
+  useProcessHandlers,
+} from '@/hooks/useProcessHandlers'
+import type { EvalMode } from '@/lib/aos-eval'
+import {
+  type HandlerCall,
+  type MessageTag,
+  type ProcessHandler,
+  callHandler,
+  withSourceTags,
+} from '@/lib/process-handlers'
+import { cn } from '@/lib/utils'
+import { useAppStore } from '@/store/app-store'
+
+// Action first, then the tags the pattern fixes and those read from code
+const initialTags = (handler: ProcessHandler): Array<MessageTag> => [
+  { name: 'Action', value: handler.tags['Action'] ?? handler.name },
+  ...Object.entries(handler.tags)
+    .filter(([name]) => name !== 'Action')
+    .map(([name, value]) => ({ name, value })),
+  ...handler.inferredTags.map((name) => ({ name, value: '' })),
+]
+
+function CallResult({ call }: { call: HandlerCall }) {
+  if (call.error) {
+    return (
+      <p className="whitespace-pre-wrap break-all font-mono text-xs text-destructive">
+        {call.error}
+      </p>
+    )
+  }
+
+  const response = call.response
+  if (!response) return null
+
+  return (
+    <div className="space-y-2 text-sm">
+      {response.messageId && (
+        <p>
+          <span className="text-muted-foreground">Sent as </span>
+          <Link
+            to="/message/$id"
+            params={{ id: response.messageId }}
+            className="font-mono hover:underline"
+          >
+            {response.messageId}
+          </Link>
+        </p>
+      )}
+      {response.error && (
+        <p className="whitespace-pre-wrap break-all font-mono text-xs text-destructive">
+          {response.error}
+        </p>
+      )}
+      {response.output && (
+        <pre className="bg-muted/50 max-h-64 overflow-auto whitespace-pre-wrap break-all rounded-md p-3 font-mono text-xs">
+          {response.output}
+        </pre>
+      )}
+      {response.messages.length === 0 && !response.output && (
+        <p className="text-muted-foreground">No output and no messages sent</p>
+      )}
+      {response.messages.map((message, index) => (
+        <div key={index} className="space-y-1 rounded-md border p-2">
+          {message.target && (
+            <p className="text-xs">
+              <span className="text-muted-foreground">To </span>
+              <AddressLink address={message.target} to="address" short />
+            </p>
+          )}
+          <div className="flex flex-wrap gap-1">
+            {Object.entries(message.tags).map(([name, value]) => (
+              <span
+                key={name}
+                className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs"
+              >
+                {name}: {value}
+              </span>
+            ))}
+          </div>
+          {message.data && (
+            <pre className="bg-muted/50 max-h-48 overflow-auto whitespace-pre-wrap break-all rounded-md p-2 font-mono text-xs">
+              {message.data}
+            </pre>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function HandlerForm({
+  processId,
+  handler,
+  initial,
+  onCall,
+}: {
+  processId: string
+  handler: ProcessHandler
+  // Earlier call to fill the form from
+  initial?: HandlerCall
+  onCall: (call: HandlerCall) => void
+}) {
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+  const signer = useAoSigner()
+  const walletAddress = useWalletAddress()
+  const { connected } = useConnection()
+  const [tags, setTags] = useState<Array<MessageTag>>(
+    () => initial?.tags ?? initialTags(handler),
+  )
+  const [data, setData] = useState(initial?.data ?? '')
+  const [pending, setPending] = useState<EvalMode | null>(null)
+  const [last, setLast] = useState<HandlerCall | null>(null)
+
+  const setTag = (index: number, tag: Partial<MessageTag>) =>
+    setTags((previous) =>
+      previous.map((current, i) =>
+        i === index ? { ...current, ...tag } : current,
+      ),
+    )
+
+  const send = async (mode: EvalMode) => {
+    const call: HandlerCall = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      handler: handler.name,
+      mode,
+      // Tags inferred from code but left empty are not sent
+      tags: tags.filter((tag) => tag.name.trim() && tag.value !== ''),
+      data,
+      timestamp: Date.now(),
+    }
+
+    setPending(mode)
+    try {
+      call.response = await callHandler({
+        processId,
+        cuUrl,
+        mode,
+        data,
+        tags: call.tags,
+        signer,
+        // Dry runs read as the connected wallet, such as its balance
+        from: walletAddress,
+      })
+    } catch (err) {
+      call.error = err instanceof Error ? err.message : String(err)
+    } finally {
+      setPending(null)
+    }
+
+    setLast(call)
+    onCall(call)
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-mono font-medium">{handler.name}</h3>
+
+      <div className="space-y-2">
+        {tags.map((tag, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={tag.name}
+              onChange={(e) => setTag(index, { name: e.target.value })}
+              placeholder="Tag name"
+              className="h-8 font-mono text-xs"
+            />
+            <Input
+              value={tag.value}
+              onChange={(e) => setTag(index, { value: e.target.value })}
+              placeholder="Value"
+              className="h-8 font-mono text-xs"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 shrink-0 p-0"
+              onClick={() =>
+                setTags((previous) => previous.filter((_, i) => i !== index))
+              }
+              title="Remove tag"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setTags((previous) => [...previous, { name: '', value: '' }])
+          }
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          Add tag
+        </Button>
+      </div>
+
+      <Textarea
+        value={data}
+        onChange={(e) => setData(e.target.value)}
+        placeholder="Data"
+        className="font-mono text-xs"
+        rows={3}
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          onClick={() => send('dryrun')}
+          disabled={pending !== null}
+        >
+          {pending === 'dryrun' && (
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+          )}
+          Dry run
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => send('message')}
+          disabled={pending !== null || !connected || !signer}
+          title={
+            connected
+              ? 'Sign and send the message to the process'
+              : 'Connect a wallet to send messages'
+          }
+        >
+          {pending === 'message' ? (
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+          ) : (
+            <Send className="mr-1 h-3 w-3" />
+          )}
+          Send
+        </Button>
+      </div>
+
+      {last && <CallResult call={last} />}
+    </div>
+  )
+}
+
+function CallHistory({
+  calls,
+  onLoad,
+  onClear,
+}: {
+  calls: Array<HandlerCall>
+  onLoad: (call: HandlerCall) => void
+  onClear: () => void
+}) {
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">History ({calls.length})</h3>
+        {calls.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            <Trash2 className="mr-1 h-3 w-3" />
+            Clear
+          </Button>
+        )}
+      </div>
+      {calls.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Calls made from this page are kept here, in this browser only
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {calls.map((call) => {
+            const failed = !!(call.error || call.response?.error)
+            return (
+              <li key={call.id} className="rounded-md border p-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-muted-foreground">
+                    {new Date(call.timestamp).toLocaleString()}
+                  </span>
+                  <span className="font-mono">{call.handler}</span>
+                  <span className="rounded bg-muted px-1.5 py-0.5 text-xs">
+                    {call.mode === 'dryrun' ? 'dry run' : 'sent'}
+                  </span>
+                  <span
+                    className={cn(
+                      'text-xs',
+                      failed ? 'text-destructive' : 'text-muted-foreground',
+                    )}
+                  >
+                    {failed
+                      ? 'error'
+                      : `${call.response?.messages.length ?? 0} message(s)`}
+                  </span>
+                  <div className="ml-auto flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 text-xs"
+                      onClick={() =>
+                        setExpanded(expanded === call.id ? null : call.id)
+                      }
+                    >
+                      {expanded === call.id ? 'Hide' : 'Show'}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 text-xs"
+                      onClick={() => onLoad(call)}
+                    >
+                      Load
+                    </Button>
+                  </div>
+                </div>
+                {expanded === call.id && (
+                  <div className="mt-2">
+                    <CallResult call={call} />
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export function ProcessHandlers({ id }: { id: string }) {
+  const discovery = useProcessHandlers(id)
+  const history = useHandlerHistory(id)
+  const [inferFromSource, setInferFromSource] = useState(false)
+  const source = useLuaSource(id, inferFromSource)
+  const [selected, setSelected] = useState<{
+    name: string
+    initial?: HandlerCall
+  } | null>(null)
+
+  const handlers = useMemo(() => {
+    const discovered = discovery.data?.handlers ?? []
+    return source.data
+      ? withSourceTags(discovered, source.data.handlers)
+      : discovered
+  }, [discovery.data, source.data])
+
+  if (discovery.isLoading) {
+    return (
+      <div className="flex items-center space-x-2 p-4">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span className="text-muted-foreground">Listing handlers...</span>
+      </div>
+    )
+  }
+
+  if (discovery.error || !discovery.data) {
+    return (
+      <div className="p-4 text-sm">
+        <p className="text-destructive">Failed to list handlers</p>
+        {discovery.error && (
+          <p className="text-muted-foreground">{discovery.error.message}</p>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => discovery.refetch()}
+          className="mt-2"
+        >
+          Try Again
+        </Button>
+      </div>
+    )
+  }
+
+  // Calls loaded from history may name handlers that are gone since
+  const handler = selected
+    ? (handlers.find(({ name }) => name === selected.name) ?? {
+        name: selected.name,
+        tags: {},
+        inferredTags: [],
+      })
+    : null
+
+  return (
+    <div className="space-y-6 p-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">
+          {handlers.length} handlers,{' '}
+          {discovery.data.source === 'eval'
+            ? 'listed by the process'
+            : 'named in its Info response'}
+        </span>
+        {!inferFromSource ? (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setInferFromSource(true)}
+          >
+            Infer tags from source
+          </Button>
+        ) : source.isLoading ? (
+          <span className="flex items-center text-muted-foreground">
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+            Reading evals...
+          </span>
+        ) : (
+          source.error && (
+            <span className="text-destructive">{source.error.message}</span>
+          )
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+        <ul className="space-y-1">
+          {handlers.map(({ name, tags }) => (
+            <li key={name}>
+              <button
+                type="button"
+                onClick={() => setSelected({ name })}
+                className={cn(
+                  'w-full rounded px-2 py-1 text-left font-mono text-sm hover:bg-muted',
+                  selected?.name === name && 'bg-muted',
+                )}
+              >
+                {name}
+                {tags['Action'] && tags['Action'] !== name && (
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {tags['Action']}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="md:col-span-2">
+          {handler ? (
+            <HandlerForm
+              key={`${handler.name}:${selected?.initial?.id ?? ''}:${handler.inferredTags.join()}`}
+              processId={id}
+              handler={handler}
+              initial={selected?.initial}
+              onCall={history.record}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Select a handler to call it
+            </p>
+          )}
+        </div>
+      </div>
+
+      <CallHistory
+        calls={history.calls}
+        onLoad={(call) => setSelected({ name: call.handler, initial: call })}
+        onClear={history.clear}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,258 @@
+import { useState } from 'react'
+
+import { Link } from '@tanstack/react-router'
+import { AlertTriangle, Clock, Loader2 } from 'lucide-react'
+
+import { AddressLink } from '@/components/DetailSection'
+import { Button } from '@/components/ui/button'
+import { useLuaSource } from '@/hooks/useLuaSource'
+import type {
+  DiffLine,
+  HandlerChange,
+  MergedHandler,
+  SourceChunk,
+  SourceChunkStatus,
+} from '@/lib/lua-source'
+import { cn } from '@/lib/utils'
+
+type SourceView = 'handlers' | 'timeline'
+
+const STATUS_STYLES: Record<SourceChunkStatus, string> = {
+  applied: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  ignored: 'bg-muted text-muted-foreground',
+  unknown:
+    'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+}
+
+const DIFF_STYLES: Record<DiffLine['type'], string> = {
+  same: 'text-muted-foreground',
+  added: 'bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-300',
+  removed: 'bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300',
+}
+
+const DIFF_MARKS: Record<DiffLine['type'], string> = {
+  same: ' ',
+  added: '+',
+  removed: '-',
+}
+
+function ChunkLink({ chunk }: { chunk: Pick<SourceChunk, 'id'> }) {
+  return (
+    <Link
+      to="/message/$id"
+      params={{ id: chunk.id }}
+      className="font-mono text-muted-foreground hover:text-foreground hover:underline"
+    >
+      {chunk.id.slice(0, 8)}...
+    </Link>
+  )
+}
+
+function DiffView({ diff }: { diff: Array<DiffLine> }) {
+  return (
+    <pre className="bg-muted/50 max-h-96 overflow-auto rounded-md py-2 font-mono text-xs">
+      {diff.map((line, index) => (
+        <div key={index} className={cn('px-3', DIFF_STYLES[line.type])}>
+          {DIFF_MARKS[line.type]} {line.text}
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+function HandlerChanges({ changes }: { changes: Array<HandlerChange> }) {
+  return (
+    <div className="space-y-2">
+      {changes.map((change) => (
+        <div key={`${change.action}:${change.name}`} className="space-y-1">
+          <p className="text-sm">
+            <span className="font-mono font-medium">{change.name}</span>{' '}
+            <span className="text-muted-foreground">{change.action}</span>
+          </p>
+          <DiffView diff={change.diff} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function Handlers({ handlers }: { handlers: Array<MergedHandler> }) {
+  if (handlers.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No handlers defined by the boot program or applied evals
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {handlers.map((handler) => (
+        <div key={handler.name} className="space-y-1">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-mono font-medium">{handler.name}</span>
+            <span className="text-muted-foreground">defined by</span>
+            <ChunkLink chunk={{ id: handler.chunkId }} />
+            {handler.height !== undefined && (
+              <span className="font-mono text-muted-foreground">
+                #{handler.height.toLocaleString()}
+              </span>
+            )}
+          </div>
+          <pre className="bg-muted/50 max-h-96 overflow-auto whitespace-pre-wrap break-all rounded-md p-3 font-mono text-xs">
+            {handler.code}
+          </pre>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function Timeline({ chunks }: { chunks: Array<SourceChunk> }) {
+  return (
+    <ol className="space-y-4 border-l pl-4">
+      {chunks.map((chunk) => (
+        <li key={`${chunk.kind}:${chunk.id}`} className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">
+              {chunk.kind === 'boot' ? 'Boot program' : 'Eval'}
+            </span>
+            <span className="font-mono">
+              {chunk.height !== undefined
+                ? `#${chunk.height.toLocaleString()}`
+                : 'Pending'}
+            </span>
+            {chunk.timestamp && (
+              <span className="flex items-center text-muted-foreground">
+                <Clock className="mr-1 h-3 w-3" />
+                {new Date(chunk.timestamp * 1000).toLocaleString()}
+              </span>
+            )}
+            <AddressLink address={chunk.from} to="address" short />
+            <ChunkLink chunk={chunk} />
+            <span
+              className={cn(
+                'inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium',
+                STATUS_STYLES[chunk.status],
+              )}
+            >
+              {chunk.status}
+            </span>
+          </div>
+
+          {chunk.error && (
+            <p className="whitespace-pre-wrap break-all font-mono text-xs text-destructive">
+              {chunk.error}
+            </p>
+          )}
+
+          {chunk.changes.length > 0 ? (
+            <HandlerChanges changes={chunk.changes} />
+          ) : (
+            chunk.status === 'applied' && (
+              <p className="text-sm text-muted-foreground">
+                No handler changes
+              </p>
+            )
+          )}
+
+          {chunk.code && (
+            <details>
+              <summary className="cursor-pointer text-sm text-muted-foreground">
+                Code ({chunk.code.split('\n').length} lines)
+              </summary>
+              <pre className="bg-muted/50 mt-1 max-h-96 overflow-auto whitespace-pre-wrap break-all rounded-md p-3 font-mono text-xs">
+                {chunk.code}
+              </pre>
+            </details>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+export function ProcessSource({ id }: { id: string }) {
+  const source = useLuaSource(id)
+  const [view, setView] = useState<SourceView>('handlers')
+
+  if (source.isLoading) {
+    return (
+      <div className="flex items-center space-x-2 p-4">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span className="text-muted-foreground">
+          Fetching evals and their results...
+        </span>
+      </div>
+    )
+  }
+
+  if (source.error || !source.data) {
+    return (
+      <div className="p-4 text-sm">
+        <p className="text-destructive">Failed to reconstruct the source</p>
+        {source.error && (
+          <p className="text-muted-foreground">{source.error.message}</p>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => source.refetch()}
+          className="mt-2"
+        >
+          Try Again
+        </Button>
+      </div>
+    )
+  }
+
+  const { chunks, handlers, truncated } = source.data
+  const count = (status: SourceChunkStatus) =>
+    chunks.filter((chunk) => chunk.status === status).length
+
+  return (
+    <div className="space-y-4 p-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Button
+          variant={view === 'handlers' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setView('handlers')}
+        >
+          Current handlers ({handlers.length})
+        </Button>
+        <Button
+          variant={view === 'timeline' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setView('timeline')}
+        >
+          Timeline ({chunks.length})
+        </Button>
+        <span className="text-muted-foreground">
+          {count('applied')} applied, {count('failed')} failed,{' '}
+          {count('ignored')} ignored, {count('unknown')} unchecked
+        </span>
+      </div>
+
+      {truncated && (
+        <p className="flex items-center text-sm text-yellow-700 dark:text-yellow-300">
+          <AlertTriangle className="mr-1 h-4 w-4" />
+          Only the latest{' '}
+          {chunks.filter((chunk) => chunk.kind === 'eval').length} evals were
+          replayed. The current handlers are incomplete, handlers defined by
+          earlier evals and not redefined since are missing
+        </p>
+      )}
+
+      {chunks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No boot program or evals found for this process
+        </p>
+      ) : view === 'handlers' ? (
+        <Handlers handlers={handlers} />
+      ) : (
+        <Timeline chunks={chunks} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+import { type ReactNode } from 'react'
+
+import { Clock, Loader2, RefreshCw } from 'lucide-react'
+
+import { Field, Section } from '@/components/DetailSection'
+import { Button } from '@/components/ui/button'
+import { useProcessState } from '@/hooks/useProcessState'
+import { cn } from '@/lib/utils'
+
+const SYNCED_STYLE =
+  'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+const BEHIND_STYLE =
+  'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+
+interface ProcessStatePanelProps {
+  id: string
+  // Process owner, the runtime eval is dry run as them
+  owner?: string
+  className?: string
+}
+
+// Format bytes to human readable
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(k)),
+    sizes.length - 1,
+  )
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i]
+}
+
+function Timestamp({ value }: { value?: number }) {
+  if (!value) return null
+  return (
+    <span className="flex items-center text-muted-foreground">
+      <Clock className="mr-1 h-3 w-3" />
+      {new Date(value).toLocaleString()}
+    </span>
+  )
+}
+
+function Unavailable({ error }: { error?: string }) {
+  return (
+    <span className="text-muted-foreground">
+      {error ? `Unavailable: ${error}` : 'Unavailable'}
+    </span>
+  )
+}
+
+function Value({ children }: { children: ReactNode }) {
+  return <span className="font-mono">{children}</span>
+}
+
+export function ProcessStatePanel({
+  id,
+  owner,
+  className,
+}: ProcessStatePanelProps) {
+  const state = useProcessState(id, owner)
+
+  if (state.isLoading) {
+    return (
+      <Section title="State" className={className}>
+        <div className="flex items-center text-sm text-muted-foreground">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Checking process state...
+        </div>
+      </Section>
+    )
+  }
+
+  if (state.error || !state.data) {
+    return (
+      <Section title="State" className={className}>
+        <p className="text-sm text-destructive">
+          {state.error?.message ?? 'Failed to load process state'}
+        </p>
+      </Section>
+    )
+  }
+
+  const { evaluated, runtime, assignment, errors, behind } = state.data
+
+  return (
+    <Section title="State" className={className}>
+      <div className="flex items-center justify-between">
+        <div>
+          {behind !== undefined && (
+            <span
+              className={cn(
+                'inline-flex items-center rounded-full px-2 py-1 text-xs font-medium',
+                behind > 0 ? BEHIND_STYLE : SYNCED_STYLE,
+              )}
+            >
+              {behind > 0
+                ? `CU behind the scheduler by ${behind.toLocaleString()} ${behind === 1 ? 'message' : 'messages'}`
+                : 'CU up to date with the scheduler'}
+            </span>
+          )}
+          {behind === undefined && evaluated && assignment && (
+            <span className="text-xs text-muted-foreground">
+              The nonce is from the CU's scheduler and the slot from the
+              HyperBEAM node, so they are not compared
+            </span>
+          )}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => state.refetch()}
+          disabled={state.isFetching}
+        >
+          <RefreshCw
+            className={cn('mr-2 h-4 w-4', state.isFetching && 'animate-spin')}
+          />
+          Refresh
+        </Button>
+      </div>
+
+      <dl className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <Field label="Latest evaluated nonce">
+          {evaluated ? (
+            <span className="flex items-center space-x-2">
+              <Value>#{evaluated.ordinate.toLocaleString()}</Value>
+              {evaluated.cron && (
+                <span className="text-muted-foreground">
+                  (cron {evaluated.cron})
+                </span>
+              )}
+              <Timestamp value={evaluated.timestamp} />
+            </span>
+          ) : errors.evaluated ? (
+            <Unavailable error={errors.evaluated} />
+          ) : (
+            <span className="text-muted-foreground">Nothing evaluated yet</span>
+          )}
+        </Field>
+        <Field label="Latest assignment">
+          {assignment ? (
+            <span className="flex items-center space-x-2">
+              <Value>#{assignment.slot.toLocaleString()}</Value>
+              {assignment.blockHeight !== undefined && (
+                <span className="text-muted-foreground">
+                  block {assignment.blockHeight.toLocaleString()}
+                </span>
+              )}
+              <Timestamp value={assignment.timestamp} />
+            </span>
+          ) : (
+            <Unavailable error={errors.assignment} />
+          )}
+        </Field>
+        {runtime ? (
+          <>
+            <Field label="Memory (Lua heap)">
+              <Value>{formatBytes(runtime.memory)}</Value>
+            </Field>
+            <Field label="Inbox">
+              <Value>{runtime.inbox.toLocaleString()}</Value>
+            </Field>
+            <Field label="Pending coroutines">
+              <Value>{runtime.coroutines.toLocaleString()}</Value>
+            </Field>
+            <Field label="Handlers">
+              <Value>{runtime.handlers.toLocaleString()}</Value>
+            </Field>
+          </>
+        ) : (
+          <Field label="Runtime">
+            <Unavailable error={errors.runtime} />
+          </Field>
+        )}
+      </dl>
+    </Section>
+  )
+}
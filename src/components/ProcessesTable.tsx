@@ -1,5 +1,6 @@
 import { useMemo, useState } from 'react'
 
+import { Link } from '@tanstack/react-router'
 import { type ColumnDef } from '@tanstack/react-table'
 import { Check, Clock, Copy, ExternalLink, Settings } from 'lucide-react'
 
@@ -119,9 +120,13 @@ export function ProcessesTable({
           const process = row.original
           return (
             <div className="flex items-center space-x-2">
-              <span className="font-mono text-sm">
+              <Link
+                to="/process/$id"
+                params={{ id: process.id }}
+                className="font-mono text-sm hover:underline"
+              >
                 {formatAddressForDisplay(process.id)}
-              </span>
+              </Link>
               <Button
                 variant="ghost"
                 size="sm"
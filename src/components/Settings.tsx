@@ -8,6 +8,7 @@ import {
   DEFAULT_ARIO_PROCESS_ID,
   DEFAULT_CU_URL,
   DEFAULT_DATABASE_URL,
+  DEFAULT_DATASETS_URL,
   DEFAULT_GATEWAY_URL,
   DEFAULT_HYPERBEAM_NODE_URL,
   DEFAULT_TURBO_PAYMENT_URL,
@@ -31,6 +32,8 @@ export function Settings() {
     turboPaymentUrl: 'idle',
     turboUploadUrl: 'idle',
     arioProcessId: 'idle',
+    datasetsUrl: 'idle',
+    datasetsManifestUrl: 'idle',
   })
 
   // Update form data when config changes (e.g., from persistence)
@@ -81,6 +84,19 @@ export function Settings() {
       description: 'Arweave transaction ID for the AR.IO process',
       placeholder: DEFAULT_ARIO_PROCESS_ID,
     },
+    {
+      key: 'datasetsUrl' as StringConfigKeys,
+      label: 'Datasets URL',
+      description: 'Height-partitioned parquet datasets for the ArFS explorer',
+      placeholder: DEFAULT_DATASETS_URL,
+    },
+    {
+      key: 'datasetsManifestUrl' as StringConfigKeys,
+      label: 'Datasets Manifest URL',
+      description:
+        'Optional manifest of the dataset partitions, listed from the datasets URL when empty',
+      placeholder: `${DEFAULT_DATASETS_URL}/manifest.json`,
+    },
   ]
 
   const handleInputChange = (key: StringConfigKeys, value: string) => {
@@ -133,6 +149,8 @@ export function Settings() {
       turboPaymentUrl: 'idle',
       turboUploadUrl: 'idle',
       arioProcessId: 'idle',
+      datasetsUrl: 'idle',
+      datasetsManifestUrl: 'idle',
     })
   }
 
@@ -0,0 +1,222 @@
+import { useState } from 'react'
+
+import { useRouter } from '@tanstack/react-router'
+import {
+  Box,
+  Clock,
+  Cpu,
+  FileText,
+  FolderOpen,
+  Globe,
+  Hash,
+  Layers,
+  Loader2,
+  Network,
+  Search,
+  Wallet,
+} from 'lucide-react'
+
+import { Input } from '@/components/ui/input'
+import { useSearchResolution } from '@/hooks/useSearchResolution'
+import { formatAddressForDisplay } from '@/lib/address-utils'
+import {
+  type SearchKind,
+  type SearchTarget,
+  searchTargetLink,
+} from '@/lib/search'
+import { cn } from '@/lib/utils'
+import { useAppStore } from '@/store/app-store'
+
+const KIND_ICONS: Record<SearchKind, typeof Search> = {
+  process: Cpu,
+  module: Layers,
+  message: Network,
+  transaction: FileText,
+  address: Wallet,
+  arns: Globe,
+  undername: Globe,
+  drive: FolderOpen,
+  block: Box,
+  id: Hash,
+}
+
+// Recent searches shown below the matches while typing
+const MAX_RECENT_MATCHES = 5
+
+interface SearchOption {
+  target: SearchTarget
+  recent: boolean
+}
+
+export function UniversalSearch() {
+  const router = useRouter()
+  const searchQuery = useAppStore((state) => state.searchQuery)
+  const setSearchQuery = useAppStore((state) => state.setSearchQuery)
+  const recentSearches = useAppStore((state) => state.recentSearches)
+  const addRecentSearch = useAppStore((state) => state.addRecentSearch)
+  const clearRecentSearches = useAppStore((state) => state.clearRecentSearches)
+  const gatewayUrl = useAppStore((state) => state.config.gatewayUrl)
+
+  const [open, setOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const [navigating, setNavigating] = useState(false)
+  const { targets, resolving, resolve } = useSearchResolution(searchQuery)
+
+  const query = searchQuery.trim().toLowerCase()
+  const recentMatches = recentSearches
+    .filter((recent) => !query || recent.value.toLowerCase().includes(query))
+    .slice(0, query ? MAX_RECENT_MATCHES : undefined)
+  const options: SearchOption[] = [
+    ...targets.map((target) => ({ target, recent: false })),
+    ...recentMatches.map((target) => ({ target, recent: true })),
+  ]
+  const active = Math.min(highlighted, Math.max(options.length - 1, 0))
+
+  const go = async (selected: SearchTarget) => {
+    let target = selected
+    // Unresolved ids are looked up before picking their page
+    if (target.kind === 'id') {
+      setNavigating(true)
+      try {
+        const resolved = await resolve()
+        target =
+          resolved.find((candidate) => candidate.value === target.value) ??
+          target
+      } finally {
+        setNavigating(false)
+      }
+    }
+
+    addRecentSearch(target)
+    setSearchQuery('')
+    setOpen(false)
+
+    const { href, external } = searchTargetLink(target, gatewayUrl)
+    if (external) {
+      window.open(href, '_blank', 'noopener,noreferrer')
+    } else {
+      router.history.push(href)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setOpen(true)
+        setHighlighted(options.length ? (active + 1) % options.length : 0)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setHighlighted(
+          options.length ? (active - 1 + options.length) % options.length : 0,
+        )
+        break
+      case 'Enter':
+        e.preventDefault()
+        if (options[active]) go(options[active].target)
+        break
+      case 'Escape':
+        setOpen(false)
+        break
+    }
+  }
+
+  const renderOption = ({ target, recent }: SearchOption, index: number) => {
+    const Icon = recent ? Clock : KIND_ICONS[target.kind]
+    return (
+      <li
+        key={`${recent ? 'recent' : 'match'}-${target.kind}-${target.value}`}
+        id={`universal-search-option-${index}`}
+        role="option"
+        aria-selected={index === active}
+        className={cn(
+          'flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm',
+          index === active && 'bg-accent text-accent-foreground',
+        )}
+        // Keep focus in the input so the list stays open until selection
+        onMouseDown={(e) => e.preventDefault()}
+        onMouseEnter={() => setHighlighted(index)}
+        onClick={() => go(target)}
+      >
+        <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <span className="truncate font-mono">
+          {target.value.length > 24
+            ? formatAddressForDisplay(target.value, 10, 8)
+            : target.value}
+        </span>
+        <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+          {target.label}
+        </span>
+      </li>
+    )
+  }
+
+  const matchCount = targets.length
+  const showList = open && (options.length > 0 || resolving)
+
+  return (
+    <div className="relative max-w-md flex-1">
+      {resolving || navigating ? (
+        <Loader2 className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+      ) : (
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      )}
+      <Input
+        type="search"
+        placeholder="Search IDs, addresses, ArNS names, drives, blocks..."
+        className="pl-10 pr-4"
+        value={searchQuery}
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls="universal-search-options"
+        aria-activedescendant={
+          showList && options.length
+            ? `universal-search-option-${active}`
+            : undefined
+        }
+        aria-autocomplete="list"
+        onChange={(e) => {
+          setSearchQuery(e.target.value)
+          setHighlighted(0)
+          setOpen(true)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+
+      {showList && (
+        <div className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border border-border bg-popover p-1 text-popover-foreground shadow-md">
+          <ul id="universal-search-options" role="listbox">
+            {options.slice(0, matchCount).map(renderOption)}
+            {resolving && (
+              <li className="px-2 py-1.5 text-xs text-muted-foreground">
+                Looking up transaction...
+              </li>
+            )}
+            {recentMatches.length > 0 && (
+              <li
+                role="presentation"
+                className="flex items-center justify-between px-2 pb-1 pt-2 text-xs text-muted-foreground"
+              >
+                <span>Recent searches</span>
+                <button
+                  type="button"
+                  className="hover:text-foreground"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={clearRecentSearches}
+                >
+                  Clear
+                </button>
+              </li>
+            )}
+            {options
+              .slice(matchCount)
+              .map((option, index) => renderOption(option, matchCount + index))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
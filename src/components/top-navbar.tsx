@@ -1,11 +1,10 @@
 import { ConnectButton } from '@project-kardeshev/ao-wallet-kit'
 import { Link } from '@tanstack/react-router'
-import { Home, Search, Settings, Terminal } from 'lucide-react'
+import { Home, Settings, Terminal } from 'lucide-react'
 
+import { UniversalSearch } from '@/components/UniversalSearch'
 import { ThemeToggle } from '@/components/theme-toggle'
 import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
-import { useAppStore } from '@/store/app-store'
 
 interface TopNavbarProps {
   onToggleConsole?: () => void
@@ -13,23 +12,11 @@ interface TopNavbarProps {
 }
 
 export function TopNavbar({ onToggleConsole, isConsoleOpen }: TopNavbarProps) {
-  const searchQuery = useAppStore((state) => state.searchQuery)
-  const setSearchQuery = useAppStore((state) => state.setSearchQuery)
-
   return (
     <header className="border-color-border flex h-16 items-center justify-between border-b bg-background px-6">
       {/* Search Bar */}
       <div className="flex flex-1 items-center space-x-4">
-        <div className="relative max-w-md flex-1">
-          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-          <Input
-            type="search"
-            placeholder="Search transactions, blocks, addresses..."
-            className="pl-10 pr-4"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-          />
-        </div>
+        <UniversalSearch />
 
         {/* Dashboard Link */}
         <Button
@@ -8,3 +8,4 @@ export const DEFAULT_TURBO_PAYMENT_URL = 'https://payment.ardrive.io'
 export const DEFAULT_TURBO_UPLOAD_URL = 'https://upload.ardrive.io'
 export const DEFAULT_GATEWAY_URL = 'https://arweave.net'
 export const DEFAULT_DATABASE_URL = 'https://clickhouse.ardrive.io'
+export const DEFAULT_DATASETS_URL = 'http://localhost:4000/local/datasets'
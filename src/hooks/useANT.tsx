@@ -0,0 +1,31 @@
+import { ANT, AOProcess } from '@ar.io/sdk'
+import { connect } from '@permaweb/aoconnect'
+import { useQuery } from '@tanstack/react-query'
+
+import { toRecordRows } from '@/lib/ant'
+import { useAppStore } from '@/store/app-store'
+
+// State of an ANT process read through the ANT client. Records come from
+// getRecords as well, which orders them the way gateways resolve them.
+export function useANTState(processId: string) {
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+  return useQuery({
+    queryKey: ['ant-state', processId, cuUrl],
+    queryFn: async () => {
+      const ant = ANT.init({
+        process: new AOProcess({
+          processId,
+          ao: connect({ CU_URL: cuUrl, MODE: 'legacy' }),
+        }),
+      })
+      const [state, records] = await Promise.all([
+        ant.getState(),
+        ant.getRecords(),
+      ])
+      return { state, records: toRecordRows(records) }
+    },
+    enabled: !!processId && !!cuUrl,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  })
+}
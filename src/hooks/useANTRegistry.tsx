@@ -0,0 +1,43 @@
+import { ANTRegistry, ANT_REGISTRY_ID, AOProcess } from '@ar.io/sdk'
+import { connect } from '@permaweb/aoconnect'
+import { useQuery } from '@tanstack/react-query'
+
+import { getProcessOwner } from '@/hooks/useProcessOwner'
+import { fetchRegistryCounts } from '@/lib/ant-registry'
+import { useAppStore } from '@/store/app-store'
+
+// ANTs and users held by the registry, counted with an eval dry run as its
+// current owner
+export function useANTRegistryCounts() {
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+  return useQuery({
+    queryKey: ['ant-registry-counts', cuUrl],
+    queryFn: async () =>
+      fetchRegistryCounts({
+        cuUrl,
+        owner: await getProcessOwner(ANT_REGISTRY_ID, cuUrl),
+      }),
+    enabled: !!cuUrl,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
+}
+
+// ANTs the registry lists as owned or controlled by an address
+export function useANTRegistryACL(address: string) {
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+  return useQuery({
+    queryKey: ['ant-registry-acl', address, cuUrl],
+    queryFn: () =>
+      ANTRegistry.init({
+        process: new AOProcess({
+          processId: ANT_REGISTRY_ID,
+          ao: connect({ CU_URL: cuUrl, MODE: 'legacy' }),
+        }),
+      }).accessControlList({ address }),
+    enabled: !!address && !!cuUrl,
+    staleTime: 1000 * 60, // 1 minute
+    refetchOnWindowFocus: false,
+  })
+}
@@ -1,7 +1,19 @@
 import { useCallback, useEffect, useState } from 'react'
 
+import type { AoSigner } from '@ar.io/sdk'
+
+import { getMessageById } from '@/lib/ao-queries'
+import {
+  type EvalMode,
+  type EvalResult,
+  evaluate as evaluateLua,
+} from '@/lib/aos-eval'
+import { useAppStore } from '@/store/app-store'
+
 export interface AOSProcessState {
   processId: string | null
+  // Owner of the process, dry runs are sent as this address
+  owner: string | null
   isConnected: boolean
   selectedProcessHistory: string | null
   error: string | null
@@ -13,46 +25,54 @@ export interface UseAOSProcessReturn extends AOSProcessState {
   disconnectProcess: () => void
   clearHistory: () => void
   refreshHistory: () => Promise<void>
+  evaluate: (
+    code: string,
+    mode: EvalMode,
+    signer?: AoSigner,
+  ) => Promise<EvalResult>
+}
+
+interface ProcessBanner {
+  history: string
+  owner: string
 }
 
 export function useAOSProcess(initialProcessId?: string): UseAOSProcessReturn {
   const [state, setState] = useState<AOSProcessState>({
     processId: initialProcessId || null,
+    owner: null,
     isConnected: false,
     selectedProcessHistory: null,
     error: null,
     isLoading: false,
   })
 
-  // Mock function to simulate fetching process history
-  // In a real implementation, this would connect to AOS and fetch actual process data
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+
+  // Banner describing the process, read from its spawn message
   const fetchProcessHistory = useCallback(
-    async (processId: string): Promise<string> => {
-      // Simulate API call delay
-      await new Promise((resolve) => setTimeout(resolve, 1000))
-
-      // Mock process history data
-      const mockHistory = `
-AOS Process: ${processId}
-Connected at: ${new Date().toISOString()}
-
-> Welcome to AOS Terminal
-> Process ID: ${processId}
-> Status: Active
-> 
-> Available commands:
->   help - Show available commands
->   status - Show process status  
->   logs - Show recent logs
->   clear - Clear terminal
->
-> Type 'help' for more information
-> Ready for input...
-    `.trim()
-
-      return mockHistory
+    async (processId: string): Promise<ProcessBanner> => {
+      const spawn = await getMessageById(processId)
+      if (!spawn) {
+        throw new Error(`Process ${processId} not found`)
+      }
+      if (spawn.type !== 'Process') {
+        throw new Error(`${processId} is a ${spawn.type}, not a process`)
+      }
+
+      const history = [
+        `AOS Process: ${spawn.tags['Name'] ?? processId}`,
+        `Process ID: ${processId}`,
+        `Owner: ${spawn.from}`,
+        `Module: ${spawn.tags['Module'] ?? 'unknown'}`,
+        `Compute unit: ${cuUrl}`,
+        '',
+        "Type Lua to evaluate it, or 'help' for console commands",
+      ].join('\n')
+
+      return { history, owner: spawn.from }
     },
-    [],
+    [cuUrl],
   )
 
   const connectProcess = useCallback(
@@ -60,10 +80,11 @@ Connected at: ${new Date().toISOString()}
       setState((prev) => ({ ...prev, isLoading: true, error: null }))
 
       try {
-        const history = await fetchProcessHistory(processId)
+        const { history, owner } = await fetchProcessHistory(processId)
         setState((prev) => ({
           ...prev,
           processId,
+          owner,
           isConnected: true,
           selectedProcessHistory: history,
           isLoading: false,
@@ -88,6 +109,7 @@ Connected at: ${new Date().toISOString()}
     setState((prev) => ({
       ...prev,
       processId: null,
+      owner: null,
       isConnected: false,
       selectedProcessHistory: null,
       error: null,
@@ -108,9 +130,10 @@ Connected at: ${new Date().toISOString()}
     setState((prev) => ({ ...prev, isLoading: true }))
 
     try {
-      const history = await fetchProcessHistory(state.processId)
+      const { history, owner } = await fetchProcessHistory(state.processId)
       setState((prev) => ({
         ...prev,
+        owner,
         selectedProcessHistory: history,
         isLoading: false,
         error: null,
@@ -125,6 +148,23 @@ Connected at: ${new Date().toISOString()}
     }
   }, [state.processId, fetchProcessHistory])
 
+  const evaluate = useCallback(
+    (code: string, mode: EvalMode, signer?: AoSigner) => {
+      if (!state.processId) {
+        return Promise.reject(new Error('Not connected to a process'))
+      }
+      return evaluateLua({
+        processId: state.processId,
+        code,
+        cuUrl,
+        mode,
+        signer,
+        from: state.owner ?? undefined,
+      })
+    },
+    [state.processId, state.owner, cuUrl],
+  )
+
   // Auto-connect if initialProcessId is provided
   useEffect(() => {
     if (initialProcessId && !state.isConnected && !state.isLoading) {
@@ -138,5 +178,6 @@ Connected at: ${new Date().toISOString()}
     disconnectProcess,
     clearHistory,
     refreshHistory,
+    evaluate,
   }
 }
@@ -1,20 +1,18 @@
-import {
-  AOProcess,
-  ARIO,
-  ARIO_MAINNET_PROCESS_ID,
-  AoArNSNameData,
-} from '@ar.io/sdk'
+import { AOProcess, ARIO, AoArNSNameData } from '@ar.io/sdk'
 import { connect } from '@permaweb/aoconnect'
 import { useQuery } from '@tanstack/react-query'
 
+import { useAppStore } from '@/store/app-store'
+
 export function useARNSDomains() {
+  const { arioProcessId, cuUrl } = useAppStore((s) => s.config)
   return useQuery({
-    queryKey: ['arns-domains'],
+    queryKey: ['arns-domains', arioProcessId, cuUrl],
     queryFn: async () => {
       const ario = ARIO.init({
         process: new AOProcess({
-          processId: ARIO_MAINNET_PROCESS_ID,
-          ao: connect({ CU_URL: 'https://cu.ardrive.io', MODE: 'legacy' }),
+          processId: arioProcessId,
+          ao: connect({ CU_URL: cuUrl, MODE: 'legacy' }),
         }),
       })
       let cursor: string | undefined = undefined
@@ -35,6 +33,7 @@ export function useARNSDomains() {
 
       return domains
     },
+    enabled: !!arioProcessId,
     staleTime: 1000 * 60 * 60 * 24, // 24 hours
     refetchInterval: 1000 * 60 * 60 * 24, // Refetch every 24 hours
     refetchOnWindowFocus: false, // Don't refetch on window focus
@@ -0,0 +1,43 @@
+import { AOProcess, ARIO } from '@ar.io/sdk'
+import { connect } from '@permaweb/aoconnect'
+import { useQuery } from '@tanstack/react-query'
+
+import { getAddressIdentity } from '@/lib/ao-queries'
+import { useAppStore } from '@/store/app-store'
+
+export function useAddressIdentity(address: string) {
+  return useQuery({
+    queryKey: ['address-identity', address],
+    queryFn: () => getAddressIdentity(address),
+    enabled: !!address,
+    staleTime: 1000 * 60 * 60 * 24, // 24 hours
+    refetchOnWindowFocus: false,
+  })
+}
+
+// ArNS primary name of a wallet, null when it has not set one
+export function usePrimaryName(address: string) {
+  const { arioProcessId, cuUrl } = useAppStore((s) => s.config)
+  return useQuery({
+    queryKey: ['primary-name', arioProcessId, cuUrl, address],
+    queryFn: async () => {
+      const ario = ARIO.init({
+        process: new AOProcess({
+          processId: arioProcessId,
+          ao: connect({ CU_URL: cuUrl, MODE: 'legacy' }),
+        }),
+      })
+      try {
+        return await ario.getPrimaryName({ address })
+      } catch (error) {
+        if (error instanceof Error && /not found/i.test(error.message)) {
+          return null
+        }
+        throw error
+      }
+    },
+    enabled: !!address && !!arioProcessId,
+    staleTime: 1000 * 60 * 60, // 1 hour
+    refetchOnWindowFocus: false,
+  })
+}
@@ -0,0 +1,173 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+
+import {
+  type ArFSDecryptor,
+  ArFSDownloader,
+  type ArFSExportFailure,
+  type ArFSExportProgress,
+  type ArFSFile,
+  type ArFSTreeNode,
+  entityId,
+  exportFileName,
+} from '@/lib/arfs-client'
+import { useAppStore } from '@/store/app-store'
+
+// Hand a blob to the browser as a file download
+const saveBlob = (blob: Blob, name: string) => {
+  const link = document.createElement('a')
+  const url = URL.createObjectURL(blob)
+  link.setAttribute('href', url)
+  link.setAttribute('download', name)
+  link.style.visibility = 'hidden'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+// Exports are kept in memory up to this size where they cannot be written
+// to disk as they run
+export const MAX_BUFFERED_EXPORT_SIZE = 2 * 1024 ** 3
+
+// Chromium only, not in the DOM typings yet
+type SaveFilePicker = (options: {
+  suggestedName: string
+  types: Array<{ description: string; accept: Record<string, string[]> }>
+}) => Promise<FileSystemFileHandle>
+
+const saveFilePicker = (): SaveFilePicker | undefined =>
+  typeof window === 'undefined'
+    ? undefined
+    : (window as Window & { showSaveFilePicker?: SaveFilePicker })
+        .showSaveFilePicker
+
+// Collects an export in memory, to be saved once complete
+const memoryOutput = () => {
+  const chunks: Array<Uint8Array<ArrayBuffer>> = []
+  let size = 0
+  const output = new WritableStream<Uint8Array<ArrayBuffer>>({
+    write: (chunk) => {
+      size += chunk.length
+      if (size > MAX_BUFFERED_EXPORT_SIZE) {
+        throw new Error(
+          'The archive is larger than this browser can hold in memory, download it from Chrome or Edge which write it to disk',
+        )
+      }
+      chunks.push(chunk)
+    },
+  })
+  return { output, blob: () => new Blob(chunks, { type: 'application/zip' }) }
+}
+
+export const useArFSDownload = (decryptor?: ArFSDecryptor) => {
+  // Entity id of the file or folder being downloaded
+  const [downloading, setDownloading] = useState<string | null>(null)
+  const [progress, setProgress] = useState<ArFSExportProgress | null>(null)
+  const [failures, setFailures] = useState<ArFSExportFailure[]>([])
+  const [error, setError] = useState<Error | null>(null)
+  const controller = useRef<AbortController | null>(null)
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+
+  const downloader = useMemo(
+    () => new ArFSDownloader({ gatewayUrl }, decryptor),
+    [gatewayUrl, decryptor],
+  )
+
+  // Stop a running download when leaving the page
+  useEffect(() => () => controller.current?.abort(), [])
+
+  const run = async (
+    id: string,
+    task: (signal: AbortSignal) => Promise<void>,
+  ) => {
+    controller.current?.abort()
+    const abort = new AbortController()
+    controller.current = abort
+
+    try {
+      setDownloading(id)
+      setError(null)
+      setFailures([])
+      setProgress(null)
+      await task(abort.signal)
+    } catch (err) {
+      if (abort.signal.aborted) return
+      console.error(`Failed to download ${id}:`, err)
+      setError(err instanceof Error ? err : new Error('Download failed'))
+    } finally {
+      if (controller.current === abort) {
+        controller.current = null
+        setDownloading(null)
+      }
+    }
+  }
+
+  const downloadFile = (file: ArFSFile) =>
+    run(file.fileId, async (signal) => {
+      const { name, contentType, data } = await downloader.downloadFile(
+        file,
+        signal,
+      )
+      saveBlob(new Blob([data], { type: contentType }), name)
+    })
+
+  // Written straight to the file the user picks where the browser allows
+  // it, otherwise collected in memory and saved once complete
+  const exportFolder = async (
+    folder: ArFSTreeNode,
+    expandManifests = false,
+  ) => {
+    const name = exportFileName(folder)
+    const picker = saveFilePicker()
+    let file: FileSystemFileHandle | undefined
+    if (picker) {
+      try {
+        file = await picker({
+          suggestedName: name,
+          types: [
+            {
+              description: 'Zip archive',
+              accept: { 'application/zip': ['.zip'] },
+            },
+          ],
+        })
+      } catch (err) {
+        // Dismissing the picker cancels the export
+        if (err instanceof DOMException && err.name === 'AbortError') return
+        throw err
+      }
+    }
+
+    return run(entityId(folder.entity), async (signal) => {
+      const target = file
+        ? { output: await file.createWritable() }
+        : memoryOutput()
+      const result = await downloader.exportFolder(folder, target.output, {
+        expandManifests,
+        signal,
+        onProgress: setProgress,
+      })
+      setFailures(result.failures)
+      if ('blob' in target) saveBlob(target.blob(), result.name)
+    })
+  }
+
+  const cancel = () => {
+    controller.current?.abort()
+    controller.current = null
+    setDownloading(null)
+  }
+
+  return {
+    // Whether exports are written to disk as they run rather than held in
+    // memory, which bounds them to MAX_BUFFERED_EXPORT_SIZE
+    streamsExports: !!saveFilePicker(),
+    downloading,
+    progress,
+    failures,
+    error,
+    downloadFile,
+    exportFolder,
+    cancel,
+  }
+}
@@ -0,0 +1,69 @@
+import { useEffect, useMemo, useState } from 'react'
+
+import {
+  ArFSClient,
+  ArFSDecryptor,
+  type ArFSDriveTree,
+  ArFSMetadataLoader,
+} from '@/lib/arfs-client'
+import { useAppStore } from '@/store/app-store'
+
+import { useArFSParquetClient } from './useArFSParquetClient'
+
+export const useArFSDriveTree = (driveId: string) => {
+  const [tree, setTree] = useState<ArFSDriveTree | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+
+  // Decrypts private drives unlocked during this session
+  const decryptor = useMemo(
+    () => new ArFSDecryptor({ gatewayUrl }),
+    [gatewayUrl],
+  )
+
+  // Share the client of the ARFS explorer drive list
+  const {
+    parquetClient,
+    loading: dbLoading,
+    error: dbError,
+  } = useArFSParquetClient()
+
+  const fetchTree = async () => {
+    if (!parquetClient) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const arfsClient = new ArFSClient(
+        parquetClient,
+        new ArFSMetadataLoader({ gatewayUrl }),
+        decryptor,
+      )
+
+      setTree(await arfsClient.buildDriveTree(driveId))
+    } catch (err) {
+      console.error(`Failed to build ArFS drive tree for ${driveId}:`, err)
+      setError(
+        err instanceof Error ? err : new Error('Failed to load ArFS drive'),
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (parquetClient && !dbLoading && !dbError) {
+      fetchTree()
+    }
+  }, [parquetClient, dbLoading, dbError, gatewayUrl, driveId])
+
+  return {
+    tree,
+    loading: dbLoading || loading,
+    error: dbError || error,
+    decryptor,
+    refetch: fetchTree,
+  }
+}
@@ -1,61 +1,148 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 
-import { ArFSClient, type ArFSDrive } from '@/lib/arfs-client'
-import { useDuckDB } from '@/lib/duckdb'
-import { ParquetClient } from '@/lib/parquet-client'
+import {
+  ArFSClient,
+  ArFSDecryptor,
+  type ArFSDrive,
+  ArFSMetadataLoader,
+  type ArFSQueryOptions,
+} from '@/lib/arfs-client'
+import { useAppStore } from '@/store/app-store'
 
-export const useArFSDrives = () => {
+import { useArFSParquetClient } from './useArFSParquetClient'
+
+type ArFSDrivesFilters = Pick<
+  ArFSQueryOptions,
+  | 'owner'
+  | 'privacy'
+  | 'arfsVersion'
+  | 'minUnixTime'
+  | 'maxUnixTime'
+  | 'orderBy'
+  | 'orderDirection'
+>
+
+interface ArFSDrivesPagination {
+  // Filters the page and cursors belong to
+  key: string
+  page: number
+  // Cursor continuing after each page, known once that page was loaded
+  cursors: Array<string | undefined>
+}
+
+export const useArFSDrives = ({
+  pageSize = 100,
+  ...filters
+}: ArFSDrivesFilters & { pageSize?: number } = {}) => {
   const [drives, setDrives] = useState<ArFSDrive[]>([])
+  const [total, setTotal] = useState(0)
+  const [privacyStats, setPrivacyStats] = useState<Record<
+    'public' | 'private',
+    number
+  > | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+
+  // Changing filters starts over from the first page
+  const filtersKey = JSON.stringify({ pageSize, ...filters })
+  const [pagination, setPagination] = useState<ArFSDrivesPagination>({
+    key: filtersKey,
+    page: 0,
+    cursors: [],
+  })
+  const current =
+    pagination.key === filtersKey
+      ? pagination
+      : { key: filtersKey, page: 0, cursors: [] }
+  const { page } = current
 
-  // Initialize a dedicated DuckDB instance for ARFS explorer
+  // Only the latest request may update state
+  const request = useRef(0)
+
+  // Decrypts private drives unlocked during this session
+  const decryptor = useMemo(
+    () => new ArFSDecryptor({ gatewayUrl }),
+    [gatewayUrl],
+  )
+
+  // Shared client on the DuckDB instance of the ARFS explorer
   const {
-    db,
+    parquetClient,
     loading: dbLoading,
     error: dbError,
-  } = useDuckDB({
-    id: 'arfs-explorer',
-    name: 'ARFS Explorer Database',
-    debug: true,
-  })
+  } = useArFSParquetClient()
 
   const fetchDrives = async () => {
-    if (!db) return
+    if (!parquetClient) return
+    const id = ++request.current
 
     try {
       setLoading(true)
       setError(null)
 
-      const parquetClient = new ParquetClient(db)
-      const arfsClient = new ArFSClient(parquetClient)
+      const arfsClient = new ArFSClient(
+        parquetClient,
+        new ArFSMetadataLoader({ gatewayUrl }),
+        decryptor,
+      )
+
+      // Continue from the previous page's cursor, jump by offset otherwise
+      const [result, stats] = await Promise.all([
+        arfsClient.getDrivesPage({
+          ...filters,
+          limit: pageSize,
+          offset: page * pageSize,
+          cursor: page > 0 ? current.cursors[page - 1] : undefined,
+        }),
+        arfsClient.getDrivePrivacyStats({ owner: filters.owner }),
+      ])
+      if (id !== request.current) return
 
-      // Get ArFS drives using the domain-specific client
-      const arfsDrives = await arfsClient.getDrives({
-        limit: 100,
-        orderBy: 'height',
-        orderDirection: 'DESC',
-      })
+      const cursors = [...current.cursors]
+      cursors[page] = result.nextCursor
 
-      setDrives(arfsDrives)
+      setDrives(result.items)
+      setTotal(result.total)
+      setPrivacyStats(stats)
+      setPagination({ key: filtersKey, page, cursors })
     } catch (err) {
+      if (id !== request.current) return
       console.error('Failed to fetch ArFS drives:', err)
       setError(
         err instanceof Error ? err : new Error('Failed to fetch ArFS drives'),
       )
     } finally {
-      setLoading(false)
+      if (id === request.current) {
+        setLoading(false)
+      }
     }
   }
 
   useEffect(() => {
-    if (db && !dbLoading && !dbError) {
+    if (parquetClient && !dbLoading && !dbError) {
       fetchDrives()
     }
-  }, [db, dbLoading, dbError])
+  }, [parquetClient, dbLoading, dbError, gatewayUrl, filtersKey, page])
+
+  const pageCount = Math.ceil(total / pageSize)
+  const setPage = (next: number) =>
+    setPagination({
+      ...current,
+      page: Math.min(Math.max(next, 0), Math.max(pageCount - 1, 0)),
+    })
 
   return {
     drives,
+    total,
+    privacyStats,
+    page,
+    pageCount,
+    hasNextPage: page + 1 < pageCount,
+    hasPreviousPage: page > 0,
+    nextPage: () => setPage(page + 1),
+    previousPage: () => setPage(page - 1),
+    setPage,
     loading: dbLoading || loading,
     error: dbError || error,
     refetch: fetchDrives,
@@ -0,0 +1,54 @@
+import { useMemo } from 'react'
+
+import type { AsyncDuckDB } from '@duckdb/duckdb-wasm'
+
+import { useDuckDB } from '@/lib/duckdb'
+import { DatasetCatalog, ParquetClient } from '@/lib/parquet-client'
+import { useAppStore } from '@/store/app-store'
+
+// One client per DuckDB instance and datasets endpoint, so every ArFS query
+// shares the partitions its catalog discovered
+const clients = new WeakMap<AsyncDuckDB, Map<string, ParquetClient>>()
+
+export const getParquetClient = (
+  db: AsyncDuckDB,
+  baseUrl: string,
+  manifestUrl?: string,
+): ParquetClient => {
+  let byEndpoint = clients.get(db)
+  if (!byEndpoint) {
+    byEndpoint = new Map()
+    clients.set(db, byEndpoint)
+  }
+
+  const key = `${baseUrl} ${manifestUrl ?? ''}`
+  let client = byEndpoint.get(key)
+  if (!client) {
+    client = new ParquetClient(
+      db,
+      baseUrl,
+      new DatasetCatalog({ baseUrl, manifestUrl: manifestUrl || undefined }),
+    )
+    byEndpoint.set(key, client)
+  }
+  return client
+}
+
+// Parquet client on the DuckDB instance of the ARFS explorer, for the
+// configured datasets endpoint
+export const useArFSParquetClient = () => {
+  const datasetsUrl = useAppStore((s) => s.config.datasetsUrl)
+  const manifestUrl = useAppStore((s) => s.config.datasetsManifestUrl)
+  const { db, loading, error } = useDuckDB({
+    id: 'arfs-explorer',
+    name: 'ARFS Explorer Database',
+    debug: true,
+  })
+
+  const parquetClient = useMemo(
+    () => (db ? getParquetClient(db, datasetsUrl, manifestUrl) : null),
+    [db, datasetsUrl, manifestUrl],
+  )
+
+  return { parquetClient, loading, error }
+}
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react'
+
+import {
+  ArFSClient,
+  ArFSDecryptor,
+  type ArFSDrive,
+  type ArFSEntityType,
+  type ArFSFile,
+  type ArFSFolder,
+  ArFSMetadataLoader,
+  type ArFSRevision,
+} from '@/lib/arfs-client'
+import { useAppStore } from '@/store/app-store'
+
+import { useArFSParquetClient } from './useArFSParquetClient'
+
+export const useArFSRevisions = (entityType: ArFSEntityType, id: string) => {
+  const [revisions, setRevisions] = useState<
+    Array<ArFSRevision<ArFSDrive | ArFSFolder | ArFSFile>>
+  >([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+
+  // Share the client of the ARFS explorer drive list
+  const {
+    parquetClient,
+    loading: dbLoading,
+    error: dbError,
+  } = useArFSParquetClient()
+
+  const fetchRevisions = async () => {
+    if (!parquetClient) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const arfsClient = new ArFSClient(
+        parquetClient,
+        new ArFSMetadataLoader({ gatewayUrl }),
+        new ArFSDecryptor({ gatewayUrl }),
+      )
+
+      setRevisions(await arfsClient.getRevisionTimeline(entityType, id))
+    } catch (err) {
+      console.error(`Failed to fetch revisions of ${entityType} ${id}:`, err)
+      setError(
+        err instanceof Error ? err : new Error('Failed to fetch revisions'),
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (parquetClient && !dbLoading && !dbError) {
+      fetchRevisions()
+    }
+  }, [parquetClient, dbLoading, dbError, gatewayUrl, entityType, id])
+
+  return {
+    revisions,
+    loading: dbLoading || loading,
+    error: dbError || error,
+    refetch: fetchRevisions,
+  }
+}
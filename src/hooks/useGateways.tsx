@@ -0,0 +1,48 @@
+import { AOProcess, ARIO } from '@ar.io/sdk'
+import { connect } from '@permaweb/aoconnect'
+import { useQuery } from '@tanstack/react-query'
+
+import { loadGateways } from '@/lib/gateways'
+import { useAppStore } from '@/store/app-store'
+
+import gatewaysSnapshotUrl from '../../gateways.json?url'
+
+// Served as a static asset so the snapshot is only downloaded when needed
+const loadGatewaysSnapshot = async () => {
+  const response = await fetch(gatewaysSnapshotUrl)
+  if (!response.ok) {
+    throw new Error(`Failed to load the gateway snapshot: ${response.status}`)
+  }
+  return response.json()
+}
+
+// Every registered gateway, from the ARIO process or the bundled snapshot
+export function useGateways() {
+  const { arioProcessId, cuUrl } = useAppStore((s) => s.config)
+  return useQuery({
+    queryKey: ['gateways', arioProcessId, cuUrl],
+    queryFn: () => {
+      const ario = ARIO.init({
+        process: new AOProcess({
+          processId: arioProcessId,
+          ao: connect({ CU_URL: cuUrl, MODE: 'legacy' }),
+        }),
+      })
+      return loadGateways(ario, loadGatewaysSnapshot)
+    },
+    enabled: !!arioProcessId,
+    staleTime: 1000 * 60 * 15, // 15 minutes
+    refetchOnWindowFocus: false,
+  })
+}
+
+// One gateway out of the shared list, so the detail view matches the table
+export function useGateway(address: string) {
+  const gateways = useGateways()
+  return {
+    ...gateways,
+    gateway: gateways.data?.gateways.find(
+      (gateway) => gateway.gatewayAddress === address,
+    ),
+  }
+}
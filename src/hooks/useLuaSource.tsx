@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query'
+
+import { getMessageById, luaSourceSources } from '@/lib/ao-queries'
+import { reconstructLuaSource } from '@/lib/lua-source'
+import { useAppStore } from '@/store/app-store'
+
+// Replays the boot program and evals of a process. Every eval costs a
+// gateway and a CU request, so callers only enable this when asked to.
+export function useLuaSource(processId: string, enabled = true) {
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+
+  return useQuery({
+    queryKey: ['lua-source', processId, gatewayUrl, cuUrl],
+    queryFn: async () => {
+      const process = await getMessageById(processId)
+      if (!process) {
+        throw new Error(`Process ${processId} not found`)
+      }
+      return reconstructLuaSource(process, luaSourceSources(gatewayUrl, cuUrl))
+    },
+    enabled: !!processId && enabled,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  })
+}
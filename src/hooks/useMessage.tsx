@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from 'react'
+
+import { useQuery } from '@tanstack/react-query'
+
+import { getMessageById, messageGraphSources } from '@/lib/ao-queries'
+import {
+  type MessageGraph,
+  type MessageGraphNode,
+  MessageGraphTraverser,
+} from '@/lib/message-graph'
+import { useAppStore } from '@/store/app-store'
+
+// Larger payloads are only offered as a download
+export const MAX_DATA_PREVIEW_SIZE = 64 * 1024
+
+export function useMessage(id: string) {
+  return useQuery({
+    queryKey: ['message', id],
+    queryFn: () => getMessageById(id),
+    enabled: !!id,
+    staleTime: 1000 * 60 * 60 * 24, // 24 hours
+    refetchOnWindowFocus: false,
+  })
+}
+
+// Traversers are kept per CU so their result caches outlive the page
+const traversers = new Map<string, MessageGraphTraverser>()
+
+const getTraverser = (cuUrl: string) => {
+  let traverser = traversers.get(cuUrl)
+  if (!traverser) {
+    traverser = new MessageGraphTraverser(messageGraphSources(cuUrl))
+    traversers.set(cuUrl, traverser)
+  }
+  return traverser
+}
+
+// The message with its CU result and the messages it cranked, recursively.
+// The graph is streamed in as nodes resolve, at most once per frame.
+export function useMessageGraph(
+  id: string,
+  { maxDepth, maxNodes }: { maxDepth?: number; maxNodes?: number } = {},
+) {
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+  const [graph, setGraph] = useState<MessageGraph | null>(null)
+  const [root, setRoot] = useState<MessageGraphNode | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [cancelled, setCancelled] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  // Bumped to traverse again, the cached results are reused
+  const [attempt, setAttempt] = useState(0)
+  const controller = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    if (!id) return
+
+    const abort = new AbortController()
+    controller.current = abort
+    let frame = 0
+
+    setGraph(null)
+    setRoot(null)
+    setLoading(true)
+    setCancelled(false)
+    setError(null)
+
+    getTraverser(cuUrl)
+      .traverse({
+        msgId: id,
+        maxDepth,
+        maxNodes,
+        signal: abort.signal,
+        onUpdate: (snapshot) => {
+          cancelAnimationFrame(frame)
+          frame = requestAnimationFrame(() => setRoot(snapshot))
+        },
+      })
+      .then((result) => {
+        cancelAnimationFrame(frame)
+        setGraph(result)
+        setRoot(result.root)
+      })
+      .catch((err) => {
+        if (controller.current !== abort) return
+        if (abort.signal.aborted) {
+          setCancelled(true)
+          return
+        }
+        console.error(`Failed to fetch message graph of ${id}:`, err)
+        setError(err instanceof Error ? err : new Error('Traversal failed'))
+      })
+      .finally(() => {
+        if (controller.current === abort) setLoading(false)
+      })
+
+    return () => {
+      cancelAnimationFrame(frame)
+      controller.current = null
+      abort.abort()
+    }
+  }, [id, cuUrl, maxDepth, maxNodes, attempt])
+
+  // Stop the traversal, keeping what has been fetched so far
+  const cancel = () => controller.current?.abort()
+
+  const refetch = () => setAttempt((n) => n + 1)
+
+  return {
+    root,
+    nodeCount: graph?.nodeCount,
+    truncated: graph?.truncated ?? false,
+    errors: graph?.errors ?? [],
+    loading,
+    cancelled,
+    error,
+    cancel,
+    refetch,
+  }
+}
+
+// Message data as text, skipped for payloads above the preview size
+export function useMessageData(id: string, size?: number) {
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+  return useQuery({
+    queryKey: ['message-data', gatewayUrl, id],
+    queryFn: async () => {
+      const response = await fetch(`${gatewayUrl}/raw/${id}`)
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} fetching ${id}`)
+      }
+      return response.text()
+    },
+    enabled: !!id && size !== undefined && size <= MAX_DATA_PREVIEW_SIZE,
+    staleTime: Infinity, // Transaction data is immutable
+    refetchOnWindowFocus: false,
+  })
+}
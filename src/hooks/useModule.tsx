@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query'
+
+import { inspectWasm } from '@/lib/wasm-inspect'
+import { useAppStore } from '@/store/app-store'
+
+// Downloads a module binary and parses its structure locally. Modules run to
+// several megabytes, so nothing is fetched until the caller enables it.
+export function useModuleWasm(id: string, enabled: boolean) {
+  const gatewayUrl = useAppStore((s) => s.config.gatewayUrl)
+  return useQuery({
+    queryKey: ['module-wasm', gatewayUrl, id],
+    queryFn: async () => {
+      const response = await fetch(`${gatewayUrl}/raw/${id}`)
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} fetching module ${id}`)
+      }
+      return inspectWasm(await response.arrayBuffer())
+    },
+    enabled: !!id && enabled,
+    staleTime: Infinity, // Module binaries are immutable
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
+}
@@ -0,0 +1,68 @@
+import { useCallback } from 'react'
+
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { getProcessOwner } from '@/hooks/useProcessOwner'
+import {
+  DEFAULT_MAX_HANDLER_CALLS,
+  type HandlerCall,
+  createIDBHandlerHistory,
+  discoverHandlers,
+} from '@/lib/process-handlers'
+import { useAppStore } from '@/store/app-store'
+
+const handlerHistory = createIDBHandlerHistory()
+
+// Handlers of a process as its CU sees them, dry run as its current owner
+export function useProcessHandlers(processId: string) {
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+
+  return useQuery({
+    queryKey: ['process-handlers', processId, cuUrl],
+    queryFn: async () =>
+      discoverHandlers({
+        processId,
+        cuUrl,
+        owner: await getProcessOwner(processId, cuUrl),
+      }),
+    enabled: !!processId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
+}
+
+// Calls made to the handlers of a process, kept in IndexedDB
+export function useHandlerHistory(processId: string) {
+  const queryClient = useQueryClient()
+  const history = useQuery({
+    queryKey: ['handler-history', processId],
+    queryFn: () => handlerHistory.list(processId),
+    enabled: !!processId,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  })
+
+  const record = useCallback(
+    async (call: HandlerCall) => {
+      queryClient.setQueryData<Array<HandlerCall>>(
+        ['handler-history', processId],
+        (calls = []) => [call, ...calls].slice(0, DEFAULT_MAX_HANDLER_CALLS),
+      )
+      await handlerHistory.add(processId, call)
+    },
+    [queryClient, processId],
+  )
+
+  const clear = useCallback(async () => {
+    queryClient.setQueryData(['handler-history', processId], [])
+    await handlerHistory.clear(processId)
+  }, [queryClient, processId])
+
+  return {
+    calls: history.data ?? [],
+    isLoading: history.isLoading,
+    record,
+    clear,
+  }
+}
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query'
+
+import { getMessageById } from '@/lib/ao-queries'
+import { fetchProcessOwner } from '@/lib/aos-eval'
+import { useAppStore } from '@/store/app-store'
+
+// Owner the process answers to now, which is not its spawn signer once
+// ownership moved. The signer is only tried as a sender for the dry run.
+export async function getProcessOwner(processId: string, cuUrl: string) {
+  const spawn = await getMessageById(processId)
+  return fetchProcessOwner({ processId, cuUrl, spawnedBy: spawn?.from })
+}
+
+export function useProcessOwner(processId: string) {
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+
+  return useQuery({
+    queryKey: ['process-owner', processId, cuUrl],
+    queryFn: async () => (await getProcessOwner(processId, cuUrl)) ?? null,
+    enabled: !!processId && !!cuUrl,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
+}
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query'
+
+import { fetchProcessState } from '@/lib/process-state'
+import { useAppStore } from '@/store/app-store'
+
+// Evaluation, runtime and scheduler state of a process. Polled while the
+// panel is open, so a lagging CU shows up without reloading.
+export function useProcessState(
+  processId: string,
+  owner?: string,
+  refetchInterval: number | false = 1000 * 30, // 30 seconds
+) {
+  const cuUrl = useAppStore((s) => s.config.cuUrl)
+  const hyperbeamNodeUrl = useAppStore((s) => s.config.hyperbeamNodeUrl)
+
+  return useQuery({
+    queryKey: ['process-state', processId, owner, cuUrl, hyperbeamNodeUrl],
+    queryFn: () =>
+      fetchProcessState({ processId, cuUrl, hyperbeamNodeUrl, owner }),
+    enabled: !!processId,
+    refetchInterval,
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
+}
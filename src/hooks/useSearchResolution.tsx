@@ -0,0 +1,39 @@
+import { useEffect, useMemo, useState } from 'react'
+
+import { useQuery } from '@tanstack/react-query'
+
+import { getMessageById } from '@/lib/ao-queries'
+import { classifySearch, resolveSearch } from '@/lib/search'
+
+// Wait for typing to pause before looking ids up on the gateway
+const RESOLVE_DELAY = 300
+
+export function useSearchResolution(query: string) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query)
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query), RESOLVE_DELAY)
+    return () => clearTimeout(timeout)
+  }, [query])
+
+  // Shown right away, ids stay unresolved until the lookup finishes
+  const candidates = useMemo(() => classifySearch(query), [query])
+  const needsLookup = candidates.some((candidate) => candidate.kind === 'id')
+
+  const resolved = useQuery({
+    queryKey: ['search-resolution', debouncedQuery.trim()],
+    queryFn: () => resolveSearch(debouncedQuery, getMessageById),
+    enabled: needsLookup && debouncedQuery === query,
+    staleTime: 1000 * 60 * 60, // 1 hour
+    refetchOnWindowFocus: false,
+  })
+
+  const resolvedTargets = debouncedQuery === query ? resolved.data : undefined
+
+  return {
+    targets: resolvedTargets ?? candidates,
+    resolving: needsLookup && !resolvedTargets,
+    // Resolve on demand, e.g. when submitting before the lookup finished
+    resolve: () => resolveSearch(query, getMessageById),
+  }
+}
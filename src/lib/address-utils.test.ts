@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'vitest'
+
+import { type ParsedAddress, resolveAddressIdentity } from './address-utils'
+
+const OWNER = 'vh-NTHVvlKZqRxc8LyyTNok65yQ55a_PJ1zWLb9G2JI'
+const ETH_ADDRESS = '0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed'
+
+const signer = (type: ParsedAddress['type']): ParsedAddress => ({
+  type,
+  address: type === 'ethereum' ? ETH_ADDRESS : OWNER,
+  normalizedAddress: OWNER,
+  publicKey: '',
+})
+
+describe('resolveAddressIdentity', () => {
+  test('keeps Arweave wallets as they are', () => {
+    expect(resolveAddressIdentity(OWNER, signer('arweave'))).toEqual({
+      type: 'arweave',
+      address: OWNER,
+      owner: OWNER,
+    })
+  })
+
+  test('assumes an Arweave wallet when nothing was signed', () => {
+    expect(resolveAddressIdentity(OWNER, null)).toEqual({
+      type: 'arweave',
+      address: OWNER,
+      owner: OWNER,
+    })
+  })
+
+  test('derives the 0x address of owners with Ethereum keys', () => {
+    expect(resolveAddressIdentity(OWNER, signer('ethereum'))).toEqual({
+      type: 'ethereum',
+      address: ETH_ADDRESS,
+      owner: OWNER,
+    })
+  })
+
+  test('leaves the owner of a bare 0x address unknown', () => {
+    expect(resolveAddressIdentity(ETH_ADDRESS)).toEqual({
+      type: 'ethereum',
+      address: ETH_ADDRESS,
+      owner: undefined,
+    })
+  })
+})
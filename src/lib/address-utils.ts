@@ -197,3 +197,31 @@ export function isValidAddress(address: string): boolean {
     return isArweaveAddress(address)
   }
 }
+
+export interface AddressIdentity {
+  type: AddressType
+  // Address AO processes know the wallet by, 0x for Ethereum keys
+  address: string
+  // Owner address the wallet's transactions are indexed under. Unknown for a
+  // bare 0x address, since it can only be derived from the public key
+  owner?: string
+}
+
+/**
+ * Resolves both forms of a wallet address
+ * @param address - Arweave owner address or 0x Ethereum address
+ * @param signer - Parsed owner of a transaction signed by the wallet, if any
+ * @returns The address AO processes use and the owner address it signs with
+ */
+export function resolveAddressIdentity(
+  address: string,
+  signer?: ParsedAddress | null,
+): AddressIdentity {
+  if (isEthereumAddress(address)) {
+    return { type: 'ethereum', address, owner: signer?.normalizedAddress }
+  }
+  if (signer?.type === 'ethereum') {
+    return { type: 'ethereum', address: signer.address, owner: address }
+  }
+  return { type: 'arweave', address, owner: address }
+}
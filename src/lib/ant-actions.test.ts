@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'vitest'
+
+import { antActionError, antActionTags } from './ant-actions'
+
+const TX_ID = 'a'.repeat(43)
+
+describe('antActionTags', () => {
+  test('builds the tags the ANT client sends', () => {
+    expect(
+      antActionTags({
+        type: 'set-record',
+        undername: 'docs',
+        transactionId: TX_ID,
+        ttlSeconds: 900,
+      }),
+    ).toEqual([
+      { name: 'Action', value: 'Set-Record' },
+      { name: 'Sub-Domain', value: 'docs' },
+      { name: 'Transaction-Id', value: TX_ID },
+      { name: 'TTL-Seconds', value: '900' },
+    ])
+    expect(
+      antActionTags({ type: 'remove-controller', controller: TX_ID }),
+    ).toEqual([
+      { name: 'Action', value: 'Remove-Controller' },
+      { name: 'Controller', value: TX_ID },
+    ])
+  })
+
+  test('rejects input the ANT would refuse', () => {
+    expect(() =>
+      antActionTags({
+        type: 'set-record',
+        undername: 'Docs Site',
+        transactionId: TX_ID,
+        ttlSeconds: 900,
+      }),
+    ).toThrow('Invalid undername')
+    expect(() =>
+      antActionTags({
+        type: 'set-record',
+        undername: '@',
+        transactionId: TX_ID,
+        ttlSeconds: 30,
+      }),
+    ).toThrow('TTL must be between 60 and 86400 seconds')
+    expect(() => antActionTags({ type: 'transfer', target: 'nobody' })).toThrow(
+      'Invalid recipient address',
+    )
+  })
+})
+
+describe('antActionError', () => {
+  test('reads the Error tag of an invalid notice', () => {
+    expect(
+      antActionError({
+        output: '',
+        messages: [
+          {
+            target: TX_ID,
+            tags: {
+              Action: 'Invalid-Set-Record-Notice',
+              Error: 'Unauthorized',
+            },
+            data: '',
+          },
+        ],
+      }),
+    ).toBe('Unauthorized')
+  })
+
+  test('accepts a plain notice', () => {
+    expect(
+      antActionError({
+        output: '',
+        messages: [
+          { tags: { Action: 'Set-Record-Notice' }, data: '{"ttlSeconds":900}' },
+        ],
+      }),
+    ).toBeUndefined()
+  })
+})
@@ -0,0 +1,184 @@
+// Write actions of an ANT process as message tags. The tags match what the
+// ANT client in @ar.io/sdk sends, building them here lets the same message
+// be dry run as a preview and then signed unchanged.
+import { ANT, type AoSigner, type UpgradeAntProgressEvent } from '@ar.io/sdk'
+import { connect } from '@permaweb/aoconnect'
+
+import { isArweaveAddress, isValidAddress } from './address-utils'
+import type { HandlerResponse, MessageTag } from './process-handlers'
+
+export type ANTAction =
+  | {
+      type: 'set-record'
+      undername: string
+      transactionId: string
+      ttlSeconds: number
+    }
+  | { type: 'remove-record'; undername: string }
+  | { type: 'add-controller'; controller: string }
+  | { type: 'remove-controller'; controller: string }
+  | { type: 'transfer'; target: string }
+  | { type: 'set-name'; name: string }
+  | { type: 'set-ticker'; ticker: string }
+  | { type: 'set-logo'; logo: string }
+
+export type ANTActionType = ANTAction['type']
+
+export const ANT_ACTION_LABELS: Record<ANTActionType, string> = {
+  'set-record': 'Set record',
+  'remove-record': 'Remove record',
+  'add-controller': 'Add controller',
+  'remove-controller': 'Remove controller',
+  transfer: 'Transfer ownership',
+  'set-name': 'Set name',
+  'set-ticker': 'Set ticker',
+  'set-logo': 'Set logo',
+}
+
+// Bounds the ANT process enforces on record TTLs
+export const MIN_TTL_SECONDS = 60
+export const MAX_TTL_SECONDS = 86400
+
+const UNDERNAME_PATTERN = /^(?:@|[a-z0-9](?:[a-z0-9-]{0,59}[a-z0-9])?)$/
+
+const checkUndername = (undername: string) => {
+  if (!UNDERNAME_PATTERN.test(undername)) {
+    throw new Error(
+      `Invalid undername "${undername}", use @ or lowercase letters, digits and dashes`,
+    )
+  }
+}
+
+const checkAddress = (address: string, label: string) => {
+  if (!isValidAddress(address)) {
+    throw new Error(`Invalid ${label} address "${address}"`)
+  }
+}
+
+const checkTransactionId = (id: string, label: string) => {
+  if (!isArweaveAddress(id)) {
+    throw new Error(`Invalid ${label} transaction id "${id}"`)
+  }
+}
+
+const checkText = (value: string, label: string) => {
+  if (!value.trim()) throw new Error(`The ${label} cannot be empty`)
+}
+
+/**
+ * Tags of the message performing an ANT action. Throws on input the ANT
+ * would reject, so a bad form never reaches the wallet.
+ */
+export function antActionTags(action: ANTAction): Array<MessageTag> {
+  switch (action.type) {
+    case 'set-record': {
+      checkUndername(action.undername)
+      checkTransactionId(action.transactionId, 'record')
+      const { ttlSeconds } = action
+      if (
+        !Number.isInteger(ttlSeconds) ||
+        ttlSeconds < MIN_TTL_SECONDS ||
+        ttlSeconds > MAX_TTL_SECONDS
+      ) {
+        throw new Error(
+          `TTL must be between ${MIN_TTL_SECONDS} and ${MAX_TTL_SECONDS} seconds`,
+        )
+      }
+      return [
+        { name: 'Action', value: 'Set-Record' },
+        { name: 'Sub-Domain', value: action.undername },
+        { name: 'Transaction-Id', value: action.transactionId },
+        { name: 'TTL-Seconds', value: ttlSeconds.toString() },
+      ]
+    }
+    case 'remove-record':
+      checkUndername(action.undername)
+      return [
+        { name: 'Action', value: 'Remove-Record' },
+        { name: 'Sub-Domain', value: action.undername },
+      ]
+    case 'add-controller':
+    case 'remove-controller':
+      checkAddress(action.controller, 'controller')
+      return [
+        {
+          name: 'Action',
+          value:
+            action.type === 'add-controller'
+              ? 'Add-Controller'
+              : 'Remove-Controller',
+        },
+        { name: 'Controller', value: action.controller },
+      ]
+    case 'transfer':
+      checkAddress(action.target, 'recipient')
+      return [
+        { name: 'Action', value: 'Transfer' },
+        { name: 'Recipient', value: action.target },
+      ]
+    case 'set-name':
+      checkText(action.name, 'name')
+      return [
+        { name: 'Action', value: 'Set-Name' },
+        { name: 'Name', value: action.name },
+      ]
+    case 'set-ticker':
+      checkText(action.ticker, 'ticker')
+      return [
+        { name: 'Action', value: 'Set-Ticker' },
+        { name: 'Ticker', value: action.ticker },
+      ]
+    case 'set-logo':
+      checkTransactionId(action.logo, 'logo')
+      return [
+        { name: 'Action', value: 'Set-Logo' },
+        { name: 'Logo', value: action.logo },
+      ]
+  }
+}
+
+/**
+ * Rejection of an ANT action. ANTs do not fail the message, they reply
+ * with an Invalid-<Action>-Notice carrying an Error tag.
+ */
+export function antActionError(response: HandlerResponse): string | undefined {
+  if (response.error) return response.error
+  const notice = response.messages.find(
+    ({ tags }) => tags['Error'] || tags['Action']?.startsWith('Invalid-'),
+  )
+  if (!notice) return undefined
+  return notice.tags['Error'] || notice.data || notice.tags['Action']
+}
+
+export interface UpgradeANTRequest {
+  processId: string
+  cuUrl: string
+  arioProcessId: string
+  signer: AoSigner
+  // Called before each step that asks the wallet to sign
+  onProgress?: (
+    step: keyof UpgradeAntProgressEvent,
+    payload: UpgradeAntProgressEvent[keyof UpgradeAntProgressEvent],
+  ) => void
+}
+
+/**
+ * Forks the state of an ANT into a process on the latest registry module
+ * and points every ArNS name of the old ANT at the fork.
+ */
+export function upgradeANT({
+  processId,
+  cuUrl,
+  arioProcessId,
+  signer,
+  onProgress,
+}: UpgradeANTRequest) {
+  return ANT.upgrade({
+    signer,
+    antProcessId: processId,
+    arioProcessId,
+    ao: connect({ CU_URL: cuUrl, MODE: 'legacy' }),
+    reassignAffiliatedNames: true,
+    onSigningProgress: onProgress,
+  })
+}
@@ -0,0 +1,92 @@
+import type { AoANTState } from '@ar.io/sdk'
+import { describe, expect, test } from 'vitest'
+
+import {
+  diagnoseANTAccess,
+  parseRegistryCounts,
+  toVersionRows,
+} from './ant-registry'
+
+const ANT_ID = 'a'.repeat(43)
+const OWNER = 'o'.repeat(43)
+const CONTROLLER = 'c'.repeat(43)
+
+const state = {
+  Owner: OWNER,
+  Controllers: [CONTROLLER],
+} as AoANTState
+
+const NO_ACL = { Owned: [], Controlled: [] }
+
+describe('parseRegistryCounts', () => {
+  test('reads the JSON printed by the eval', () => {
+    expect(
+      parseRegistryCounts('\u001b[32m{"ants":1204,"users":873}\u001b[0m'),
+    ).toEqual({ ants: 1204, users: 873 })
+  })
+
+  test('throws when nothing was evaluated', () => {
+    expect(() => parseRegistryCounts('')).toThrow(
+      'The registry did not evaluate the counts query',
+    )
+  })
+})
+
+describe('toVersionRows', () => {
+  test('orders versions newest first', () => {
+    expect(
+      toVersionRows({
+        '1': { moduleId: 'm1', releaseTimestamp: 100 },
+        '3': { moduleId: 'm3', releaseTimestamp: 300 },
+        '2': { moduleId: 'm2', releaseTimestamp: 200 },
+      }).map((row) => row.version),
+    ).toEqual(['3', '2', '1'])
+  })
+})
+
+describe('diagnoseANTAccess', () => {
+  test('confirms a listing that matches the ANT', () => {
+    expect(
+      diagnoseANTAccess({
+        processId: ANT_ID,
+        acl: { Owned: [ANT_ID], Controlled: [] },
+        state,
+        address: OWNER,
+      }).status,
+    ).toBe('listed')
+  })
+
+  test('flags an ANT the registry never heard of', () => {
+    expect(
+      diagnoseANTAccess({
+        processId: ANT_ID,
+        acl: NO_ACL,
+        state,
+        address: CONTROLLER,
+      }),
+    ).toMatchObject({ status: 'unregistered', actualRole: 'controller' })
+  })
+
+  test('flags a listing the ANT no longer backs', () => {
+    expect(
+      diagnoseANTAccess({
+        processId: ANT_ID,
+        acl: { Owned: [ANT_ID], Controlled: [] },
+        state,
+        address: CONTROLLER,
+      }),
+    ).toMatchObject({
+      status: 'stale',
+      listedAs: 'owner',
+      actualRole: 'controller',
+    })
+    expect(
+      diagnoseANTAccess({
+        processId: ANT_ID,
+        acl: NO_ACL,
+        state,
+        address: 'x'.repeat(43),
+      }).status,
+    ).toBe('no-access')
+  })
+})
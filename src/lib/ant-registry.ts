@@ -0,0 +1,197 @@
+// The ANT registry tracks which ANTs each address owns or controls, which is
+// what wallets and the ArNS app list for a user. It learns of an ANT when
+// the ANT is registered, and of later changes from the notices the ANT
+// sends it, so an ANT missing for a user usually means the registry missed
+// one of those.
+import {
+  ANTRegistry,
+  ANT_REGISTRY_ID,
+  AOProcess,
+  type AoANTState,
+  type ContractSigner,
+} from '@ar.io/sdk'
+import { connect } from '@permaweb/aoconnect'
+
+import type { ANTVersions } from './ant'
+import { evaluate, stripAnsi } from './aos-eval'
+
+export interface ANTRegistryACL {
+  Owned: Array<string>
+  Controlled: Array<string>
+}
+
+export interface ANTRegistryCounts {
+  ants: number
+  users: number
+}
+
+export interface ANTVersionRow {
+  version: string
+  moduleId: string
+  luaSourceId?: string
+  notes?: string
+  releaseTimestamp: number
+}
+
+export type ANTAccessStatus =
+  | 'listed'
+  | 'unregistered'
+  | 'stale'
+  | 'no-access'
+  | 'unknown'
+
+export interface ANTAccessDiagnosis {
+  status: ANTAccessStatus
+  // Role the registry lists the address with, if any
+  listedAs?: 'owner' | 'controller'
+  // Role the ANT itself gives the address, if its state is known
+  actualRole?: 'owner' | 'controller'
+  message: string
+}
+
+// Counts the registry tables, ANTS keyed by process id and ACL keyed by
+// user address
+export const REGISTRY_COUNTS_LUA = `local json = require('json')
+local function count(t)
+  local n = 0
+  for _ in pairs(t or {}) do n = n + 1 end
+  return n
+end
+return json.encode({ ants = count(ANTS), users = count(ACL) })`
+
+export function parseRegistryCounts(output: string): ANTRegistryCounts {
+  const text = stripAnsi(output)
+  const start = text.indexOf('{')
+  if (start === -1) {
+    throw new Error('The registry did not evaluate the counts query')
+  }
+  const counts = JSON.parse(text.slice(start, text.lastIndexOf('}') + 1))
+  return { ants: Number(counts.ants) || 0, users: Number(counts.users) || 0 }
+}
+
+/**
+ * Counts the ANTs and users the registry holds. The registry has no handler
+ * for this, so it is an eval dry run as the registry owner.
+ */
+export async function fetchRegistryCounts({
+  processId = ANT_REGISTRY_ID,
+  cuUrl,
+  owner,
+}: {
+  processId?: string
+  cuUrl: string
+  owner?: string
+}): Promise<ANTRegistryCounts> {
+  const { output, error } = await evaluate({
+    processId,
+    cuUrl,
+    mode: 'dryrun',
+    code: REGISTRY_COUNTS_LUA,
+    from: owner,
+  })
+  if (error) throw new Error(error)
+  return parseRegistryCounts(output)
+}
+
+// Registry versions, newest release first
+export const toVersionRows = (
+  versions: ANTVersions | undefined,
+): Array<ANTVersionRow> =>
+  Object.entries(versions ?? {})
+    .map(([version, entry]) => ({ version, ...entry }))
+    .sort((a, b) => b.releaseTimestamp - a.releaseTimestamp)
+
+const roleIn = (state: AoANTState, address: string) =>
+  state.Owner === address
+    ? 'owner'
+    : state.Controllers.includes(address)
+      ? 'controller'
+      : undefined
+
+/**
+ * Why an ANT does or does not show up for an address. The registry ACL is
+ * compared with the ANT's own state when it is known: if they disagree the
+ * registry is stale and registering the ANT again refreshes it.
+ */
+export function diagnoseANTAccess({
+  processId,
+  acl,
+  state,
+  address,
+}: {
+  processId: string
+  acl: ANTRegistryACL
+  state?: AoANTState
+  address: string
+}): ANTAccessDiagnosis {
+  const listedAs = acl.Owned.includes(processId)
+    ? 'owner'
+    : acl.Controlled.includes(processId)
+      ? 'controller'
+      : undefined
+  const actualRole = state ? roleIn(state, address) : undefined
+
+  if (!state) {
+    return {
+      status: 'unknown',
+      listedAs,
+      message: listedAs
+        ? `The registry lists the ANT as ${listedAs === 'owner' ? 'owned' : 'controlled'} by this address, but its state could not be read`
+        : 'The registry does not list the ANT for this address, and its state could not be read to tell why',
+    }
+  }
+
+  if (listedAs && listedAs === actualRole) {
+    return {
+      status: 'listed',
+      listedAs,
+      actualRole,
+      message: `The registry lists the ANT as ${listedAs === 'owner' ? 'owned' : 'controlled'} by this address`,
+    }
+  }
+
+  if (!actualRole) {
+    return {
+      status: listedAs ? 'stale' : 'no-access',
+      listedAs,
+      message: listedAs
+        ? `The registry still lists this address as ${listedAs}, but the ANT no longer gives it access. Registering the ANT again refreshes the registry`
+        : 'The address is neither the owner nor a controller of the ANT, so the registry correctly leaves it out',
+    }
+  }
+
+  return {
+    status: listedAs ? 'stale' : 'unregistered',
+    listedAs,
+    actualRole,
+    message: listedAs
+      ? `The ANT makes this address its ${actualRole}, but the registry lists it as ${listedAs}. Registering the ANT again refreshes the registry`
+      : `The ANT makes this address its ${actualRole}, but the registry has no record of it. Registering the ANT adds it`,
+  }
+}
+
+/**
+ * Registers an ANT with the registry, which then asks the ANT for its state
+ * and updates the ACL of its owner and controllers.
+ */
+export async function registerANT({
+  processId = ANT_REGISTRY_ID,
+  antProcessId,
+  cuUrl,
+  signer,
+}: {
+  processId?: string
+  antProcessId: string
+  cuUrl: string
+  signer: ContractSigner
+}): Promise<string> {
+  const registry = ANTRegistry.init({
+    process: new AOProcess({
+      processId,
+      ao: connect({ CU_URL: cuUrl, MODE: 'legacy' }),
+    }),
+    signer,
+  })
+  const { id } = await registry.register({ processId: antProcessId })
+  return id
+}
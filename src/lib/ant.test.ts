@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'vitest'
+
+import {
+  antVersionInfo,
+  resolvesUnder,
+  toRecordRows,
+  undernameLabel,
+} from './ant'
+
+const VERSIONS = {
+  '2': { moduleId: 'module-2', releaseTimestamp: 2000 },
+  '10': { moduleId: 'module-10', releaseTimestamp: 3000 },
+  '1': { moduleId: 'module-1', releaseTimestamp: 1000 },
+}
+
+describe('antVersionInfo', () => {
+  test('compares the module with the latest release', () => {
+    expect(antVersionInfo('module-10', VERSIONS)).toEqual({
+      status: 'latest',
+      version: '10',
+      latestVersion: '10',
+      latestModuleId: 'module-10',
+    })
+    expect(antVersionInfo('module-2', VERSIONS)).toMatchObject({
+      status: 'outdated',
+      version: '2',
+    })
+  })
+
+  test('is unknown without a module or registry', () => {
+    expect(antVersionInfo(undefined, VERSIONS).status).toBe('unknown')
+    expect(antVersionInfo('module-2', undefined).status).toBe('unknown')
+    // Modules the registry never listed are still behind the latest
+    expect(antVersionInfo('forked', VERSIONS)).toMatchObject({
+      status: 'outdated',
+      version: undefined,
+    })
+  })
+})
+
+describe('ANT records', () => {
+  const rows = toRecordRows({
+    docs: { transactionId: 'b'.repeat(43), ttlSeconds: 900, index: 2 },
+    '@': { transactionId: 'a'.repeat(43), ttlSeconds: 3600, index: 0 },
+    app: { transactionId: 'c'.repeat(43), ttlSeconds: 60, index: 1 },
+  })
+
+  test('lists records in resolution order', () => {
+    expect(rows.map((row) => row.undername)).toEqual(['@', 'app', 'docs'])
+  })
+
+  test('only the undername limit resolves after the base record', () => {
+    expect(rows.map((row) => resolvesUnder(row, 1))).toEqual([
+      true,
+      true,
+      false,
+    ])
+  })
+
+  test('undernameLabel joins undernames to the name', () => {
+    expect(undernameLabel('@', 'ardrive')).toBe('ardrive')
+    expect(undernameLabel('docs', 'ardrive')).toBe('docs_ardrive')
+  })
+})
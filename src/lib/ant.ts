@@ -0,0 +1,86 @@
+// ANT (Arweave Name Token) state as the ANT page shows it: undername
+// records in resolution order, the ArNS names pointing at the ANT, and
+// whether it runs the latest module from the ANT registry.
+import type { AoANTVersionsRead, SortedANTRecords } from '@ar.io/sdk'
+
+import type { ArNSName } from './arns-names'
+
+export type ANTVersions = Awaited<
+  ReturnType<AoANTVersionsRead['getANTVersions']>
+>
+
+export type ANTVersionStatus = 'latest' | 'outdated' | 'unknown'
+
+export interface ANTVersionInfo {
+  status: ANTVersionStatus
+  // Registry version of the module the ANT was spawned with
+  version?: string
+  latestVersion?: string
+  latestModuleId?: string
+}
+
+export interface ANTRecordRow {
+  undername: string
+  transactionId: string
+  ttlSeconds: number
+  // Position in resolution order, the base record '@' is 0
+  index: number
+  priority?: number
+  displayName?: string
+  description?: string
+}
+
+// The record a name itself resolves to
+export const BASE_RECORD = '@'
+
+/**
+ * Matches the module of an ANT against the ANT registry. The latest version
+ * is the most recently released one.
+ */
+export function antVersionInfo(
+  moduleId: string | undefined,
+  versions: ANTVersions | undefined,
+): ANTVersionInfo {
+  const entries = Object.entries(versions ?? {}).sort(
+    ([, a], [, b]) => a.releaseTimestamp - b.releaseTimestamp,
+  )
+  const latest = entries.at(-1)
+  const version = entries.find(([, entry]) => entry.moduleId === moduleId)?.[0]
+  const status: ANTVersionStatus =
+    !moduleId || !latest
+      ? 'unknown'
+      : latest[1].moduleId === moduleId
+        ? 'latest'
+        : 'outdated'
+  return {
+    status,
+    version,
+    latestVersion: latest?.[0],
+    latestModuleId: latest?.[1].moduleId,
+  }
+}
+
+export const toRecordRows = (records: SortedANTRecords): Array<ANTRecordRow> =>
+  Object.entries(records)
+    .map(([undername, record]) => ({
+      undername,
+      transactionId: record.transactionId,
+      ttlSeconds: record.ttlSeconds,
+      index: record.index,
+      priority: record.priority,
+      displayName: record.displayName,
+      description: record.description,
+    }))
+    .sort((a, b) => a.index - b.index)
+
+// Gateways only serve as many undernames as a name's undername limit, in
+// resolution order after the base record
+export const resolvesUnder = (record: ANTRecordRow, undernameLimit: number) =>
+  record.undername === BASE_RECORD || record.index <= undernameLimit
+
+export const namesForANT = (names: Array<ArNSName>, processId: string) =>
+  names.filter((record) => record.processId === processId)
+
+// Host label of an undername of a name, `undername_name`
+export const undernameLabel = (undername: string, name: string) =>
+  undername === BASE_RECORD ? name : `${undername}_${name}`
@@ -1,4 +1,4 @@
-import { result } from '@permaweb/aoconnect'
+import { connect, result } from '@permaweb/aoconnect'
 
 import {
   SortOrder,
@@ -34,11 +34,23 @@ import {
   useInfiniteGetTokenTransfersQuery,
 } from '@/generated/graphql'
 
-import { ParsedAddress, parseTransactionOwner } from './address-utils'
+import {
+  type AddressIdentity,
+  ParsedAddress,
+  parseTransactionOwner,
+  resolveAddressIdentity,
+} from './address-utils'
 import { graphqlClient } from './graphql-client'
+import { type LuaSourceSources } from './lua-source'
+import {
+  type MessageGraph,
+  type MessageGraphSources,
+  MessageGraphTraverser,
+  type TraverseMessageGraphArgs,
+} from './message-graph'
 
 // MessageResult type definition
-interface MessageResult {
+export interface MessageResult {
   Messages?: Array<any>
   [key: string]: any
 }
@@ -410,12 +422,17 @@ export function useModules(limit = 100, cursor = '', ascending = false) {
   })
 }
 
-export function useInfiniteModules(limit = 100, ascending = false) {
+export function useInfiniteModules(
+  limit = 100,
+  ascending = false,
+  owners?: Array<string>,
+) {
   return useInfiniteGetModulesQuery(
     graphqlClient,
     {
       limit,
       sortOrder: ascending ? SortOrder.HeightAsc : SortOrder.HeightDesc,
+      owners,
     },
     {
       initialPageParam: undefined,
@@ -424,7 +441,7 @@ export function useInfiniteModules(limit = 100, ascending = false) {
           ? lastPage.transactions.edges[lastPage.transactions.edges.length - 1]
               ?.cursor
           : undefined,
-      queryKey: ['infinite-modules', limit, ascending],
+      queryKey: ['infinite-modules', limit, ascending, owners],
     },
   )
 }
@@ -662,7 +679,7 @@ export function useInfiniteEvalMessages(
           ? lastPage.transactions.edges[lastPage.transactions.edges.length - 1]
               ?.cursor
           : undefined,
-      queryKey: ['infinite-all-messages', limit, ascending],
+      queryKey: ['infinite-eval-messages', entityId, limit, ascending],
     },
   )
 }
@@ -782,22 +799,22 @@ export async function getMessageById(id: string): Promise<AoMessage | null> {
 
     const fromParsed = parseTransactionOwner({
       address: node.owner.address,
-      key: node.owner.address,
+      key: node.owner.key,
     })
 
     return {
       id: node.id,
-      to: (node as any).recipient || '',
+      to: node.recipient || '',
       from: fromParsed.address, // Use the parsed address (0x for Ethereum, normalized for Arweave)
       fromParsed,
       type: tags['Type'] || 'Message',
       tags,
       block: node.block,
       data: node.data,
-      fee: (node as any).fee || { winston: '0', ar: '0' },
-      quantity: (node as any).quantity || { winston: '0', ar: '0' },
-      bundledIn: (node as any).bundledIn || null,
-      ingested_at: (node as any).ingested_at || null,
+      fee: node.fee || { winston: '0', ar: '0' },
+      quantity: node.quantity || { winston: '0', ar: '0' },
+      bundledIn: node.bundledIn || null,
+      ingested_at: node.ingested_at || null,
     }
   } catch (error) {
     console.error('Error fetching message by ID:', error)
@@ -805,6 +822,26 @@ export async function getMessageById(id: string): Promise<AoMessage | null> {
   }
 }
 
+// Both forms of a wallet address, resolved from the key of its latest AO
+// message (non-hook version)
+export async function getAddressIdentity(
+  address: string,
+): Promise<AddressIdentity> {
+  if (!isArweaveId(address)) return resolveAddressIdentity(address)
+
+  const queryResult = await useGetOutgoingMessagesQuery.fetcher(graphqlClient, {
+    entityId: address,
+    limit: 1,
+    sortOrder: SortOrder.HeightDesc,
+  })()
+
+  const edge = queryResult.transactions?.edges[0]
+  return resolveAddressIdentity(
+    address,
+    edge ? parseAoMessage(edge).fromParsed : null,
+  )
+}
+
 // Network stats function (non-hook version)
 export async function getNetworkStats(): Promise<Array<NetworkStat>> {
   try {
@@ -827,125 +864,93 @@ export async function getNetworkStats(): Promise<Array<NetworkStat>> {
 }
 
 // Message graph functionality
-export interface FetchMessageGraphArgs {
-  msgId: string
-  actions?: Array<string>
-  startFromPushedFor?: boolean
-  ignoreRepeatingMessages?: boolean
-  depth?: number
-}
-
-export const fetchMessageGraph = async (
-  {
-    msgId,
-    actions,
-    startFromPushedFor = false,
-    ignoreRepeatingMessages = false,
-    depth = 0,
-  }: FetchMessageGraphArgs,
-  visited: Set<string> = new Set(),
-): Promise<MessageTree | null> => {
-  try {
-    if (visited.has(msgId)) {
-      return null
-    }
-
-    visited.add(msgId)
-
-    let originalMsg = await getMessageById(msgId)
-
-    if (!originalMsg) {
-      return null
-    }
-
-    if (startFromPushedFor) {
-      const pushedFor = originalMsg.tags['Pushed-For']
-
-      if (pushedFor) {
-        originalMsg = await getMessageById(pushedFor)
-      }
-    }
-
-    if (!originalMsg) {
-      return null
-    }
+export type FetchMessageGraphArgs = TraverseMessageGraphArgs
 
-    const receiverMsg = await getMessageById(originalMsg.to)
+// Graph sources backed by the gateway and a CU, the default one if omitted
+export const messageGraphSources = (cuUrl?: string): MessageGraphSources => {
+  const getResult = cuUrl
+    ? connect({ CU_URL: cuUrl, MODE: 'legacy' }).result
+    : result
 
-    let aoResult = null
-
-    if (receiverMsg && receiverMsg.type === 'Process') {
-      aoResult = await result({
-        process: originalMsg.to,
-        message: originalMsg.id,
-      })
-    }
-
-    const head: MessageTree = Object.assign({}, originalMsg, {
-      children: [],
-      result: aoResult,
-    })
-
-    for (const aoMessage of head.result?.Messages ?? []) {
-      const refTag = aoMessage.Tags.find((t: any) =>
-        ['Ref_', 'Reference'].includes(t.name),
-      )
+  return {
+    getMessage: getMessageById,
+    getResult: (process, message) => getResult({ process, message }),
+    getResultingMessages: async ({ recipient, reference, useOldRefSymbol }) => {
+      const queryResult = await useGetResultingMessagesByIdsQuery.fetcher(
+        graphqlClient,
+        {
+          recipient,
+          msgRefs: [reference],
+          limit: 100,
+          sortOrder: SortOrder.HeightDesc,
+          useOldRefSymbol,
+        },
+      )()
+
+      const transactions = useOldRefSymbol
+        ? queryResult.oldRefTransactions
+        : queryResult.transactions
+
+      return (transactions?.edges ?? []).map(parseAoMessage)
+    },
+  }
+}
 
-      // Require a valid target and at least one reference tag value
-      if (!isArweaveId(String(aoMessage.Target)) || !refTag?.value) {
-        continue
-      }
+// Source reconstruction reads eval code from the gateway and results from
+// the CU, the default one if omitted
+export const luaSourceSources = (
+  gatewayUrl: string,
+  cuUrl?: string,
+): LuaSourceSources => {
+  const getResult = cuUrl
+    ? connect({ CU_URL: cuUrl, MODE: 'legacy' }).result
+    : result
 
-      const shouldUseOldRefSymbol = refTag.name === 'Ref_'
-
-      // Use the GraphQL client directly for this complex query
-      const nodes = await getResultingMessagesNodes({
-        recipient: aoMessage.Target,
-        limit: 100,
-        cursor: '',
-        _actions: actions,
-        ascending: false,
-        msgRefs: refTag ? [refTag.value] : [],
-        useOldRefSymbol: shouldUseOldRefSymbol,
-      })
-
-      let nodesIds = nodes
-        .filter((n: any) => n && isArweaveId(String(n.id)))
-        .map((n: any) => n.id)
-
-      if (ignoreRepeatingMessages) {
-        nodesIds = [...new Set(nodesIds)]
+  return {
+    // Paged from the newest end, so a cut history loses its oldest evals
+    // rather than the ones the current handlers come from
+    getEvals: async (entityId, limit) => {
+      const evals: Array<AoMessage> = []
+      let cursor: string | undefined
+
+      for (;;) {
+        const page = await useGetEvalMessagesQuery.fetcher(graphqlClient, {
+          entityId,
+          limit: Math.min(100, limit - evals.length),
+          sortOrder: SortOrder.HeightDesc,
+          cursor,
+        })()
+        const { edges, pageInfo } = page.transactions
+        evals.push(...edges.map(parseAoMessage))
+
+        if (!pageInfo.hasNextPage || edges.length === 0) {
+          return { evals: evals.reverse(), hasMore: false }
+        }
+        if (evals.length >= limit) {
+          return { evals: evals.reverse(), hasMore: true }
+        }
+        cursor = edges[edges.length - 1].cursor
       }
-
-      let leafs = []
-
-      for (const nodeId of nodesIds) {
-        if (!isArweaveId(nodeId)) continue
-        const leaf = await fetchMessageGraph(
-          {
-            msgId: nodeId,
-            actions,
-            ignoreRepeatingMessages,
-            depth: depth + 1,
-          },
-          visited,
-        )
-
-        leafs.push(leaf)
+    },
+    getData: async (id) => {
+      const response = await fetch(`${gatewayUrl}/raw/${id}`)
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} fetching ${id}`)
       }
-
-      leafs = leafs.filter((l) => l !== null)
-
-      head.children = head.children.concat(leafs as any)
-    }
-
-    return head
-  } catch (error) {
-    console.error('Error fetching message graph:', error)
-    return null
+      return response.text()
+    },
+    getResult: (process, message) => getResult({ process, message }),
   }
 }
 
+const defaultMessageGraphTraverser = new MessageGraphTraverser(
+  messageGraphSources(),
+)
+
+export const fetchMessageGraph = (
+  args: FetchMessageGraphArgs,
+): Promise<MessageGraph> => defaultMessageGraphTraverser.traverse(args)
+
 export interface GetResultingMessagesNodesArgs {
   recipient: string
   limit: number
@@ -0,0 +1,199 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+
+import {
+  evaluate,
+  fetchProcessOwner,
+  formatEvalResult,
+  parseEvalResult,
+  stripAnsi,
+} from './aos-eval'
+
+const ao = vi.hoisted(() => ({
+  dryrun: vi.fn(),
+  message: vi.fn(),
+  result: vi.fn(),
+}))
+
+vi.mock('@permaweb/aoconnect', () => ({
+  connect: vi.fn(() => ao),
+}))
+
+const PROCESS = 'p'.repeat(43)
+const OWNER = 'o'.repeat(43)
+const CU_URL = 'https://cu.example'
+
+describe('parseEvalResult', () => {
+  test('reads AOS 2 output and prompt', () => {
+    expect(
+      parseEvalResult({
+        Output: { data: '42', prompt: 'aos> ', print: true },
+        Messages: [{}],
+        Spawns: [],
+      }),
+    ).toEqual({
+      output: '42',
+      prompt: 'aos> ',
+      error: undefined,
+      messages: 1,
+      spawns: 0,
+    })
+  })
+
+  test('reads output nested the way older AOS versions print it', () => {
+    expect(
+      parseEvalResult({
+        Output: { data: { output: 'hello', prompt: 'legacy> ' } },
+      }),
+    ).toMatchObject({ output: 'hello', prompt: 'legacy> ' })
+  })
+
+  test('keeps errors apart from output and prints tables as JSON', () => {
+    expect(
+      parseEvalResult({
+        Output: { data: { count: 1 } },
+        Error: '[string "aos"]:1: attempt to call a nil value',
+      }),
+    ).toMatchObject({
+      output: '{\n  "count": 1\n}',
+      error: '[string "aos"]:1: attempt to call a nil value',
+    })
+  })
+})
+
+describe('evaluate', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  test('dry runs Eval as the given sender without signing', async () => {
+    ao.dryrun.mockResolvedValue({ Output: { data: '2', prompt: 'aos> ' } })
+
+    const result = await evaluate({
+      processId: PROCESS,
+      code: '1 + 1',
+      cuUrl: CU_URL,
+      mode: 'dryrun',
+      from: OWNER,
+    })
+
+    expect(ao.dryrun).toHaveBeenCalledWith({
+      process: PROCESS,
+      data: '1 + 1',
+      tags: [{ name: 'Action', value: 'Eval' }],
+      Owner: OWNER,
+      From: OWNER,
+    })
+    expect(ao.message).not.toHaveBeenCalled()
+    expect(result).toMatchObject({ output: '2', prompt: 'aos> ' })
+  })
+
+  test('sends a signed Eval message and reads its result', async () => {
+    const signer = vi.fn()
+    ao.message.mockResolvedValue('m'.repeat(43))
+    ao.result.mockResolvedValue({ Output: { data: 'done' } })
+
+    const result = await evaluate({
+      processId: PROCESS,
+      code: 'Count = 1',
+      cuUrl: CU_URL,
+      mode: 'message',
+      signer,
+    })
+
+    expect(ao.message).toHaveBeenCalledWith({
+      process: PROCESS,
+      data: 'Count = 1',
+      tags: [{ name: 'Action', value: 'Eval' }],
+      signer,
+    })
+    expect(ao.result).toHaveBeenCalledWith({
+      process: PROCESS,
+      message: 'm'.repeat(43),
+    })
+    expect(result).toMatchObject({ messageId: 'm'.repeat(43), output: 'done' })
+  })
+
+  test('refuses to send messages without a signer', async () => {
+    await expect(
+      evaluate({
+        processId: PROCESS,
+        code: 'Count = 1',
+        cuUrl: CU_URL,
+        mode: 'message',
+      }),
+    ).rejects.toThrow('Connect a wallet')
+    expect(ao.message).not.toHaveBeenCalled()
+  })
+})
+
+describe('fetchProcessOwner', () => {
+  const NEW_OWNER = 'n'.repeat(43)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  test('reads the current owner with a dry run from the process itself', async () => {
+    ao.dryrun.mockResolvedValue({ Output: { data: NEW_OWNER } })
+
+    await expect(
+      fetchProcessOwner({
+        processId: PROCESS,
+        cuUrl: CU_URL,
+        spawnedBy: OWNER,
+      }),
+    ).resolves.toBe(NEW_OWNER)
+    expect(ao.dryrun).toHaveBeenCalledTimes(1)
+    expect(ao.dryrun).toHaveBeenCalledWith({
+      process: PROCESS,
+      data: 'return Owner',
+      tags: [{ name: 'Action', value: 'Eval' }],
+      Owner: PROCESS,
+      From: PROCESS,
+    })
+  })
+
+  test('falls back to the spawn signer when the process may not evaluate', async () => {
+    ao.dryrun
+      .mockResolvedValueOnce({ Output: {} })
+      .mockResolvedValueOnce({ Output: { data: NEW_OWNER } })
+
+    await expect(
+      fetchProcessOwner({
+        processId: PROCESS,
+        cuUrl: CU_URL,
+        spawnedBy: OWNER,
+      }),
+    ).resolves.toBe(NEW_OWNER)
+    expect(ao.dryrun).toHaveBeenLastCalledWith(
+      expect.objectContaining({ Owner: OWNER, From: OWNER }),
+    )
+  })
+
+  test('resolves to undefined for a renounced owner', async () => {
+    ao.dryrun.mockResolvedValue({ Output: { data: 'nil' } })
+
+    await expect(
+      fetchProcessOwner({
+        processId: PROCESS,
+        cuUrl: CU_URL,
+        spawnedBy: OWNER,
+      }),
+    ).resolves.toBeUndefined()
+    expect(ao.dryrun).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('formatEvalResult', () => {
+  test('prints output lines then errors in red', () => {
+    const lines = formatEvalResult({
+      output: 'a\nb',
+      error: 'boom',
+      messages: 0,
+      spawns: 0,
+    })
+
+    expect(lines.map(stripAnsi)).toEqual(['a', 'b', 'boom'])
+    expect(lines[2]).toBe('\x1b[31mboom\x1b[0m')
+  })
+})
@@ -0,0 +1,213 @@
+import type { AoSigner } from '@ar.io/sdk'
+import { connect } from '@permaweb/aoconnect'
+
+import { isValidAddress } from './address-utils'
+
+// Evaluates Lua in an AOS process, either as a dry run that leaves the
+// process untouched or as a signed Eval message that the process applies.
+// AOS only evaluates code sent by the process owner, so dry runs are usually
+// sent as the owner.
+
+export type EvalMode = 'dryrun' | 'message'
+
+export interface ProcessMessageRequest {
+  processId: string
+  cuUrl: string
+  mode: EvalMode
+  data: string
+  tags: Array<{ name: string; value: string }>
+  // Signs the message, required in message mode
+  signer?: AoSigner
+  // Dry runs are evaluated as if sent by this address
+  from?: string
+}
+
+export interface EvalRequest
+  extends Omit<ProcessMessageRequest, 'data' | 'tags'> {
+  code: string
+}
+
+export interface EvalResult {
+  // Id of the Eval message, message mode only
+  messageId?: string
+  output: string
+  prompt?: string
+  error?: string
+  messages: number
+  spawns: number
+}
+
+const ANSI = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  gray: '\x1b[90m',
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g
+
+export const stripAnsi = (text: string) => text.replace(ANSI_PATTERN, '')
+
+const stringify = (value: unknown): string => {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'string') return value
+  return JSON.stringify(value, null, 2)
+}
+
+/**
+ * Reads the printed output, prompt and error from a CU result. AOS 2 puts
+ * the printed text in Output.data and the prompt next to it, older versions
+ * nest both in Output.data as output and prompt.
+ */
+export function parseEvalResult(
+  result: Record<string, any>,
+): Omit<EvalResult, 'messageId'> {
+  const output = result.Output
+  let data: unknown = output
+  let prompt: string | undefined
+
+  if (output && typeof output === 'object') {
+    data = output.data
+    prompt = output.prompt
+    if (data && typeof data === 'object' && 'output' in data) {
+      const legacy = data as { output?: unknown; prompt?: string }
+      data = legacy.output
+      prompt = prompt ?? legacy.prompt
+    }
+  }
+
+  const error = stringify(result.Error)
+
+  return {
+    output: stringify(data),
+    prompt: typeof prompt === 'string' && prompt ? prompt : undefined,
+    error: error || undefined,
+    messages: result.Messages?.length ?? 0,
+    spawns: result.Spawns?.length ?? 0,
+  }
+}
+
+/**
+ * Dry runs a message against the CU, or signs and sends it and then reads
+ * its result from the CU.
+ */
+export async function sendProcessMessage({
+  processId,
+  cuUrl,
+  mode,
+  data,
+  tags,
+  signer,
+  from,
+}: ProcessMessageRequest): Promise<{
+  messageId?: string
+  result: Record<string, any>
+}> {
+  const ao = connect({ CU_URL: cuUrl, MODE: 'legacy' })
+
+  if (mode === 'dryrun') {
+    const result = await ao.dryrun({
+      process: processId,
+      data,
+      tags,
+      ...(from ? { Owner: from, From: from } : {}),
+    })
+    return { result }
+  }
+
+  if (!signer) {
+    throw new Error('Connect a wallet to send signed messages')
+  }
+  const messageId = await ao.message({
+    process: processId,
+    data,
+    tags,
+    // aoconnect types its signer as any function, the SDK passes the same
+    // AoSigner through
+    signer: signer as Parameters<typeof ao.message>[0]['signer'],
+  })
+  const result = await ao.result({ process: processId, message: messageId })
+  return { messageId, result }
+}
+
+export async function evaluate({
+  code,
+  ...request
+}: EvalRequest): Promise<EvalResult> {
+  const { messageId, result } = await sendProcessMessage({
+    ...request,
+    data: code,
+    tags: [{ name: 'Action', value: 'Eval' }],
+  })
+  return { messageId, ...parseEvalResult(result) }
+}
+
+/**
+ * Current owner of an AOS process, read with a `return Owner` dry run.
+ * Ownership moves after spawn, so the spawn signer is only tried as a sender
+ * after the process itself. Resolves to undefined when neither may evaluate
+ * or the owner was renounced.
+ */
+export async function fetchProcessOwner({
+  processId,
+  cuUrl,
+  spawnedBy,
+}: {
+  processId: string
+  cuUrl: string
+  spawnedBy?: string
+}): Promise<string | undefined> {
+  const senders = [processId, spawnedBy].filter(
+    (sender, index, all): sender is string =>
+      !!sender && all.indexOf(sender) === index,
+  )
+
+  for (const from of senders) {
+    const { output, error } = await evaluate({
+      processId,
+      cuUrl,
+      mode: 'dryrun',
+      code: 'return Owner',
+      from,
+    })
+    const owner = stripAnsi(output).trim()
+    if (!error && isValidAddress(owner)) return owner
+  }
+  return undefined
+}
+
+/**
+ * Terminal lines for a result. Output keeps the colors AOS printed it with,
+ * errors are shown in red and outbound messages in gray.
+ */
+export function formatEvalResult(result: EvalResult): Array<string> {
+  const lines: Array<string> = []
+
+  if (result.output) {
+    lines.push(...result.output.split(/\r?\n/))
+  }
+  if (result.error) {
+    lines.push(
+      ...result.error
+        .split(/\r?\n/)
+        .map((line) => `${ANSI.red}${line}${ANSI.reset}`),
+    )
+  }
+  if (result.messages > 0 || result.spawns > 0) {
+    lines.push(
+      `${ANSI.gray}${result.messages} message(s) and ${result.spawns} spawn(s) sent${ANSI.reset}`,
+    )
+  }
+  if (result.messageId) {
+    lines.push(`${ANSI.gray}Eval message ${result.messageId}${ANSI.reset}`)
+  }
+
+  return lines
+}
+
+export const formatEvalError = (error: unknown): string =>
+  `${ANSI.red}${error instanceof Error ? error.message : String(error)}${ANSI.reset}`
+
+export const formatNotice = (text: string): string =>
+  `${ANSI.yellow}${text}${ANSI.reset}`
@@ -0,0 +1,59 @@
+import { describe, expect, test, vi } from 'vitest'
+
+import type { ParquetClient, TransactionWithTags } from '@/lib/parquet-client'
+
+import { ArFSClient } from './ArFSClient'
+
+const FIRST_OWNER = 'a'.repeat(43)
+const SECOND_OWNER = 'b'.repeat(43)
+
+// Folder revision as the parquet datasets return it, without the signer's
+// public key
+const folderRevision = (height: number, ownerAddress: string) =>
+  ({
+    id: `tx-${height}`,
+    owner: '',
+    owner_address: ownerAddress,
+    height: BigInt(height),
+    indexed_at: BigInt(height),
+    data_size: 0n,
+    tags: Object.entries({
+      'Entity-Type': 'folder',
+      'Drive-Id': 'drive',
+      'Folder-Id': 'folder',
+      ArFS: '0.15',
+      'Unix-Time': String(1700000000 + height),
+    }).map(([tag_name, tag_value]) => ({ tag_name, tag_value })),
+  }) as unknown as TransactionWithTags
+
+describe('ArFSClient', () => {
+  test('reports owner changes between revisions by wallet address', async () => {
+    const parquetClient = {
+      getTransactionsByTags: vi.fn(() =>
+        Promise.resolve([
+          folderRevision(2, SECOND_OWNER),
+          folderRevision(1, FIRST_OWNER),
+        ]),
+      ),
+    } as unknown as ParquetClient
+
+    const timeline = await new ArFSClient(parquetClient).getRevisionTimeline(
+      'folder',
+      'folder',
+    )
+
+    expect(timeline.map(({ entity }) => entity.owner)).toEqual([
+      SECOND_OWNER,
+      FIRST_OWNER,
+    ])
+    expect(timeline[0].kinds).toEqual(['owner'])
+    expect(timeline[0].changes).toEqual([
+      {
+        source: 'transaction',
+        field: 'owner',
+        before: FIRST_OWNER,
+        after: SECOND_OWNER,
+      },
+    ])
+  })
+})
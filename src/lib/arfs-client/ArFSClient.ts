@@ -1,74 +1,97 @@
+import { isArweaveAddress } from '@/lib/address-utils'
 import { type Logger, createLogger } from '@/lib/logger'
-import type { ParquetClient } from '@/lib/parquet-client'
-
-import type { ArFSDrive, ArFSDriveMetadata, ArFSQueryOptions } from './types'
+import type {
+  LatestRevisionQuery,
+  ParquetClient,
+  TagFilter,
+} from '@/lib/parquet-client'
+
+import type { ArFSDecryptor } from './ArFSDecryptor'
+import type { ArFSMetadataLoader } from './ArFSMetadataLoader'
+import {
+  parseDriveMetadata,
+  parseFileMetadata,
+  parseFolderMetadata,
+} from './metadata'
+import { buildRevisionTimeline } from './revisions'
+import { assembleDriveTree } from './tree'
+import type {
+  ArFSDrive,
+  ArFSDriveTree,
+  ArFSEntityQueryOptions,
+  ArFSEntityType,
+  ArFSFile,
+  ArFSFolder,
+  ArFSPage,
+  ArFSQueryOptions,
+  ArFSRevision,
+} from './types'
+
+// Upper bound of folders and of files loaded when assembling a whole drive
+const DRIVE_TREE_LIMIT = 10000
 
 export class ArFSClient {
   private parquetClient: ParquetClient
+  private metadataLoader?: ArFSMetadataLoader
+  private decryptor?: ArFSDecryptor
   private logger: Logger
 
-  constructor(parquetClient: ParquetClient) {
+  /**
+   * Without a metadata loader entities are returned with undefined metadata.
+   * Private entities only get metadata through a decryptor holding the key
+   * of their drive.
+   */
+  constructor(
+    parquetClient: ParquetClient,
+    metadataLoader?: ArFSMetadataLoader,
+    decryptor?: ArFSDecryptor,
+  ) {
     this.parquetClient = parquetClient
+    this.metadataLoader = metadataLoader
+    this.decryptor = decryptor
     this.logger = createLogger('ArFSClient') // Back to normal logging
   }
 
   /**
-   * Get ArFS drives with their metadata
+   * Get one page of ArFS drives (latest revisions) with their metadata.
+   * Latest revisions are selected in SQL, so filters apply to the current
+   * state of a drive and totals are exact.
    */
-  async getDrives(options: ArFSQueryOptions = {}): Promise<ArFSDrive[]> {
+  async getDrivesPage(
+    options: ArFSQueryOptions = {},
+  ): Promise<ArFSPage<ArFSDrive>> {
     this.logger.info('Fetching ArFS drives', options)
+    if (!this.isQueryableOwner(options.owner)) return { items: [], total: 0 }
 
     const {
       limit = 100,
       offset = 0,
-      driveId,
-      owner,
-      privacy,
-      arfsVersion,
+      cursor,
       orderBy = 'height',
       orderDirection = 'DESC',
     } = options
 
-    // Build tag filters for ArFS drives
-    const tagFilters = [{ name: 'Entity-Type', value: 'drive' }]
-
-    // Add optional filters
-    if (driveId) {
-      tagFilters.push({ name: 'Drive-Id', value: driveId })
-    }
-    if (privacy) {
-      tagFilters.push({ name: 'Drive-Privacy', value: privacy })
-    }
-    if (arfsVersion) {
-      tagFilters.push({ name: 'ArFS', value: arfsVersion })
-    }
+    this.logger.time('getDrives')
 
-    // Query transactions with ArFS drive tags
-    // Get a larger set to ensure we have all revisions, then filter to latest
-    const transactions = await this.parquetClient.getTransactionsByTags(
-      tagFilters,
-      {
-        limit: limit * 10, // Get more transactions to account for multiple revisions
-        offset,
-        orderBy,
-        orderDirection,
-        owner,
-      },
-    )
+    const { transactions, total, nextCursor } =
+      await this.parquetClient.getLatestTransactionsByTags(
+        this.driveQuery(options),
+        {
+          limit,
+          offset,
+          cursor,
+          orderBy: orderBy === 'unix_time' ? 'time' : 'height',
+          orderDirection,
+        },
+      )
 
     // Process each transaction to extract ArFS drive data
-    const allDrives: ArFSDrive[] = []
-
-    this.logger.time('getDrives')
-    this.logger.debug(
-      `Processing ${transactions.length} transactions for ArFS drives`,
-    )
-
+    const drives: ArFSDrive[] = []
     for (const transaction of transactions) {
       try {
         const drive = this.processArFSDrive(transaction)
         if (drive) {
-          allDrives.push(drive)
+          drives.push(drive)
         }
       } catch (error) {
         this.logger.warn(
@@ -79,18 +102,21 @@ export class ArFSClient {
       }
     }
 
-    this.logger.debug(`Processed ${allDrives.length} valid ArFS drives`)
-
-    // Group by driveId and get the latest revision for each drive
-    const latestDrives = this.getLatestDriveRevisions(allDrives)
-
-    this.logger.info(
-      `Found ${latestDrives.length} unique ArFS drives (latest revisions)`,
-    )
+    this.logger.info(`Found ${drives.length} of ${total} ArFS drives`)
     this.logger.timeEnd('getDrives')
 
-    // Apply limit after getting latest revisions
-    return latestDrives.slice(0, limit)
+    return {
+      items: await this.withMetadata(drives, parseDriveMetadata),
+      total,
+      nextCursor,
+    }
+  }
+
+  /**
+   * Get ArFS drives (latest revisions) with their metadata
+   */
+  async getDrives(options: ArFSQueryOptions = {}): Promise<ArFSDrive[]> {
+    return (await this.getDrivesPage(options)).items
   }
 
   /**
@@ -127,7 +153,9 @@ export class ArFSClient {
     driveId: string,
     owner?: string,
   ): Promise<ArFSDrive[]> {
-    const tagFilters = [
+    if (!this.isQueryableOwner(owner)) return []
+
+    const tagFilters: TagFilter[] = [
       { name: 'Entity-Type', value: 'drive' },
       { name: 'Drive-Id', value: driveId },
     ]
@@ -157,9 +185,376 @@ export class ArFSClient {
       }
     }
 
+    return this.withMetadata(revisions, parseDriveMetadata)
+  }
+
+  /**
+   * Get all revisions of a folder, newest first
+   */
+  async getFolderRevisions(
+    folderId: string,
+    owner?: string,
+  ): Promise<ArFSFolder[]> {
+    const revisions = await this.getEntityRevisions(
+      'folder',
+      'Folder-Id',
+      folderId,
+      owner,
+      (transaction) => this.processArFSFolder(transaction),
+    )
+    return this.withMetadata(revisions, parseFolderMetadata)
+  }
+
+  /**
+   * Get all revisions of a file, newest first
+   */
+  async getFileRevisions(fileId: string, owner?: string): Promise<ArFSFile[]> {
+    const revisions = await this.getEntityRevisions(
+      'file',
+      'File-Id',
+      fileId,
+      owner,
+      (transaction) => this.processArFSFile(transaction),
+    )
+    return this.withMetadata(revisions, parseFileMetadata)
+  }
+
+  /**
+   * Revision timeline of a drive, folder or file with the changes
+   * introduced by every revision. Revisions from every signer are included
+   * so foreign writes show up in audits.
+   */
+  async getRevisionTimeline(
+    entityType: ArFSEntityType,
+    id: string,
+  ): Promise<Array<ArFSRevision<ArFSDrive | ArFSFolder | ArFSFile>>> {
+    this.logger.info(`Fetching ${entityType} revision timeline`, { id })
+
+    switch (entityType) {
+      case 'drive':
+        return buildRevisionTimeline(await this.getDriveRevisions(id))
+      case 'folder':
+        return buildRevisionTimeline(await this.getFolderRevisions(id))
+      case 'file':
+        return buildRevisionTimeline(await this.getFileRevisions(id))
+    }
+  }
+
+  /**
+   * Get the latest revision of ArFS folders
+   */
+  async getFolders(
+    options: ArFSEntityQueryOptions = {},
+  ): Promise<ArFSFolder[]> {
+    this.logger.info('Fetching ArFS folders', options)
+    const folders = await this.getEntities(
+      'folder',
+      'Folder-Id',
+      options,
+      (transaction) => this.processArFSFolder(transaction),
+    )
+    return this.withMetadata(folders, parseFolderMetadata)
+  }
+
+  /**
+   * Get the latest revision of ArFS files
+   */
+  async getFiles(options: ArFSEntityQueryOptions = {}): Promise<ArFSFile[]> {
+    this.logger.info('Fetching ArFS files', options)
+    const files = await this.getEntities(
+      'file',
+      'File-Id',
+      options,
+      (transaction) => this.processArFSFile(transaction),
+    )
+    return this.withMetadata(files, parseFileMetadata)
+  }
+
+  /**
+   * Get the folders and files whose latest revision lives in a folder
+   */
+  async getFolderChildren(
+    folderId: string,
+    options: Omit<ArFSEntityQueryOptions, 'parentFolderId'> = {},
+  ): Promise<{ folders: ArFSFolder[]; files: ArFSFile[] }> {
+    const [folders, files] = await Promise.all([
+      this.getFolders({ ...options, parentFolderId: folderId }),
+      this.getFiles({ ...options, parentFolderId: folderId }),
+    ])
+
+    this.logger.debug(
+      `Folder ${folderId} has ${folders.length} folders and ${files.length} files`,
+    )
+
+    return { folders, files }
+  }
+
+  /**
+   * Load every folder and file of a drive and assemble its hierarchy.
+   * Only revisions signed by the drive owner are taken into account.
+   */
+  async buildDriveTree(
+    driveId: string,
+    owner?: string,
+  ): Promise<ArFSDriveTree> {
+    this.logger.time(`buildDriveTree:${driveId}`)
+
+    const [drive] = await this.getDrives({ driveId, owner, limit: 1 })
+    const entityOptions = {
+      driveId,
+      owner: drive?.owner ?? owner,
+      limit: DRIVE_TREE_LIMIT,
+    }
+    const [folders, files] = await Promise.all([
+      this.getFolders(entityOptions),
+      this.getFiles(entityOptions),
+    ])
+
+    const tree = assembleDriveTree(driveId, drive ?? null, folders, files)
+
+    this.logger.info(`Built tree for drive ${driveId}`, {
+      folders: tree.folderCount,
+      files: tree.fileCount,
+      orphans: tree.orphans.length,
+      hasRoot: !!tree.root,
+    })
+    this.logger.timeEnd(`buildDriveTree:${driveId}`)
+
+    return tree
+  }
+
+  /**
+   * Query the latest revision of folders or files. Revisions are reduced in
+   * SQL and the parent is checked on the latest revision only, so entities
+   * that moved elsewhere are not reported.
+   */
+  private async getEntities<T extends ArFSFolder | ArFSFile>(
+    entityType: 'folder' | 'file',
+    idTag: 'Folder-Id' | 'File-Id',
+    options: ArFSEntityQueryOptions,
+    process: (transaction: any) => T | null,
+  ): Promise<T[]> {
+    const { limit = 100, offset = 0, driveId, owner, parentFolderId } = options
+    if (!this.isQueryableOwner(owner)) return []
+
+    const tagFilters: TagFilter[] = [{ name: 'Entity-Type', value: entityType }]
+    if (driveId) {
+      tagFilters.push({ name: 'Drive-Id', value: driveId })
+    }
+
+    const { transactions } =
+      await this.parquetClient.getLatestTransactionsByTags(
+        {
+          tagFilters,
+          partitionTag: idTag,
+          timeTag: 'Unix-Time',
+          owner,
+          latestFilters: parentFolderId
+            ? [{ name: 'Parent-Folder-Id', value: parentFolderId }]
+            : undefined,
+        },
+        { limit, offset, orderBy: 'height', orderDirection: 'DESC' },
+      )
+
+    const entities: T[] = []
+    for (const transaction of transactions) {
+      try {
+        const entity = process(transaction)
+        if (entity) {
+          entities.push(entity)
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Failed to process ArFS ${entityType} ${transaction.id}`,
+          error,
+        )
+      }
+    }
+
+    return entities
+  }
+
+  private async getEntityRevisions<T>(
+    entityType: 'folder' | 'file',
+    idTag: 'Folder-Id' | 'File-Id',
+    id: string,
+    owner: string | undefined,
+    process: (transaction: any) => T | null,
+  ): Promise<T[]> {
+    if (!this.isQueryableOwner(owner)) return []
+
+    const transactions = await this.parquetClient.getTransactionsByTags(
+      [
+        { name: 'Entity-Type', value: entityType },
+        { name: idTag, value: id },
+      ],
+      {
+        limit: 1000, // Get all revisions
+        orderBy: 'height',
+        orderDirection: 'DESC',
+        owner,
+      },
+    )
+
+    const revisions: T[] = []
+    for (const transaction of transactions) {
+      try {
+        const entity = process(transaction)
+        if (entity) {
+          revisions.push(entity)
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Failed to process ${entityType} revision ${transaction.id}`,
+          error,
+        )
+      }
+    }
+
     return revisions
   }
 
+  /**
+   * Owners are compared as binary ids, so a malformed one, such as a
+   * mistyped address in a URL, matches nothing. Queries for it return no
+   * results instead of failing.
+   */
+  private isQueryableOwner(owner?: string): boolean {
+    if (!owner || isArweaveAddress(owner)) return true
+    this.logger.debug(`Skipping query for malformed owner ${owner}`)
+    return false
+  }
+
+  /**
+   * Attach metadata loaded from transaction data, public metadata through
+   * the loader and private metadata through the decryptor.
+   * Metadata failures never fail the query itself.
+   */
+  private async withMetadata<
+    T extends ArFSDrive | ArFSFolder | ArFSFile,
+    TMetadata,
+  >(entities: T[], parse: (value: unknown) => TMetadata | null): Promise<T[]> {
+    let result = entities
+
+    if (this.metadataLoader && result.length > 0) {
+      try {
+        result = await this.metadataLoader.attach(result, parse)
+      } catch (error) {
+        this.logger.warn('Failed to load ArFS metadata', error)
+      }
+    }
+
+    if (this.decryptor && result.length > 0) {
+      try {
+        result = await this.decryptor.attach(result, parse)
+      } catch (error) {
+        this.logger.warn('Failed to decrypt ArFS metadata', error)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Convert a transaction's tags array into a name/value object
+   */
+  private getTagsObject(transaction: any): Record<string, string> {
+    return (transaction.tags ?? []).reduce(
+      (acc: Record<string, string>, tag: any) => {
+        acc[tag.tag_name] = tag.tag_value
+        return acc
+      },
+      {},
+    )
+  }
+
+  /**
+   * Process a transaction with ArFS folder tags into an ArFSFolder object
+   */
+  private processArFSFolder(transaction: any): ArFSFolder | null {
+    const tagsObj = this.getTagsObject(transaction)
+
+    if (
+      tagsObj['Entity-Type'] !== 'folder' ||
+      !tagsObj['Drive-Id'] ||
+      !tagsObj['Folder-Id'] ||
+      !tagsObj['ArFS'] ||
+      !tagsObj['Unix-Time']
+    ) {
+      this.logger.debug(
+        `Transaction ${transaction.id} rejected - missing required folder tags`,
+        tagsObj,
+      )
+      return null
+    }
+
+    return {
+      id: transaction.id,
+      owner: transaction.owner_address ?? '',
+      height: transaction.height,
+      indexed_at: transaction.indexed_at,
+      data_size: transaction.data_size,
+
+      driveId: tagsObj['Drive-Id'],
+      folderId: tagsObj['Folder-Id'],
+      parentFolderId: tagsObj['Parent-Folder-Id'] || undefined,
+      arfsVersion: tagsObj['ArFS'],
+      unixTime: parseInt(tagsObj['Unix-Time'], 10),
+      contentType: (tagsObj['Content-Type'] ?? 'application/json') as
+        | 'application/json'
+        | 'application/octet-stream',
+
+      cipher: tagsObj['Cipher'],
+      cipherIV: tagsObj['Cipher-IV'],
+
+      tags: tagsObj,
+    }
+  }
+
+  /**
+   * Process a transaction with ArFS file tags into an ArFSFile object
+   */
+  private processArFSFile(transaction: any): ArFSFile | null {
+    const tagsObj = this.getTagsObject(transaction)
+
+    if (
+      tagsObj['Entity-Type'] !== 'file' ||
+      !tagsObj['Drive-Id'] ||
+      !tagsObj['File-Id'] ||
+      !tagsObj['Parent-Folder-Id'] ||
+      !tagsObj['ArFS'] ||
+      !tagsObj['Unix-Time']
+    ) {
+      this.logger.debug(
+        `Transaction ${transaction.id} rejected - missing required file tags`,
+        tagsObj,
+      )
+      return null
+    }
+
+    return {
+      id: transaction.id,
+      owner: transaction.owner_address ?? '',
+      height: transaction.height,
+      indexed_at: transaction.indexed_at,
+      data_size: transaction.data_size,
+
+      driveId: tagsObj['Drive-Id'],
+      fileId: tagsObj['File-Id'],
+      parentFolderId: tagsObj['Parent-Folder-Id'],
+      arfsVersion: tagsObj['ArFS'],
+      unixTime: parseInt(tagsObj['Unix-Time'], 10),
+      contentType: (tagsObj['Content-Type'] ?? 'application/json') as
+        | 'application/json'
+        | 'application/octet-stream',
+
+      cipher: tagsObj['Cipher'],
+      cipherIV: tagsObj['Cipher-IV'],
+
+      tags: tagsObj,
+    }
+  }
+
   /**
    * Process a transaction with ArFS drive tags into an ArFSDrive object
    */
@@ -170,13 +565,7 @@ export class ArFSClient {
     })
 
     // Convert tags array to object for easier access
-    const tagsObj = transaction.tags.reduce(
-      (acc: Record<string, string>, tag: any) => {
-        acc[tag.tag_name] = tag.tag_value
-        return acc
-      },
-      {},
-    )
+    const tagsObj = this.getTagsObject(transaction)
 
     this.logger.debug(`Transaction ${transaction.id} tags:`, tagsObj)
 
@@ -214,26 +603,11 @@ export class ArFSClient {
       return null
     }
 
-    // Parse metadata from transaction data if available
-    let metadata: ArFSDriveMetadata | undefined
-    if (transaction.data_size > 0) {
-      try {
-        // Note: In a real implementation, you'd fetch the transaction data
-        // For now, we'll leave metadata as undefined since we don't have data access
-        // metadata = await this.fetchTransactionData(transaction.id)
-      } catch (error) {
-        console.warn(
-          `Failed to fetch metadata for drive ${transaction.id}:`,
-          error,
-        )
-      }
-    }
-
     // Build ArFS drive object
     const drive: ArFSDrive = {
       // Transaction info
       id: transaction.id,
-      owner: transaction.owner,
+      owner: transaction.owner_address ?? '',
       height: transaction.height,
       indexed_at: transaction.indexed_at,
       data_size: transaction.data_size,
@@ -253,9 +627,6 @@ export class ArFSClient {
       authMode: tagsObj['Drive-Auth-Mode'] as 'password' | undefined,
       signatureType: tagsObj['Signature-Type'] as '1' | undefined,
 
-      // Metadata
-      metadata,
-
       // Raw tags for debugging
       tags: tagsObj,
     }
@@ -278,68 +649,85 @@ export class ArFSClient {
   }
 
   /**
-   * Get drive privacy distribution
+   * Get drive privacy distribution, counted on latest revisions
    */
-  async getDrivePrivacyStats(): Promise<Record<'public' | 'private', number>> {
-    const drives = await this.getDrives({ limit: 10000 }) // Get a large sample
+  async getDrivePrivacyStats(
+    options: Pick<ArFSQueryOptions, 'owner'> = {},
+  ): Promise<Record<'public' | 'private', number>> {
+    if (!this.isQueryableOwner(options.owner)) return { public: 0, private: 0 }
 
-    const stats = drives.reduce(
-      (acc, drive) => {
-        acc[drive.privacy] = (acc[drive.privacy] || 0) + 1
-        return acc
-      },
-      { public: 0, private: 0 } as Record<'public' | 'private', number>,
+    const counts = await this.parquetClient.countLatestByTag(
+      this.driveQuery(options),
+      'Drive-Privacy',
     )
+    return { public: counts.public ?? 0, private: counts.private ?? 0 }
+  }
 
-    return stats
+  /**
+   * Get the number of drives per ArFS version, counted on latest revisions
+   */
+  async getArFSVersionStats(
+    options: Pick<ArFSQueryOptions, 'owner' | 'privacy'> = {},
+  ): Promise<Record<string, number>> {
+    if (!this.isQueryableOwner(options.owner)) return {}
+    return this.parquetClient.countLatestByTag(this.driveQuery(options), 'ArFS')
   }
 
   /**
-   * Get drives created in a time range
+   * Get drives whose latest revision falls in a Unix-Time range (seconds)
    */
   async getDrivesByTimeRange(
     startTime: number,
     endTime: number,
     options: ArFSQueryOptions = {},
   ): Promise<ArFSDrive[]> {
-    const drives = await this.getDrives({
+    return this.getDrives({
       ...options,
-      limit: options.limit || 10000,
+      minUnixTime: startTime,
+      maxUnixTime: endTime,
     })
-
-    return drives.filter(
-      (drive) => drive.unixTime >= startTime && drive.unixTime <= endTime,
-    )
   }
 
   /**
-   * Get the latest revision for each drive by grouping by driveId
-   * and selecting the one with the highest height (most recent)
+   * Latest drive revision query. Revisions missing required drive tags are
+   * not valid ArFS drives and never count as the latest revision.
    */
-  private getLatestDriveRevisions(drives: ArFSDrive[]): ArFSDrive[] {
-    const driveMap = new Map<string, ArFSDrive>()
-
-    for (const drive of drives) {
-      const existing = driveMap.get(drive.driveId)
-
-      if (!existing || drive.height > existing.height) {
-        // This revision is newer (higher block height)
-        driveMap.set(drive.driveId, drive)
-      } else if (
-        drive.height === existing.height &&
-        drive.unixTime > existing.unixTime
-      ) {
-        // Same block height, use unix time as tiebreaker
-        driveMap.set(drive.driveId, drive)
-      }
+  private driveQuery({
+    driveId,
+    owner,
+    privacy,
+    arfsVersion,
+    minUnixTime,
+    maxUnixTime,
+  }: ArFSQueryOptions): LatestRevisionQuery {
+    const tagFilters: TagFilter[] = [
+      { name: 'Entity-Type', value: 'drive' },
+      { name: 'Drive-Privacy', operator: 'exists' },
+      { name: 'ArFS', operator: 'exists' },
+      { name: 'Unix-Time', operator: 'exists' },
+      { name: 'Content-Type', operator: 'exists' },
+    ]
+    if (driveId) {
+      tagFilters.push({ name: 'Drive-Id', value: driveId })
     }
 
-    // Return drives sorted by height (newest first)
-    return Array.from(driveMap.values()).sort((a, b) => {
-      if (a.height !== b.height) {
-        return Number(b.height - a.height)
-      }
-      return b.unixTime - a.unixTime
-    })
+    // Privacy and version can change between revisions, only the latest counts
+    const latestFilters: TagFilter[] = []
+    if (privacy) {
+      latestFilters.push({ name: 'Drive-Privacy', value: privacy })
+    }
+    if (arfsVersion) {
+      latestFilters.push({ name: 'ArFS', value: arfsVersion })
+    }
+
+    return {
+      tagFilters,
+      partitionTag: 'Drive-Id',
+      timeTag: 'Unix-Time',
+      owner,
+      latestFilters: latestFilters.length > 0 ? latestFilters : undefined,
+      minTime: minUnixTime,
+      maxTime: maxUnixTime,
+    }
   }
 }
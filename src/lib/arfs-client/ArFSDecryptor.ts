@@ -0,0 +1,254 @@
+import { pLimit } from 'plimit-lit'
+
+import { graphqlClient } from '@/lib/graphql-client'
+import { type Logger, createLogger } from '@/lib/logger'
+
+import {
+  type ArFSSigner,
+  decryptData,
+  deriveDriveKey,
+  deriveFileKey,
+  importDriveKey,
+} from './crypto'
+import { parseDriveMetadata, parseMetadataJson } from './metadata'
+import type {
+  ArFSDecryptorOptions,
+  ArFSDrive,
+  ArFSDriveKey,
+  ArFSEntity,
+  ArFSFile,
+} from './types'
+
+const DEFAULT_CONCURRENCY = 5
+const DEFAULT_TIMEOUT = 1000 * 30 // 30 seconds
+
+const DATA_TAGS_QUERY = `
+  query ArFSDataTransactionTags($id: ID!) {
+    transactions(ids: [$id], first: 1) {
+      edges {
+        node {
+          tags {
+            name
+            value
+          }
+        }
+      }
+    }
+  }
+`
+
+/**
+ * Unlocked drive keys. Kept in memory for the page session only and
+ * never written to storage.
+ */
+export class ArFSKeyring {
+  private keys = new Map<string, ArFSDriveKey>()
+
+  get(driveId: string): ArFSDriveKey | undefined {
+    return this.keys.get(driveId)
+  }
+
+  has(driveId: string): boolean {
+    return this.keys.has(driveId)
+  }
+
+  set(key: ArFSDriveKey): void {
+    this.keys.set(key.driveId, key)
+  }
+
+  delete(driveId: string): void {
+    this.keys.delete(driveId)
+  }
+
+  clear(): void {
+    this.keys.clear()
+  }
+}
+
+export const arfsKeyring = new ArFSKeyring()
+
+/**
+ * Opt-in decryption of private ArFS drives. Unlocks drives with a wallet
+ * signature and password (or an exported drive key) and decrypts entity
+ * metadata and file data client-side.
+ */
+export class ArFSDecryptor {
+  private gatewayUrl: string
+  private concurrency: number
+  private timeout: number
+  private keyring: ArFSKeyring
+  private logger: Logger
+
+  constructor(
+    {
+      gatewayUrl,
+      concurrency = DEFAULT_CONCURRENCY,
+      timeout = DEFAULT_TIMEOUT,
+    }: ArFSDecryptorOptions,
+    keyring: ArFSKeyring = arfsKeyring,
+  ) {
+    this.gatewayUrl = gatewayUrl.replace(/\/+$/, '')
+    this.concurrency = concurrency
+    this.timeout = timeout
+    this.keyring = keyring
+    this.logger = createLogger('ArFSDecryptor')
+  }
+
+  isUnlocked(driveId: string): boolean {
+    return this.keyring.has(driveId)
+  }
+
+  /**
+   * Derive the drive key from the connected wallet and the drive password
+   */
+  async unlockWithWallet(
+    drive: ArFSDrive,
+    password: string,
+    sign: ArFSSigner,
+  ): Promise<ArFSDrive> {
+    const signatureType = drive.tags['Signature-Type']
+    if (signatureType && signatureType !== '1') {
+      throw new Error(
+        `Drive signature type ${signatureType} is not supported, unlock it with an exported drive key`,
+      )
+    }
+
+    const key = await deriveDriveKey(drive.driveId, password, sign)
+    return this.unlock(drive, key)
+  }
+
+  /**
+   * Unlock a drive with an exported base64url drive key
+   */
+  async unlockWithKey(drive: ArFSDrive, driveKey: string): Promise<ArFSDrive> {
+    const key = await importDriveKey(drive.driveId, driveKey)
+    return this.unlock(drive, key)
+  }
+
+  /**
+   * Forget the key of a drive, or of every drive
+   */
+  lock(driveId?: string): void {
+    if (driveId) {
+      this.keyring.delete(driveId)
+    } else {
+      this.keyring.clear()
+    }
+  }
+
+  /**
+   * Attach decrypted metadata to private entities of unlocked drives.
+   * Entities that fail to decrypt are returned unchanged.
+   */
+  async attach<T extends ArFSDrive | ArFSEntity, TMetadata>(
+    entities: T[],
+    parse: (value: unknown) => TMetadata | null,
+  ): Promise<T[]> {
+    const limit = pLimit(this.concurrency)
+
+    return Promise.all(
+      entities.map((entity) => {
+        const driveKey = this.keyring.get(entity.driveId)
+        if (!driveKey || !entity.cipher) return entity
+
+        return limit(async () => {
+          try {
+            const metadata = parse(await this.decryptMetadata(entity, driveKey))
+            return metadata ? { ...entity, metadata } : entity
+          } catch (error) {
+            this.logger.warn(`Failed to decrypt metadata ${entity.id}`, error)
+            return entity
+          }
+        })
+      }),
+    )
+  }
+
+  /**
+   * Download and decrypt the data of a private file
+   */
+  async decryptFile(file: ArFSFile): Promise<Uint8Array<ArrayBuffer>> {
+    const driveKey = this.keyring.get(file.driveId)
+    if (!driveKey) {
+      throw new Error(`Drive ${file.driveId} is locked`)
+    }
+    if (!file.metadata) {
+      throw new Error(`File ${file.fileId} has no decrypted metadata`)
+    }
+
+    const { dataTxId } = file.metadata
+    const [data, tags] = await Promise.all([
+      this.fetchData(dataTxId),
+      this.fetchDataTags(dataTxId),
+    ])
+    const fileKey = await deriveFileKey(driveKey, file.fileId)
+
+    return decryptData(fileKey, tags['Cipher'], tags['Cipher-IV'], data)
+  }
+
+  // Keep the key only once it decrypts the drive's own metadata
+  private async unlock(
+    drive: ArFSDrive,
+    key: ArFSDriveKey,
+  ): Promise<ArFSDrive> {
+    let metadata
+    try {
+      metadata = parseDriveMetadata(await this.decryptMetadata(drive, key))
+    } catch (error) {
+      this.logger.debug(`Drive key rejected for ${drive.driveId}`, error)
+      throw new Error('Incorrect password, wallet or drive key for this drive')
+    }
+
+    if (!metadata) {
+      throw new Error('Decrypted drive metadata is invalid')
+    }
+
+    this.keyring.set(key)
+    this.logger.info(`Unlocked private drive ${drive.driveId}`)
+    return { ...drive, metadata }
+  }
+
+  private async decryptMetadata(
+    entity: ArFSDrive | ArFSEntity,
+    driveKey: ArFSDriveKey,
+  ): Promise<unknown> {
+    const key =
+      'fileId' in entity
+        ? await deriveFileKey(driveKey, entity.fileId)
+        : driveKey.aesKey
+    const data = await this.fetchData(entity.id)
+    const plaintext = await decryptData(
+      key,
+      entity.cipher,
+      entity.cipherIV,
+      data,
+    )
+
+    return parseMetadataJson(new TextDecoder().decode(plaintext)) ?? null
+  }
+
+  private async fetchData(id: string): Promise<ArrayBuffer> {
+    const url = `${this.gatewayUrl}/${id}`
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(this.timeout),
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${url}`)
+    }
+
+    return response.arrayBuffer()
+  }
+
+  // Cipher tags of a file live on its data transaction
+  private async fetchDataTags(id: string): Promise<Record<string, string>> {
+    const result = await graphqlClient.request<{
+      transactions: {
+        edges: Array<{ node: { tags: Array<{ name: string; value: string }> } }>
+      }
+    }>(DATA_TAGS_QUERY, { id })
+
+    const tags = result.transactions.edges[0]?.node.tags ?? []
+    return Object.fromEntries(tags.map((tag) => [tag.name, tag.value]))
+  }
+}
@@ -0,0 +1,331 @@
+import { type Server, createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'vitest'
+
+import {
+  ArFSDownloader,
+  collectFolderFiles,
+  parseManifest,
+} from './ArFSDownloader'
+import type {
+  ArFSDownloadCache,
+  ArFSFile,
+  ArFSFolder,
+  ArFSTreeNode,
+} from './types'
+import { crc32 } from './zip'
+
+// Transaction data served by the stub gateway
+const FIXTURES: Record<string, string> = {
+  'report-tx': 'quarterly report',
+  'notes-tx': 'notes',
+  'index-tx': '<html>index</html>',
+  'style-tx': 'body {}',
+  'manifest-tx': JSON.stringify({
+    manifest: 'arweave/paths',
+    version: '0.1.0',
+    index: { path: 'index.html' },
+    paths: {
+      'index.html': { id: 'index-tx' },
+      'css/style.css': { id: 'style-tx' },
+      '../escape.txt': { id: 'notes-tx' },
+    },
+  }),
+}
+
+let server: Server
+let gatewayUrl: string
+let requests: string[] = []
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const path = request.url!
+    requests.push(path)
+    const id = path.replace(/^\/(raw\/)?/, '')
+
+    // Like a gateway, resolve manifests to their index unless fetched raw
+    if (id === 'manifest-tx' && !path.startsWith('/raw/')) {
+      response.writeHead(200, { 'Content-Type': 'text/html' })
+      response.end(FIXTURES['index-tx'])
+    } else if (id in FIXTURES) {
+      response.writeHead(200)
+      response.end(FIXTURES[id])
+    } else {
+      response.writeHead(404)
+      response.end()
+    }
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  gatewayUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+beforeEach(() => {
+  requests = []
+})
+
+const memoryCache = (): ArFSDownloadCache & {
+  entries: Map<string, Uint8Array<ArrayBuffer>>
+} => {
+  const entries = new Map<string, Uint8Array<ArrayBuffer>>()
+  return {
+    entries,
+    get: (id) => Promise.resolve(entries.get(id)),
+    set: (id, data) => {
+      entries.set(id, data)
+      return Promise.resolve()
+    },
+    delete: (ids) => {
+      ids.forEach((id) => entries.delete(id))
+      return Promise.resolve()
+    },
+  }
+}
+
+const folder = (folderId: string, name: string): ArFSFolder => ({
+  id: `${folderId}-tx`,
+  owner: 'owner',
+  height: 1n,
+  indexed_at: 1n,
+  data_size: 1n,
+  driveId: 'drive',
+  folderId,
+  arfsVersion: '0.15',
+  unixTime: 1700000000,
+  contentType: 'application/json',
+  metadata: { name },
+  tags: {},
+})
+
+const file = (
+  fileId: string,
+  name: string,
+  dataTxId: string,
+  dataContentType = 'text/plain',
+): ArFSFile => ({
+  id: `${fileId}-tx`,
+  owner: 'owner',
+  height: 1n,
+  indexed_at: 1n,
+  data_size: 1n,
+  driveId: 'drive',
+  fileId,
+  parentFolderId: 'root',
+  arfsVersion: '0.15',
+  unixTime: 1700000000,
+  contentType: 'application/json',
+  metadata: {
+    name,
+    size: 1,
+    lastModifiedDate: 1700000000000,
+    dataTxId,
+    dataContentType,
+  },
+  tags: {},
+})
+
+const node = (
+  entity: ArFSFolder | ArFSFile,
+  children: ArFSTreeNode[] = [],
+): ArFSTreeNode => ({
+  entity,
+  type: 'fileId' in entity ? 'file' : 'folder',
+  children,
+})
+
+const TREE = node(folder('root', 'Reports'), [
+  node(file('f1', 'report.txt', 'report-tx')),
+  node(file('f2', 'report.txt', 'notes-tx')),
+  node(folder('sub', 'Archive'), [
+    node(
+      file(
+        'f3',
+        'site.json',
+        'manifest-tx',
+        'application/x.arweave-manifest+json',
+      ),
+    ),
+  ]),
+  node(folder('empty', 'Empty')),
+])
+
+// Read entry names and data back from a stored (uncompressed) zip
+// Export output keeping what was written so far
+const memoryOutput = () => {
+  const chunks: Array<Uint8Array<ArrayBuffer>> = []
+  const output = new WritableStream<Uint8Array<ArrayBuffer>>({
+    write: (chunk) => {
+      chunks.push(chunk)
+    },
+  })
+  return { output, chunks, blob: () => new Blob(chunks) }
+}
+
+const readZip = async (blob: Blob): Promise<Map<string, string>> => {
+  // jsdom Blobs have no arrayBuffer()
+  const buffer = await new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+  })
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(bytes.buffer)
+  const decoder = new TextDecoder()
+  const end = bytes.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+
+  const entries = new Map<string, string>()
+  let offset = view.getUint32(end + 16, true)
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50)
+    const size = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const local = view.getUint32(offset + 42, true)
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    )
+
+    const dataStart = local + 30 + view.getUint16(local + 26, true)
+    const data = bytes.subarray(dataStart, dataStart + size)
+    expect(view.getUint32(offset + 16, true)).toBe(crc32(data))
+    entries.set(name, decoder.decode(data))
+
+    offset += 46 + nameLength
+  }
+  return entries
+}
+
+describe('collectFolderFiles', () => {
+  test('keeps the folder structure and suffixes duplicate names', () => {
+    const { files, directories } = collectFolderFiles(TREE)
+
+    expect(files.map((entry) => entry.path)).toEqual([
+      'report.txt',
+      'report (1).txt',
+      'Archive/site.json',
+    ])
+    expect(directories).toEqual(['Archive', 'Empty'])
+  })
+})
+
+describe('parseManifest', () => {
+  test('lists manifest paths without escaping segments', () => {
+    expect(parseManifest(JSON.parse(FIXTURES['manifest-tx']))).toEqual([
+      { path: 'index.html', id: 'index-tx' },
+      { path: 'css/style.css', id: 'style-tx' },
+      { path: 'escape.txt', id: 'notes-tx' },
+    ])
+    expect(parseManifest({ name: 'not a manifest' })).toBeNull()
+  })
+})
+
+describe('crc32', () => {
+  test('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926)
+  })
+})
+
+describe('ArFSDownloader', () => {
+  test('downloads a file with its name and content type', async () => {
+    const downloader = new ArFSDownloader({ gatewayUrl, cache: memoryCache() })
+    const result = await downloader.downloadFile(
+      file('f1', 'a/b.txt', 'report-tx'),
+    )
+
+    expect(result.name).toBe('a_b.txt')
+    expect(result.contentType).toBe('text/plain')
+    expect(new TextDecoder().decode(result.data)).toBe('quarterly report')
+  })
+
+  test('fetches manifests raw instead of their index', async () => {
+    const downloader = new ArFSDownloader({ gatewayUrl, cache: memoryCache() })
+    const result = await downloader.downloadFile(
+      file(
+        'f3',
+        'site.json',
+        'manifest-tx',
+        'application/x.arweave-manifest+json',
+      ),
+    )
+
+    expect(requests).toEqual(['/raw/manifest-tx'])
+    expect(new TextDecoder().decode(result.data)).toBe(FIXTURES['manifest-tx'])
+  })
+
+  test('exports a folder as a zip and expands manifests', async () => {
+    const cache = memoryCache()
+    const downloader = new ArFSDownloader({ gatewayUrl, cache })
+    const { output, chunks, blob } = memoryOutput()
+    const progress: number[] = []
+    // Chunks written when each file completed
+    const written: number[] = []
+    const result = await downloader.exportFolder(TREE, output, {
+      expandManifests: true,
+      onProgress: ({ completed }) => {
+        progress.push(completed)
+        written.push(chunks.length)
+      },
+    })
+
+    expect(result.name).toBe('Reports.zip')
+    expect(result.failures).toEqual([])
+    // The three directories, then the first file, header and data each
+    expect(written[progress.indexOf(1)]).toBe(8)
+    expect(Object.fromEntries(await readZip(blob()))).toEqual({
+      'Reports/': '',
+      'Reports/Archive/': '',
+      'Reports/Empty/': '',
+      'Reports/report.txt': 'quarterly report',
+      'Reports/report (1).txt': 'notes',
+      'Reports/Archive/site.json': FIXTURES['manifest-tx'],
+      'Reports/Archive/site/index.html': '<html>index</html>',
+      'Reports/Archive/site/css/style.css': 'body {}',
+      'Reports/Archive/site/escape.txt': 'notes',
+    })
+    expect(progress.at(-1)).toBe(6)
+    // A complete export leaves nothing to resume
+    expect(cache.entries.size).toBe(0)
+  })
+
+  test('resumes an export without fetching files again', async () => {
+    const cache = memoryCache()
+    const downloader = new ArFSDownloader({ gatewayUrl, cache })
+    const tree = node(folder('root', 'Reports'), [
+      node(file('f1', 'report.txt', 'report-tx')),
+      node(file('f2', 'missing.txt', 'missing-tx')),
+    ])
+
+    const first = await downloader.exportFolder(tree, memoryOutput().output)
+    expect(first.failures).toMatchObject([
+      { path: 'Reports/missing.txt', id: 'f2' },
+    ])
+    expect(cache.entries.has('report-tx')).toBe(true)
+
+    requests = []
+    const second = await downloader.exportFolder(tree, memoryOutput().output)
+    expect(second.skipped).toBe(1)
+    expect(requests).toEqual(['/missing-tx'])
+  })
+
+  test('aborts the output of a cancelled export', async () => {
+    const downloader = new ArFSDownloader({ gatewayUrl, cache: memoryCache() })
+    const aborted: unknown[] = []
+    const output = new WritableStream<Uint8Array<ArrayBuffer>>({
+      abort: (reason) => {
+        aborted.push(reason)
+      },
+    })
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      downloader.exportFolder(TREE, output, { signal: controller.signal }),
+    ).rejects.toThrow()
+    expect(aborted).toHaveLength(1)
+  })
+})
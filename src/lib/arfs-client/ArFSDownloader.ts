@@ -0,0 +1,437 @@
+import { createStore, del, delMany, get, set } from 'idb-keyval'
+import { pLimit } from 'plimit-lit'
+
+import { type Logger, createLogger } from '@/lib/logger'
+
+import type { ArFSDecryptor } from './ArFSDecryptor'
+import { parseMetadataJson } from './metadata'
+import { entityName, isArFSFolder } from './tree'
+import type {
+  ArFSDownloadCache,
+  ArFSDownloadedFile,
+  ArFSDownloaderOptions,
+  ArFSExportFailure,
+  ArFSExportOptions,
+  ArFSExportProgress,
+  ArFSExportResult,
+  ArFSFile,
+  ArFSTreeNode,
+} from './types'
+import { ZipWriter } from './zip'
+
+const DEFAULT_CONCURRENCY = 4
+const DEFAULT_TIMEOUT = 1000 * 60 * 5 // 5 minutes
+
+export const ARWEAVE_MANIFEST_CONTENT_TYPE =
+  'application/x.arweave-manifest+json'
+
+export const isManifestContentType = (contentType?: string): boolean =>
+  contentType === ARWEAVE_MANIFEST_CONTENT_TYPE
+
+/**
+ * Make an entity name safe to use as a single path segment
+ */
+export const sanitizeFileName = (name: string): string => {
+  const safe = Array.from(name, (char) =>
+    char === '/' || char === '\\' || char.charCodeAt(0) < 0x20 ? '_' : char,
+  )
+    .join('')
+    .trim()
+  return safe === '' || safe === '.' || safe === '..' ? '_' : safe
+}
+
+// `report.pdf` -> `report (1).pdf` until the name is free
+const uniqueName = (name: string, used: Set<string>): string => {
+  let candidate = name
+  const dot = name.lastIndexOf('.')
+  const [base, extension] =
+    dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, '']
+  for (let n = 1; used.has(candidate); n++) {
+    candidate = `${base} (${n})${extension}`
+  }
+  used.add(candidate)
+  return candidate
+}
+
+export interface ArFSFolderFile {
+  file: ArFSFile
+  // `/` separated path relative to the exported folder
+  path: string
+}
+
+/**
+ * All files below a folder node with their relative paths. ArFS allows
+ * siblings with the same name, those are suffixed to stay distinct.
+ */
+export const collectFolderFiles = (
+  node: ArFSTreeNode,
+): { files: ArFSFolderFile[]; directories: string[] } => {
+  const files: ArFSFolderFile[] = []
+  const directories: string[] = []
+
+  const walk = (folder: ArFSTreeNode, prefix: string) => {
+    const used = new Set<string>()
+    for (const child of folder.children) {
+      const name = uniqueName(sanitizeFileName(entityName(child.entity)), used)
+      const path = prefix ? `${prefix}/${name}` : name
+      if (isArFSFolder(child.entity)) {
+        directories.push(path)
+        walk(child, path)
+      } else {
+        files.push({ file: child.entity, path })
+      }
+    }
+  }
+
+  walk(node, '')
+  return { files, directories }
+}
+
+/**
+ * Paths of an Arweave path manifest with the transaction each points to,
+ * null when the data is not a manifest. Path segments are sanitized so
+ * they cannot escape the directory they are extracted to.
+ */
+export const parseManifest = (
+  value: unknown,
+): Array<{ path: string; id: string }> | null => {
+  if (typeof value !== 'object' || value === null) return null
+  const { manifest, paths } = value as Record<string, unknown>
+  if (manifest !== 'arweave/paths') return null
+  if (typeof paths !== 'object' || paths === null) return null
+
+  return Object.entries(paths).flatMap(([path, entry]) => {
+    const id = (entry as { id?: unknown } | null)?.id
+    const segments = path
+      .split('/')
+      .filter((segment) => segment && segment !== '.' && segment !== '..')
+      .map(sanitizeFileName)
+    return typeof id === 'string' && segments.length > 0
+      ? [{ path: segments.join('/'), id }]
+      : []
+  })
+}
+
+/**
+ * IndexedDB backed store of data fetched during folder exports, so an
+ * interrupted export resumes where it stopped. Only public data is ever
+ * stored. Storage failures degrade to cache misses.
+ */
+export const createIDBDownloadCache = (
+  dbName = 'ar-io-explorer-arfs-downloads',
+): ArFSDownloadCache => {
+  const logger = createLogger('ArFSDownloadCache')
+  let store: ReturnType<typeof createStore> | undefined
+
+  const getStore = () => {
+    store ??= createStore(dbName, 'data')
+    return store
+  }
+
+  return {
+    get: async (id) => {
+      try {
+        return await get(id, getStore())
+      } catch (error) {
+        logger.warn(`Failed to read cached data ${id}`, error)
+        return undefined
+      }
+    },
+    set: async (id, data) => {
+      try {
+        await set(id, data, getStore())
+      } catch (error) {
+        logger.warn(`Failed to cache data ${id}`, error)
+        // A partial write must not be resumed from
+        await del(id, getStore()).catch(() => undefined)
+      }
+    },
+    delete: async (ids) => {
+      try {
+        await delMany(ids, getStore())
+      } catch (error) {
+        logger.warn('Failed to clear cached data', error)
+      }
+    },
+  }
+}
+
+interface ExportItem {
+  path: string
+  modified: Date
+  // ArFS file, or a transaction a manifest points to
+  file?: ArFSFile
+  id?: string
+}
+
+/**
+ * File name of the zip archive a folder is exported as
+ */
+export const exportFileName = (folder: ArFSTreeNode): string =>
+  `${sanitizeFileName(entityName(folder.entity))}.zip`
+
+/**
+ * Downloads ArFS file data from a gateway and exports folders as zip
+ * archives. Private files are decrypted when their drive is unlocked.
+ */
+export class ArFSDownloader {
+  private gatewayUrl: string
+  private concurrency: number
+  private timeout: number
+  private cache: ArFSDownloadCache
+  private decryptor?: ArFSDecryptor
+  private logger: Logger
+
+  constructor(
+    {
+      gatewayUrl,
+      concurrency = DEFAULT_CONCURRENCY,
+      timeout = DEFAULT_TIMEOUT,
+      cache = createIDBDownloadCache(),
+    }: ArFSDownloaderOptions,
+    decryptor?: ArFSDecryptor,
+  ) {
+    this.gatewayUrl = gatewayUrl.replace(/\/+$/, '')
+    this.concurrency = concurrency
+    this.timeout = timeout
+    this.cache = cache
+    this.decryptor = decryptor
+    this.logger = createLogger('ArFSDownloader')
+  }
+
+  /**
+   * Fetch the data of a file with its name and content type. Manifests
+   * are fetched raw rather than resolved to their index.
+   */
+  async downloadFile(
+    file: ArFSFile,
+    signal?: AbortSignal,
+  ): Promise<ArFSDownloadedFile> {
+    const { name, dataContentType } = this.fileMetadata(file)
+    return {
+      file,
+      name: sanitizeFileName(name),
+      contentType: dataContentType,
+      data: await this.fileData(file, signal),
+    }
+  }
+
+  /**
+   * Export every file below a folder into a zip archive that keeps the
+   * folder structure, written to output as each file arrives. Files that
+   * fail are reported and left out, data that was fetched stays cached so
+   * running the export again only fetches what is missing. The output is
+   * aborted if the export is.
+   */
+  async exportFolder(
+    folder: ArFSTreeNode,
+    output: WritableStream<Uint8Array<ArrayBuffer>>,
+    { expandManifests = false, signal, onProgress }: ArFSExportOptions = {},
+  ): Promise<ArFSExportResult> {
+    const zip = new ZipWriter(output)
+    try {
+      const result = await this.writeFolder(folder, zip, {
+        expandManifests,
+        signal,
+        onProgress,
+      })
+      await zip.close()
+      return result
+    } catch (error) {
+      await zip.abort(error).catch(() => undefined)
+      throw error
+    }
+  }
+
+  private async writeFolder(
+    folder: ArFSTreeNode,
+    zip: ZipWriter,
+    { expandManifests, signal, onProgress }: ArFSExportOptions,
+  ): Promise<ArFSExportResult> {
+    const root = sanitizeFileName(entityName(folder.entity))
+    const { files, directories } = collectFolderFiles(folder)
+    const limit = pLimit(this.concurrency)
+    const failures: ArFSExportFailure[] = []
+    const cachedIds = new Set<string>()
+    const progress: ArFSExportProgress = {
+      total: files.length,
+      completed: 0,
+      skipped: 0,
+      failed: 0,
+      bytes: 0,
+    }
+
+    const report = (current?: string) => onProgress?.({ ...progress, current })
+
+    await zip.addDirectory(root)
+    for (const directory of directories) {
+      await zip.addDirectory(`${root}/${directory}`)
+    }
+
+    // Manifests add their own entries while the export runs
+    const tasks: Array<Promise<void>> = []
+    const enqueue = (item: ExportItem) =>
+      tasks.push(limit(() => exportItem(item)))
+
+    const exportItem = async (item: ExportItem) => {
+      const path = `${root}/${item.path}`
+      try {
+        signal?.throwIfAborted()
+        const { data, skipped, id } = await this.exportData(item, signal)
+        if (id) cachedIds.add(id)
+
+        await zip.add(path, data, item.modified)
+        progress.bytes += data.length
+        if (skipped) progress.skipped++
+
+        if (
+          expandManifests &&
+          item.file &&
+          !item.file.cipher &&
+          isManifestContentType(item.file.metadata?.dataContentType)
+        ) {
+          const entries = this.manifestEntries(data)
+          const directory = item.path.replace(/\.[^./]+$/, '')
+          progress.total += entries.length
+          for (const entry of entries) {
+            enqueue({
+              path: `${directory === item.path ? `${directory}_contents` : directory}/${entry.path}`,
+              modified: item.modified,
+              id: entry.id,
+            })
+          }
+        }
+      } catch (error) {
+        if (signal?.aborted) return
+        this.logger.warn(`Failed to export ${path}`, error)
+        progress.failed++
+        failures.push({
+          path,
+          id: item.file?.fileId ?? item.id ?? '',
+          error: error instanceof Error ? error.message : String(error),
+        })
+      } finally {
+        if (!signal?.aborted) {
+          progress.completed++
+          report(path)
+        }
+      }
+    }
+
+    for (const { file, path } of files) {
+      enqueue({ path, file, modified: this.modifiedDate(file) })
+    }
+    report()
+
+    // Array iteration picks up tasks manifests add while it runs
+    for (const task of tasks) {
+      await task
+    }
+    signal?.throwIfAborted()
+
+    // Nothing left to resume
+    if (failures.length === 0) {
+      await this.cache.delete(Array.from(cachedIds))
+    }
+
+    this.logger.info(
+      `Exported ${files.length} files of ${root} (${progress.skipped} resumed, ${failures.length} failed)`,
+    )
+
+    return {
+      name: exportFileName(folder),
+      fileCount: progress.completed - progress.failed,
+      skipped: progress.skipped,
+      failures,
+    }
+  }
+
+  // Export data, public data is read from and written to the cache
+  private async exportData(
+    item: ExportItem,
+    signal?: AbortSignal,
+  ): Promise<{
+    data: Uint8Array<ArrayBuffer>
+    skipped: boolean
+    id?: string
+  }> {
+    if (item.file?.cipher) {
+      return { data: await this.fileData(item.file, signal), skipped: false }
+    }
+
+    const id = item.file ? this.fileMetadata(item.file).dataTxId : item.id!
+    const cached = await this.cache.get(id)
+    if (cached) return { data: cached, skipped: true, id }
+
+    const data = item.file
+      ? await this.fileData(item.file, signal)
+      : await this.fetchData(id, true, signal)
+    await this.cache.set(id, data)
+    return { data, skipped: false, id }
+  }
+
+  private async fileData(
+    file: ArFSFile,
+    signal?: AbortSignal,
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    if (file.cipher) {
+      if (!this.decryptor) {
+        throw new Error(`File ${file.fileId} is private`)
+      }
+      return this.decryptor.decryptFile(file)
+    }
+
+    const { dataTxId, dataContentType } = this.fileMetadata(file)
+    return this.fetchData(
+      dataTxId,
+      isManifestContentType(dataContentType),
+      signal,
+    )
+  }
+
+  private fileMetadata(file: ArFSFile) {
+    if (!file.metadata) {
+      throw new Error(
+        file.cipher
+          ? `File ${file.fileId} is private, unlock its drive first`
+          : `Metadata of file ${file.fileId} is not available`,
+      )
+    }
+    return file.metadata
+  }
+
+  private modifiedDate(file: ArFSFile): Date {
+    return new Date(file.metadata?.lastModifiedDate || file.unixTime * 1000)
+  }
+
+  private manifestEntries(data: Uint8Array) {
+    const entries = parseManifest(
+      parseMetadataJson(new TextDecoder().decode(data)),
+    )
+    if (!entries) {
+      this.logger.warn('File is labelled as a manifest but is not one')
+    }
+    return entries ?? []
+  }
+
+  // `/raw/` serves manifests as they are instead of resolving their index
+  private async fetchData(
+    id: string,
+    raw: boolean,
+    signal?: AbortSignal,
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const url = raw
+      ? `${this.gatewayUrl}/raw/${id}`
+      : `${this.gatewayUrl}/${id}`
+    const timeout = AbortSignal.timeout(this.timeout)
+    const response = await fetch(url, {
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${url}`)
+    }
+
+    return new Uint8Array(await response.arrayBuffer())
+  }
+}
@@ -0,0 +1,194 @@
+import { type Server, createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, describe, expect, test } from 'vitest'
+
+import { ArFSMetadataLoader } from './ArFSMetadataLoader'
+import {
+  parseDriveMetadata,
+  parseFileMetadata,
+  parseFolderMetadata,
+} from './metadata'
+import type { ArFSDrive, ArFSFile, ArFSMetadataCache } from './types'
+
+// Transaction data served by the stub gateway
+const FIXTURES: Record<string, string> = {
+  'drive-tx': JSON.stringify({ name: 'Photos', rootFolderId: 'root-folder' }),
+  'file-tx': JSON.stringify({
+    name: 'cat.png',
+    size: '2048',
+    lastModifiedDate: 1700000000000,
+    dataTxId: 'data-tx',
+    dataContentType: 'image/png',
+  }),
+  'malformed-tx': '{"name": "broken",',
+  'invalid-tx': JSON.stringify({ name: 42 }),
+}
+
+let server: Server
+let gatewayUrl: string
+let requests: string[] = []
+let active = 0
+let maxActive = 0
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const id = request.url!.slice(1)
+    requests.push(id)
+    active += 1
+    maxActive = Math.max(maxActive, active)
+
+    // Keep requests open briefly so concurrency can be observed
+    setTimeout(() => {
+      active -= 1
+      if (id in FIXTURES) {
+        response.writeHead(200, { 'Content-Type': 'application/json' })
+        response.end(FIXTURES[id])
+      } else {
+        response.writeHead(404)
+        response.end()
+      }
+    }, 10)
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  gatewayUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+const createMemoryCache = () => {
+  const entries = new Map<string, unknown>()
+  const cache: ArFSMetadataCache = {
+    getMany: (ids) => Promise.resolve(ids.map((id) => entries.get(id))),
+    setMany: (values) => {
+      values.forEach(([id, value]) => entries.set(id, value))
+      return Promise.resolve()
+    },
+  }
+  return { cache, entries }
+}
+
+const createLoader = (concurrency = 5) => {
+  requests = []
+  maxActive = 0
+  const { cache, entries } = createMemoryCache()
+  const loader = new ArFSMetadataLoader({
+    gatewayUrl,
+    concurrency,
+    batchSize: 3,
+    cache,
+  })
+  return { loader, entries }
+}
+
+const drive = (id: string, overrides: Partial<ArFSDrive> = {}): ArFSDrive => ({
+  id,
+  owner: 'owner',
+  height: 1n,
+  indexed_at: 1n,
+  data_size: 1n,
+  driveId: `drive-${id}`,
+  privacy: 'public',
+  arfsVersion: '0.15',
+  unixTime: 1,
+  contentType: 'application/json',
+  tags: {},
+  ...overrides,
+})
+
+describe('ArFSMetadataLoader', () => {
+  test('loads JSON and maps malformed or missing data to null', async () => {
+    const { loader } = createLoader()
+
+    const json = await loader.loadJson(['drive-tx', 'malformed-tx', 'missing'])
+
+    expect(json.get('drive-tx')).toEqual({
+      name: 'Photos',
+      rootFolderId: 'root-folder',
+    })
+    expect(json.get('malformed-tx')).toBeNull()
+    expect(json.get('missing')).toBeNull()
+  })
+
+  test('caches fetched and malformed data but not failed requests', async () => {
+    const { loader, entries } = createLoader()
+
+    await loader.loadJson(['drive-tx', 'malformed-tx', 'missing'])
+    expect(Array.from(entries.keys()).sort()).toEqual([
+      'drive-tx',
+      'malformed-tx',
+    ])
+
+    requests = []
+    await loader.loadJson(['drive-tx', 'malformed-tx', 'missing'])
+    expect(requests).toEqual(['missing'])
+  })
+
+  test('limits concurrent requests', async () => {
+    const { loader } = createLoader(2)
+
+    await loader.loadJson(
+      Array.from({ length: 8 }, (_, index) => `missing-${index}`),
+    )
+
+    expect(requests).toHaveLength(8)
+    expect(maxActive).toBeLessThanOrEqual(2)
+  })
+
+  test('attaches validated metadata to public entities only', async () => {
+    const { loader } = createLoader()
+
+    const [publicDrive, invalidDrive, privateDrive] = await loader.attach(
+      [
+        drive('drive-tx'),
+        drive('invalid-tx'),
+        drive('drive-tx', {
+          privacy: 'private',
+          contentType: 'application/octet-stream',
+          cipher: 'AES256-GCM',
+        }),
+      ],
+      parseDriveMetadata,
+    )
+
+    expect(publicDrive.metadata).toEqual({
+      name: 'Photos',
+      rootFolderId: 'root-folder',
+      isHidden: false,
+    })
+    expect(invalidDrive.metadata).toBeUndefined()
+    expect(privateDrive.metadata).toBeUndefined()
+    expect(requests.sort()).toEqual(['drive-tx', 'invalid-tx'])
+  })
+
+  test('parses file metadata with numeric strings', async () => {
+    const { loader } = createLoader()
+    const file = {
+      ...drive('file-tx'),
+      fileId: 'file',
+      parentFolderId: 'root-folder',
+    } as ArFSFile
+
+    const [loaded] = await loader.attach([file], parseFileMetadata)
+
+    expect(loaded.metadata).toEqual({
+      name: 'cat.png',
+      size: 2048,
+      lastModifiedDate: 1700000000000,
+      dataTxId: 'data-tx',
+      dataContentType: 'image/png',
+    })
+  })
+})
+
+describe('metadata validation', () => {
+  test('rejects metadata missing required fields', () => {
+    expect(parseDriveMetadata({ name: 'No root' })).toBeNull()
+    expect(parseFolderMetadata({ name: '' })).toBeNull()
+    expect(parseFileMetadata({ name: 'a', size: -1, dataTxId: 'x' })).toBeNull()
+    expect(parseFileMetadata([])).toBeNull()
+    expect(parseFolderMetadata(null)).toBeNull()
+  })
+})
@@ -0,0 +1,204 @@
+import { createStore, getMany, setMany } from 'idb-keyval'
+import { pLimit } from 'plimit-lit'
+
+import { type Logger, createLogger } from '@/lib/logger'
+
+import { parseMetadataJson } from './metadata'
+import type {
+  ArFSDrive,
+  ArFSEntity,
+  ArFSMetadataCache,
+  ArFSMetadataLoaderOptions,
+} from './types'
+
+const DEFAULT_CONCURRENCY = 5
+const DEFAULT_BATCH_SIZE = 50
+const DEFAULT_TIMEOUT = 1000 * 15 // 15 seconds
+
+/**
+ * IndexedDB backed metadata cache. Transaction data is immutable so entries
+ * never expire. Storage failures degrade to cache misses.
+ */
+export const createIDBMetadataCache = (
+  dbName = 'ar-io-explorer-arfs-metadata',
+): ArFSMetadataCache => {
+  const logger = createLogger('ArFSMetadataCache')
+  let store: ReturnType<typeof createStore> | undefined
+
+  const getStore = () => {
+    store ??= createStore(dbName, 'metadata')
+    return store
+  }
+
+  return {
+    getMany: async (ids) => {
+      try {
+        return await getMany(ids, getStore())
+      } catch (error) {
+        logger.warn('Failed to read cached metadata', error)
+        return ids.map(() => undefined)
+      }
+    },
+    setMany: async (entries) => {
+      try {
+        await setMany(entries, getStore())
+      } catch (error) {
+        logger.warn('Failed to cache metadata', error)
+      }
+    },
+  }
+}
+
+/**
+ * Loads ArFS metadata JSON from the data of entity transactions on a
+ * gateway. Requests are concurrency limited and results are cached.
+ */
+export class ArFSMetadataLoader {
+  private gatewayUrl: string
+  private concurrency: number
+  private batchSize: number
+  private timeout: number
+  private cache: ArFSMetadataCache
+  private logger: Logger
+  private pending = new Map<string, Promise<unknown>>()
+
+  constructor({
+    gatewayUrl,
+    concurrency = DEFAULT_CONCURRENCY,
+    batchSize = DEFAULT_BATCH_SIZE,
+    timeout = DEFAULT_TIMEOUT,
+    cache = createIDBMetadataCache(),
+  }: ArFSMetadataLoaderOptions) {
+    this.gatewayUrl = gatewayUrl.replace(/\/+$/, '')
+    this.concurrency = concurrency
+    this.batchSize = batchSize
+    this.timeout = timeout
+    this.cache = cache
+    this.logger = createLogger('ArFSMetadataLoader')
+  }
+
+  /**
+   * Get the parsed JSON data of transactions. Malformed or unavailable
+   * data maps to null.
+   */
+  async loadJson(ids: string[]): Promise<Map<string, unknown>> {
+    const uniqueIds = Array.from(new Set(ids))
+    const results = new Map<string, unknown>()
+
+    this.logger.time('loadJson')
+
+    for (let i = 0; i < uniqueIds.length; i += this.batchSize) {
+      const batch = uniqueIds.slice(i, i + this.batchSize)
+      const batchResults = await this.loadBatch(batch)
+      batchResults.forEach((value, id) => results.set(id, value))
+    }
+
+    this.logger.timeEnd('loadJson')
+
+    return results
+  }
+
+  /**
+   * Attach validated metadata to public entities. Private (encrypted)
+   * entities and entities without valid metadata are returned unchanged.
+   */
+  async attach<T extends ArFSDrive | ArFSEntity, TMetadata>(
+    entities: T[],
+    parse: (value: unknown) => TMetadata | null,
+  ): Promise<T[]> {
+    const ids = entities.filter(isPublicJson).map((entity) => entity.id)
+    if (ids.length === 0) return entities
+
+    const json = await this.loadJson(ids)
+
+    return entities.map((entity) => {
+      if (!isPublicJson(entity) || !json.has(entity.id)) return entity
+
+      const metadata = parse(json.get(entity.id))
+      if (!metadata) {
+        this.logger.debug(`Invalid metadata for ${entity.id}`)
+        return entity
+      }
+
+      return { ...entity, metadata }
+    })
+  }
+
+  private async loadBatch(ids: string[]): Promise<Map<string, unknown>> {
+    const results = new Map<string, unknown>()
+    const cached = await this.cache.getMany(ids)
+    const missing = ids.filter((id, index) => {
+      if (cached[index] === undefined) return true
+      results.set(id, cached[index])
+      return false
+    })
+
+    this.logger.debug(
+      `Metadata batch: ${ids.length - missing.length} cached, ${missing.length} to fetch`,
+    )
+
+    if (missing.length === 0) return results
+
+    const limit = pLimit(this.concurrency)
+    const fetched = await Promise.all(
+      missing.map((id) => limit(() => this.fetchShared(id))),
+    )
+
+    const entries: Array<[string, unknown]> = []
+    missing.forEach((id, index) => {
+      const value = fetched[index]
+      // undefined means the request failed and may succeed later
+      results.set(id, value ?? null)
+      if (value !== undefined) {
+        entries.push([id, value])
+      }
+    })
+
+    await this.cache.setMany(entries)
+    return results
+  }
+
+  // Share a single in-flight request between concurrent loads
+  private fetchShared(id: string): Promise<unknown> {
+    let pending = this.pending.get(id)
+    if (!pending) {
+      pending = this.fetchJson(id).finally(() => this.pending.delete(id))
+      this.pending.set(id, pending)
+    }
+    return pending
+  }
+
+  /**
+   * Fetch and parse the data of a transaction. Resolves to null for
+   * malformed JSON and undefined when the data could not be retrieved.
+   */
+  private async fetchJson(id: string): Promise<unknown> {
+    const url = `${this.gatewayUrl}/${id}`
+
+    try {
+      const response = await fetch(url, {
+        signal: AbortSignal.timeout(this.timeout),
+      })
+
+      if (!response.ok) {
+        this.logger.warn(`HTTP ${response.status} fetching metadata ${id}`)
+        return undefined
+      }
+
+      const json = parseMetadataJson(await response.text())
+      if (json === undefined) {
+        this.logger.warn(`Malformed metadata JSON in ${id}`)
+        return null
+      }
+
+      return json
+    } catch (error) {
+      this.logger.warn(`Failed to fetch metadata ${id}`, error)
+      return undefined
+    }
+  }
+}
+
+// Only public entities carry plain JSON metadata
+const isPublicJson = (entity: ArFSDrive | ArFSEntity): boolean =>
+  entity.contentType === 'application/json' && !entity.cipher
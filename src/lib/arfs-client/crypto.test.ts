@@ -0,0 +1,97 @@
+import { hkdfSync } from 'node:crypto'
+import { describe, expect, test } from 'vitest'
+
+import {
+  decryptData,
+  deriveDriveKey,
+  deriveFileKey,
+  driveSigningData,
+  fromBase64Url,
+  importDriveKey,
+  uuidToBytes,
+} from './crypto'
+
+const DRIVE_ID = '6f1bd0ce-2a3e-4b3f-9a47-2b2cbcf2c7a1'
+const FILE_ID = 'a53b6f2d-9d6c-4f0e-8c76-3a1d1e1d6b9e'
+const IV = new Uint8Array(12).fill(7)
+const IV_TAG = 'BwcHBwcHBwcHBwcH'
+
+const toBase64Url = (bytes: Uint8Array) =>
+  Buffer.from(bytes).toString('base64url')
+
+const hkdf = (ikm: Uint8Array, info: Uint8Array) =>
+  new Uint8Array(hkdfSync('sha256', ikm, new Uint8Array(), info, 32))
+
+// Encrypt like ArFS clients do: AES-256-GCM with the tag appended
+const encrypt = async (keyBytes: Uint8Array, plaintext: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new Uint8Array(keyBytes),
+    'AES-GCM',
+    false,
+    ['encrypt'],
+  )
+  return crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: IV },
+    key,
+    new TextEncoder().encode(plaintext),
+  )
+}
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+
+describe('ArFS crypto', () => {
+  test('encodes ids and signing data', () => {
+    expect(uuidToBytes(DRIVE_ID)).toHaveLength(16)
+    expect(() => uuidToBytes('not-a-uuid')).toThrow()
+    expect(decode(driveSigningData(DRIVE_ID).slice(0, 5))).toBe('drive')
+    expect(fromBase64Url(IV_TAG)).toEqual(IV)
+  })
+
+  test('derives the drive key from the wallet signature and password', async () => {
+    const signature = new Uint8Array(512).fill(42)
+    const signed: Uint8Array[] = []
+    const driveKeyBytes = hkdf(signature, new TextEncoder().encode('hunter2'))
+    const ciphertext = await encrypt(driveKeyBytes, '{"name":"Secret"}')
+
+    const key = await deriveDriveKey(DRIVE_ID, 'hunter2', (data) => {
+      signed.push(data)
+      return Promise.resolve(signature.slice())
+    })
+
+    expect(signed[0]).toEqual(driveSigningData(DRIVE_ID))
+    expect(key.aesKey.extractable).toBe(false)
+    expect(
+      decode(await decryptData(key.aesKey, 'AES256-GCM', IV_TAG, ciphertext)),
+    ).toBe('{"name":"Secret"}')
+  })
+
+  test('derives file keys from the drive key and file id', async () => {
+    const driveKeyBytes = new Uint8Array(32).fill(9)
+    const fileKeyBytes = hkdf(driveKeyBytes, uuidToBytes(FILE_ID))
+    const ciphertext = await encrypt(fileKeyBytes, 'file contents')
+
+    const driveKey = await importDriveKey(DRIVE_ID, toBase64Url(driveKeyBytes))
+    const fileKey = await deriveFileKey(driveKey, FILE_ID)
+
+    expect(
+      decode(await decryptData(fileKey, 'AES256-GCM', IV_TAG, ciphertext)),
+    ).toBe('file contents')
+  })
+
+  test('rejects wrong keys and unsupported ciphers', async () => {
+    const ciphertext = await encrypt(new Uint8Array(32).fill(1), 'secret')
+    const wrongKey = await importDriveKey(
+      DRIVE_ID,
+      toBase64Url(new Uint8Array(32).fill(2)),
+    )
+
+    await expect(
+      decryptData(wrongKey.aesKey, 'AES256-GCM', IV_TAG, ciphertext),
+    ).rejects.toThrow()
+    await expect(
+      decryptData(wrongKey.aesKey, 'AES256-CTR', IV_TAG, ciphertext),
+    ).rejects.toThrow('Unsupported ArFS cipher')
+    await expect(importDriveKey(DRIVE_ID, 'c2hvcnQ')).rejects.toThrow()
+  })
+})
@@ -0,0 +1,161 @@
+// ArFS private drive cryptography on top of WebCrypto
+//
+// Drive key  = HKDF-SHA256(walletSignature('drive' + driveId bytes), info = password)
+// File key   = HKDF-SHA256(driveKey, info = fileId bytes)
+// Entity metadata and file data are AES-256-GCM with the tag appended.
+//
+// Key material only ever lives in non-extractable CryptoKeys.
+import type { ArFSDriveKey } from './types'
+
+export const SUPPORTED_CIPHER = 'AES256-GCM'
+
+const KEY_LENGTH = 256
+const encoder = new TextEncoder()
+
+/**
+ * Signs data with the connected wallet (RSA-PSS, SHA-256, salt length 0)
+ */
+export type ArFSSigner = (data: Uint8Array) => Promise<Uint8Array>
+
+/**
+ * Decode base64url (or plain base64) into bytes
+ */
+export const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64.padEnd(
+    base64.length + ((4 - (base64.length % 4)) % 4),
+    '=',
+  )
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0))
+}
+
+/**
+ * Parse a UUID into its 16 raw bytes
+ */
+export const uuidToBytes = (uuid: string): Uint8Array<ArrayBuffer> => {
+  const hex = uuid.replace(/-/g, '')
+  if (!/^[0-9a-f]{32}$/i.test(hex)) {
+    throw new Error(`Invalid ArFS entity id "${uuid}"`)
+  }
+  return Uint8Array.from(hex.match(/../g)!, (byte) => parseInt(byte, 16))
+}
+
+/**
+ * Data the wallet signs to derive a drive key: 'drive' followed by the
+ * Drive-Id bytes
+ */
+export const driveSigningData = (driveId: string): Uint8Array<ArrayBuffer> => {
+  const prefix = encoder.encode('drive')
+  const id = uuidToBytes(driveId)
+  const data = new Uint8Array(prefix.length + id.length)
+  data.set(prefix)
+  data.set(id, prefix.length)
+  return data
+}
+
+// Turn raw drive key bytes into the two non-extractable keys we need
+const importDriveKeyBytes = async (
+  driveId: string,
+  bytes: BufferSource,
+): Promise<ArFSDriveKey> => {
+  const [aesKey, hkdfKey] = await Promise.all([
+    crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['decrypt']),
+    crypto.subtle.importKey('raw', bytes, 'HKDF', false, ['deriveKey']),
+  ])
+  return { driveId, aesKey, hkdfKey }
+}
+
+/**
+ * Derive a drive key from the wallet signature and the drive password
+ */
+export const deriveDriveKey = async (
+  driveId: string,
+  password: string,
+  sign: ArFSSigner,
+): Promise<ArFSDriveKey> => {
+  // Copy so the signature is backed by a plain ArrayBuffer
+  const signature = new Uint8Array(await sign(driveSigningData(driveId)))
+  const ikm = await crypto.subtle.importKey('raw', signature, 'HKDF', false, [
+    'deriveBits',
+  ])
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(),
+      info: encoder.encode(password),
+    },
+    ikm,
+    KEY_LENGTH,
+  )
+  signature.fill(0)
+
+  try {
+    return await importDriveKeyBytes(driveId, bits)
+  } finally {
+    new Uint8Array(bits).fill(0)
+  }
+}
+
+/**
+ * Import an exported (base64url) drive key
+ */
+export const importDriveKey = async (
+  driveId: string,
+  key: string,
+): Promise<ArFSDriveKey> => {
+  const bytes = fromBase64Url(key.trim())
+  if (bytes.length !== KEY_LENGTH / 8) {
+    throw new Error('Drive keys are 32 bytes, base64url encoded')
+  }
+
+  try {
+    return await importDriveKeyBytes(driveId, bytes)
+  } finally {
+    bytes.fill(0)
+  }
+}
+
+/**
+ * Derive the AES key of a file from its drive key
+ */
+export const deriveFileKey = (
+  driveKey: ArFSDriveKey,
+  fileId: string,
+): Promise<CryptoKey> =>
+  crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(),
+      info: uuidToBytes(fileId),
+    },
+    driveKey.hkdfKey,
+    { name: 'AES-GCM', length: KEY_LENGTH },
+    false,
+    ['decrypt'],
+  )
+
+/**
+ * Decrypt AES-256-GCM data described by Cipher / Cipher-IV tags
+ */
+export const decryptData = async (
+  key: CryptoKey,
+  cipher: string | undefined,
+  cipherIV: string | undefined,
+  data: BufferSource,
+): Promise<Uint8Array<ArrayBuffer>> => {
+  if (cipher !== SUPPORTED_CIPHER) {
+    throw new Error(`Unsupported ArFS cipher "${cipher ?? 'none'}"`)
+  }
+  if (!cipherIV) {
+    throw new Error('Encrypted ArFS data is missing its Cipher-IV')
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64Url(cipherIV) },
+    key,
+    data,
+  )
+  return new Uint8Array(plaintext)
+}
@@ -1,12 +1,79 @@
 // ArFS Client - Domain-specific client for ArFS entities
 
 export { ArFSClient } from './ArFSClient'
+export { ArFSDecryptor, ArFSKeyring, arfsKeyring } from './ArFSDecryptor'
+export {
+  ARWEAVE_MANIFEST_CONTENT_TYPE,
+  ArFSDownloader,
+  collectFolderFiles,
+  createIDBDownloadCache,
+  exportFileName,
+  isManifestContentType,
+  parseManifest,
+  sanitizeFileName,
+} from './ArFSDownloader'
+export {
+  ArFSMetadataLoader,
+  createIDBMetadataCache,
+} from './ArFSMetadataLoader'
+export {
+  type ArFSSigner,
+  SUPPORTED_CIPHER,
+  decryptData,
+  deriveDriveKey,
+  deriveFileKey,
+  driveSigningData,
+  importDriveKey,
+} from './crypto'
+export {
+  parseDriveMetadata,
+  parseFileMetadata,
+  parseFolderMetadata,
+  parseMetadataJson,
+} from './metadata'
+export {
+  buildRevisionTimeline,
+  classifyChanges,
+  diffRevisions,
+} from './revisions'
+export {
+  assembleDriveTree,
+  entityId,
+  entityName,
+  findFolderNode,
+  folderPath,
+  isArFSFolder,
+} from './tree'
+export { ZipWriter, crc32 } from './zip'
 export type {
+  ArFSChangeKind,
+  ArFSDecryptorOptions,
+  ArFSDownloadCache,
+  ArFSDownloadedFile,
+  ArFSDownloaderOptions,
   ArFSDrive,
+  ArFSDriveKey,
   ArFSDriveMetadata,
   ArFSDriveTags,
+  ArFSDriveTree,
+  ArFSEntity,
+  ArFSEntityQueryOptions,
+  ArFSEntityType,
+  ArFSExportFailure,
+  ArFSExportOptions,
+  ArFSExportProgress,
+  ArFSExportResult,
+  ArFSFieldChange,
+  ArFSFile,
+  ArFSFolder,
+  ArFSFolderMetadata,
   ArFSFolderTags,
   ArFSFileMetadata,
   ArFSFileTags,
+  ArFSMetadataCache,
+  ArFSMetadataLoaderOptions,
+  ArFSPage,
   ArFSQueryOptions,
+  ArFSRevision,
+  ArFSTreeNode,
 } from './types'
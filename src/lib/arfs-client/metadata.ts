@@ -0,0 +1,84 @@
+// Validation of ArFS metadata JSON stored in entity transaction data
+import type {
+  ArFSDriveMetadata,
+  ArFSFileMetadata,
+  ArFSFolderMetadata,
+} from './types'
+
+type JsonObject = Record<string, unknown>
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value : undefined
+
+// Some clients wrote numbers as strings, accept both
+const finiteNumber = (value: unknown): number | undefined => {
+  const number =
+    typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number)
+    ? number
+    : undefined
+}
+
+/**
+ * Parse raw transaction data as JSON, returning undefined when malformed
+ */
+export const parseMetadataJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Validate drive metadata, `name` and `rootFolderId` are required
+ */
+export const parseDriveMetadata = (
+  value: unknown,
+): ArFSDriveMetadata | null => {
+  if (!isObject(value)) return null
+
+  const name = nonEmptyString(value.name)
+  const rootFolderId = nonEmptyString(value.rootFolderId)
+  if (!name || !rootFolderId) return null
+
+  return { name, rootFolderId, isHidden: value.isHidden === true }
+}
+
+/**
+ * Validate folder metadata, only `name` is required
+ */
+export const parseFolderMetadata = (
+  value: unknown,
+): ArFSFolderMetadata | null => {
+  if (!isObject(value)) return null
+
+  const name = nonEmptyString(value.name)
+  if (!name) return null
+
+  return { name, isHidden: value.isHidden === true }
+}
+
+/**
+ * Validate file metadata, `name`, `size` and `dataTxId` are required
+ */
+export const parseFileMetadata = (value: unknown): ArFSFileMetadata | null => {
+  if (!isObject(value)) return null
+
+  const name = nonEmptyString(value.name)
+  const size = finiteNumber(value.size)
+  const dataTxId = nonEmptyString(value.dataTxId)
+  if (!name || size === undefined || size < 0 || !dataTxId) return null
+
+  return {
+    name,
+    size,
+    lastModifiedDate: finiteNumber(value.lastModifiedDate) ?? 0,
+    dataTxId,
+    dataContentType:
+      nonEmptyString(value.dataContentType) ?? 'application/octet-stream',
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'vitest'
+
+import {
+  buildRevisionTimeline,
+  classifyChanges,
+  diffRevisions,
+} from './revisions'
+import type { ArFSFolder } from './types'
+
+const revision = (
+  height: number,
+  overrides: Partial<ArFSFolder> = {},
+): ArFSFolder => ({
+  id: `tx-${height}`,
+  owner: 'owner',
+  height: BigInt(height),
+  indexed_at: BigInt(height),
+  data_size: 10n,
+  driveId: 'drive',
+  folderId: 'folder',
+  parentFolderId: 'root',
+  arfsVersion: '0.15',
+  unixTime: 1700000000 + height,
+  contentType: 'application/json',
+  metadata: { name: 'Docs', isHidden: false },
+  tags: {
+    'Entity-Type': 'folder',
+    'Parent-Folder-Id': 'root',
+    'Unix-Time': String(1700000000 + height),
+  },
+  ...overrides,
+})
+
+describe('diffRevisions', () => {
+  test('reports renamed metadata and moved parents', () => {
+    const changes = diffRevisions(
+      revision(1),
+      revision(2, {
+        metadata: { name: 'Documents', isHidden: false },
+        tags: { 'Entity-Type': 'folder', 'Parent-Folder-Id': 'archive' },
+      }),
+    )
+
+    expect(changes).toEqual([
+      {
+        source: 'tag',
+        field: 'Parent-Folder-Id',
+        before: 'root',
+        after: 'archive',
+      },
+      { source: 'metadata', field: 'name', before: 'Docs', after: 'Documents' },
+    ])
+    expect(classifyChanges(changes)).toEqual(['moved', 'renamed'])
+  })
+
+  test('ignores Unix-Time and reports foreign owners', () => {
+    const changes = diffRevisions(revision(1), revision(2, { owner: 'other' }))
+
+    expect(changes).toEqual([
+      {
+        source: 'transaction',
+        field: 'owner',
+        before: 'owner',
+        after: 'other',
+      },
+    ])
+    expect(classifyChanges(changes)).toEqual(['owner'])
+  })
+})
+
+describe('buildRevisionTimeline', () => {
+  test('orders newest first and marks the first revision as created', () => {
+    const timeline = buildRevisionTimeline([
+      revision(1),
+      revision(3, { metadata: { name: 'Docs', isHidden: true } }),
+      revision(2),
+    ])
+
+    expect(timeline.map((entry) => entry.entity.id)).toEqual([
+      'tx-3',
+      'tx-2',
+      'tx-1',
+    ])
+    expect(timeline.map((entry) => entry.kinds)).toEqual([
+      ['hidden'],
+      [],
+      ['created'],
+    ])
+  })
+})
@@ -0,0 +1,123 @@
+// Revision timelines and field-by-field diffs of ArFS entities
+import type {
+  ArFSChangeKind,
+  ArFSDrive,
+  ArFSEntity,
+  ArFSFieldChange,
+  ArFSRevision,
+} from './types'
+
+// Tags that differ on every revision and carry no audit value
+const IGNORED_TAGS = new Set(['Unix-Time', 'Cipher-IV'])
+
+// Fields with a dedicated change kind, keyed by `source:field`
+const CHANGE_KINDS: Record<string, ArFSChangeKind> = {
+  'metadata:name': 'renamed',
+  'tag:Parent-Folder-Id': 'moved',
+  'tag:Drive-Privacy': 'privacy',
+  'transaction:owner': 'owner',
+  'metadata:isHidden': 'hidden',
+  'metadata:dataTxId': 'content',
+}
+
+type Revisable = ArFSDrive | ArFSEntity
+
+const formatValue = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+// Flatten metadata into `field -> value` with nested objects as JSON
+const metadataFields = (entity: Revisable): Record<string, string> => {
+  const fields: Record<string, string> = {}
+  for (const [key, value] of Object.entries(entity.metadata ?? {})) {
+    const formatted = formatValue(value)
+    if (formatted !== undefined) fields[key] = formatted
+  }
+  return fields
+}
+
+const diffRecords = (
+  source: ArFSFieldChange['source'],
+  before: Record<string, string>,
+  after: Record<string, string>,
+  ignored: Set<string> = new Set(),
+): ArFSFieldChange[] =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((field) => !ignored.has(field) && before[field] !== after[field])
+    .sort()
+    .map((field) => ({
+      source,
+      field,
+      before: before[field],
+      after: after[field],
+    }))
+
+/**
+ * Field-by-field changes between two revisions of the same entity
+ */
+export const diffRevisions = (
+  previous: Revisable,
+  current: Revisable,
+): ArFSFieldChange[] => {
+  const changes: ArFSFieldChange[] = []
+
+  if (previous.owner !== current.owner) {
+    changes.push({
+      source: 'transaction',
+      field: 'owner',
+      before: previous.owner,
+      after: current.owner,
+    })
+  }
+
+  changes.push(
+    ...diffRecords('tag', previous.tags, current.tags, IGNORED_TAGS),
+    ...diffRecords(
+      'metadata',
+      metadataFields(previous),
+      metadataFields(current),
+    ),
+  )
+
+  return changes
+}
+
+/**
+ * Name the kinds of change a diff represents
+ */
+export const classifyChanges = (
+  changes: ArFSFieldChange[],
+): ArFSChangeKind[] => {
+  const kinds = new Set<ArFSChangeKind>()
+
+  for (const { source, field } of changes) {
+    kinds.add(CHANGE_KINDS[`${source}:${field}`] ?? 'updated')
+  }
+
+  return Array.from(kinds)
+}
+
+/**
+ * Order revisions newest first, each compared against the revision before it.
+ * The oldest revision is reported as `created`.
+ */
+export const buildRevisionTimeline = <T extends Revisable>(
+  revisions: T[],
+): Array<ArFSRevision<T>> => {
+  const ordered = [...revisions].sort((a, b) =>
+    a.height !== b.height
+      ? Number(a.height - b.height)
+      : a.unixTime - b.unixTime,
+  )
+
+  return ordered
+    .map((entity, index) => {
+      if (index === 0) {
+        return { entity, changes: [], kinds: ['created'] as ArFSChangeKind[] }
+      }
+      const changes = diffRevisions(ordered[index - 1], entity)
+      return { entity, changes, kinds: classifyChanges(changes) }
+    })
+    .reverse()
+}
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'vitest'
+
+import { assembleDriveTree, entityId, findFolderNode, folderPath } from './tree'
+import type { ArFSFile, ArFSFolder, ArFSTreeNode } from './types'
+
+const transaction = (id: string, height: number) => ({
+  id,
+  owner: 'owner',
+  height: BigInt(height),
+  indexed_at: BigInt(height),
+  data_size: 0n,
+  driveId: 'drive',
+  arfsVersion: '0.15',
+  unixTime: height,
+  contentType: 'application/json' as const,
+  tags: {},
+})
+
+const folder = (
+  folderId: string,
+  parentFolderId?: string,
+  height = 1,
+): ArFSFolder => ({
+  ...transaction(`tx-${folderId}-${height}`, height),
+  folderId,
+  parentFolderId,
+  metadata: { name: folderId },
+})
+
+const file = (
+  fileId: string,
+  parentFolderId: string,
+  height = 1,
+): ArFSFile => ({
+  ...transaction(`tx-${fileId}-${height}`, height),
+  fileId,
+  parentFolderId,
+})
+
+const ids = (nodes: ArFSTreeNode[]) =>
+  nodes.map((node) => entityId(node.entity))
+
+describe('assembleDriveTree', () => {
+  test('nests folders and files under the root folder', () => {
+    const tree = assembleDriveTree(
+      'drive',
+      null,
+      [folder('root'), folder('docs', 'root'), folder('img', 'root')],
+      [file('readme', 'root'), file('spec', 'docs')],
+    )
+
+    expect(tree.root && entityId(tree.root.entity)).toBe('root')
+    expect(ids(tree.root!.children)).toEqual(['docs', 'img', 'readme'])
+    expect(ids(findFolderNode(tree, 'docs')!.children)).toEqual(['spec'])
+    expect(tree.orphans).toEqual([])
+    expect(tree.folderCount).toBe(3)
+    expect(tree.fileCount).toBe(2)
+  })
+
+  test('reports entities with a missing parent as orphans', () => {
+    const tree = assembleDriveTree(
+      'drive',
+      null,
+      [folder('root'), folder('lost', 'gone'), folder('inside', 'lost')],
+      [file('stray', 'missing'), file('kept', 'inside')],
+    )
+
+    expect(ids(tree.orphans)).toEqual(['lost', 'stray'])
+    expect(ids(findFolderNode(tree, 'inside')!.children)).toEqual(['kept'])
+    expect(folderPath(tree, 'inside').map((f) => f.folderId)).toEqual([
+      'lost',
+      'inside',
+    ])
+  })
+
+  test('prefers the root folder named by the drive metadata', () => {
+    const tree = assembleDriveTree(
+      'drive',
+      {
+        ...transaction('drive-tx', 1),
+        privacy: 'public',
+        metadata: { name: 'Drive', rootFolderId: 'second', isHidden: false },
+      },
+      [folder('first', undefined, 1), folder('second', undefined, 2)],
+      [],
+    )
+
+    expect(tree.root && entityId(tree.root.entity)).toBe('second')
+    expect(ids(tree.orphans)).toEqual(['first'])
+  })
+
+  test('does not loop on parent cycles', () => {
+    const tree = assembleDriveTree(
+      'drive',
+      null,
+      [folder('root'), folder('a', 'b'), folder('b', 'a')],
+      [],
+    )
+
+    expect(ids(tree.orphans)).toEqual(['a'])
+    expect(ids(tree.orphans[0].children)).toEqual(['b'])
+    expect(folderPath(tree, 'b').map((f) => f.folderId)).toEqual(['a', 'b'])
+  })
+})
@@ -0,0 +1,166 @@
+// Parent/child assembly of ArFS entities into a drive tree
+import type {
+  ArFSDrive,
+  ArFSDriveTree,
+  ArFSEntity,
+  ArFSFile,
+  ArFSFolder,
+  ArFSTreeNode,
+} from './types'
+
+interface Revision {
+  height: bigint
+  unixTime: number
+}
+
+/**
+ * Whether `a` is a newer revision than `b`. Block height decides,
+ * unix time is the tiebreaker within a block.
+ */
+const isNewer = (a: Revision, b: Revision): boolean =>
+  a.height !== b.height ? a.height > b.height : a.unixTime > b.unixTime
+
+export const isArFSFolder = (entity: ArFSEntity): entity is ArFSFolder =>
+  'folderId' in entity
+
+/**
+ * Folder-Id or File-Id of an entity
+ */
+export const entityId = (entity: ArFSEntity): string =>
+  isArFSFolder(entity) ? entity.folderId : entity.fileId
+
+/**
+ * Display name from metadata, falling back to the entity id
+ */
+export const entityName = (entity: ArFSEntity): string =>
+  entity.metadata?.name || entityId(entity)
+
+// Folders first, then by name
+const compareNodes = (a: ArFSTreeNode, b: ArFSTreeNode): number => {
+  if (a.type !== b.type) return a.type === 'folder' ? -1 : 1
+  return entityName(a.entity).localeCompare(entityName(b.entity))
+}
+
+/**
+ * Assemble the folder hierarchy of a drive from the latest revisions of its
+ * folders and files. Entities pointing to a Parent-Folder-Id that is not part
+ * of the drive are returned as orphans together with their own subtrees.
+ */
+export const assembleDriveTree = (
+  driveId: string,
+  drive: ArFSDrive | null,
+  folders: ArFSFolder[],
+  files: ArFSFile[],
+): ArFSDriveTree => {
+  const folderIds = new Set(folders.map((folder) => folder.folderId))
+  const children = new Map<string, ArFSEntity[]>()
+
+  for (const entity of [...folders, ...files]) {
+    if (!entity.parentFolderId) continue
+    const siblings = children.get(entity.parentFolderId) ?? []
+    siblings.push(entity)
+    children.set(entity.parentFolderId, siblings)
+  }
+
+  // Prefer the root folder named by the drive metadata, otherwise the
+  // oldest folder without a parent
+  const parentless = folders
+    .filter((folder) => !folder.parentFolderId)
+    .sort((a, b) => (isNewer(a, b) ? 1 : isNewer(b, a) ? -1 : 0))
+  const rootFolder =
+    folders.find(
+      (folder) => folder.folderId === drive?.metadata?.rootFolderId,
+    ) ?? parentless[0]
+
+  // Guards against Parent-Folder-Id cycles
+  const visited = new Set<string>()
+
+  const buildNode = (entity: ArFSEntity): ArFSTreeNode => {
+    if (!isArFSFolder(entity)) {
+      return { entity, type: 'file', children: [] }
+    }
+
+    visited.add(entity.folderId)
+    const nodes = (children.get(entity.folderId) ?? [])
+      .filter((child) => !isArFSFolder(child) || !visited.has(child.folderId))
+      .map(buildNode)
+      .sort(compareNodes)
+
+    return { entity, type: 'folder', children: nodes }
+  }
+
+  const root = rootFolder ? buildNode(rootFolder) : null
+
+  const orphans: ArFSTreeNode[] = []
+  for (const entity of [...folders, ...files]) {
+    if (entity === rootFolder) continue
+    if (!entity.parentFolderId || !folderIds.has(entity.parentFolderId)) {
+      orphans.push(buildNode(entity))
+    }
+  }
+
+  // Folders still not reached from the root or an orphan sit in a cycle
+  for (const folder of folders) {
+    if (!visited.has(folder.folderId)) {
+      orphans.push(buildNode(folder))
+    }
+  }
+
+  return {
+    driveId,
+    drive,
+    root,
+    orphans: orphans.sort(compareNodes),
+    folderCount: folders.length,
+    fileCount: files.length,
+  }
+}
+
+/**
+ * Find the node of a folder inside a drive tree, including orphan subtrees
+ */
+export const findFolderNode = (
+  tree: ArFSDriveTree,
+  folderId: string,
+): ArFSTreeNode | null => {
+  const stack = [...(tree.root ? [tree.root] : []), ...tree.orphans]
+
+  while (stack.length > 0) {
+    const node = stack.pop()!
+    if (node.type === 'folder' && entityId(node.entity) === folderId) {
+      return node
+    }
+    stack.push(...node.children)
+  }
+
+  return null
+}
+
+/**
+ * Folders leading from the tree root (or orphan root) down to a folder
+ */
+export const folderPath = (
+  tree: ArFSDriveTree,
+  folderId: string,
+): ArFSFolder[] => {
+  const folders = new Map<string, ArFSFolder>()
+  const collect = (node: ArFSTreeNode) => {
+    if (isArFSFolder(node.entity)) {
+      folders.set(node.entity.folderId, node.entity)
+    }
+    node.children.forEach(collect)
+  }
+  if (tree.root) collect(tree.root)
+  tree.orphans.forEach(collect)
+
+  const path: ArFSFolder[] = []
+  let current = folders.get(folderId)
+  while (current && !path.includes(current)) {
+    path.unshift(current)
+    current = current.parentFolderId
+      ? folders.get(current.parentFolderId)
+      : undefined
+  }
+
+  return path
+}
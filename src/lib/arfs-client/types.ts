@@ -22,6 +22,7 @@ export interface ArFSDriveTags {
 export interface ArFSDrive {
   // Transaction info
   id: string
+  // Wallet address of the signer
   owner: string
   height: bigint
   indexed_at: bigint
@@ -59,6 +60,39 @@ export interface ArFSFolderTags {
   'Unix-Time': string
 }
 
+export interface ArFSFolderMetadata {
+  name: string
+  isHidden?: boolean
+}
+
+export interface ArFSFolder {
+  // Transaction info
+  id: string
+  // Wallet address of the signer
+  owner: string
+  height: bigint
+  indexed_at: bigint
+  data_size: bigint
+
+  // ArFS-specific data
+  driveId: string
+  folderId: string
+  parentFolderId?: string
+  arfsVersion: string
+  unixTime: number
+  contentType: 'application/json' | 'application/octet-stream'
+
+  // Optional encryption info
+  cipher?: string
+  cipherIV?: string
+
+  // Metadata (from transaction data)
+  metadata?: ArFSFolderMetadata
+
+  // Raw tags for debugging
+  tags: Record<string, string>
+}
+
 export interface ArFSFileMetadata {
   name: string
   size: number
@@ -79,6 +113,55 @@ export interface ArFSFileTags {
   'Unix-Time': string
 }
 
+export interface ArFSFile {
+  // Transaction info
+  id: string
+  // Wallet address of the signer
+  owner: string
+  height: bigint
+  indexed_at: bigint
+  data_size: bigint
+
+  // ArFS-specific data
+  driveId: string
+  fileId: string
+  parentFolderId: string
+  arfsVersion: string
+  unixTime: number
+  contentType: 'application/json' | 'application/octet-stream'
+
+  // Optional encryption info
+  cipher?: string
+  cipherIV?: string
+
+  // Metadata (from transaction data)
+  metadata?: ArFSFileMetadata
+
+  // Raw tags for debugging
+  tags: Record<string, string>
+}
+
+export type ArFSEntity = ArFSFolder | ArFSFile
+
+export interface ArFSTreeNode {
+  entity: ArFSEntity
+  type: 'folder' | 'file'
+  // Only folders have children, files always have an empty list
+  children: ArFSTreeNode[]
+}
+
+export interface ArFSDriveTree {
+  driveId: string
+  // Latest revision of the drive entity, null when it was never found
+  drive: ArFSDrive | null
+  // Latest revision of the root folder, null when it was never found
+  root: ArFSTreeNode | null
+  // Entities whose Parent-Folder-Id does not resolve to a folder of the drive
+  orphans: ArFSTreeNode[]
+  folderCount: number
+  fileCount: number
+}
+
 export interface ArFSQueryOptions {
   limit?: number
   offset?: number
@@ -88,4 +171,132 @@ export interface ArFSQueryOptions {
   arfsVersion?: string
   orderBy?: 'height' | 'unix_time'
   orderDirection?: 'ASC' | 'DESC'
+  // Cursor of a previous page, takes precedence over offset
+  cursor?: string
+  // Unix-Time bounds (seconds) of the latest revision
+  minUnixTime?: number
+  maxUnixTime?: number
+}
+
+export interface ArFSPage<T> {
+  items: T[]
+  // Matching entities across all pages
+  total: number
+  // Continues after this page, unset on the last page
+  nextCursor?: string
+}
+
+export interface ArFSEntityQueryOptions
+  extends Pick<ArFSQueryOptions, 'limit' | 'offset' | 'driveId' | 'owner'> {
+  parentFolderId?: string
+}
+
+export interface ArFSMetadataCache {
+  // Cached JSON per transaction id, undefined on a miss and null for data
+  // that is known to be malformed
+  getMany: (ids: string[]) => Promise<unknown[]>
+  setMany: (entries: Array<[string, unknown]>) => Promise<void>
+}
+
+export interface ArFSMetadataLoaderOptions {
+  gatewayUrl: string
+  concurrency?: number
+  batchSize?: number
+  timeout?: number
+  cache?: ArFSMetadataCache
+}
+
+export interface ArFSDriveKey {
+  driveId: string
+  // Decrypts drive and folder metadata
+  aesKey: CryptoKey
+  // Derives per-file keys
+  hkdfKey: CryptoKey
+}
+
+export interface ArFSDecryptorOptions {
+  gatewayUrl: string
+  concurrency?: number
+  timeout?: number
+}
+
+export type ArFSChangeKind =
+  | 'created'
+  | 'renamed'
+  | 'moved'
+  | 'privacy'
+  | 'owner'
+  | 'hidden'
+  | 'content'
+  | 'updated'
+
+export interface ArFSFieldChange {
+  // Where the field lives: transaction header, tag or metadata JSON
+  source: 'transaction' | 'tag' | 'metadata'
+  field: string
+  before?: string
+  after?: string
+}
+
+export interface ArFSRevision<T> {
+  entity: T
+  // Changes against the previous revision, empty for the first one
+  changes: ArFSFieldChange[]
+  kinds: ArFSChangeKind[]
+}
+
+export type ArFSEntityType = 'drive' | 'folder' | 'file'
+
+export interface ArFSDownloadCache {
+  // Data already fetched for an export, keyed by transaction id
+  get: (id: string) => Promise<Uint8Array<ArrayBuffer> | undefined>
+  set: (id: string, data: Uint8Array<ArrayBuffer>) => Promise<void>
+  delete: (ids: string[]) => Promise<void>
+}
+
+export interface ArFSDownloaderOptions {
+  gatewayUrl: string
+  concurrency?: number
+  timeout?: number
+  cache?: ArFSDownloadCache
+}
+
+export interface ArFSDownloadedFile {
+  file: ArFSFile
+  name: string
+  contentType: string
+  data: Uint8Array<ArrayBuffer>
+}
+
+export interface ArFSExportProgress {
+  // Files to fetch, grows when manifests are expanded
+  total: number
+  // Files fetched, skipped or failed so far
+  completed: number
+  // Files resumed from an earlier, interrupted export
+  skipped: number
+  failed: number
+  bytes: number
+  // Path of the file fetched last
+  current?: string
+}
+
+export interface ArFSExportFailure {
+  path: string
+  id: string
+  error: string
+}
+
+export interface ArFSExportOptions {
+  // Also fetch the files a manifest points to, next to the manifest itself
+  expandManifests?: boolean
+  signal?: AbortSignal
+  onProgress?: (progress: ArFSExportProgress) => void
+}
+
+export interface ArFSExportResult {
+  name: string
+  fileCount: number
+  skipped: number
+  failures: ArFSExportFailure[]
 }
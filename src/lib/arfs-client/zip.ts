@@ -0,0 +1,186 @@
+// Minimal ZIP writer for exporting folders. Entries are stored without
+// compression (most archived files are already compressed) and written to
+// a stream as they are added, only the central directory is held until the
+// archive is closed.
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const VERSION = 20
+// General purpose flag bit 11, names are UTF-8
+const UTF8_FLAG = 0x0800
+const DIRECTORY_ATTRIBUTE = 0x10
+// Limits of the classic (non ZIP64) format
+const MAX_ENTRIES = 0xffff
+const MAX_SIZE = 0xffffffff
+
+const encoder = new TextEncoder()
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+/**
+ * CRC-32 (IEEE) checksum of data
+ */
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time, local time with two second precision
+const dosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+interface ZipEntry {
+  name: Uint8Array<ArrayBuffer>
+  crc: number
+  size: number
+  offset: number
+  time: number
+  date: number
+  directory: boolean
+}
+
+export class ZipWriter {
+  private writer: WritableStreamDefaultWriter<Uint8Array<ArrayBuffer>>
+  private entries: ZipEntry[] = []
+  private paths = new Set<string>()
+  private offset = 0
+
+  constructor(output: WritableStream<Uint8Array<ArrayBuffer>>) {
+    this.writer = output.getWriter()
+  }
+
+  /**
+   * Add a file at a `/` separated path. Resolves once its data is written,
+   * entries added meanwhile are queued behind it.
+   */
+  add(
+    path: string,
+    data: Uint8Array<ArrayBuffer>,
+    modified = new Date(),
+  ): Promise<void> {
+    return this.addEntry(path, data, modified, false)
+  }
+
+  /**
+   * Add an (empty) directory, so folders without files are kept
+   */
+  addDirectory(path: string, modified = new Date()): Promise<void> {
+    const name = path.endsWith('/') ? path : `${path}/`
+    return this.addEntry(name, new Uint8Array(), modified, true)
+  }
+
+  /**
+   * Finish the archive with its central directory and close the output
+   */
+  async close(): Promise<void> {
+    const writes: Array<Promise<void>> = []
+    let centralSize = 0
+
+    for (const entry of this.entries) {
+      const header = new Uint8Array(46 + entry.name.length)
+      const view = new DataView(header.buffer)
+      view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true)
+      view.setUint16(4, VERSION, true)
+      view.setUint16(6, VERSION, true)
+      view.setUint16(8, UTF8_FLAG, true)
+      view.setUint16(10, 0, true) // stored
+      view.setUint16(12, entry.time, true)
+      view.setUint16(14, entry.date, true)
+      view.setUint32(16, entry.crc, true)
+      view.setUint32(20, entry.size, true)
+      view.setUint32(24, entry.size, true)
+      view.setUint16(28, entry.name.length, true)
+      view.setUint32(38, entry.directory ? DIRECTORY_ATTRIBUTE : 0, true)
+      view.setUint32(42, entry.offset, true)
+      header.set(entry.name, 46)
+
+      writes.push(this.writer.write(header))
+      centralSize += header.length
+    }
+
+    const end = new Uint8Array(22)
+    const view = new DataView(end.buffer)
+    view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+    view.setUint16(8, this.entries.length, true)
+    view.setUint16(10, this.entries.length, true)
+    view.setUint32(12, centralSize, true)
+    view.setUint32(16, this.offset, true)
+
+    await Promise.all([...writes, this.writer.write(end)])
+    await this.writer.close()
+  }
+
+  /**
+   * Give up on the archive, a file being saved is discarded
+   */
+  abort(reason?: unknown): Promise<void> {
+    return this.writer.abort(reason)
+  }
+
+  private async addEntry(
+    path: string,
+    data: Uint8Array<ArrayBuffer>,
+    modified: Date,
+    directory: boolean,
+  ): Promise<void> {
+    if (this.paths.has(path)) {
+      throw new Error(`Duplicate zip entry "${path}"`)
+    }
+    if (this.entries.length >= MAX_ENTRIES) {
+      throw new Error(`Zip archives are limited to ${MAX_ENTRIES} entries`)
+    }
+    if (this.offset + data.length > MAX_SIZE) {
+      throw new Error('Zip archives are limited to 4 GiB')
+    }
+
+    const name = encoder.encode(path)
+    const { time, date } = dosDateTime(modified)
+    const entry: ZipEntry = {
+      name,
+      crc: crc32(data),
+      size: data.length,
+      offset: this.offset,
+      time,
+      date,
+      directory,
+    }
+
+    const header = new Uint8Array(30 + name.length)
+    const view = new DataView(header.buffer)
+    view.setUint32(0, LOCAL_HEADER_SIGNATURE, true)
+    view.setUint16(4, VERSION, true)
+    view.setUint16(6, UTF8_FLAG, true)
+    view.setUint16(8, 0, true) // stored
+    view.setUint16(10, time, true)
+    view.setUint16(12, date, true)
+    view.setUint32(14, entry.crc, true)
+    view.setUint32(18, entry.size, true)
+    view.setUint32(22, entry.size, true)
+    view.setUint16(26, name.length, true)
+    header.set(name, 30)
+
+    // Offsets are claimed before writing, the writer keeps the order
+    this.entries.push(entry)
+    this.paths.add(path)
+    this.offset += header.length + data.length
+    await Promise.all([this.writer.write(header), this.writer.write(data)])
+  }
+}
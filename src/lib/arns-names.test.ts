@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'vitest'
+
+import {
+  type ArNSName,
+  DAY_MS,
+  DEFAULT_NAME_FILTER,
+  arnsNameUrl,
+  daysUntilExpiry,
+  filterArNSNames,
+  toNameList,
+} from './arns-names'
+
+const NOW = 1_750_000_000_000
+
+const lease = (name: string, days: number): ArNSName => ({
+  name,
+  type: 'lease',
+  processId: `${name}-ant`,
+  startTimestamp: NOW - 365 * DAY_MS,
+  endTimestamp: NOW + days * DAY_MS,
+  undernameLimit: 10,
+  purchasePrice: 1_000_000,
+})
+
+const permabuy = (name: string): ArNSName => ({
+  name,
+  type: 'permabuy',
+  processId: `${name}-ant`,
+  startTimestamp: NOW - 365 * DAY_MS,
+  undernameLimit: 10,
+  purchasePrice: 1_000_000,
+})
+
+describe('ArNS names', () => {
+  const names = [lease('soon', 5), lease('later', 200), permabuy('forever')]
+  const matching = (filter: Partial<typeof DEFAULT_NAME_FILTER>) =>
+    filterArNSNames(names, { ...DEFAULT_NAME_FILTER, ...filter }, NOW).map(
+      (record) => record.name,
+    )
+
+  test('toNameList keeps the name of each record', () => {
+    const { name, ...record } = permabuy('forever')
+    expect(toNameList({ forever: record })).toEqual([permabuy('forever')])
+  })
+
+  test('filters on lease type and expiry', () => {
+    expect(matching({ type: 'permabuy' })).toEqual(['forever'])
+    expect(matching({ type: 'lease' })).toEqual(['soon', 'later'])
+    expect(matching({ expiringWithinDays: 30 })).toEqual(['soon'])
+  })
+
+  test('searches names and ANT process ids', () => {
+    expect(matching({ search: ' LATER ' })).toEqual(['later'])
+    expect(matching({ search: 'forever-ant' })).toEqual(['forever'])
+  })
+
+  test('daysUntilExpiry is undefined for permabuys', () => {
+    expect(daysUntilExpiry(lease('soon', 5), NOW)).toBe(5)
+    expect(daysUntilExpiry(lease('gone', -2), NOW)).toBe(-2)
+    expect(daysUntilExpiry(permabuy('forever'), NOW)).toBeUndefined()
+  })
+
+  test('arnsNameUrl serves the name from a gateway subdomain', () => {
+    expect(arnsNameUrl('ardrive', 'https://arweave.net/')).toBe(
+      'https://ardrive.arweave.net',
+    )
+  })
+})
@@ -0,0 +1,78 @@
+// ArNS registrations as the names page lists them: the record map returned
+// by useARNSDomains flattened into rows, with the lease arithmetic the
+// filters need.
+import type { AoArNSNameData } from '@ar.io/sdk'
+
+export type ArNSName = AoArNSNameData & { name: string }
+
+export type ArNSNameType = AoArNSNameData['type']
+
+export interface ArNSNameFilter {
+  // Matched against the name and its ANT process id
+  search: string
+  type: ArNSNameType | 'all'
+  // Only leases ending within this many days
+  expiringWithinDays: number | null
+}
+
+export const DAY_MS = 1000 * 60 * 60 * 24
+
+// Window of the expiring soon view
+export const EXPIRING_SOON_DAYS = 30
+
+export const DEFAULT_NAME_FILTER: ArNSNameFilter = {
+  search: '',
+  type: 'all',
+  expiringWithinDays: null,
+}
+
+export const toNameList = (
+  domains: Record<string, AoArNSNameData>,
+): Array<ArNSName> =>
+  Object.entries(domains).map(([name, record]) => ({ ...record, name }))
+
+// End of a lease, undefined for permabuys
+export const expiresAt = (record: AoArNSNameData): number | undefined =>
+  record.type === 'lease' ? record.endTimestamp : undefined
+
+// Whole days left on a lease, negative once it has ended and the name is in
+// its grace period
+export const daysUntilExpiry = (
+  record: AoArNSNameData,
+  now = Date.now(),
+): number | undefined => {
+  const end = expiresAt(record)
+  return end === undefined ? undefined : Math.floor((end - now) / DAY_MS)
+}
+
+export function filterArNSNames(
+  names: Array<ArNSName>,
+  { search, type, expiringWithinDays }: ArNSNameFilter,
+  now = Date.now(),
+) {
+  const term = search.trim().toLowerCase()
+  return names.filter((record) => {
+    if (type !== 'all' && record.type !== type) return false
+    if (expiringWithinDays !== null) {
+      const end = expiresAt(record)
+      if (end === undefined || end > now + expiringWithinDays * DAY_MS) {
+        return false
+      }
+    }
+    if (term) {
+      return (
+        record.name.includes(term) ||
+        record.processId.toLowerCase().includes(term)
+      )
+    }
+    return true
+  })
+}
+
+/**
+ * URL of a name on a gateway, as a subdomain of its host.
+ */
+export const arnsNameUrl = (name: string, gatewayUrl: string) => {
+  const url = new URL(gatewayUrl)
+  return `${url.protocol}//${name}.${url.host}`
+}
@@ -0,0 +1,119 @@
+import type { AoGatewayWithAddress } from '@ar.io/sdk'
+import { describe, expect, test, vi } from 'vitest'
+
+import {
+  DEFAULT_GATEWAY_FILTER,
+  delegationMode,
+  epochPassRate,
+  fetchAllGateways,
+  filterGateways,
+  loadGateways,
+} from './gateways'
+
+const gateway = (
+  gatewayAddress: string,
+  settings: Partial<AoGatewayWithAddress['settings']> = {},
+  stats: Partial<AoGatewayWithAddress['stats']> = {},
+) =>
+  ({
+    gatewayAddress,
+    operatorStake: 10_000_000_000,
+    totalDelegatedStake: 0,
+    status: 'joined',
+    settings: {
+      label: gatewayAddress,
+      fqdn: `${gatewayAddress}.example`,
+      allowDelegatedStaking: true,
+      delegateRewardShareRatio: 10,
+      minDelegatedStake: 10_000_000,
+      ...settings,
+    },
+    stats: { passedEpochCount: 0, totalEpochCount: 0, ...stats },
+    weights: { compositeWeight: 1 },
+  }) as AoGatewayWithAddress
+
+const page = (items: Array<AoGatewayWithAddress>, nextCursor?: string) => ({
+  items,
+  nextCursor,
+  hasMore: !!nextCursor,
+  limit: 1000,
+  totalItems: 3,
+  sortOrder: 'desc' as const,
+})
+
+describe('gateway helpers', () => {
+  test('delegationMode reads the staking setting', () => {
+    expect(delegationMode(gateway('a'))).toBe('open')
+    expect(
+      delegationMode(gateway('b', { allowDelegatedStaking: 'allowlist' })),
+    ).toBe('allowlist')
+    expect(delegationMode(gateway('c', { allowDelegatedStaking: false }))).toBe(
+      'closed',
+    )
+  })
+
+  test('epochPassRate is null before the first epoch', () => {
+    expect(epochPassRate(gateway('a'))).toBeNull()
+    expect(
+      epochPassRate(
+        gateway('b', {}, { passedEpochCount: 3, totalEpochCount: 4 }),
+      ),
+    ).toBe(0.75)
+  })
+})
+
+describe('filterGateways', () => {
+  const gateways = [
+    gateway('open-low', { delegateRewardShareRatio: 5 }),
+    gateway('open-high', { delegateRewardShareRatio: 40 }),
+    gateway('closed', {
+      allowDelegatedStaking: false,
+      delegateRewardShareRatio: 90,
+    }),
+    gateway('listed', { allowDelegatedStaking: 'allowlist' }),
+  ]
+  const addresses = (filter: Partial<typeof DEFAULT_GATEWAY_FILTER>) =>
+    filterGateways(gateways, { ...DEFAULT_GATEWAY_FILTER, ...filter }).map(
+      (g) => g.gatewayAddress,
+    )
+
+  test('filters on delegation settings', () => {
+    expect(addresses({ delegation: 'open' })).toEqual(['open-low', 'open-high'])
+    expect(addresses({ delegation: 'allowlist' })).toEqual(['listed'])
+    // Closed gateways share nothing, whatever their ratio says
+    expect(addresses({ minRewardShare: 20 })).toEqual(['open-high'])
+  })
+
+  test('searches labels, domains and addresses', () => {
+    expect(addresses({ search: 'HIGH.example' })).toEqual(['open-high'])
+  })
+})
+
+describe('loadGateways', () => {
+  test('pages through the live list', async () => {
+    const getGateways = vi
+      .fn()
+      .mockResolvedValueOnce(page([gateway('a'), gateway('b')], 'b'))
+      .mockResolvedValueOnce(page([gateway('c')]))
+
+    const gateways = await fetchAllGateways({ getGateways })
+
+    expect(gateways.map((g) => g.gatewayAddress)).toEqual(['a', 'b', 'c'])
+    expect(getGateways).toHaveBeenLastCalledWith({ cursor: 'b', limit: 1000 })
+  })
+
+  test('falls back to the snapshot when the CU fails', async () => {
+    const snapshot = [gateway('snap')]
+
+    const list = await loadGateways(
+      { getGateways: vi.fn().mockRejectedValue(new Error('CU timed out')) },
+      () => Promise.resolve({ items: snapshot }),
+    )
+
+    expect(list).toEqual({
+      gateways: snapshot,
+      source: 'snapshot',
+      networkError: 'CU timed out',
+    })
+  })
+})
@@ -0,0 +1,136 @@
+// Gateway registry of the ARIO network. The live list comes from the ARIO
+// process; gateways.json is a snapshot of the same getGateways output the
+// page falls back to when the CU cannot be reached.
+import type { AoARIORead, AoGatewayWithAddress } from '@ar.io/sdk'
+
+import { type Logger, createLogger } from './logger'
+
+export type GatewaySource = 'network' | 'snapshot'
+
+// How a gateway accepts delegated stake
+export type DelegationMode = 'open' | 'allowlist' | 'closed'
+
+export interface GatewayFilter {
+  delegation: DelegationMode | 'all'
+  // Lowest share of rewards, in percent, passed on to delegates
+  minRewardShare: number
+  // Matched against the label, fqdn and gateway address
+  search: string
+}
+
+export interface GatewayList {
+  gateways: Array<AoGatewayWithAddress>
+  source: GatewaySource
+  // Why the live list could not be used, set for snapshots
+  networkError?: string
+}
+
+// Stakes are denominated in mARIO
+export const MARIO_PER_ARIO = 1_000_000
+
+export const DEFAULT_GATEWAY_FILTER: GatewayFilter = {
+  delegation: 'all',
+  minRewardShare: 0,
+  search: '',
+}
+
+export const DELEGATION_LABELS: Record<DelegationMode, string> = {
+  open: 'Open',
+  allowlist: 'Allowlist',
+  closed: 'Closed',
+}
+
+const PAGE_SIZE = 1000
+
+export const formatARIO = (mARIO: number) =>
+  (mARIO / MARIO_PER_ARIO).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  })
+
+export const gatewayLabel = (
+  gateway: Pick<AoGatewayWithAddress, 'settings' | 'gatewayAddress'>,
+) => gateway.settings.label || gateway.settings.fqdn || gateway.gatewayAddress
+
+export const delegationMode = (
+  gateway: Pick<AoGatewayWithAddress, 'settings'>,
+): DelegationMode => {
+  const { allowDelegatedStaking } = gateway.settings
+  if (allowDelegatedStaking === 'allowlist') return 'allowlist'
+  return allowDelegatedStaking ? 'open' : 'closed'
+}
+
+export const totalStake = (
+  gateway: Pick<AoGatewayWithAddress, 'operatorStake' | 'totalDelegatedStake'>,
+) => gateway.operatorStake + gateway.totalDelegatedStake
+
+// Share of the epochs a gateway took part in that it passed, null before
+// its first epoch
+export const epochPassRate = (
+  gateway: Pick<AoGatewayWithAddress, 'stats'>,
+): number | null => {
+  const { passedEpochCount, totalEpochCount } = gateway.stats
+  return totalEpochCount > 0 ? passedEpochCount / totalEpochCount : null
+}
+
+export function filterGateways(
+  gateways: Array<AoGatewayWithAddress>,
+  { delegation, minRewardShare, search }: GatewayFilter,
+) {
+  const term = search.trim().toLowerCase()
+  return gateways.filter((gateway) => {
+    const mode = delegationMode(gateway)
+    if (delegation !== 'all' && mode !== delegation) return false
+    // The reward share only means something to gateways taking delegates
+    if (
+      minRewardShare > 0 &&
+      (mode === 'closed' ||
+        gateway.settings.delegateRewardShareRatio < minRewardShare)
+    ) {
+      return false
+    }
+    if (term) {
+      const { label, fqdn } = gateway.settings
+      return [label, fqdn, gateway.gatewayAddress].some((value) =>
+        value?.toLowerCase().includes(term),
+      )
+    }
+    return true
+  })
+}
+
+/**
+ * Pages through every gateway registered with the ARIO process.
+ */
+export async function fetchAllGateways(
+  ario: Pick<AoARIORead, 'getGateways'>,
+): Promise<Array<AoGatewayWithAddress>> {
+  const gateways: Array<AoGatewayWithAddress> = []
+  let cursor: string | undefined
+  let hasMore = true
+  while (hasMore) {
+    const page = await ario.getGateways({ cursor, limit: PAGE_SIZE })
+    gateways.push(...page.items)
+    cursor = page.nextCursor ?? undefined
+    hasMore = page.hasMore && !!cursor
+  }
+  return gateways
+}
+
+/**
+ * Loads the live gateway list, or the bundled snapshot when the ARIO
+ * process does not answer.
+ */
+export async function loadGateways(
+  ario: Pick<AoARIORead, 'getGateways'>,
+  loadSnapshot: () => Promise<{ items: Array<AoGatewayWithAddress> }>,
+): Promise<GatewayList> {
+  const logger: Logger = createLogger('Gateways')
+  try {
+    return { gateways: await fetchAllGateways(ario), source: 'network' }
+  } catch (error) {
+    const networkError = error instanceof Error ? error.message : String(error)
+    logger.warn('Falling back to the gateway snapshot:', networkError)
+    const snapshot = await loadSnapshot()
+    return { gateways: snapshot.items, source: 'snapshot', networkError }
+  }
+}
@@ -0,0 +1,203 @@
+import { describe, expect, test, vi } from 'vitest'
+
+import type { AoMessage, MessageResult } from './ao-queries'
+import {
+  type LuaSourceSources,
+  diffLines,
+  findHandlerDefinitions,
+  reconstructLuaSource,
+} from './lua-source'
+
+const id = (name: string) => name.padEnd(43, '-')
+
+const message = (
+  name: string,
+  height: number | null,
+  tags: Record<string, string> = {},
+): AoMessage =>
+  ({
+    id: id(name),
+    from: id('owner'),
+    tags,
+    block: height === null ? null : { height, timestamp: 1700000000 },
+  }) as AoMessage
+
+describe('findHandlerDefinitions', () => {
+  test('finds handler calls with their whole source', () => {
+    const code = [
+      'local x = 1',
+      'Handlers.add("Info", Handlers.utils.hasMatchingTag("Action", "Info"),',
+      '  function(msg) msg.reply({ Data = "(" }) end)',
+      "Handlers.remove('Old')",
+    ].join('\n')
+
+    expect(findHandlerDefinitions(code)).toEqual([
+      {
+        name: 'Info',
+        action: 'define',
+        code: [
+          'Handlers.add("Info", Handlers.utils.hasMatchingTag("Action", "Info"),',
+          '  function(msg) msg.reply({ Data = "(" }) end)',
+        ].join('\n'),
+      },
+      { name: 'Old', action: 'remove', code: "Handlers.remove('Old')" },
+    ])
+  })
+
+  test('ignores calls in comments and strings', () => {
+    const code = [
+      '-- Handlers.add("InComment", f, g)',
+      '--[[ Handlers.add("InBlock", f, g) ]]',
+      'local s = [==[ Handlers.add("InString", f, g) ]==]',
+      'Handlers.prepend([[Long]], f, g)',
+      'MyHandlers.add("Other", f, g)',
+      'Handlers.add(name, f, g)',
+    ].join('\n')
+
+    expect(findHandlerDefinitions(code).map(({ name }) => name)).toEqual([
+      'Long',
+    ])
+  })
+})
+
+describe('diffLines', () => {
+  test('keeps common lines and marks the rest', () => {
+    expect(diffLines('a\nb\nc', 'a\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' },
+    ])
+  })
+})
+
+describe('reconstructLuaSource', () => {
+  const code: Record<string, string> = {
+    [id('process')]: 'Handlers.add("Info", f, function() return 1 end)',
+    [id('update')]: 'Handlers.add("Info", f, function() return 2 end)',
+    [id('broken')]: 'Handlers.add("Mint", f, g',
+    [id('mint')]: 'Handlers.add("Mint", f, g)',
+    [id('cleanup')]: 'Handlers.remove("Mint")',
+  }
+
+  const fakeSources = (evals: Array<AoMessage>) =>
+    ({
+      getEvals: vi.fn(() => Promise.resolve({ evals, hasMore: false })),
+      getData: vi.fn((dataId: string) => Promise.resolve(code[dataId])),
+      getResult: vi.fn((_process: string, messageId: string) =>
+        Promise.resolve<MessageResult>(
+          messageId === id('broken')
+            ? { Error: '[string "aos"]:1: syntax error' }
+            : { Output: { data: '' } },
+        ),
+      ),
+    }) satisfies LuaSourceSources
+
+  test('replays the boot program and applied evals in height order', async () => {
+    const process = message('process', 100, { 'On-Boot': 'Data' })
+    const sources = fakeSources([
+      message('cleanup', null),
+      message('mint', 103),
+      message('update', 101),
+      message('broken', 102),
+    ])
+
+    const history = await reconstructLuaSource(process, sources)
+
+    expect(history.chunks.map(({ id: chunkId }) => chunkId)).toEqual(
+      ['process', 'update', 'broken', 'mint', 'cleanup'].map(id),
+    )
+    expect(history.chunks.map(({ status }) => status)).toEqual([
+      'applied',
+      'applied',
+      'failed',
+      'applied',
+      'applied',
+    ])
+    expect(history.chunks[2]).toMatchObject({
+      error: '[string "aos"]:1: syntax error',
+      changes: [],
+    })
+    expect(history.handlers).toEqual([
+      {
+        name: 'Info',
+        code: 'Handlers.add("Info", f, function() return 2 end)',
+        chunkId: id('update'),
+        height: 101,
+      },
+    ])
+    expect(history.chunks[1].changes).toMatchObject([
+      { name: 'Info', action: 'updated' },
+    ])
+    expect(history.chunks[4].changes).toMatchObject([
+      { name: 'Mint', action: 'removed' },
+    ])
+  })
+
+  test('leaves evals the process refused out of the merged handlers', async () => {
+    // Ownership moved to a new owner after the first eval, so the previous
+    // owner's later eval was dropped
+    const sources = fakeSources([
+      message('update', 101),
+      { ...message('mint', 102), from: id('new-owner') },
+      message('cleanup', 103),
+    ])
+    sources.getResult.mockImplementation((_process, messageId) =>
+      Promise.resolve(
+        messageId === id('cleanup') ? {} : { Output: { data: '' } },
+      ),
+    )
+
+    const history = await reconstructLuaSource(
+      message('process', 100, { 'On-Boot': 'Data' }),
+      sources,
+    )
+
+    expect(history.chunks.map(({ status }) => status)).toEqual([
+      'applied',
+      'applied',
+      'applied',
+      'ignored',
+    ])
+    expect(history.chunks[3]).toMatchObject({
+      code: 'Handlers.remove("Mint")',
+      error: `The process did not run it, ${id('owner')} was not its owner`,
+      changes: [],
+    })
+    expect(history.handlers.map(({ name }) => name)).toEqual(['Info', 'Mint'])
+  })
+
+  test('orders evals of one block by ingestion time, then id', async () => {
+    const inBlock = (name: string, ingestedAt: number) => ({
+      ...message(name, 101),
+      ingested_at: ingestedAt,
+    })
+    const sources = fakeSources([
+      inBlock('cleanup', 2),
+      inBlock('update', 2),
+      inBlock('mint', 1),
+    ])
+
+    const history = await reconstructLuaSource(message('process', 100), sources)
+
+    expect(history.chunks.map(({ id: chunkId }) => chunkId)).toEqual(
+      ['mint', 'cleanup', 'update'].map(id),
+    )
+  })
+
+  test('keeps evals it could not check out of the merged handlers', async () => {
+    const sources = fakeSources([message('mint', 103)])
+    sources.getResult.mockRejectedValue(new Error('CU unavailable'))
+
+    const history = await reconstructLuaSource(message('process', 100), sources)
+
+    expect(history.chunks).toMatchObject([
+      {
+        status: 'unknown',
+        error: 'Could not check the result: CU unavailable',
+      },
+    ])
+    expect(history.handlers).toEqual([])
+    expect(sources.getData).not.toHaveBeenCalledWith(id('process'))
+  })
+})
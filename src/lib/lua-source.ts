@@ -0,0 +1,423 @@
+// Lua source reconstruction: replays the code an AOS process was given, the
+// On-Boot program of its spawn followed by every Eval in height order, and
+// tracks which handlers each chunk added, replaced or removed. Evals the CU
+// reports an Error for never changed the process, and AOS silently drops
+// evals not sent by its owner at the time, so both are left out of the
+// merged handlers.
+import { pLimit } from 'plimit-lit'
+
+import { isArweaveAddress } from './address-utils'
+import type { AoMessage, MessageResult } from './ao-queries'
+
+export type SourceChunkStatus = 'applied' | 'failed' | 'ignored' | 'unknown'
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+export interface HandlerDefinition {
+  name: string
+  // remove deletes the handler, every other Handlers call defines it
+  action: 'define' | 'remove'
+  // Source of the whole Handlers call
+  code: string
+}
+
+export interface HandlerChange {
+  name: string
+  action: 'added' | 'updated' | 'removed'
+  diff: Array<DiffLine>
+}
+
+export interface SourceChunk {
+  id: string
+  kind: 'boot' | 'eval'
+  from: string
+  height?: number
+  timestamp?: number
+  code: string
+  status: SourceChunkStatus
+  // CU error for failed evals, fetch error for unknown ones, why ignored
+  // ones were not run
+  error?: string
+  changes: Array<HandlerChange>
+}
+
+export interface MergedHandler {
+  name: string
+  code: string
+  // Chunk that last defined the handler
+  chunkId: string
+  height?: number
+}
+
+export interface LuaSourceHistory {
+  chunks: Array<SourceChunk>
+  // Handlers defined by the applied chunks, in order of first definition
+  handlers: Array<MergedHandler>
+  // More evals exist than were fetched, the oldest ones are missing
+  truncated: boolean
+}
+
+export interface LuaSourceSources {
+  // The latest evals sent to the process, at most limit of them
+  getEvals: (
+    processId: string,
+    limit: number,
+  ) => Promise<{ evals: Array<AoMessage>; hasMore: boolean }>
+  getData: (id: string) => Promise<string>
+  getResult: (process: string, message: string) => Promise<MessageResult>
+}
+
+export interface ReconstructLuaSourceOptions {
+  maxEvals?: number
+  // Requests in flight at once
+  concurrency?: number
+}
+
+export const DEFAULT_MAX_EVALS = 500
+
+// Diffs above this many line pairs are shown as a full replacement
+const MAX_DIFF_CELLS = 4_000_000
+
+const HANDLER_CALL = /^Handlers\s*\.\s*(add|append|prepend|once|remove)\s*\(/
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error)
+
+// Level of the long bracket opening at index, [[ is 0 and [==[ is 2
+const longBracketLevel = (code: string, index: number): number | null => {
+  const match = /^\[(=*)\[/.exec(code.slice(index, index + 64))
+  return match ? match[1].length : null
+}
+
+const skipLongBracket = (code: string, index: number, level: number) => {
+  const close = ']' + '='.repeat(level) + ']'
+  const end = code.indexOf(close, index + level + 2)
+  return end === -1 ? code.length : end + close.length
+}
+
+// End of the comment or string starting at index, or null if none does
+const skipLiteral = (code: string, index: number): number | null => {
+  const char = code[index]
+
+  if (char === '-' && code[index + 1] === '-') {
+    const level = longBracketLevel(code, index + 2)
+    if (level !== null) return skipLongBracket(code, index + 2, level)
+    const end = code.indexOf('\n', index)
+    return end === -1 ? code.length : end
+  }
+
+  if (char === '"' || char === "'") {
+    let i = index + 1
+    while (i < code.length && code[i] !== char && code[i] !== '\n') {
+      i += code[i] === '\\' ? 2 : 1
+    }
+    return Math.min(i + 1, code.length)
+  }
+
+  if (char === '[') {
+    const level = longBracketLevel(code, index)
+    if (level !== null) return skipLongBracket(code, index, level)
+  }
+
+  return null
+}
+
+// Value of the string literal at index, escapes are kept as written
+const readStringLiteral = (code: string, index: number): string | null => {
+  const end = skipLiteral(code, index)
+  if (end === null || code[index] === '-') return null
+  if (code[index] === '[') {
+    const level = longBracketLevel(code, index)!
+    return code.slice(index + level + 2, end - level - 2)
+  }
+  return code.slice(index + 1, end - 1)
+}
+
+const skipWhitespace = (code: string, index: number) => {
+  let i = index
+  while (i < code.length && /\s/.test(code[i])) i++
+  return i
+}
+
+// Index just past the parenthesis closing the one at index
+const matchParenthesis = (code: string, index: number): number => {
+  let depth = 0
+  let i = index
+  while (i < code.length) {
+    const end = skipLiteral(code, i)
+    if (end !== null) {
+      i = end
+      continue
+    }
+    if (code[i] === '(') depth++
+    if (code[i] === ')' && --depth === 0) return i + 1
+    i++
+  }
+  return code.length
+}
+
+/**
+ * Finds the Handlers calls in a chunk of Lua that name their handler with a
+ * string literal. Calls inside strings and comments are ignored, handlers
+ * named by an expression cannot be tracked and are skipped.
+ */
+export function findHandlerDefinitions(code: string): Array<HandlerDefinition> {
+  const definitions: Array<HandlerDefinition> = []
+  let i = 0
+
+  while (i < code.length) {
+    const literalEnd = skipLiteral(code, i)
+    if (literalEnd !== null) {
+      i = literalEnd
+      continue
+    }
+
+    const call =
+      code[i] === 'H' && !/[\w.:]/.test(code[i - 1] ?? '')
+        ? HANDLER_CALL.exec(code.slice(i, i + 64))
+        : null
+    if (!call) {
+      i++
+      continue
+    }
+
+    const open = i + call[0].length - 1
+    const end = matchParenthesis(code, open)
+    const name = readStringLiteral(code, skipWhitespace(code, open + 1))
+    if (name !== null) {
+      definitions.push({
+        name,
+        action: call[1] === 'remove' ? 'remove' : 'define',
+        code: code.slice(i, end),
+      })
+    }
+    i = end
+  }
+
+  return definitions
+}
+
+/**
+ * Line diff of two texts by longest common subsequence.
+ */
+export function diffLines(before: string, after: string): Array<DiffLine> {
+  const a = before ? before.split(/\r?\n/) : []
+  const b = after ? after.split(/\r?\n/) : []
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text) => ({ type: 'removed' as const, text })),
+      ...b.map((text) => ({ type: 'added' as const, text })),
+    ]
+  }
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  )
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const diff: Array<DiffLine> = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: 'same', text: a[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      diff.push({ type: 'removed', text: a[i++] })
+    } else {
+      diff.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) diff.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) diff.push({ type: 'added', text: b[j++] })
+
+  return diff
+}
+
+/**
+ * Applies the handler definitions of each applied chunk in order, recording
+ * on every chunk what it changed. Failed, ignored and unknown chunks are left
+ * as is.
+ */
+export function mergeHandlers(
+  chunks: Array<SourceChunk>,
+): Array<MergedHandler> {
+  const handlers = new Map<string, MergedHandler>()
+
+  for (const chunk of chunks) {
+    chunk.changes = []
+    if (chunk.status !== 'applied') continue
+
+    for (const definition of findHandlerDefinitions(chunk.code)) {
+      const previous = handlers.get(definition.name)
+
+      if (definition.action === 'remove') {
+        if (!previous) continue
+        handlers.delete(definition.name)
+        chunk.changes.push({
+          name: definition.name,
+          action: 'removed',
+          diff: diffLines(previous.code, ''),
+        })
+        continue
+      }
+
+      if (previous?.code === definition.code) continue
+      // Redefinitions keep their place, like Handlers.add replacing in place
+      handlers.set(definition.name, {
+        name: definition.name,
+        code: definition.code,
+        chunkId: chunk.id,
+        height: chunk.height,
+      })
+      chunk.changes.push({
+        name: definition.name,
+        action: previous ? 'updated' : 'added',
+        diff: diffLines(previous?.code ?? '', definition.code),
+      })
+    }
+  }
+
+  return Array.from(handlers.values())
+}
+
+const loadBootChunk = async (
+  process: AoMessage,
+  sources: LuaSourceSources,
+): Promise<SourceChunk | null> => {
+  const onBoot = process.tags['On-Boot']
+  if (!onBoot) return null
+
+  const id = onBoot === 'Data' ? process.id : onBoot
+  const chunk: SourceChunk = {
+    id,
+    kind: 'boot',
+    from: process.from,
+    height: process.block?.height,
+    timestamp: process.block?.timestamp ?? undefined,
+    code: '',
+    status: 'applied',
+    changes: [],
+  }
+
+  if (onBoot !== 'Data' && !isArweaveAddress(onBoot)) {
+    return { ...chunk, status: 'unknown', error: `Invalid On-Boot ${onBoot}` }
+  }
+  try {
+    chunk.code = await sources.getData(id)
+  } catch (error) {
+    chunk.status = 'unknown'
+    chunk.error = errorMessage(error)
+  }
+  return chunk
+}
+
+// AOS runs an Eval only from its owner or itself and drops any other
+// without a trace. Ownership changes over time (transfers, renounces, evals
+// assigning Owner), so the result tells rather than the sender: an eval the
+// process refused has neither Output nor Error.
+const isRefused = ({ Output: output, Error: error }: MessageResult) =>
+  !error &&
+  (output === undefined ||
+    output === null ||
+    output === '' ||
+    (typeof output === 'object' && Object.keys(output).length === 0))
+
+// Height order. Messages of one block share its timestamp, the time the
+// gateway indexed them is the closest record of their order at the
+// scheduler, and the id keeps the order stable when even that ties.
+const evalOrder = (a: AoMessage, b: AoMessage) =>
+  (a.block?.height ?? Infinity) - (b.block?.height ?? Infinity) ||
+  (a.ingested_at ?? Infinity) - (b.ingested_at ?? Infinity) ||
+  a.id.localeCompare(b.id)
+
+const loadEvalChunk = async (
+  process: AoMessage,
+  message: AoMessage,
+  sources: LuaSourceSources,
+): Promise<SourceChunk> => {
+  const chunk: SourceChunk = {
+    id: message.id,
+    kind: 'eval',
+    from: message.from,
+    height: message.block?.height,
+    timestamp: message.block?.timestamp ?? undefined,
+    code: '',
+    status: 'unknown',
+    changes: [],
+  }
+
+  const [data, result] = await Promise.allSettled([
+    sources.getData(message.id),
+    sources.getResult(process.id, message.id),
+  ])
+
+  if (data.status === 'fulfilled') {
+    chunk.code = data.value
+  } else {
+    chunk.error = `Could not fetch the code: ${errorMessage(data.reason)}`
+  }
+
+  if (result.status === 'rejected') {
+    chunk.error ??= `Could not check the result: ${errorMessage(result.reason)}`
+  } else if (result.value.Error) {
+    chunk.status = 'failed'
+    chunk.error = String(result.value.Error)
+  } else if (isRefused(result.value)) {
+    // The code is still shown, but the process never ran it
+    chunk.status = 'ignored'
+    chunk.error = `The process did not run it, ${message.from} was not its owner`
+  } else if (data.status === 'fulfilled') {
+    chunk.status = 'applied'
+  }
+
+  return chunk
+}
+
+/**
+ * Fetches the boot program and evals of a process with their results, then
+ * merges the handlers they define. Unconfirmed evals are pending and sort
+ * last, they cannot have been evaluated before confirmed ones anyway.
+ */
+export async function reconstructLuaSource(
+  process: AoMessage,
+  sources: LuaSourceSources,
+  {
+    maxEvals = DEFAULT_MAX_EVALS,
+    concurrency = 6,
+  }: ReconstructLuaSourceOptions = {},
+): Promise<LuaSourceHistory> {
+  const limit = pLimit(concurrency)
+
+  const [boot, { evals, hasMore }] = await Promise.all([
+    limit(() => loadBootChunk(process, sources)),
+    sources.getEvals(process.id, maxEvals),
+  ])
+
+  const ordered = [...evals].sort(evalOrder)
+  const evalChunks = await Promise.all(
+    ordered.map((message) =>
+      limit(() => loadEvalChunk(process, message, sources)),
+    ),
+  )
+
+  const chunks = boot ? [boot, ...evalChunks] : evalChunks
+  return {
+    chunks,
+    handlers: mergeHandlers(chunks),
+    truncated: hasMore,
+  }
+}
@@ -0,0 +1,208 @@
+import { describe, expect, test, vi } from 'vitest'
+
+import type { AoMessage } from './ao-queries'
+import {
+  type MessageGraphNode,
+  type MessageGraphSources,
+  MessageGraphTraverser,
+} from './message-graph'
+
+const id = (name: string) => name.padEnd(43, '-')
+const PROCESS = id('process')
+
+const message = (name: string, type = 'Message'): AoMessage =>
+  ({ id: id(name), to: PROCESS, type, tags: {} }) as AoMessage
+
+// Sources for a crank tree given as message name => names of the messages
+// its result sent, all of them to the same process
+const fakeSources = (
+  tree: Record<string, Array<string>>,
+  { delay = 0 }: { delay?: number } = {},
+) => {
+  let inFlight = 0
+  const stats = { maxInFlight: 0, calls: 0 }
+  const track = <T>(value: () => T) => {
+    inFlight++
+    stats.calls++
+    stats.maxInFlight = Math.max(stats.maxInFlight, inFlight)
+    return new Promise<T>((resolve, reject) =>
+      setTimeout(() => {
+        inFlight--
+        try {
+          resolve(value())
+        } catch (error) {
+          reject(error as Error)
+        }
+      }, delay),
+    )
+  }
+
+  const sources = {
+    getMessage: vi.fn((messageId: string) =>
+      track(() =>
+        messageId === PROCESS
+          ? message('process', 'Process')
+          : message(messageId.replace(/-+$/, '')),
+      ),
+    ),
+    getResult: vi.fn((_process: string, messageId: string) =>
+      track(() => {
+        const name = messageId.replace(/-+$/, '')
+        if (name.startsWith('broken')) throw new Error(`CU failed on ${name}`)
+        return {
+          Messages: (tree[name] ?? []).map((child) => ({
+            Target: PROCESS,
+            Tags: [{ name: 'Reference', value: child }],
+          })),
+        }
+      }),
+    ),
+    getResultingMessages: vi.fn(({ reference }: { reference: string }) =>
+      track(() => [message(reference)]),
+    ),
+  } satisfies MessageGraphSources
+
+  return { sources, stats }
+}
+
+const names = (node: MessageGraphNode): unknown => [
+  node.id.replace(/-+$/, ''),
+  ...node.children.map(names),
+]
+
+describe('MessageGraphTraverser', () => {
+  const tree = {
+    root: ['a', 'b'],
+    a: ['a1', 'a2'],
+    b: ['b1'],
+    a1: ['a11'],
+  }
+
+  test('follows resulting messages and streams partial graphs', async () => {
+    const { sources } = fakeSources(tree)
+    const onUpdate = vi.fn()
+
+    const graph = await new MessageGraphTraverser(sources).traverse({
+      msgId: id('root'),
+      onUpdate,
+    })
+
+    expect(names(graph.root!)).toEqual([
+      'root',
+      ['a', ['a1', ['a11']], ['a2']],
+      ['b', ['b1']],
+    ])
+    expect(graph.nodeCount).toBe(7)
+    expect(graph.truncated).toBe(false)
+    expect(onUpdate.mock.calls[0][0]).toMatchObject({
+      loading: true,
+      children: [],
+    })
+    expect(onUpdate).toHaveBeenLastCalledWith(graph.root)
+  })
+
+  test('stops at the maximum depth', async () => {
+    const { sources } = fakeSources(tree)
+
+    const graph = await new MessageGraphTraverser(sources).traverse({
+      msgId: id('root'),
+      maxDepth: 1,
+    })
+
+    expect(names(graph.root!)).toEqual(['root', ['a'], ['b']])
+    expect(graph.truncated).toBe(true)
+    expect(graph.root!.children.map((child) => child.truncated)).toEqual([
+      true,
+      true,
+    ])
+  })
+
+  test('stops at the maximum number of nodes', async () => {
+    const { sources } = fakeSources(tree)
+
+    const graph = await new MessageGraphTraverser(sources).traverse({
+      msgId: id('root'),
+      maxNodes: 4,
+    })
+
+    expect(graph.nodeCount).toBe(4)
+    expect(graph.truncated).toBe(true)
+  })
+
+  test('keeps the number of requests in flight bounded', async () => {
+    const wide = {
+      root: Array.from({ length: 20 }, (_, i) => `m${i}`),
+    }
+    const { sources, stats } = fakeSources(wide, { delay: 5 })
+
+    const graph = await new MessageGraphTraverser(sources, {
+      concurrency: 3,
+    }).traverse({ msgId: id('root') })
+
+    expect(graph.nodeCount).toBe(21)
+    expect(stats.maxInFlight).toBe(3)
+  })
+
+  test('reports failed nodes and keeps following their siblings', async () => {
+    const { sources } = fakeSources({ root: ['broken', 'b'], b: ['b1'] })
+
+    const graph = await new MessageGraphTraverser(sources).traverse({
+      msgId: id('root'),
+    })
+
+    expect(names(graph.root!)).toEqual(['root', ['broken'], ['b', ['b1']]])
+    expect(graph.errors).toEqual([
+      { id: id('broken'), error: 'CU failed on broken' },
+    ])
+    expect(graph.root!.children[0].error).toBe('CU failed on broken')
+  })
+
+  test('stops requesting once aborted', async () => {
+    const { sources, stats } = fakeSources(tree, { delay: 5 })
+    const controller = new AbortController()
+
+    const traversal = new MessageGraphTraverser(sources).traverse({
+      msgId: id('root'),
+      signal: controller.signal,
+      onUpdate: (root) => {
+        if (root.children.length > 0) controller.abort()
+      },
+    })
+
+    await expect(traversal).rejects.toThrow()
+    const calls = stats.calls
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(stats.calls).toBe(calls)
+    expect(sources.getResult).not.toHaveBeenCalledWith(PROCESS, id('a1'))
+  })
+
+  test('caches results by process and message across traversals', async () => {
+    const { sources } = fakeSources(tree)
+    const traverser = new MessageGraphTraverser(sources)
+
+    await traverser.traverse({ msgId: id('root') })
+    await traverser.traverse({ msgId: id('a') })
+
+    expect(sources.getResult).toHaveBeenCalledTimes(7)
+    // The recipient is only looked up once to tell it is a process
+    expect(sources.getMessage).toHaveBeenCalledWith(PROCESS)
+    expect(
+      sources.getMessage.mock.calls.filter(
+        ([messageId]) => messageId === PROCESS,
+      ),
+    ).toHaveLength(1)
+  })
+
+  test('retries failed results on the next traversal', async () => {
+    const { sources } = fakeSources({ root: ['broken'] })
+    const traverser = new MessageGraphTraverser(sources)
+
+    await traverser.traverse({ msgId: id('root') })
+    await traverser.traverse({ msgId: id('root') })
+
+    expect(sources.getResult).toHaveBeenCalledWith(PROCESS, id('root'))
+    expect(
+      sources.getResult.mock.calls.filter(([, msg]) => msg === id('broken')),
+    ).toHaveLength(2)
+  })
+})
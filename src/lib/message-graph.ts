@@ -0,0 +1,271 @@
+// Message graph traversal: follows the messages an AO message cranked. Every
+// message in a CU result outbox is matched to the message the SU assigned for
+// it by its reference tag, and the matches are expanded in turn, in parallel
+// but with a bounded number of requests in flight.
+import { pLimit } from 'plimit-lit'
+
+import { isArweaveAddress } from './address-utils'
+import type { AoMessage, MessageResult, MessageTree } from './ao-queries'
+import { type Logger, createLogger } from './logger'
+
+export interface MessageGraphNode extends MessageTree {
+  children: Array<MessageGraphNode>
+  // Distance from the root, which is at depth 0
+  depth: number
+  // Result or resulting messages still being fetched
+  loading: boolean
+  // Resulting messages were left out because of the depth or node limit
+  truncated: boolean
+  error?: string
+}
+
+// Outbox message of a result, as matched against the messages of its target
+export interface OutboxReference {
+  recipient: string
+  reference: string
+  // Pushed with the legacy Ref_ tag instead of Reference
+  useOldRefSymbol: boolean
+}
+
+export interface MessageGraphSources {
+  getMessage: (id: string) => Promise<AoMessage | null>
+  getResult: (process: string, message: string) => Promise<MessageResult>
+  getResultingMessages: (outbox: OutboxReference) => Promise<Array<AoMessage>>
+}
+
+export interface MessageGraphTraverserOptions {
+  // Requests in flight at once, per traversal
+  concurrency?: number
+  // Results and process lookups kept for later traversals
+  maxCachedEntries?: number
+}
+
+export interface TraverseMessageGraphArgs {
+  msgId: string
+  // Start from the message named by the Pushed-For tag
+  startFromPushedFor?: boolean
+  maxDepth?: number
+  maxNodes?: number
+  signal?: AbortSignal
+  // Called with a snapshot of the graph whenever a node resolves
+  onUpdate?: (root: MessageGraphNode) => void
+}
+
+export interface MessageGraphError {
+  id: string
+  error: string
+}
+
+export interface MessageGraph {
+  root: MessageGraphNode | null
+  nodeCount: number
+  // Some node was not fully expanded because of the limits
+  truncated: boolean
+  errors: Array<MessageGraphError>
+}
+
+export const DEFAULT_MAX_GRAPH_DEPTH = 10
+export const DEFAULT_MAX_GRAPH_NODES = 500
+
+const outboxReferences = (
+  result: MessageResult | null,
+): Array<OutboxReference> => {
+  const references: Array<OutboxReference> = []
+  for (const message of result?.Messages ?? []) {
+    const refTag = (message.Tags ?? []).find(
+      (tag: { name: string; value: string }) =>
+        ['Ref_', 'Reference'].includes(tag.name),
+    )
+    if (!isArweaveAddress(String(message.Target)) || !refTag?.value) {
+      continue
+    }
+    references.push({
+      recipient: message.Target,
+      reference: refTag.value,
+      useOldRefSymbol: refTag.name === 'Ref_',
+    })
+  }
+  return references
+}
+
+const snapshot = (node: MessageGraphNode): MessageGraphNode => ({
+  ...node,
+  children: node.children.map(snapshot),
+})
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error)
+
+export class MessageGraphTraverser {
+  private sources: MessageGraphSources
+  private concurrency: number
+  private maxCachedEntries: number
+  // Keyed by process and message; results are immutable once computed
+  private results = new Map<string, Promise<MessageResult>>()
+  // Whether a recipient is a process, keyed by recipient
+  private processes = new Map<string, Promise<boolean>>()
+  private logger: Logger
+
+  constructor(
+    sources: MessageGraphSources,
+    {
+      concurrency = 6,
+      maxCachedEntries = 2000,
+    }: MessageGraphTraverserOptions = {},
+  ) {
+    this.sources = sources
+    this.concurrency = concurrency
+    this.maxCachedEntries = maxCachedEntries
+    this.logger = createLogger('MessageGraphTraverser')
+  }
+
+  /**
+   * Walks the graph below a message. Nodes whose result or resulting messages
+   * cannot be fetched carry the error and are reported in `errors`; only an
+   * abort or a failure to fetch the root message rejects.
+   */
+  async traverse({
+    msgId,
+    startFromPushedFor = false,
+    maxDepth = DEFAULT_MAX_GRAPH_DEPTH,
+    maxNodes = DEFAULT_MAX_GRAPH_NODES,
+    signal,
+    onUpdate,
+  }: TraverseMessageGraphArgs): Promise<MessageGraph> {
+    const limit = pLimit(this.concurrency)
+    const run = <T>(task: () => Promise<T>): Promise<T> =>
+      limit(() => {
+        signal?.throwIfAborted()
+        return task()
+      })
+
+    let start = await run(() => this.sources.getMessage(msgId))
+    const pushedFor = start?.tags['Pushed-For']
+    if (startFromPushedFor && pushedFor) {
+      start = await run(() => this.sources.getMessage(pushedFor))
+    }
+    if (!start) {
+      return { root: null, nodeCount: 0, truncated: false, errors: [] }
+    }
+
+    const visited = new Set<string>()
+    const errors: Array<MessageGraphError> = []
+    let truncated = false
+
+    const createNode = (
+      message: AoMessage,
+      depth: number,
+    ): MessageGraphNode => {
+      visited.add(message.id)
+      return {
+        ...message,
+        result: null,
+        children: [],
+        depth,
+        loading: true,
+        truncated: false,
+      }
+    }
+
+    const root = createNode(start, 0)
+    const update = () => {
+      if (!signal?.aborted) onUpdate?.(snapshot(root))
+    }
+    update()
+
+    const expand = async (node: MessageGraphNode): Promise<void> => {
+      try {
+        node.result = await this.getResult(node, limit, signal)
+        const references = outboxReferences(node.result)
+
+        if (references.length > 0 && node.depth >= maxDepth) {
+          node.truncated = true
+        } else {
+          const resulting = await Promise.all(
+            references.map((outbox) =>
+              run(() => this.sources.getResultingMessages(outbox)),
+            ),
+          )
+          for (const child of resulting.flat()) {
+            if (visited.has(child.id)) continue
+            if (visited.size >= maxNodes) {
+              node.truncated = true
+              break
+            }
+            node.children.push(createNode(child, node.depth + 1))
+          }
+        }
+      } catch (error) {
+        if (signal?.aborted) throw error
+        this.logger.warn(`Failed to expand message ${node.id}`, error)
+        node.error = errorMessage(error)
+        errors.push({ id: node.id, error: node.error })
+      } finally {
+        node.loading = false
+        truncated ||= node.truncated
+      }
+      update()
+
+      await Promise.all(node.children.map(expand))
+    }
+
+    await expand(root)
+    signal?.throwIfAborted()
+
+    this.logger.debug(
+      `Traversed ${visited.size} messages below ${root.id}${truncated ? ' (truncated)' : ''}`,
+    )
+    return {
+      root: snapshot(root),
+      nodeCount: visited.size,
+      truncated,
+      errors,
+    }
+  }
+
+  // Result of a message, or null when its recipient is not a process. The
+  // shared lookups are not tied to the signal of the traversal that started
+  // them, since other traversals may be waiting on them too.
+  private async getResult(
+    node: MessageGraphNode,
+    limit: ReturnType<typeof pLimit>,
+    signal?: AbortSignal,
+  ): Promise<MessageResult | null> {
+    if (!isArweaveAddress(node.to)) return null
+
+    signal?.throwIfAborted()
+    const isProcess = await this.cached(this.processes, node.to, () =>
+      limit(() =>
+        this.sources
+          .getMessage(node.to)
+          .then((recipient) => recipient?.type === 'Process'),
+      ),
+    )
+    if (!isProcess) return null
+
+    signal?.throwIfAborted()
+    return this.cached(this.results, `${node.to}:${node.id}`, () =>
+      limit(() => this.sources.getResult(node.to, node.id)),
+    )
+  }
+
+  private cached<T>(
+    cache: Map<string, Promise<T>>,
+    key: string,
+    load: () => Promise<T>,
+  ): Promise<T> {
+    let entry = cache.get(key)
+    if (!entry) {
+      entry = load()
+      cache.set(key, entry)
+      // Failures are retried by the next traversal
+      entry.catch(() => {
+        if (cache.get(key) === entry) cache.delete(key)
+      })
+      if (cache.size > this.maxCachedEntries) {
+        cache.delete(cache.keys().next().value!)
+      }
+    }
+    return entry
+  }
+}
@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, test, vi } from 'vitest'
+
+import {
+  DatasetCatalog,
+  parsePartitions,
+  partitionUrl,
+  prunePartitions,
+} from './DatasetCatalog'
+
+const BASE_URL = 'http://localhost:4000/local/datasets'
+const MANIFEST_URL = `${BASE_URL}/manifest.json`
+
+const partition = (minHeight: number, maxHeight: number) => ({
+  dataset: 'tags' as const,
+  minHeight,
+  maxHeight,
+  url: partitionUrl(BASE_URL, 'tags', minHeight, maxHeight),
+})
+
+// Serves each url from a table, anything else is a 404
+const stubFetch = (responses: Record<string, string>) => {
+  const fetch = vi.fn((url: string) =>
+    Promise.resolve(
+      url in responses
+        ? new Response(responses[url])
+        : new Response('Not found', { status: 404 }),
+    ),
+  )
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('parsePartitions', () => {
+  test('reads raw and url-encoded partition names in height order', () => {
+    const body = [
+      '<a href="height%3D101-200/">height%3D101-200/</a>',
+      '<a href="height=1-100/">height=1-100/</a>',
+      '<a href="height%3d201-300/">height%3d201-300/</a>',
+    ].join('\n')
+
+    expect(parsePartitions(body, BASE_URL, 'tags')).toEqual([
+      partition(1, 100),
+      partition(101, 200),
+      partition(201, 300),
+    ])
+  })
+
+  test('skips malformed, inverted and duplicate names', () => {
+    const body = [
+      'height=abc-100',
+      'height=100',
+      'height:1-2',
+      'height=500-400',
+      'height=1-100',
+      'height%3D1-100',
+    ].join('\n')
+
+    expect(parsePartitions(body, BASE_URL, 'tags')).toEqual([partition(1, 100)])
+  })
+})
+
+describe('prunePartitions', () => {
+  const partitions = [partition(1, 100), partition(101, 200)]
+
+  test('keeps partitions touching the range bounds', () => {
+    expect(prunePartitions(partitions, { minHeight: 100 })).toEqual(partitions)
+    expect(prunePartitions(partitions, { maxHeight: 101 })).toEqual(partitions)
+    expect(
+      prunePartitions(partitions, { minHeight: 100, maxHeight: 100 }),
+    ).toEqual([partition(1, 100)])
+  })
+
+  test('drops partitions just outside the range', () => {
+    expect(prunePartitions(partitions, { minHeight: 101 })).toEqual([
+      partition(101, 200),
+    ])
+    expect(prunePartitions(partitions, { maxHeight: 100 })).toEqual([
+      partition(1, 100),
+    ])
+    expect(prunePartitions(partitions, { minHeight: 201 })).toEqual([])
+    expect(prunePartitions(partitions)).toEqual(partitions)
+  })
+})
+
+describe('DatasetCatalog discovery', () => {
+  test('prefers the manifest over the directory listing', async () => {
+    const fetch = stubFetch({
+      [MANIFEST_URL]: JSON.stringify({ tags: ['height=1-100'] }),
+      [`${BASE_URL}/tags/data/`]: 'height=1-100 height=101-200',
+    })
+    const catalog = new DatasetCatalog({
+      baseUrl: BASE_URL,
+      manifestUrl: MANIFEST_URL,
+    })
+
+    expect(await catalog.getPartitions('tags')).toEqual([partition(1, 100)])
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  test('falls back to the listing when the manifest fails or lacks the dataset', async () => {
+    stubFetch({ [`${BASE_URL}/tags/data/`]: 'height=1-100' })
+    const withoutManifest = new DatasetCatalog({
+      baseUrl: BASE_URL,
+      manifestUrl: MANIFEST_URL,
+    })
+    expect(await withoutManifest.getPartitions('tags')).toEqual([
+      partition(1, 100),
+    ])
+
+    stubFetch({
+      [MANIFEST_URL]: JSON.stringify({ blocks: ['height=1-100'] }),
+      [`${BASE_URL}/tags/data/`]: 'height=101-200',
+    })
+    const partialManifest = new DatasetCatalog({
+      baseUrl: BASE_URL,
+      manifestUrl: MANIFEST_URL,
+    })
+    expect(await partialManifest.getPartitions('tags')).toEqual([
+      partition(101, 200),
+    ])
+  })
+
+  test('uses static partitions without fetching and fails without a listing', async () => {
+    const fetch = stubFetch({})
+    const known = new DatasetCatalog({
+      baseUrl: BASE_URL,
+      partitions: { tags: [partition(1, 100)] },
+    })
+    expect(await known.getPartitions('tags')).toEqual([partition(1, 100)])
+    expect(fetch).not.toHaveBeenCalled()
+
+    const unknown = new DatasetCatalog({ baseUrl: BASE_URL })
+    await expect(unknown.getPartitions('tags')).rejects.toThrow(
+      `HTTP 404 listing ${BASE_URL}/tags/data/`,
+    )
+  })
+
+  test('refetches a failed manifest when one dataset is refreshed', async () => {
+    stubFetch({ [`${BASE_URL}/tags/data/`]: 'height=1-100' })
+    const catalog = new DatasetCatalog({
+      baseUrl: BASE_URL,
+      manifestUrl: MANIFEST_URL,
+    })
+    expect(await catalog.getPartitions('tags')).toEqual([partition(1, 100)])
+
+    stubFetch({ [MANIFEST_URL]: JSON.stringify({ tags: ['height=1-200'] }) })
+    expect(await catalog.getPartitions('tags')).toEqual([partition(1, 100)])
+
+    catalog.refresh('tags')
+    expect(await catalog.getPartitions('tags')).toEqual([partition(1, 200)])
+  })
+})
@@ -0,0 +1,237 @@
+import { type Logger, createLogger } from '@/lib/logger'
+
+import { type SqlFragment, join, raw, sql } from './sql'
+import type {
+  DatasetCatalogOptions,
+  DatasetName,
+  DatasetPartition,
+  HeightRange,
+} from './types'
+
+const DEFAULT_TTL = 1000 * 60 * 10 // 10 minutes
+
+// Matches partition directory names in listings and manifests,
+// both raw (height=1-2) and url-encoded (height%3D1-2)
+const PARTITION_PATTERN = /height(?:=|%3D)(\d+)-(\d+)/gi
+
+/**
+ * Build the parquet file URL for a single height partition
+ */
+export const partitionUrl = (
+  baseUrl: string,
+  dataset: DatasetName,
+  minHeight: number,
+  maxHeight: number,
+): string =>
+  `${baseUrl}/${dataset}/data/height%3D${minHeight}-${maxHeight}/${dataset}.parquet`
+
+/**
+ * Extract all height partitions mentioned in a listing or manifest body
+ */
+export const parsePartitions = (
+  body: string,
+  baseUrl: string,
+  dataset: DatasetName,
+): DatasetPartition[] => {
+  const partitions = new Map<string, DatasetPartition>()
+
+  for (const match of body.matchAll(PARTITION_PATTERN)) {
+    const minHeight = parseInt(match[1], 10)
+    const maxHeight = parseInt(match[2], 10)
+    const key = `${minHeight}-${maxHeight}`
+
+    if (minHeight > maxHeight || partitions.has(key)) continue
+
+    partitions.set(key, {
+      dataset,
+      minHeight,
+      maxHeight,
+      url: partitionUrl(baseUrl, dataset, minHeight, maxHeight),
+    })
+  }
+
+  return Array.from(partitions.values()).sort(
+    (a, b) => a.minHeight - b.minHeight,
+  )
+}
+
+/**
+ * Keep only the partitions whose height span overlaps the requested range
+ */
+export const prunePartitions = (
+  partitions: DatasetPartition[],
+  { minHeight, maxHeight }: HeightRange = {},
+): DatasetPartition[] =>
+  partitions.filter(
+    (partition) =>
+      (minHeight === undefined || partition.maxHeight >= minHeight) &&
+      (maxHeight === undefined || partition.minHeight <= maxHeight),
+  )
+
+/**
+ * Discovers the height partitions of the blocks/tags/transactions datasets
+ * served by an AR-IO node and exposes them as single logical tables.
+ */
+export class DatasetCatalog {
+  private baseUrl: string
+  private manifestUrl?: string
+  private ttl: number
+  private logger: Logger
+  private staticPartitions: Partial<Record<DatasetName, DatasetPartition[]>>
+  private cache = new Map<
+    DatasetName,
+    { partitions: DatasetPartition[]; loadedAt: number }
+  >()
+  private pending = new Map<DatasetName, Promise<DatasetPartition[]>>()
+  private manifest?: Promise<Record<string, unknown> | null>
+
+  constructor({
+    baseUrl,
+    manifestUrl,
+    partitions = {},
+    ttl = DEFAULT_TTL,
+  }: DatasetCatalogOptions) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+    this.manifestUrl = manifestUrl
+    this.ttl = ttl
+    this.staticPartitions = partitions
+    this.logger = createLogger('DatasetCatalog')
+  }
+
+  /**
+   * Get every known partition of a dataset, ordered by height
+   */
+  async getPartitions(dataset: DatasetName): Promise<DatasetPartition[]> {
+    const known = this.staticPartitions[dataset]
+    if (known) return known
+
+    const cached = this.cache.get(dataset)
+    if (cached && Date.now() - cached.loadedAt < this.ttl) {
+      return cached.partitions
+    }
+
+    // Share a single in-flight discovery between concurrent callers
+    let pending = this.pending.get(dataset)
+    if (!pending) {
+      pending = this.discover(dataset).finally(() =>
+        this.pending.delete(dataset),
+      )
+      this.pending.set(dataset, pending)
+    }
+    return pending
+  }
+
+  /**
+   * Get the partitions of a dataset that can contain rows in a height range
+   */
+  async getPartitionsForRange(
+    dataset: DatasetName,
+    range: HeightRange = {},
+  ): Promise<DatasetPartition[]> {
+    const partitions = await this.getPartitions(dataset)
+    const pruned = prunePartitions(partitions, range)
+
+    this.logger.debug(
+      `Using ${pruned.length} of ${partitions.length} ${dataset} partitions`,
+      range,
+    )
+
+    return pruned
+  }
+
+  /**
+   * Build a SQL relation reading all relevant partitions as one table
+   */
+  async getSource(
+    dataset: DatasetName,
+    range: HeightRange = {},
+  ): Promise<SqlFragment> {
+    const partitions = await this.getPartitions(dataset)
+
+    if (partitions.length === 0) {
+      throw new Error(`No ${dataset} partitions found under ${this.baseUrl}`)
+    }
+
+    const pruned = prunePartitions(partitions, range)
+
+    // Nothing overlaps the range: keep the schema but return no rows
+    if (pruned.length === 0) {
+      return sql`(SELECT * FROM read_parquet(${partitions[0].url}) WHERE false)`
+    }
+
+    const urls = join(pruned.map((partition) => partition.url))
+    return raw(`read_parquet([${urls}], union_by_name = true)`)
+  }
+
+  /**
+   * Forget discovered partitions so the next query lists them again. The
+   * manifest is fetched again as well, it may have failed or gone stale.
+   */
+  refresh(dataset?: DatasetName): void {
+    if (dataset) {
+      this.cache.delete(dataset)
+    } else {
+      this.cache.clear()
+    }
+    this.manifest = undefined
+  }
+
+  private async discover(dataset: DatasetName): Promise<DatasetPartition[]> {
+    this.logger.time(`discover:${dataset}`)
+
+    try {
+      const body =
+        (await this.fromManifest(dataset)) ?? (await this.fromListing(dataset))
+      const partitions = parsePartitions(body, this.baseUrl, dataset)
+
+      this.logger.info(
+        `Discovered ${partitions.length} ${dataset} partitions`,
+        partitions.map((p) => `${p.minHeight}-${p.maxHeight}`),
+      )
+
+      this.cache.set(dataset, { partitions, loadedAt: Date.now() })
+      return partitions
+    } catch (error) {
+      this.logger.error(`Failed to discover ${dataset} partitions`, error)
+      throw error
+    } finally {
+      this.logger.timeEnd(`discover:${dataset}`)
+    }
+  }
+
+  private async fromManifest(dataset: DatasetName): Promise<string | null> {
+    if (!this.manifestUrl) return null
+
+    if (!this.manifest) {
+      const manifestUrl = this.manifestUrl
+      this.manifest = fetch(manifestUrl)
+        .then((response) => {
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status} fetching ${manifestUrl}`)
+          }
+          return response.json()
+        })
+        .catch((error) => {
+          this.logger.warn('Dataset manifest unavailable', error)
+          return null
+        })
+    }
+
+    const manifest = await this.manifest
+    const entry = manifest?.[dataset]
+    return entry ? JSON.stringify(entry) : null
+  }
+
+  private async fromListing(dataset: DatasetName): Promise<string> {
+    const listingUrl = `${this.baseUrl}/${dataset}/data/`
+    const response = await fetch(listingUrl, {
+      headers: { Accept: 'application/json, text/html;q=0.9' },
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} listing ${listingUrl}`)
+    }
+
+    return response.text()
+  }
+}
@@ -0,0 +1,138 @@
+// @vitest-environment node
+//
+// Benchmarks the ParquetClient queries against local parquet datasets,
+// comparing binary id predicates with the `hex(column)` comparisons they
+// replaced. Runs over fixtures/parquet/datasets by default, point
+// PARQUET_BENCH_DATASETS at a larger dataset directory for realistic numbers:
+//
+//   PARQUET_BENCH_DATASETS=/data/datasets pnpm bench
+import type { AsyncDuckDB } from '@duckdb/duckdb-wasm'
+import {
+  type DuckDBBindings,
+  NODE_RUNTIME,
+  VoidLogger,
+  createDuckDB,
+} from '@duckdb/duckdb-wasm/blocking'
+import { createRequire } from 'node:module'
+import { dirname, join, resolve } from 'node:path'
+import { bench, describe } from 'vitest'
+
+import { localPartitions } from '@/test/duckdb'
+
+import { DatasetCatalog } from './DatasetCatalog'
+import { ParquetClient } from './ParquetClient'
+import { hexToBase64Url } from './utils'
+
+const DATASETS_DIR =
+  process.env.PARQUET_BENCH_DATASETS ??
+  resolve(__dirname, '../../../fixtures/parquet/datasets')
+
+// Drive covered by the fixture datasets
+const DRIVE_ID =
+  process.env.PARQUET_BENCH_DRIVE_ID ?? '387a3dfc-f8a1-454f-9b5c-95fdf0a36d70'
+
+const SAMPLE_SIZE = 20
+
+const DUCKDB_DIST = dirname(
+  createRequire(import.meta.url).resolve(
+    '@duckdb/duckdb-wasm/dist/duckdb-eh.wasm',
+  ),
+)
+
+// The statement as it was written before ids were compared as BLOBs
+const withHexComparisons = (text: string): string =>
+  text
+    .replace(
+      /(\w+)\.(id|owner) (IN \(|= |< |> )(from_hex\('[0-9A-F]*'\)(?:, from_hex\('[0-9A-F]*'\))*)/g,
+      (_, alias: string, column: string, operator: string, values: string) =>
+        `hex(${alias}.${column}) ${operator}${values.replace(/from_hex\(('[0-9A-F]*')\)/g, '$1')}`,
+    )
+    .replace('SELECT t.id\n', 'SELECT hex(t.id) as id\n')
+    .replace('ON t.id = mt.id', 'ON hex(t.id) = mt.id')
+
+// AsyncDuckDB facade over the blocking node bindings. With `legacy` set,
+// statements are rewritten to their hex() form before running.
+const asyncDuckDB = (bindings: DuckDBBindings, legacy: boolean) =>
+  ({
+    connect: () => {
+      const connection = bindings.connect()
+      return Promise.resolve({
+        query: (text: string) =>
+          Promise.resolve(
+            connection.query(legacy ? withHexComparisons(text) : text),
+          ),
+        close: () => Promise.resolve(connection.close()),
+      })
+    },
+  }) as unknown as AsyncDuckDB
+
+// Only the wasm module is loaded, blocking bindings need no worker
+const bundle = (name: 'mvp' | 'eh') => ({
+  mainModule: join(DUCKDB_DIST, `duckdb-${name}.wasm`),
+  mainWorker: join(DUCKDB_DIST, `duckdb-node-${name}.worker.cjs`),
+})
+const db = await createDuckDB(
+  { mvp: bundle('mvp'), eh: bundle('eh') },
+  new VoidLogger(),
+  NODE_RUNTIME,
+)
+const bindings = await db.instantiate()
+
+const catalog = new DatasetCatalog({
+  baseUrl: DATASETS_DIR,
+  partitions: {
+    tags: localPartitions(DATASETS_DIR, 'tags'),
+    transactions: localPartitions(DATASETS_DIR, 'transactions'),
+  },
+})
+const clients = {
+  hex: new ParquetClient(asyncDuckDB(bindings, true), DATASETS_DIR, catalog),
+  binary: new ParquetClient(
+    asyncDuckDB(bindings, false),
+    DATASETS_DIR,
+    catalog,
+  ),
+}
+
+// Sample ids spread over the dataset
+const sampleTransactionIds = async (): Promise<string[]> => {
+  const source = await catalog.getSource('transactions')
+  const connection = bindings.connect()
+  try {
+    return connection
+      .query(
+        `SELECT hex(id) as id FROM ${source.text} USING SAMPLE ${SAMPLE_SIZE} ROWS`,
+      )
+      .toArray()
+      .map((row) => hexToBase64Url(row.toJSON().id))
+  } finally {
+    connection.close()
+  }
+}
+const transactionIds = await sampleTransactionIds()
+
+describe('getTransactionsById', () => {
+  for (const [variant, client] of Object.entries(clients)) {
+    bench(variant, async () => {
+      await client.getTransactionsById(transactionIds)
+    })
+  }
+})
+
+describe('getTransactionsByTags', () => {
+  for (const [variant, client] of Object.entries(clients)) {
+    bench(variant, async () => {
+      await client.getTransactionsByTags([
+        { name: 'Drive-Id', value: DRIVE_ID },
+      ])
+    })
+  }
+})
+
+describe('getTagsByTransactionIds', () => {
+  for (const [variant, client] of Object.entries(clients)) {
+    bench(variant, async () => {
+      await client.getTagsByTransactionIds(transactionIds)
+    })
+  }
+})
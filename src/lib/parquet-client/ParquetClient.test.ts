@@ -0,0 +1,235 @@
+import type { AsyncDuckDB } from '@duckdb/duckdb-wasm'
+import { beforeAll, describe, expect, test, vi } from 'vitest'
+
+import { createLocalDuckDB, localCatalog } from '@/test/duckdb'
+
+import { DatasetCatalog, partitionUrl } from './DatasetCatalog'
+import { ParquetClient } from './ParquetClient'
+
+const BASE_URL = 'http://localhost:4000/local/datasets'
+
+// Fake DuckDB capturing every statement sent through a connection
+const createFakeDb = () => {
+  const statements: string[] = []
+  const db = {
+    connect: vi.fn(() =>
+      Promise.resolve({
+        query: vi.fn((text: string) => {
+          statements.push(text)
+          return Promise.resolve({ toArray: () => [] })
+        }),
+        close: vi.fn(() => Promise.resolve()),
+      }),
+    ),
+  } as unknown as AsyncDuckDB
+
+  return { db, statements }
+}
+
+const createClient = () => {
+  const { db, statements } = createFakeDb()
+  const catalog = new DatasetCatalog({
+    baseUrl: BASE_URL,
+    partitions: {
+      tags: [
+        {
+          dataset: 'tags',
+          minHeight: 1,
+          maxHeight: 10,
+          url: partitionUrl(BASE_URL, 'tags', 1, 10),
+        },
+      ],
+      transactions: [
+        {
+          dataset: 'transactions',
+          minHeight: 1,
+          maxHeight: 10,
+          url: partitionUrl(BASE_URL, 'transactions', 1, 10),
+        },
+      ],
+    },
+  })
+
+  return { client: new ParquetClient(db, BASE_URL, catalog), statements }
+}
+
+describe('ParquetClient', () => {
+  test('escapes hostile tag names in getTagValues', async () => {
+    const { client, statements } = createClient()
+
+    await client.getTagValues("App-Name' OR '1'='1")
+
+    expect(statements[0]).toContain(
+      "CAST(tag_name AS VARCHAR) = 'App-Name'' OR ''1''=''1'",
+    )
+  })
+
+  test('escapes hostile tag values in getTransactionsByTags', async () => {
+    const { client, statements } = createClient()
+
+    await client.getTransactionsByTags([
+      { name: 'Title', value: "'); DROP TABLE tags; --" },
+    ])
+
+    expect(statements[0]).toContain("f.tag_value = '''); DROP TABLE tags; --'")
+  })
+
+  test('compares binary ids instead of hex strings', async () => {
+    const { client, statements } = createClient()
+
+    await client.getTransactionsById(['AAEC'])
+    await client.getTagsByTransactionIds(['AAEC'])
+    await client.getTransactionsByTags([{ name: 'Title' }], { owner: '_w8' })
+
+    expect(statements[0]).toContain("WHERE t.id IN (from_hex('000102'))")
+    expect(statements[1]).toContain("WHERE tags.id IN (from_hex('000102'))")
+    expect(statements[2]).toContain(
+      "AND t.owner_address BETWEEN from_hex('FF0F') AND from_hex('FF0F')",
+    )
+    expect(statements[2]).toContain('ON t.id = mt.id')
+    for (const statement of statements) {
+      expect(statement).not.toMatch(/WHERE hex\(|= hex\(/)
+    }
+  })
+
+  test('rejects ids that are not base64url before querying', async () => {
+    const { client, statements } = createClient()
+
+    await expect(
+      client.getTransactionsByTags([{ name: 'Title' }], { owner: 'not an id' }),
+    ).rejects.toThrow('Invalid base64url id "not an id"')
+    expect(statements).toHaveLength(0)
+  })
+
+  test('rejects ordering by unknown columns', async () => {
+    const { client, statements } = createClient()
+
+    await expect(
+      client.getTransactionsByTags([{ name: 'Title' }], {
+        orderBy: 'height; DROP TABLE tags',
+      }),
+    ).rejects.toThrow()
+    expect(statements).toHaveLength(0)
+  })
+
+  test('selects latest revisions before applying latest filters', async () => {
+    const { client, statements } = createClient()
+
+    await client.getLatestTransactionsByTags(
+      {
+        tagFilters: [{ name: 'Entity-Type', value: 'drive' }],
+        partitionTag: 'Drive-Id',
+        timeTag: 'Unix-Time',
+        latestFilters: [{ name: 'Drive-Privacy', value: 'private' }],
+        minTime: 1700000000,
+      },
+      { limit: 10, offset: 20 },
+    )
+
+    const [page, total] = statements
+    expect(page).toContain('PARTITION BY partition_key')
+    expect(page).toMatch(
+      /revision_rank = 1 AND \(EXISTS .*f\.tag_value = 'private'.* AND l\.revision_time >= 1700000000/s,
+    )
+    expect(page).toContain('LIMIT 10 OFFSET 20')
+    expect(total).toContain('SELECT COUNT(*) as total FROM latest')
+  })
+
+  test('rejects invalid and mismatched pagination cursors', async () => {
+    const { client, statements } = createClient()
+    const query = {
+      tagFilters: [{ name: 'Entity-Type', value: 'drive' }],
+      partitionTag: 'Drive-Id',
+    }
+    const cursor = btoa(
+      JSON.stringify({
+        orderBy: 'height',
+        direction: 'DESC',
+        keys: ['10', '0', 'ABCD'],
+      }),
+    )
+
+    await expect(
+      client.getLatestTransactionsByTags(query, { cursor: "x' OR 1=1" }),
+    ).rejects.toThrow('Invalid pagination cursor')
+    await expect(
+      client.getLatestTransactionsByTags(query, { cursor, orderBy: 'time' }),
+    ).rejects.toThrow()
+    expect(statements).toHaveLength(0)
+
+    await client.getLatestTransactionsByTags(query, { cursor })
+    expect(statements[0]).toContain("l.id < from_hex('ABCD')")
+    expect(statements[0]).not.toContain('OFFSET')
+  })
+
+  test('counts latest revisions per tag value', async () => {
+    const { client, statements } = createClient()
+
+    await client.countLatestByTag(
+      {
+        tagFilters: [{ name: 'Entity-Type', value: 'drive' }],
+        partitionTag: 'Drive-Id',
+      },
+      'Drive-Privacy',
+    )
+
+    expect(statements[0]).toContain("g.tag_name = 'Drive-Privacy'")
+    expect(statements[0]).toContain('GROUP BY g.tag_value')
+  })
+
+  test('rejects non-integer limits', async () => {
+    const { client } = createClient()
+
+    await expect(client.getTagNames(Number.NaN)).rejects.toThrow()
+  })
+})
+
+describe('ParquetClient over the fixture datasets', () => {
+  // Signs every transaction of the fixtures
+  const OWNER = '_aB9gXXg0tHjmmKqbm7Tk1R1PTWbazvVuZwvCGlDM0g'
+  const OTHER = 'o'.repeat(43)
+
+  let client: ParquetClient
+  beforeAll(async () => {
+    client = new ParquetClient(
+      await createLocalDuckDB(),
+      'fixtures',
+      localCatalog(),
+    )
+  })
+
+  test('filters transactions by owner address', async () => {
+    const drives = [{ name: 'Entity-Type', value: 'drive' }]
+
+    const owned = await client.getTransactionsByTags(drives, { owner: OWNER })
+    expect(owned.length).toBeGreaterThan(0)
+    expect(owned.every((tx) => tx.owner_address === OWNER)).toBe(true)
+
+    expect(
+      await client.getTransactionsByTags(drives, { owner: OTHER }),
+    ).toEqual([])
+  })
+
+  test('selects the latest folder revisions of an owner', async () => {
+    const query = {
+      tagFilters: [{ name: 'Entity-Type', value: 'folder' }],
+      partitionTag: 'Folder-Id',
+      timeTag: 'Unix-Time',
+    }
+
+    const owned = await client.getLatestTransactionsByTags({
+      ...query,
+      owner: OWNER,
+    })
+    expect(owned.total).toBeGreaterThan(0)
+    expect(owned.total).toBe(
+      (await client.getLatestTransactionsByTags(query)).total,
+    )
+
+    const other = await client.getLatestTransactionsByTags({
+      ...query,
+      owner: OTHER,
+    })
+    expect(other.total).toBe(0)
+  })
+})
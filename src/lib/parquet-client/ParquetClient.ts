@@ -2,35 +2,179 @@ import type { AsyncDuckDB } from '@duckdb/duckdb-wasm'
 
 import { type Logger, createLogger } from '@/lib/logger'
 
+import { DatasetCatalog } from './DatasetCatalog'
+import {
+  EMPTY_SQL,
+  type SqlFragment,
+  blob,
+  count,
+  join,
+  orderBy as orderByClause,
+  raw,
+  sql,
+} from './sql'
 import type {
   ArweaveTag,
   ArweaveTransaction,
+  HeightRange,
+  LatestRevisionOptions,
+  LatestRevisionPage,
+  LatestRevisionQuery,
   QueryOptions,
   TagFilter,
+  TagFilterExpression,
   TransactionWithTags,
 } from './types'
 import { base64UrlToHex, buildTagFilters, hexToBase64Url } from './utils'
 
+// Ids and owners are stored as bytes. A malformed one fails with its value
+// named, rather than whatever the hex conversion fell back to.
+const binaryId = (id: string): SqlFragment => {
+  if (!/^[a-zA-Z0-9_-]+$/.test(id)) {
+    throw new Error(`Invalid base64url id "${id}"`)
+  }
+  return blob(base64UrlToHex(id))
+}
+
+// Columns of the transactions dataset that results can be ordered by
+const ORDERABLE_COLUMNS = [
+  'height',
+  'indexed_at',
+  'block_transaction_index',
+  'data_size',
+  'quantity',
+  'reward',
+  'offset',
+  'size',
+] as const
+
+// Columns of latest revision queries that results can be ordered by
+const LATEST_ORDERABLE_COLUMNS = ['height', 'revision_time', 'id'] as const
+
+// Transaction columns with binary ids as hex, selected from alias `t`
+const TRANSACTION_COLUMNS = raw(`
+  hex(t.id) as id,
+  t.indexed_at,
+  t.block_transaction_index,
+  t.is_data_item,
+  hex(t.target) as target,
+  t.quantity,
+  t.reward,
+  hex(t.anchor) as anchor,
+  t.data_size,
+  t.content_type,
+  t.format,
+  t.height,
+  hex(t.owner_address) as owner_address,
+  hex(t.data_root) as data_root,
+  hex(t.parent) as parent,
+  t.offset,
+  t.size,
+  t.data_offset,
+  t.owner_offset,
+  t.owner_size,
+  hex(t.owner) as owner,
+  t.signature_offset,
+  t.signature_size,
+  t.signature_type,
+  hex(t.root_transaction_id) as root_transaction_id,
+  t.root_parent_offset
+`)
+
+// Keyset position after the last entity of a page: order, direction and
+// the values of the ordering columns
+interface LatestRevisionCursor {
+  orderBy: 'height' | 'time'
+  direction: 'ASC' | 'DESC'
+  keys: [string, string, string]
+}
+
+const encodeCursor = (cursor: LatestRevisionCursor): string =>
+  btoa(JSON.stringify(cursor))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+const decodeCursor = (value: string): LatestRevisionCursor => {
+  try {
+    const cursor = JSON.parse(
+      atob(value.replace(/-/g, '+').replace(/_/g, '/')),
+    ) as LatestRevisionCursor
+    const [primary, secondary, id] = cursor.keys
+    if (
+      /^-?\d+$/.test(primary) &&
+      /^-?\d+$/.test(secondary) &&
+      /^(?:[0-9A-F]{2})+$/i.test(id)
+    ) {
+      return cursor
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Invalid pagination cursor')
+}
+
 export class ParquetClient {
   private db: AsyncDuckDB
-  private baseUrl: string
+  private catalog: DatasetCatalog
   private logger: Logger
 
   constructor(
     db: AsyncDuckDB,
     baseUrl = 'http://localhost:4000/local/datasets',
+    catalog?: DatasetCatalog,
   ) {
     this.db = db
-    this.baseUrl = baseUrl
+    this.catalog = catalog ?? new DatasetCatalog({ baseUrl })
     this.logger = createLogger('ParquetClient')
   }
 
-  private get tagsPath(): string {
-    return `'${this.baseUrl}/tags/data/height%3D911404-1094394/tags.parquet'`
+  /**
+   * The dataset catalog backing this client
+   */
+  getCatalog(): DatasetCatalog {
+    return this.catalog
   }
 
-  private get transactionsPath(): string {
-    return `'${this.baseUrl}/transactions/data/height%3D911404-1094394/transactions.parquet'`
+  private tagsPath(range: HeightRange = {}): Promise<SqlFragment> {
+    return this.catalog.getSource('tags', range)
+  }
+
+  private transactionsPath(range: HeightRange = {}): Promise<SqlFragment> {
+    return this.catalog.getSource('transactions', range)
+  }
+
+  // Row-level height predicate, partitions only bound the range coarsely
+  private heightFilter(
+    alias: 't' | 'tags',
+    { minHeight, maxHeight }: HeightRange,
+  ): SqlFragment {
+    const column = raw(`${alias}.height`)
+    const conditions: SqlFragment[] = []
+    if (minHeight !== undefined) {
+      conditions.push(sql`AND ${column} >= ${Math.floor(minHeight)}`)
+    }
+    if (maxHeight !== undefined) {
+      conditions.push(sql`AND ${column} <= ${Math.floor(maxHeight)}`)
+    }
+    return join(conditions, ' ')
+  }
+
+  /**
+   * Rows signed by a wallet address. `owner` holds the signer's public key,
+   * so this reads `owner_address`. Its equality test would be checked
+   * against the column's bloom filter, which never matches in the datasets
+   * and skips every row group, a range is only checked against min/max
+   * statistics.
+   */
+  private ownerFilter(alias: 't', owner?: string): SqlFragment {
+    if (!owner) return EMPTY_SQL
+    const address = binaryId(owner)
+    return sql`AND ${raw(`${alias}.owner_address`)} BETWEEN ${address} AND ${address}`
+  }
+
+  private orderBy(column: string, direction: string): SqlFragment {
+    return orderByClause('t', column, direction, ORDERABLE_COLUMNS)
   }
 
   /**
@@ -49,57 +193,34 @@ export class ParquetClient {
 
     this.logger.info(`Fetching ${transactionIds.length} transactions by ID`)
 
-    // Convert base64url IDs to hex for querying
-    const hexIds = transactionIds.map((id) => base64UrlToHex(id))
-    const hexIdsList = hexIds.map((hex) => `'${hex}'`).join(', ')
+    // Compare binary ids so the predicate reaches parquet statistics
+    const binaryIds = transactionIds.map(binaryId)
 
     const {
       limit = 100,
       offset = 0,
       orderBy = 'height',
       orderDirection = 'DESC',
+      minHeight,
+      maxHeight,
     } = options
-
-    const sql = `
-      SELECT 
-        hex(t.id) as id,
-        t.indexed_at,
-        t.block_transaction_index,
-        t.is_data_item,
-        hex(t.target) as target,
-        t.quantity,
-        t.reward,
-        hex(t.anchor) as anchor,
-        t.data_size,
-        t.content_type,
-        t.format,
-        t.height,
-        hex(t.owner_address) as owner_address,
-        hex(t.data_root) as data_root,
-        hex(t.parent) as parent,
-        t.offset,
-        t.size,
-        t.data_offset,
-        t.owner_offset,
-        t.owner_size,
-        hex(t.owner) as owner,
-        t.signature_offset,
-        t.signature_size,
-        t.signature_type,
-        hex(t.root_transaction_id) as root_transaction_id,
-        t.root_parent_offset
-      FROM ${this.transactionsPath} as t
-      WHERE hex(t.id) IN (${hexIdsList})
-      ORDER BY t.${orderBy} ${orderDirection}
-      LIMIT ${limit} OFFSET ${offset}
+    const range = { minHeight, maxHeight }
+    const transactionsPath = await this.transactionsPath(range)
+
+    const query = sql`
+      SELECT ${TRANSACTION_COLUMNS}
+      FROM ${transactionsPath} as t
+      WHERE t.id IN (${binaryIds}) ${this.heightFilter('t', range)}
+      ORDER BY ${this.orderBy(orderBy, orderDirection)}
+      LIMIT ${count(limit)} OFFSET ${count(offset)}
     `
 
     this.logger.time('getTransactionsById')
-    this.logger.query(sql, undefined, { transactionIds, options })
+    this.logger.query(query.text, undefined, { transactionIds, options })
 
     const connection = await this.db.connect()
     try {
-      const result = await connection.query(sql)
+      const result = await connection.query(query.text)
       const rows = result.toArray().map((row) => row.toJSON())
 
       this.logger.info(`Found ${rows.length} transactions`)
@@ -130,13 +251,14 @@ export class ParquetClient {
   }
 
   /**
-   * Get transactions by tag filters
+   * Get transactions by tag filters. An array of filters must all match,
+   * use an expression for any-of / none-of combinations.
    */
   async getTransactionsByTags(
-    tagFilters: TagFilter[],
+    tagFilters: TagFilter[] | TagFilterExpression,
     options: QueryOptions & { owner?: string } = {},
   ): Promise<TransactionWithTags[]> {
-    if (tagFilters.length === 0) {
+    if (Array.isArray(tagFilters) && tagFilters.length === 0) {
       this.logger.error('No tag filters provided')
       throw new Error('At least one tag filter is required')
     }
@@ -149,143 +271,65 @@ export class ParquetClient {
       orderBy = 'height',
       orderDirection = 'DESC',
       owner,
+      minHeight,
+      maxHeight,
     } = options
+    const range = { minHeight, maxHeight }
+    const [transactionsPath, tagsPath] = await Promise.all([
+      this.transactionsPath(range),
+      this.tagsPath(range),
+    ])
+
+    const whereClause = raw(
+      buildTagFilters(tagFilters, { tags: raw('tag_rows'), id: raw('t.id') }),
+    )
 
-    const whereClause = buildTagFilters(tagFilters)
-
-    // Add owner filter if provided
-    const ownerFilter = owner
-      ? `AND hex(t.owner) = '${base64UrlToHex(owner)}'`
-      : ''
-
-    // First, find transaction IDs that match our tag criteria
-    const matchingTxSql = `
-      SELECT DISTINCT hex(t.id) as id
-      FROM ${this.transactionsPath} as t
-      JOIN ${this.tagsPath} as tags ON tags.id = t.id
-      WHERE ${whereClause} ${ownerFilter}
-      ORDER BY t.${orderBy} ${orderDirection}
-      LIMIT ${limit} OFFSET ${offset}
+    const order = this.orderBy(orderBy, orderDirection)
+
+    // First, find transaction IDs whose tags satisfy the filter expression
+    const matchingTxSql = sql`
+      SELECT t.id
+      FROM ${transactionsPath} as t
+      WHERE ${whereClause} ${this.ownerFilter('t', owner)} ${this.heightFilter('t', range)}
+      ORDER BY ${order}
+      LIMIT ${count(limit)} OFFSET ${count(offset)}
     `
 
     // Then get all transaction data and ALL tags for those transactions
-    const sql = `
-      WITH matching_transactions AS (
+    const query = sql`
+      WITH tag_rows AS (
+        SELECT
+          id,
+          CAST(tag_name AS VARCHAR) as tag_name,
+          CAST(tag_value AS VARCHAR) as tag_value
+        FROM ${tagsPath}
+      ),
+      matching_transactions AS (
         ${matchingTxSql}
       )
-      SELECT 
-        hex(t.id) as id,
-        t.indexed_at,
-        t.block_transaction_index,
-        t.is_data_item,
-        hex(t.target) as target,
-        t.quantity,
-        t.reward,
-        hex(t.anchor) as anchor,
-        t.data_size,
-        t.content_type,
-        t.format,
-        t.height,
-        hex(t.owner_address) as owner_address,
-        hex(t.data_root) as data_root,
-        hex(t.parent) as parent,
-        t.offset,
-        t.size,
-        t.data_offset,
-        t.owner_offset,
-        t.owner_size,
-        hex(t.owner) as owner,
-        t.signature_offset,
-        t.signature_size,
-        t.signature_type,
-        hex(t.root_transaction_id) as root_transaction_id,
-        t.root_parent_offset,
+      SELECT
+        ${TRANSACTION_COLUMNS},
         -- Include ALL tag information for matching transactions
         all_tags.tag_index,
         CAST(all_tags.tag_name AS VARCHAR) as tag_name,
         CAST(all_tags.tag_value AS VARCHAR) as tag_value
       FROM matching_transactions mt
-      JOIN ${this.transactionsPath} as t ON hex(t.id) = mt.id
-      JOIN ${this.tagsPath} as all_tags ON all_tags.id = t.id
-      ORDER BY t.${orderBy} ${orderDirection}, all_tags.tag_index
+      JOIN ${transactionsPath} as t ON t.id = mt.id
+      JOIN ${tagsPath} as all_tags ON all_tags.id = t.id
+      ORDER BY ${order}, all_tags.tag_index
     `
 
     this.logger.time('getTransactionsByTags')
-    this.logger.query(sql, undefined, { tagFilters, options })
+    this.logger.query(query.text, undefined, { tagFilters, options })
 
     const connection = await this.db.connect()
     try {
-      const result = await connection.query(sql)
+      const result = await connection.query(query.text)
       const rows = result.toArray().map((row) => row.toJSON())
 
       this.logger.info(`Found ${rows.length} transaction-tag rows`)
 
-      // Group rows by transaction ID since we now get multiple rows per transaction
-      const transactionMap = new Map<string, any>()
-      const tagsByTxId = new Map<string, ArweaveTag[]>()
-
-      rows.forEach((row) => {
-        const txId = hexToBase64Url(row.id)
-        // Store transaction data (only once per transaction)
-        if (!transactionMap.has(txId)) {
-          transactionMap.set(txId, {
-            id: txId,
-            indexed_at: row.indexed_at,
-            block_transaction_index: row.block_transaction_index,
-            is_data_item: row.is_data_item,
-            target: row.target ? hexToBase64Url(row.target) : undefined,
-            quantity: row.quantity,
-            reward: row.reward,
-            anchor: row.anchor ? hexToBase64Url(row.anchor) : undefined,
-            data_size: row.data_size,
-            content_type: row.content_type,
-            format: row.format,
-            height: row.height,
-            owner_address: row.owner_address
-              ? hexToBase64Url(row.owner_address)
-              : undefined,
-            data_root: row.data_root
-              ? hexToBase64Url(row.data_root)
-              : undefined,
-            parent: row.parent ? hexToBase64Url(row.parent) : undefined,
-            offset: row.offset,
-            size: row.size,
-            data_offset: row.data_offset,
-            owner_offset: row.owner_offset,
-            owner_size: row.owner_size,
-            owner: hexToBase64Url(row.owner),
-            signature_offset: row.signature_offset,
-            signature_size: row.signature_size,
-            signature_type: row.signature_type,
-            root_transaction_id: row.root_transaction_id
-              ? hexToBase64Url(row.root_transaction_id)
-              : undefined,
-            root_parent_offset: row.root_parent_offset,
-          })
-        }
-
-        // Store tag data
-        if (!tagsByTxId.has(txId)) {
-          tagsByTxId.set(txId, [])
-        }
-        tagsByTxId.get(txId)!.push({
-          id: txId,
-          tag_index: row.tag_index,
-          tag_name: row.tag_name,
-          tag_value: row.tag_value,
-          indexed_at: row.indexed_at,
-          is_data_item: row.is_data_item,
-          height: row.height,
-        })
-      })
-
-      // Combine transactions with their tags
-      const enrichedTransactions = Array.from(transactionMap.values()).map(
-        (transaction) => ({
-          ...transaction,
-          tags: tagsByTxId.get(transaction.id) || [],
-        }),
-      ) as TransactionWithTags[]
+      const enrichedTransactions = this.groupTransactionRows(rows)
 
       this.logger.info(
         `Processed ${enrichedTransactions.length} unique transactions with tags`,
@@ -313,11 +357,338 @@ export class ParquetClient {
     }
   }
 
+  /**
+   * Get the latest revision of entities identified by a tag, one page at a
+   * time. Revisions are ranked per entity in SQL so pages and totals are
+   * exact no matter how many revisions an entity has. Pages continue from
+   * `cursor` when given, from `offset` otherwise.
+   */
+  async getLatestTransactionsByTags(
+    query: LatestRevisionQuery,
+    options: LatestRevisionOptions = {},
+  ): Promise<LatestRevisionPage> {
+    this.logger.info('Fetching latest revisions by tags', { query, options })
+
+    const {
+      limit = 100,
+      offset = 0,
+      cursor,
+      orderBy = 'height',
+      orderDirection = 'DESC',
+      minHeight,
+      maxHeight,
+    } = options
+    const range = { minHeight, maxHeight }
+    const [transactionsPath, tagsPath] = await Promise.all([
+      this.transactionsPath(range),
+      this.tagsPath(range),
+    ])
+    const latest = this.latestRevisions(
+      query,
+      range,
+      transactionsPath,
+      tagsPath,
+    )
+
+    // Entity ids break ties so every revision has a stable position
+    const columns: [string, string] =
+      orderBy === 'time'
+        ? ['revision_time', 'height']
+        : ['height', 'revision_time']
+    const order = (alias: string) =>
+      join(
+        [...columns, 'id'].map((column) =>
+          orderByClause(
+            alias,
+            column,
+            orderDirection,
+            LATEST_ORDERABLE_COLUMNS,
+          ),
+        ),
+      )
+
+    let position = sql`OFFSET ${count(offset)}`
+    let after = EMPTY_SQL
+    if (cursor) {
+      const { keys, ...cursorOrder } = decodeCursor(cursor)
+      if (
+        cursorOrder.orderBy !== orderBy ||
+        cursorOrder.direction !== orderDirection
+      ) {
+        throw new Error('Pagination cursor belongs to a different ordering')
+      }
+      const [primary, secondary] = columns.map((column) => raw(`l.${column}`))
+      const [primaryKey, secondaryKey, idKey] = keys
+      const compare = raw(orderDirection === 'DESC' ? '<' : '>')
+      after = sql`AND (
+        ${primary} ${compare} ${BigInt(primaryKey)}
+        OR (${primary} = ${BigInt(primaryKey)} AND ${secondary} ${compare} ${BigInt(secondaryKey)})
+        OR (${primary} = ${BigInt(primaryKey)} AND ${secondary} = ${BigInt(secondaryKey)} AND l.id ${compare} ${blob(idKey)})
+      )`
+      position = EMPTY_SQL
+    }
+
+    const pageQuery = sql`
+      WITH ${latest},
+      page AS (
+        SELECT l.id, l.height, l.revision_time
+        FROM latest l
+        WHERE TRUE ${after}
+        ORDER BY ${order('l')}
+        LIMIT ${count(limit)} ${position}
+      )
+      SELECT
+        ${TRANSACTION_COLUMNS},
+        page.revision_time,
+        all_tags.tag_index,
+        CAST(all_tags.tag_name AS VARCHAR) as tag_name,
+        CAST(all_tags.tag_value AS VARCHAR) as tag_value
+      FROM page
+      JOIN ${transactionsPath} as t ON t.id = page.id
+      JOIN ${tagsPath} as all_tags ON all_tags.id = t.id
+      ORDER BY ${order('page')}, all_tags.tag_index
+    `
+    const totalQuery = sql`
+      WITH ${latest}
+      SELECT COUNT(*) as total FROM latest
+    `
+
+    this.logger.time('getLatestTransactionsByTags')
+    this.logger.query(pageQuery.text, undefined, { query, options })
+
+    const connection = await this.db.connect()
+    try {
+      const rows = (await connection.query(pageQuery.text))
+        .toArray()
+        .map((row) => row.toJSON())
+      const [totalRow] = (await connection.query(totalQuery.text))
+        .toArray()
+        .map((row) => row.toJSON())
+
+      const transactions = this.groupTransactionRows(rows)
+      const total = Number(totalRow?.total ?? 0)
+
+      // Rows are in page order, the last one belongs to the last entity
+      const last = rows[rows.length - 1]
+      const nextCursor =
+        last && transactions.length === limit
+          ? encodeCursor({
+              orderBy,
+              direction: orderDirection,
+              keys: [
+                String(last[columns[0]]),
+                String(last[columns[1]]),
+                last.id,
+              ],
+            })
+          : undefined
+
+      this.logger.info(
+        `Found ${transactions.length} of ${total} latest revisions`,
+      )
+
+      return { transactions, total, nextCursor }
+    } catch (error) {
+      this.logger.error('Failed to fetch latest revisions by tags', error)
+      throw error
+    } finally {
+      this.logger.timeEnd('getLatestTransactionsByTags')
+      await connection.close()
+    }
+  }
+
+  /**
+   * Count latest revisions per value of a tag, e.g. drives per privacy.
+   * Revisions without the tag are not counted.
+   */
+  async countLatestByTag(
+    query: LatestRevisionQuery,
+    groupTag: string,
+    range: HeightRange = {},
+  ): Promise<Record<string, number>> {
+    const [transactionsPath, tagsPath] = await Promise.all([
+      this.transactionsPath(range),
+      this.tagsPath(range),
+    ])
+
+    const countQuery = sql`
+      WITH ${this.latestRevisions(query, range, transactionsPath, tagsPath)}
+      SELECT g.tag_value as value, COUNT(*) as total
+      FROM latest l
+      JOIN tag_rows g ON g.id = l.id AND g.tag_name = ${groupTag}
+      GROUP BY g.tag_value
+      ORDER BY total DESC
+    `
+
+    this.logger.query(countQuery.text, undefined, { query, groupTag })
+
+    const connection = await this.db.connect()
+    try {
+      const result = await connection.query(countQuery.text)
+      const rows = result.toArray().map((row) => row.toJSON())
+      return Object.fromEntries(
+        rows.map((row) => [row.value, Number(row.total)]),
+      )
+    } catch (error) {
+      this.logger.error(
+        `Failed to count latest revisions by ${groupTag}`,
+        error,
+      )
+      throw error
+    } finally {
+      await connection.close()
+    }
+  }
+
+  // Common table expressions ending in `latest` (id, height, revision_time),
+  // the latest revision of every entity. Revisions are ranked by height,
+  // then by their time tag and id.
+  private latestRevisions(
+    {
+      tagFilters,
+      partitionTag,
+      timeTag,
+      owner,
+      latestFilters,
+      minTime,
+      maxTime,
+    }: LatestRevisionQuery,
+    range: HeightRange,
+    transactionsPath: SqlFragment,
+    tagsPath: SqlFragment,
+  ): SqlFragment {
+    if (Array.isArray(tagFilters) && tagFilters.length === 0) {
+      throw new Error('At least one tag filter is required')
+    }
+
+    const tagRows = raw('tag_rows')
+    const revisionFilter = raw(
+      buildTagFilters(tagFilters, { tags: tagRows, id: raw('t.id') }),
+    )
+    const timeJoin = timeTag
+      ? sql`LEFT JOIN tag_rows rt ON rt.id = t.id AND rt.tag_name = ${timeTag}`
+      : EMPTY_SQL
+    const time = timeTag
+      ? raw('COALESCE(TRY_CAST(rt.tag_value AS BIGINT), 0)')
+      : raw('0')
+
+    const latestConditions: SqlFragment[] = []
+    if (latestFilters) {
+      latestConditions.push(
+        sql`AND ${raw(buildTagFilters(latestFilters, { tags: tagRows, id: raw('l.id') }))}`,
+      )
+    }
+    if (minTime !== undefined) {
+      latestConditions.push(sql`AND l.revision_time >= ${Math.floor(minTime)}`)
+    }
+    if (maxTime !== undefined) {
+      latestConditions.push(sql`AND l.revision_time <= ${Math.floor(maxTime)}`)
+    }
+
+    return sql`
+      tag_rows AS (
+        SELECT
+          id,
+          CAST(tag_name AS VARCHAR) as tag_name,
+          CAST(tag_value AS VARCHAR) as tag_value
+        FROM ${tagsPath}
+      ),
+      revisions AS (
+        SELECT t.id, t.height, k.tag_value as partition_key, ${time} as revision_time
+        FROM ${transactionsPath} as t
+        JOIN tag_rows k ON k.id = t.id AND k.tag_name = ${partitionTag}
+        ${timeJoin}
+        WHERE ${revisionFilter} ${this.ownerFilter('t', owner)} ${this.heightFilter('t', range)}
+      ),
+      ranked AS (
+        SELECT
+          *,
+          ROW_NUMBER() OVER (
+            PARTITION BY partition_key
+            ORDER BY height DESC, revision_time DESC, id DESC
+          ) as revision_rank
+        FROM revisions
+      ),
+      latest AS (
+        SELECT l.id, l.height, l.revision_time
+        FROM ranked l
+        WHERE l.revision_rank = 1 ${join(latestConditions, ' ')}
+      )
+    `
+  }
+
+  // Rows hold one tag each, fold them into transactions with their tags
+  private groupTransactionRows(rows: any[]): TransactionWithTags[] {
+    // Group rows by transaction ID since we now get multiple rows per transaction
+    const transactionMap = new Map<string, any>()
+    const tagsByTxId = new Map<string, ArweaveTag[]>()
+
+    rows.forEach((row) => {
+      const txId = hexToBase64Url(row.id)
+      // Store transaction data (only once per transaction)
+      if (!transactionMap.has(txId)) {
+        transactionMap.set(txId, {
+          id: txId,
+          indexed_at: row.indexed_at,
+          block_transaction_index: row.block_transaction_index,
+          is_data_item: row.is_data_item,
+          target: row.target ? hexToBase64Url(row.target) : undefined,
+          quantity: row.quantity,
+          reward: row.reward,
+          anchor: row.anchor ? hexToBase64Url(row.anchor) : undefined,
+          data_size: row.data_size,
+          content_type: row.content_type,
+          format: row.format,
+          height: row.height,
+          owner_address: row.owner_address
+            ? hexToBase64Url(row.owner_address)
+            : undefined,
+          data_root: row.data_root ? hexToBase64Url(row.data_root) : undefined,
+          parent: row.parent ? hexToBase64Url(row.parent) : undefined,
+          offset: row.offset,
+          size: row.size,
+          data_offset: row.data_offset,
+          owner_offset: row.owner_offset,
+          owner_size: row.owner_size,
+          owner: hexToBase64Url(row.owner),
+          signature_offset: row.signature_offset,
+          signature_size: row.signature_size,
+          signature_type: row.signature_type,
+          root_transaction_id: row.root_transaction_id
+            ? hexToBase64Url(row.root_transaction_id)
+            : undefined,
+          root_parent_offset: row.root_parent_offset,
+        })
+      }
+
+      // Store tag data
+      if (!tagsByTxId.has(txId)) {
+        tagsByTxId.set(txId, [])
+      }
+      tagsByTxId.get(txId)!.push({
+        id: txId,
+        tag_index: row.tag_index,
+        tag_name: row.tag_name,
+        tag_value: row.tag_value,
+        indexed_at: row.indexed_at,
+        is_data_item: row.is_data_item,
+        height: row.height,
+      })
+    })
+
+    // Combine transactions with their tags
+    return Array.from(transactionMap.values()).map((transaction) => ({
+      ...transaction,
+      tags: tagsByTxId.get(transaction.id) || [],
+    })) as TransactionWithTags[]
+  }
+
   /**
    * Get tags for specific transaction IDs
    */
   async getTagsByTransactionIds(
     transactionIds: string[],
+    range: HeightRange = {},
   ): Promise<ArweaveTag[]> {
     if (transactionIds.length === 0) {
       this.logger.debug('No transaction IDs provided for tag lookup')
@@ -328,10 +699,10 @@ export class ParquetClient {
       `Looking up tags for ${transactionIds.length} transactions`,
     )
 
-    const hexIds = transactionIds.map((id) => base64UrlToHex(id))
-    const hexIdsList = hexIds.map((hex) => `'${hex}'`).join(', ')
+    const binaryIds = transactionIds.map(binaryId)
+    const tagsPath = await this.tagsPath(range)
 
-    const sql = `
+    const query = sql`
       SELECT 
         tags.height,
         hex(tags.id) as id,
@@ -340,17 +711,17 @@ export class ParquetClient {
         CAST(tags.tag_name AS VARCHAR) as tag_name,
         CAST(tags.tag_value AS VARCHAR) as tag_value,
         tags.is_data_item
-      FROM ${this.tagsPath} as tags
-      WHERE hex(tags.id) IN (${hexIdsList})
+      FROM ${tagsPath} as tags
+      WHERE tags.id IN (${binaryIds}) ${this.heightFilter('tags', range)}
       ORDER BY tags.id, tags.tag_index
     `
 
     this.logger.time('getTagsByTransactionIds')
-    this.logger.query(sql, undefined, { transactionIds, hexIds })
+    this.logger.query(query.text, undefined, { transactionIds })
 
     const connection = await this.db.connect()
     try {
-      const result = await connection.query(sql)
+      const result = await connection.query(query.text)
       const rows = result.toArray().map((row) => row.toJSON())
 
       this.logger.info(
@@ -385,16 +756,16 @@ export class ParquetClient {
    * Get all unique tag names
    */
   async getTagNames(limit = 100): Promise<string[]> {
-    const sql = `
+    const query = sql`
       SELECT DISTINCT CAST(tag_name AS VARCHAR) as tag_name
-      FROM ${this.tagsPath}
+      FROM ${await this.tagsPath()}
       ORDER BY tag_name
-      LIMIT ${limit}
+      LIMIT ${count(limit)}
     `
 
     const connection = await this.db.connect()
     try {
-      const result = await connection.query(sql)
+      const result = await connection.query(query.text)
       const rows = result.toArray().map((row) => row.toJSON())
       return rows.map((row) => row.tag_name)
     } finally {
@@ -406,17 +777,17 @@ export class ParquetClient {
    * Get tag values for a specific tag name
    */
   async getTagValues(tagName: string, limit = 100): Promise<string[]> {
-    const sql = `
+    const query = sql`
       SELECT DISTINCT CAST(tag_value AS VARCHAR) as tag_value
-      FROM ${this.tagsPath}
-      WHERE CAST(tag_name AS VARCHAR) = '${tagName}'
+      FROM ${await this.tagsPath()}
+      WHERE CAST(tag_name AS VARCHAR) = ${tagName}
       ORDER BY tag_value
-      LIMIT ${limit}
+      LIMIT ${count(limit)}
     `
 
     const connection = await this.db.connect()
     try {
-      const result = await connection.query(sql)
+      const result = await connection.query(query.text)
       const rows = result.toArray().map((row) => row.toJSON())
       return rows.map((row) => row.tag_value)
     } finally {
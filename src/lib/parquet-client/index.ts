@@ -1,12 +1,26 @@
 // Parquet Client - ORM for querying Arweave parquet data
 
 export { ParquetClient } from './ParquetClient'
+export {
+  DatasetCatalog,
+  parsePartitions,
+  partitionUrl,
+  prunePartitions,
+} from './DatasetCatalog'
 export type {
   ArweaveTransaction,
   ArweaveTag,
   TagFilter,
+  TagFilterExpression,
+  HeightRange,
+  LatestRevisionOptions,
+  LatestRevisionPage,
+  LatestRevisionQuery,
   QueryOptions,
   TransactionWithTags,
+  DatasetName,
+  DatasetPartition,
+  DatasetCatalogOptions,
 } from './types'
 export {
   hexToBase64Url,
@@ -14,3 +28,17 @@ export {
   processArrowResult,
   buildTagFilters,
 } from './utils'
+export {
+  SqlFragment,
+  blob,
+  containsPattern,
+  escapeLike,
+  escapeString,
+  identifier,
+  join,
+  literal,
+  prefixPattern,
+  raw,
+  sql,
+} from './sql'
+export type { SqlValue } from './sql'
@@ -0,0 +1,196 @@
+import { describe, expect, test } from 'vitest'
+
+import {
+  blob,
+  containsPattern,
+  escapeString,
+  identifier,
+  literal,
+  orderBy,
+  raw,
+  sql,
+} from './sql'
+import { buildTagFilters } from './utils'
+
+const HOSTILE_VALUES = [
+  "O'Brien",
+  "'; DROP TABLE tags; --",
+  "x' OR '1'='1",
+  "\\' OR 1=1 --",
+  "''''",
+  '%_\\',
+  'emoji 🚀 and "double" quotes',
+]
+
+// Strip every well-formed single quoted literal, what remains must not
+// contain a quote or the statement terminator from the hostile value
+const stripLiterals = (text: string) => text.replace(/'(?:[^']|'')*'/g, '?')
+
+describe('escapeString', () => {
+  test('doubles single quotes', () => {
+    expect(escapeString("O'Brien")).toBe("'O''Brien'")
+  })
+
+  test('rejects NUL characters', () => {
+    expect(() => escapeString('a\0b')).toThrow()
+  })
+
+  test.each(HOSTILE_VALUES)('keeps %j inside a single literal', (value) => {
+    expect(stripLiterals(escapeString(value))).toBe('?')
+  })
+})
+
+describe('sql template', () => {
+  test('escapes interpolated strings', () => {
+    const query = sql`SELECT * FROM t WHERE name = ${"'; DROP TABLE t; --"}`
+    expect(query.text).toBe(
+      "SELECT * FROM t WHERE name = '''; DROP TABLE t; --'",
+    )
+  })
+
+  test('renders arrays as comma separated literals', () => {
+    expect(sql`IN (${['a', "b'c", 3]})`.text).toBe("IN ('a', 'b''c', 3)")
+  })
+
+  test('splices fragments verbatim', () => {
+    const source = raw("read_parquet('x.parquet')")
+    expect(sql`FROM ${source}`.text).toBe("FROM read_parquet('x.parquet')")
+  })
+
+  test('rejects non-finite numbers', () => {
+    expect(() => literal(NaN)).toThrow()
+    expect(() => literal(Infinity)).toThrow()
+  })
+})
+
+describe('identifier and orderBy', () => {
+  test('quotes identifiers', () => {
+    expect(identifier('we"ird').text).toBe('"we""ird"')
+  })
+
+  test('rejects columns outside the allow-list', () => {
+    expect(() =>
+      orderBy('t', 'height; DROP TABLE t', 'DESC', ['height']),
+    ).toThrow()
+  })
+
+  test('rejects unknown directions', () => {
+    expect(() => orderBy('t', 'height', 'DESC; --', ['height'])).toThrow()
+  })
+
+  test('renders allowed columns', () => {
+    expect(orderBy('t', 'height', 'asc', ['height']).text).toBe(
+      '"t"."height" ASC',
+    )
+  })
+})
+
+describe('containsPattern', () => {
+  test('escapes LIKE wildcards', () => {
+    expect(containsPattern('100%_off').text).toBe(
+      "'%100\\%\\_off%' ESCAPE '\\'",
+    )
+  })
+})
+
+describe('blob', () => {
+  test('renders hex as an uppercase BLOB literal', () => {
+    expect(blob('0a1b').text).toBe("from_hex('0A1B')")
+  })
+
+  test.each(['abc', "00') OR TRUE --", 'zz'])('rejects %j', (value) => {
+    expect(() => blob(value)).toThrow()
+  })
+})
+
+describe('buildTagFilters', () => {
+  const exists = (condition: string) =>
+    `EXISTS (SELECT 1 FROM tags AS f WHERE f.id = t.id AND f.tag_name = ?${condition})`
+
+  test.each(HOSTILE_VALUES)('escapes hostile tag value %j', (value) => {
+    const clause = buildTagFilters([{ name: 'Title', value }])
+    expect(stripLiterals(clause)).toBe(`(${exists(' AND f.tag_value = ?')})`)
+  })
+
+  test.each(HOSTILE_VALUES)('escapes hostile tag name %j', (name) => {
+    const clause = buildTagFilters([{ name }])
+    expect(stripLiterals(clause)).toBe(`(${exists('')})`)
+  })
+
+  test.each(HOSTILE_VALUES)('escapes hostile like value %j', (value) => {
+    const clause = buildTagFilters([{ name: 'Title', value, operator: 'like' }])
+    expect(stripLiterals(clause)).toBe(
+      `(${exists(' AND f.tag_value LIKE ? ESCAPE ?')})`,
+    )
+  })
+
+  test.each(HOSTILE_VALUES)('escapes hostile in values %j', (value) => {
+    const clause = buildTagFilters([
+      { name: 'Title', operator: 'in', value: [value, 'plain'] },
+    ])
+    expect(stripLiterals(clause)).toBe(
+      `(${exists(' AND f.tag_value IN (?, ?)')})`,
+    )
+  })
+
+  test('requires every filter of an array to match', () => {
+    const clause = buildTagFilters([
+      { name: 'Entity-Type', value: 'drive' },
+      { name: 'Drive-Id', value: 'abc' },
+    ])
+    expect(stripLiterals(clause)).toBe(
+      `(${exists(' AND f.tag_value = ?')} AND ${exists(' AND f.tag_value = ?')})`,
+    )
+  })
+
+  test('compiles any-of and none-of expressions', () => {
+    const clause = buildTagFilters({
+      allOf: [
+        { anyOf: [{ name: 'Type', value: 'Process' }, { name: 'Module' }] },
+        { noneOf: [{ name: 'Cipher', operator: 'exists' }] },
+      ],
+    })
+    expect(stripLiterals(clause)).toBe(
+      `((${exists(' AND f.tag_value = ?')} OR ${exists('')}) AND NOT (${exists('')}))`,
+    )
+  })
+
+  test('compiles prefix and numeric range predicates', () => {
+    expect(
+      buildTagFilters({
+        name: 'App-Name',
+        operator: 'prefix',
+        value: 'ArDrive',
+      }),
+    ).toContain("f.tag_value LIKE 'ArDrive%' ESCAPE '\\'")
+
+    const range = buildTagFilters({
+      name: 'Unix-Time',
+      operator: 'range',
+      min: 1700000000,
+      max: 1800000000,
+    })
+    expect(range).toContain('TRY_CAST(f.tag_value AS DOUBLE) >= 1700000000')
+    expect(range).toContain('TRY_CAST(f.tag_value AS DOUBLE) <= 1800000000')
+  })
+
+  test('treats empty combinators as neutral elements', () => {
+    expect(buildTagFilters({ allOf: [] })).toBe('TRUE')
+    expect(buildTagFilters({ anyOf: [] })).toBe('FALSE')
+    expect(buildTagFilters({ noneOf: [] })).toBe('TRUE')
+    expect(buildTagFilters({ name: 'Type', operator: 'in', value: [] })).toBe(
+      "EXISTS (SELECT 1 FROM tags AS f WHERE f.id = t.id AND f.tag_name = 'Type' AND FALSE)",
+    )
+  })
+
+  test('uses the given tags relation and id column', () => {
+    expect(
+      buildTagFilters([{ name: 'Type' }], {
+        tags: raw('tag_rows'),
+        id: raw('tx.id'),
+      }),
+    ).toBe(
+      "(EXISTS (SELECT 1 FROM tag_rows AS f WHERE f.id = tx.id AND f.tag_name = 'Type'))",
+    )
+  })
+})
@@ -0,0 +1,163 @@
+// Injection-safe SQL construction for DuckDB queries over parquet data
+//
+// Every value interpolated into the `sql` template tag is rendered as an
+// escaped literal. Trusted SQL (table sources, sub-queries, clauses built by
+// other helpers) has to be wrapped in a SqlFragment to be spliced verbatim.
+
+export type SqlValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | null
+  | undefined
+  | SqlFragment
+  | SqlValue[]
+
+export class SqlFragment {
+  readonly text: string
+
+  constructor(text: string) {
+    this.text = text
+  }
+
+  toString(): string {
+    return this.text
+  }
+}
+
+/**
+ * Mark already-safe SQL text so the `sql` tag splices it verbatim
+ */
+export const raw = (text: string): SqlFragment => new SqlFragment(text)
+
+export const EMPTY_SQL = raw('')
+
+/**
+ * Quote a string as a SQL literal, doubling embedded single quotes
+ */
+export const escapeString = (value: string): string => {
+  if (value.includes('\0')) {
+    throw new Error('SQL string values cannot contain NUL characters')
+  }
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+/**
+ * Escape LIKE wildcards so the value only ever matches itself.
+ * Use together with `ESCAPE '\'`.
+ */
+export const escapeLike = (value: string): string =>
+  value.replace(/[\\%_]/g, (char) => `\\${char}`)
+
+/**
+ * Quote an identifier (column, table or alias name)
+ */
+export const identifier = (name: string): SqlFragment => {
+  if (name.includes('\0')) {
+    throw new Error('SQL identifiers cannot contain NUL characters')
+  }
+  return raw(`"${name.replace(/"/g, '""')}"`)
+}
+
+/**
+ * Render a single value as SQL. Arrays become comma separated lists.
+ */
+export const literal = (value: SqlValue): string => {
+  if (value instanceof SqlFragment) return value.text
+  if (value === null || value === undefined) return 'NULL'
+  if (Array.isArray(value)) return value.map(literal).join(', ')
+
+  switch (typeof value) {
+    case 'string':
+      return escapeString(value)
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot use non-finite number ${value} in SQL`)
+      }
+      return String(value)
+    case 'bigint':
+      return value.toString()
+    case 'boolean':
+      return value ? 'TRUE' : 'FALSE'
+    default:
+      throw new Error(`Unsupported SQL value of type ${typeof value}`)
+  }
+}
+
+/**
+ * Template tag producing a SqlFragment with every interpolation escaped
+ */
+export const sql = (
+  strings: TemplateStringsArray,
+  ...values: SqlValue[]
+): SqlFragment =>
+  raw(
+    strings.reduce(
+      (text, part, index) =>
+        text + part + (index < values.length ? literal(values[index]) : ''),
+      '',
+    ),
+  )
+
+/**
+ * Join values (fragments or literals) with a separator
+ */
+export const join = (values: SqlValue[], separator = ', '): SqlFragment =>
+  raw(values.map(literal).join(separator))
+
+/**
+ * `column LIKE '%value%'` matching the value literally
+ */
+export const containsPattern = (value: string): SqlFragment =>
+  raw(`${escapeString(`%${escapeLike(value)}%`)} ESCAPE '\\'`)
+
+/**
+ * `column LIKE 'value%'` matching the value literally
+ */
+export const prefixPattern = (value: string): SqlFragment =>
+  raw(`${escapeString(`${escapeLike(value)}%`)} ESCAPE '\\'`)
+
+/**
+ * BLOB literal for a hex encoded binary value (ids, owners). Comparing the
+ * raw column against it keeps predicates pushable to parquet statistics,
+ * unlike comparing `hex(column)` strings.
+ */
+export const blob = (hex: string): SqlFragment => {
+  if (!/^(?:[0-9a-f]{2})*$/i.test(hex)) {
+    throw new Error(`Invalid hex value "${hex}"`)
+  }
+  return raw(`from_hex('${hex.toUpperCase()}')`)
+}
+
+/**
+ * Non-negative integer for LIMIT / OFFSET clauses
+ */
+export const count = (value: number): SqlFragment => {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Expected a non-negative integer, got ${value}`)
+  }
+  return raw(String(value))
+}
+
+/**
+ * Validated ORDER BY column and direction. Columns are checked against an
+ * allow-list since they cannot be sent as literals.
+ */
+export const orderBy = (
+  alias: string,
+  column: string,
+  direction: string,
+  allowed: readonly string[],
+): SqlFragment => {
+  if (!allowed.includes(column)) {
+    throw new Error(`Cannot order by unknown column "${column}"`)
+  }
+  const normalizedDirection = direction.toUpperCase()
+  if (normalizedDirection !== 'ASC' && normalizedDirection !== 'DESC') {
+    throw new Error(`Invalid order direction "${direction}"`)
+  }
+  return raw(
+    `${identifier(alias).text}.${identifier(column).text} ${normalizedDirection}`,
+  )
+}
@@ -39,13 +39,32 @@ export interface ArweaveTag {
   is_data_item: boolean
 }
 
-export interface TagFilter {
-  name: string
-  value?: string
-  operator?: 'eq' | 'like' | 'in'
+// A predicate on a single tag. Without a value (or with `exists`) it only
+// requires the tag to be present.
+export type TagFilter =
+  | {
+      name: string
+      value?: string
+      operator?: 'eq' | 'like' | 'prefix'
+    }
+  | { name: string; operator: 'in'; value: string[] }
+  | { name: string; operator: 'exists' }
+  | { name: string; operator: 'range'; min?: number; max?: number }
+
+// Boolean combination of tag predicates, each evaluated against all tags of
+// a transaction (not a single tag row)
+export type TagFilterExpression =
+  | TagFilter
+  | { allOf: TagFilterExpression[] }
+  | { anyOf: TagFilterExpression[] }
+  | { noneOf: TagFilterExpression[] }
+
+export interface HeightRange {
+  minHeight?: number
+  maxHeight?: number
 }
 
-export interface QueryOptions {
+export interface QueryOptions extends HeightRange {
   limit?: number
   offset?: number
   orderBy?: string
@@ -55,3 +74,57 @@ export interface QueryOptions {
 export interface TransactionWithTags extends ArweaveTransaction {
   tags: ArweaveTag[]
 }
+
+// Entities whose revisions are transactions sharing an identifying tag,
+// reduced to the latest revision of each entity
+export interface LatestRevisionQuery {
+  // Revisions to consider, e.g. every `Entity-Type: drive` transaction
+  tagFilters: TagFilter[] | TagFilterExpression
+  // Tag whose value identifies the entity a revision belongs to
+  partitionTag: string
+  // Numeric tag ordering revisions within a block, e.g. Unix-Time
+  timeTag?: string
+  owner?: string
+  // Conditions on the latest revision, applied after it was selected
+  latestFilters?: TagFilter[] | TagFilterExpression
+  minTime?: number
+  maxTime?: number
+}
+
+export interface LatestRevisionOptions extends HeightRange {
+  limit?: number
+  offset?: number
+  // Cursor of a previous page, continues after its last entity
+  cursor?: string
+  orderBy?: 'height' | 'time'
+  orderDirection?: 'ASC' | 'DESC'
+}
+
+export interface LatestRevisionPage {
+  transactions: TransactionWithTags[]
+  // Latest revisions matching the query across all pages
+  total: number
+  // Set when a full page was returned
+  nextCursor?: string
+}
+
+export type DatasetName = 'blocks' | 'tags' | 'transactions'
+
+export interface DatasetPartition {
+  dataset: DatasetName
+  minHeight: number
+  maxHeight: number
+  url: string
+}
+
+export interface DatasetCatalogOptions {
+  // Root of the datasets endpoint, e.g. http://localhost:4000/local/datasets
+  baseUrl: string
+  // Optional JSON manifest listing partitions per dataset. When omitted the
+  // catalog falls back to the directory listing of each dataset.
+  manifestUrl?: string
+  // Statically known partitions, skips discovery for those datasets
+  partitions?: Partial<Record<DatasetName, DatasetPartition[]>>
+  // How long discovered partitions are trusted before re-listing (ms)
+  ttl?: number
+}
@@ -1,4 +1,13 @@
 // Utility functions for parquet data processing
+import {
+  type SqlFragment,
+  containsPattern,
+  join,
+  prefixPattern,
+  raw,
+  sql,
+} from './sql'
+import type { TagFilter, TagFilterExpression } from './types'
 
 // Convert hex string to base64url (Arweave format)
 export const hexToBase64Url = (hex: string): string => {
@@ -103,45 +112,104 @@ export const processArrowResult = (arrow: any): any[] => {
   })
 }
 
-// Build WHERE clause for tag filters
-export const buildTagFilters = (
-  filters: Array<{
-    name: string
-    value?: string
-    operator?: 'eq' | 'like' | 'in'
-  }>,
-): string => {
-  if (filters.length === 0) return ''
-
-  const conditions = filters.map((filter) => {
-    const nameCondition = `CAST(tags.tag_name AS VARCHAR) = '${filter.name}'`
-
-    if (!filter.value) {
-      return nameCondition
+const isTagFilter = (
+  expression: TagFilterExpression,
+): expression is TagFilter => 'name' in expression
+
+// Predicate requiring one tag of the transaction to match the filter
+const compileTagPredicate = (
+  filter: TagFilter,
+  tags: SqlFragment,
+  id: SqlFragment,
+): SqlFragment => {
+  const value = raw('f.tag_value')
+  const conditions: SqlFragment[] = [sql`f.tag_name = ${filter.name}`]
+
+  switch (filter.operator) {
+    case 'exists':
+      break
+    case 'in':
+      conditions.push(
+        filter.value.length > 0
+          ? sql`${value} IN (${filter.value})`
+          : raw('FALSE'),
+      )
+      break
+    case 'range': {
+      const numeric = sql`TRY_CAST(${value} AS DOUBLE)`
+      conditions.push(sql`${numeric} IS NOT NULL`)
+      if (filter.min !== undefined) {
+        conditions.push(sql`${numeric} >= ${filter.min}`)
+      }
+      if (filter.max !== undefined) {
+        conditions.push(sql`${numeric} <= ${filter.max}`)
+      }
+      break
     }
+    case 'like':
+      if (filter.value !== undefined) {
+        conditions.push(sql`${value} LIKE ${containsPattern(filter.value)}`)
+      }
+      break
+    case 'prefix':
+      if (filter.value !== undefined) {
+        conditions.push(sql`${value} LIKE ${prefixPattern(filter.value)}`)
+      }
+      break
+    default:
+      if (filter.value !== undefined) {
+        conditions.push(sql`${value} = ${filter.value}`)
+      }
+  }
 
-    const operator = filter.operator || 'eq'
-    let valueCondition: string
-
-    switch (operator) {
-      case 'like':
-        valueCondition = `CAST(tags.tag_value AS VARCHAR) LIKE '%${filter.value}%'`
-        break
-      case 'in':
-        // eslint-disable-next-line no-case-declarations
-        const values = Array.isArray(filter.value)
-          ? filter.value
-          : [filter.value]
-        // eslint-disable-next-line no-case-declarations
-        const quotedValues = values.map((v) => `'${v}'`).join(', ')
-        valueCondition = `CAST(tags.tag_value AS VARCHAR) IN (${quotedValues})`
-        break
-      default:
-        valueCondition = `CAST(tags.tag_value AS VARCHAR) = '${filter.value}'`
-    }
+  return sql`EXISTS (SELECT 1 FROM ${tags} AS f WHERE f.id = ${id} AND ${join(conditions, ' AND ')})`
+}
 
-    return `(${nameCondition} AND ${valueCondition})`
-  })
+const compileTagExpression = (
+  expression: TagFilterExpression,
+  tags: SqlFragment,
+  id: SqlFragment,
+): SqlFragment => {
+  if (isTagFilter(expression)) {
+    return compileTagPredicate(expression, tags, id)
+  }
 
-  return conditions.join(' OR ')
+  if ('allOf' in expression) {
+    if (expression.allOf.length === 0) return raw('TRUE')
+    const parts = expression.allOf.map((child) =>
+      compileTagExpression(child, tags, id),
+    )
+    return sql`(${join(parts, ' AND ')})`
+  }
+
+  if ('anyOf' in expression) {
+    if (expression.anyOf.length === 0) return raw('FALSE')
+    const parts = expression.anyOf.map((child) =>
+      compileTagExpression(child, tags, id),
+    )
+    return sql`(${join(parts, ' OR ')})`
+  }
+
+  if (expression.noneOf.length === 0) return raw('TRUE')
+  const parts = expression.noneOf.map((child) =>
+    compileTagExpression(child, tags, id),
+  )
+  return sql`NOT (${join(parts, ' OR ')})`
 }
+
+// Build a WHERE predicate on transactions from a tag filter expression.
+// A plain array of filters means all of them must match. Each tag predicate
+// becomes an EXISTS sub-query over `tags` (with VARCHAR tag_name/tag_value
+// columns) correlated on `id`, so combinations hold per transaction.
+export const buildTagFilters = (
+  filter: TagFilter[] | TagFilterExpression,
+  {
+    tags = raw('tags'),
+    id = raw('t.id'),
+  }: { tags?: SqlFragment; id?: SqlFragment } = {},
+): string =>
+  compileTagExpression(
+    Array.isArray(filter) ? { allOf: filter } : filter,
+    tags,
+    id,
+  ).text
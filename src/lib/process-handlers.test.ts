@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+
+import {
+  HANDLERS_LIST_LUA,
+  callHandler,
+  discoverHandlers,
+  inferHandlerTags,
+  parseHandlersList,
+  parseInfoHandlers,
+  withSourceTags,
+} from './process-handlers'
+
+const ao = vi.hoisted(() => ({
+  dryrun: vi.fn(),
+  message: vi.fn(),
+  result: vi.fn(),
+}))
+
+vi.mock('@permaweb/aoconnect', () => ({
+  connect: vi.fn(() => ao),
+}))
+
+const PROCESS = 'p'.repeat(43)
+const OWNER = 'o'.repeat(43)
+const CU_URL = 'https://cu.example'
+
+describe('parseHandlersList', () => {
+  test('reads names and pattern tags from colored output', () => {
+    const output =
+      '\x1b[32m[{"name":"Info","tags":{"Action":"Info"}},{"name":"_default","tags":[]}]\x1b[0m'
+
+    expect(parseHandlersList(output)).toEqual([
+      { name: 'Info', tags: { Action: 'Info' }, inferredTags: [] },
+      { name: '_default', tags: {}, inferredTags: [] },
+    ])
+  })
+
+  test('rejects output without a list', () => {
+    expect(() => parseHandlersList('nil')).toThrow('did not print')
+  })
+})
+
+describe('parseInfoHandlers', () => {
+  test('reads handler names from a Handlers tag or data field', () => {
+    expect(
+      parseInfoHandlers({
+        Messages: [
+          {
+            Tags: [{ name: 'Handlers', value: '["Transfer","Balance"]' }],
+          },
+        ],
+      })?.map(({ name }) => name),
+    ).toEqual(['Transfer', 'Balance'])
+    expect(
+      parseInfoHandlers({
+        Messages: [{ Tags: [], Data: '{"Handlers":["Info"]}' }],
+      }),
+    ).toEqual([{ name: 'Info', tags: { Action: 'Info' }, inferredTags: [] }])
+    expect(parseInfoHandlers({ Messages: [{ Data: 'plain' }] })).toBeNull()
+  })
+})
+
+describe('inferHandlerTags', () => {
+  test('reads matched and accessed tags from handler code', () => {
+    const code = `Handlers.add("Transfer", Handlers.utils.hasMatchingTag("Action", "Transfer"),
+      function(msg)
+        local qty = tonumber(msg.Quantity)
+        local note = msg.Tags["X-Note"] or msg.Tags.Memo
+        Send({ Target = msg.From, Data = msg.Data })
+      end)`
+
+    expect(inferHandlerTags(code)).toEqual({
+      tags: { Action: 'Transfer' },
+      inferredTags: ['Memo', 'X-Note', 'Quantity'],
+    })
+  })
+
+  test('keeps live pattern tags over those read from code', () => {
+    expect(
+      withSourceTags(
+        [{ name: 'Mint', tags: { Action: 'Mint-Token' }, inferredTags: [] }],
+        [
+          {
+            name: 'Mint',
+            code: 'hasMatchingTag("Action", "Mint") msg.Recipient',
+          },
+        ],
+      ),
+    ).toEqual([
+      {
+        name: 'Mint',
+        tags: { Action: 'Mint-Token' },
+        inferredTags: ['Recipient'],
+      },
+    ])
+  })
+})
+
+describe('discoverHandlers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  test('dry runs the handler list as the owner', async () => {
+    ao.dryrun.mockResolvedValue({
+      Output: { data: '[{"name":"Info","tags":{"Action":"Info"}}]' },
+    })
+
+    const discovery = await discoverHandlers({
+      processId: PROCESS,
+      cuUrl: CU_URL,
+      owner: OWNER,
+    })
+
+    expect(ao.dryrun).toHaveBeenCalledWith({
+      process: PROCESS,
+      data: HANDLERS_LIST_LUA,
+      tags: [{ name: 'Action', value: 'Eval' }],
+      Owner: OWNER,
+      From: OWNER,
+    })
+    expect(discovery).toEqual({
+      handlers: [{ name: 'Info', tags: { Action: 'Info' }, inferredTags: [] }],
+      source: 'eval',
+    })
+  })
+
+  test('falls back to the Info response when the eval fails', async () => {
+    ao.dryrun
+      .mockResolvedValueOnce({ Error: 'Eval is not trusted' })
+      .mockResolvedValueOnce({
+        Messages: [{ Tags: [{ name: 'Handlers', value: '["Balance"]' }] }],
+      })
+
+    const discovery = await discoverHandlers({
+      processId: PROCESS,
+      cuUrl: CU_URL,
+    })
+
+    expect(ao.dryrun).toHaveBeenLastCalledWith({
+      process: PROCESS,
+      data: '',
+      tags: [{ name: 'Action', value: 'Info' }],
+    })
+    expect(discovery.source).toBe('info')
+    expect(discovery.handlers.map(({ name }) => name)).toEqual(['Balance'])
+  })
+
+  test('reports the eval error when Info names no handlers', async () => {
+    ao.dryrun
+      .mockResolvedValueOnce({ Error: 'Eval is not trusted' })
+      .mockResolvedValueOnce({ Messages: [] })
+
+    await expect(
+      discoverHandlers({ processId: PROCESS, cuUrl: CU_URL }),
+    ).rejects.toThrow('Eval is not trusted')
+  })
+})
+
+describe('callHandler', () => {
+  test('collects output, errors and outbox messages', async () => {
+    ao.dryrun.mockResolvedValue({
+      Output: '',
+      Messages: [
+        {
+          Target: OWNER,
+          Tags: [{ name: 'Action', value: 'Balance-Notice' }],
+          Data: '100',
+        },
+      ],
+    })
+
+    await expect(
+      callHandler({
+        processId: PROCESS,
+        cuUrl: CU_URL,
+        mode: 'dryrun',
+        data: '',
+        tags: [{ name: 'Action', value: 'Balance' }],
+      }),
+    ).resolves.toEqual({
+      messageId: undefined,
+      output: '',
+      error: undefined,
+      messages: [
+        {
+          target: OWNER,
+          tags: { Action: 'Balance-Notice' },
+          data: '100',
+        },
+      ],
+    })
+  })
+})
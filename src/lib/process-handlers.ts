@@ -0,0 +1,355 @@
+// Handler discovery for AOS processes: lists the handlers a process has
+// registered by dry running an Eval as its owner, falling back to the handler
+// names its Info response advertises. Tags the handlers expect are inferred
+// from their patterns and, where the source is known, from their code.
+import { createStore, del, get, update } from 'idb-keyval'
+
+import {
+  type EvalMode,
+  parseEvalResult,
+  sendProcessMessage,
+  stripAnsi,
+} from './aos-eval'
+import { type Logger, createLogger } from './logger'
+
+export interface ProcessHandler {
+  name: string
+  // Tag values the handler pattern matches on, such as its Action
+  tags: Record<string, string>
+  // Tags its code reads from messages, values unknown
+  inferredTags: Array<string>
+}
+
+export interface HandlerDiscovery {
+  handlers: Array<ProcessHandler>
+  // How the handlers were found, an Info response only names them
+  source: 'eval' | 'info'
+}
+
+export interface MessageTag {
+  name: string
+  value: string
+}
+
+export interface HandlerOutboxMessage {
+  target?: string
+  tags: Record<string, string>
+  data: string
+}
+
+export interface HandlerResponse {
+  // Id of the sent message, signed calls only
+  messageId?: string
+  output: string
+  error?: string
+  messages: Array<HandlerOutboxMessage>
+}
+
+export interface HandlerCall {
+  id: string
+  handler: string
+  mode: EvalMode
+  tags: Array<MessageTag>
+  data: string
+  timestamp: number
+  response?: HandlerResponse
+  error?: string
+}
+
+export interface HandlerHistoryStore {
+  // Newest call first
+  list: (processId: string) => Promise<Array<HandlerCall>>
+  add: (processId: string, call: HandlerCall) => Promise<void>
+  clear: (processId: string) => Promise<void>
+}
+
+export const DEFAULT_MAX_HANDLER_CALLS = 100
+
+// Lists the handlers with the tag values of table and string patterns,
+// function patterns cannot be looked into
+export const HANDLERS_LIST_LUA = `local json = require('json')
+local list = {}
+for _, handler in ipairs(Handlers.list) do
+  local tags = {}
+  if type(handler.pattern) == 'string' then
+    tags.Action = handler.pattern
+  elseif type(handler.pattern) == 'table' then
+    for name, value in pairs(handler.pattern) do
+      if type(name) == 'string' and type(value) == 'string' then
+        tags[name] = value
+      end
+    end
+  end
+  table.insert(list, { name = handler.name, tags = tags })
+end
+return json.encode(list)`
+
+// Message fields AOS sets itself rather than from tags
+const MESSAGE_FIELDS = new Set([
+  'Action',
+  'Anchor',
+  'Block-Height',
+  'Cron',
+  'Data',
+  'Epoch',
+  'From',
+  'Hash-Chain',
+  'Id',
+  'Module',
+  'Nonce',
+  'Owner',
+  'Process',
+  'Signature',
+  'TagArray',
+  'Tags',
+  'Target',
+  'Timestamp',
+])
+
+const MATCHING_TAG =
+  /hasMatchingTag\(\s*(['"])([^'"]+)\1\s*,\s*(['"])([^'"]*)\3/g
+const TAG_FIELD = /msg\.Tags\s*\.\s*([A-Za-z][\w]*)/g
+const TAG_INDEX = /msg\.Tags\s*\[\s*(['"])([^'"]+)\1\s*\]/g
+const MESSAGE_FIELD = /msg\.([A-Z][\w]*)/g
+
+const toRecord = (value: unknown): Record<string, string> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string',
+    ),
+  )
+}
+
+// JSON printed by an eval, AOS may color or pad what it prints
+const parsePrintedJson = (output: string): unknown => {
+  const text = stripAnsi(output)
+  const start = text.search(/[[{]/)
+  const end = Math.max(text.lastIndexOf(']'), text.lastIndexOf('}'))
+  if (start === -1 || end < start) {
+    throw new Error('The process did not print a handler list')
+  }
+  return JSON.parse(text.slice(start, end + 1))
+}
+
+/**
+ * Handlers from the output of HANDLERS_LIST_LUA.
+ */
+export function parseHandlersList(output: string): Array<ProcessHandler> {
+  const list = parsePrintedJson(output)
+  if (!Array.isArray(list)) {
+    throw new Error('The process did not print a handler list')
+  }
+  return list
+    .filter((entry) => typeof entry?.name === 'string')
+    .map((entry) => ({
+      name: entry.name,
+      tags: toRecord(entry.tags),
+      inferredTags: [],
+    }))
+}
+
+/**
+ * Handler names from an Info response, in a Handlers tag or data field as
+ * ANTs and many tokens reply. Null when the response names none.
+ */
+export function parseInfoHandlers(
+  result: Record<string, any>,
+): Array<ProcessHandler> | null {
+  for (const message of result.Messages ?? []) {
+    const tag = (message.Tags ?? []).find(
+      (candidate: MessageTag) => candidate.name === 'Handlers',
+    )
+    let names: unknown
+    try {
+      names = tag
+        ? JSON.parse(tag.value)
+        : JSON.parse(message.Data ?? 'null')?.Handlers
+    } catch {
+      continue
+    }
+    if (Array.isArray(names)) {
+      return names
+        .filter((name): name is string => typeof name === 'string')
+        .map((name) => ({ name, tags: { Action: name }, inferredTags: [] }))
+    }
+  }
+  return null
+}
+
+/**
+ * Tags handler code matches on or reads from msg. Only the conventional msg
+ * parameter name is recognised.
+ */
+export function inferHandlerTags(code: string): {
+  tags: Record<string, string>
+  inferredTags: Array<string>
+} {
+  const tags: Record<string, string> = {}
+  for (const match of code.matchAll(MATCHING_TAG)) {
+    tags[match[2]] ??= match[4]
+  }
+
+  const names = new Set<string>()
+  for (const match of code.matchAll(TAG_FIELD)) names.add(match[1])
+  for (const match of code.matchAll(TAG_INDEX)) names.add(match[2])
+  for (const match of code.matchAll(MESSAGE_FIELD)) names.add(match[1])
+
+  return {
+    tags,
+    inferredTags: [...names].filter(
+      (name) => !MESSAGE_FIELDS.has(name) && !(name in tags),
+    ),
+  }
+}
+
+/**
+ * Adds what the source of each handler tells about the tags it expects.
+ * Tags from the live pattern win over those read from code.
+ */
+export function withSourceTags(
+  handlers: Array<ProcessHandler>,
+  sources: Array<{ name: string; code: string }>,
+): Array<ProcessHandler> {
+  const codeByName = new Map(sources.map(({ name, code }) => [name, code]))
+
+  return handlers.map((handler) => {
+    const code = codeByName.get(handler.name)
+    if (!code) return handler
+
+    const inferred = inferHandlerTags(code)
+    const tags = { ...inferred.tags, ...handler.tags }
+    return {
+      ...handler,
+      tags,
+      inferredTags: [
+        ...new Set([...handler.inferredTags, ...inferred.inferredTags]),
+      ].filter((name) => !(name in tags)),
+    }
+  })
+}
+
+/**
+ * Lists the handlers of a process. The eval is dry run as the owner, as AOS
+ * evaluates nothing else; processes without AOS or an owner fall back to
+ * their Info response.
+ */
+export async function discoverHandlers({
+  processId,
+  cuUrl,
+  owner,
+}: {
+  processId: string
+  cuUrl: string
+  owner?: string
+}): Promise<HandlerDiscovery> {
+  let evalError: unknown
+  try {
+    const { result } = await sendProcessMessage({
+      processId,
+      cuUrl,
+      mode: 'dryrun',
+      data: HANDLERS_LIST_LUA,
+      tags: [{ name: 'Action', value: 'Eval' }],
+      from: owner,
+    })
+    const { output, error } = parseEvalResult(result)
+    if (error) throw new Error(error)
+    return { handlers: parseHandlersList(output), source: 'eval' }
+  } catch (error) {
+    evalError = error
+  }
+
+  const { result } = await sendProcessMessage({
+    processId,
+    cuUrl,
+    mode: 'dryrun',
+    data: '',
+    tags: [{ name: 'Action', value: 'Info' }],
+  })
+  const handlers = parseInfoHandlers(result)
+  if (!handlers) {
+    throw new Error(
+      `Handlers could not be listed: ${
+        evalError instanceof Error ? evalError.message : String(evalError)
+      }, and the Info response names none`,
+    )
+  }
+  return { handlers, source: 'info' }
+}
+
+/**
+ * Dry runs or sends a message to a handler and reads what it printed and
+ * sent in response.
+ */
+export async function callHandler(
+  request: Parameters<typeof sendProcessMessage>[0],
+): Promise<HandlerResponse> {
+  const { messageId, result } = await sendProcessMessage(request)
+  const { output, error } = parseEvalResult(result)
+
+  return {
+    messageId,
+    output,
+    error,
+    messages: (result.Messages ?? []).map((message: Record<string, any>) => ({
+      target: message.Target,
+      tags: Object.fromEntries(
+        (message.Tags ?? []).map(({ name, value }: MessageTag) => [
+          name,
+          value,
+        ]),
+      ),
+      data:
+        typeof message.Data === 'string'
+          ? message.Data
+          : JSON.stringify(message.Data ?? ''),
+    })),
+  }
+}
+
+/**
+ * IndexedDB backed history of handler calls, kept per process and capped
+ * to the most recent calls. Storage failures degrade to an empty history.
+ */
+export const createIDBHandlerHistory = (
+  dbName = 'ar-io-explorer-handler-history',
+  maxCalls = DEFAULT_MAX_HANDLER_CALLS,
+): HandlerHistoryStore => {
+  const logger: Logger = createLogger('HandlerHistory')
+  let store: ReturnType<typeof createStore> | undefined
+
+  const getStore = () => {
+    store ??= createStore(dbName, 'calls')
+    return store
+  }
+
+  return {
+    list: async (processId) => {
+      try {
+        return (await get<Array<HandlerCall>>(processId, getStore())) ?? []
+      } catch (error) {
+        logger.warn('Failed to read handler history', error)
+        return []
+      }
+    },
+    add: async (processId, call) => {
+      try {
+        await update<Array<HandlerCall>>(
+          processId,
+          (previous = []) => [call, ...previous].slice(0, maxCalls),
+          getStore(),
+        )
+      } catch (error) {
+        logger.warn('Failed to save handler call', error)
+      }
+    },
+    clear: async (processId) => {
+      try {
+        await del(processId, getStore())
+      } catch (error) {
+        logger.warn('Failed to clear handler history', error)
+      }
+    },
+  }
+}
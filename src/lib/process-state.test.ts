@@ -0,0 +1,143 @@
+// @vitest-environment node
+import { type IncomingMessage, type Server, createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'vitest'
+
+import { fetchProcessState, parseResultCursor } from './process-state'
+
+const PROCESS = 'p'.repeat(43)
+const OWNER = 'o'.repeat(43)
+
+const cursor = (position: Record<string, unknown>) =>
+  Buffer.from(JSON.stringify(position)).toString('base64url')
+
+const readBody = async (request: IncomingMessage) => {
+  let body = ''
+  for await (const chunk of request) body += chunk
+  return body
+}
+
+// Stands in for both the CU and the HyperBEAM node
+let server: Server
+let baseUrl: string
+let schedulerStatus = 200
+let dryRuns: Array<Record<string, any>> = []
+
+beforeAll(async () => {
+  server = createServer(async (request, response) => {
+    const url = new URL(request.url!, 'http://localhost')
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, { 'content-type': 'application/json' })
+      response.end(JSON.stringify(body))
+    }
+
+    if (url.pathname === `/results/${PROCESS}`) {
+      return send(200, {
+        edges: [
+          {
+            cursor: cursor({ timestamp: 1700000000000, ordinate: '41' }),
+            node: { Output: {} },
+          },
+        ],
+      })
+    }
+    if (url.pathname === '/dry-run') {
+      dryRuns.push(JSON.parse(await readBody(request)))
+      return send(200, {
+        Output: {
+          data: '{"memory":2048,"inbox":3,"coroutines":1,"handlers":12}',
+          prompt: 'aos> ',
+        },
+        Messages: [],
+        Spawns: [],
+      })
+    }
+    if (url.pathname === '/~scheduler@1.0/slot') {
+      if (url.searchParams.get('target') !== PROCESS) return send(404, {})
+      return send(schedulerStatus, {
+        current: 45,
+        timestamp: 1700000100000,
+        'block-height': 1500000,
+      })
+    }
+    send(404, {})
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+beforeEach(() => {
+  schedulerStatus = 200
+  dryRuns = []
+})
+
+describe('parseResultCursor', () => {
+  test('decodes the evaluation position', () => {
+    expect(
+      parseResultCursor(
+        cursor({ timestamp: 1, ordinate: '7', cron: '1-10-minutes' }),
+      ),
+    ).toEqual({ timestamp: 1, ordinate: 7, cron: '1-10-minutes' })
+  })
+})
+
+describe('fetchProcessState', () => {
+  test('reports evaluation, runtime and scheduler state', async () => {
+    const state = await fetchProcessState({
+      processId: PROCESS,
+      cuUrl: baseUrl,
+      hyperbeamNodeUrl: baseUrl,
+      owner: OWNER,
+    })
+
+    expect(state).toEqual({
+      evaluated: { ordinate: 41, timestamp: 1700000000000 },
+      runtime: { memory: 2048, inbox: 3, coroutines: 1, handlers: 12 },
+      assignment: {
+        slot: 45,
+        timestamp: 1700000100000,
+        blockHeight: 1500000,
+      },
+      errors: {},
+      behind: 4,
+    })
+    expect(dryRuns[0]).toMatchObject({
+      Target: PROCESS,
+      Owner: OWNER,
+      Tags: expect.arrayContaining([{ name: 'Action', value: 'Eval' }]),
+    })
+  })
+
+  test('keeps the other parts when the scheduler fails', async () => {
+    schedulerStatus = 502
+
+    const state = await fetchProcessState({
+      processId: PROCESS,
+      cuUrl: baseUrl,
+      hyperbeamNodeUrl: baseUrl,
+    })
+
+    expect(state.assignment).toBeNull()
+    expect(state.errors).toEqual({
+      assignment: `HTTP 502 from ${new URL(baseUrl).host}`,
+    })
+    expect(state.evaluated?.ordinate).toBe(41)
+    expect(state.behind).toBeUndefined()
+  })
+
+  test('does not compare a legacy CU nonce with a HyperBEAM slot', async () => {
+    const state = await fetchProcessState({
+      processId: PROCESS,
+      cuUrl: baseUrl,
+      hyperbeamNodeUrl: baseUrl.replace('127.0.0.1', 'localhost'),
+    })
+
+    expect(state.evaluated?.ordinate).toBe(41)
+    expect(state.assignment?.slot).toBe(45)
+    expect(state.behind).toBeUndefined()
+  })
+})
@@ -0,0 +1,207 @@
+// Process state inspection: what the CU has evaluated of a process and what
+// its scheduler has assigned, to tell a stuck or lagging process apart from
+// an idle one. Each part is fetched independently so one unreachable unit
+// still leaves the others to report.
+import { parseEvalResult, sendProcessMessage, stripAnsi } from './aos-eval'
+
+export interface EvaluatedMessage {
+  // Nonce of the message, or of the message a cron tick followed
+  ordinate: number
+  timestamp: number
+  // Set for cron ticks
+  cron?: string
+}
+
+export interface ProcessRuntime {
+  // Lua heap in bytes, below the WASM memory the module reserves
+  memory: number
+  inbox: number
+  // Suspended Receive coroutines waiting for a message
+  coroutines: number
+  handlers: number
+}
+
+export interface SchedulerSlot {
+  // Nonce of the latest assigned message
+  slot: number
+  timestamp?: number
+  blockHeight?: number
+}
+
+export interface ProcessState {
+  evaluated: EvaluatedMessage | null
+  runtime: ProcessRuntime | null
+  assignment: SchedulerSlot | null
+  errors: Partial<Record<'evaluated' | 'runtime' | 'assignment', string>>
+  // Assigned messages the CU has not evaluated yet. Only set when the CU and
+  // the scheduler are the same node, a legacy CU counts nonces on its own SU
+  // and they do not line up with HyperBEAM slots.
+  behind?: number
+}
+
+export interface FetchProcessStateArgs {
+  processId: string
+  cuUrl: string
+  hyperbeamNodeUrl: string
+  // Runtime details need an eval, which AOS only runs for its owner
+  owner?: string
+  fetch?: typeof globalThis.fetch
+}
+
+// Reads the runtime details as JSON. Handlers.coroutines only exists in
+// AOS 2, earlier versions have no coroutines to wait on.
+export const PROCESS_RUNTIME_LUA = `local json = require('json')
+local coroutines = 0
+for _, co in pairs(Handlers.coroutines or {}) do
+  if coroutine.status(co) == 'suspended' then
+    coroutines = coroutines + 1
+  end
+end
+return json.encode({
+  memory = math.floor(collectgarbage('count') * 1024),
+  inbox = #(Inbox or {}),
+  coroutines = coroutines,
+  handlers = #Handlers.list
+})`
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error)
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number)
+    ? number
+    : undefined
+}
+
+/**
+ * Decodes a CU results cursor, base64 JSON of the evaluation position.
+ */
+export function parseResultCursor(cursor: string): EvaluatedMessage {
+  const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/')
+  const position = JSON.parse(atob(base64))
+  const ordinate = toNumber(position.ordinate)
+  const timestamp = toNumber(position.timestamp)
+  if (ordinate === undefined || timestamp === undefined) {
+    throw new Error('The CU result cursor has no evaluation position')
+  }
+  return { ordinate, timestamp, cron: position.cron || undefined }
+}
+
+const getJson = async (
+  fetcher: typeof globalThis.fetch,
+  url: string,
+  init?: RequestInit,
+) => {
+  const response = await fetcher(url, init)
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${new URL(url).host}`)
+  }
+  return response.json()
+}
+
+// Latest result the CU has, its cursor holds the position evaluated to
+const fetchEvaluated = async (
+  fetcher: typeof globalThis.fetch,
+  cuUrl: string,
+  processId: string,
+): Promise<EvaluatedMessage | null> => {
+  const page = await getJson(
+    fetcher,
+    `${cuUrl}/results/${processId}?sort=DESC&limit=1`,
+  )
+  const cursor = page.edges?.[0]?.cursor
+  return cursor ? parseResultCursor(cursor) : null
+}
+
+const fetchRuntime = async (
+  processId: string,
+  cuUrl: string,
+  owner: string | undefined,
+): Promise<ProcessRuntime> => {
+  const { result } = await sendProcessMessage({
+    processId,
+    cuUrl,
+    mode: 'dryrun',
+    data: PROCESS_RUNTIME_LUA,
+    tags: [{ name: 'Action', value: 'Eval' }],
+    from: owner,
+  })
+  const { output, error } = parseEvalResult(result)
+  if (error) throw new Error(error)
+
+  const text = stripAnsi(output)
+  const start = text.indexOf('{')
+  if (start === -1) {
+    throw new Error('The process did not evaluate the state query')
+  }
+  const runtime = JSON.parse(text.slice(start, text.lastIndexOf('}') + 1))
+  return {
+    memory: toNumber(runtime.memory) ?? 0,
+    inbox: toNumber(runtime.inbox) ?? 0,
+    coroutines: toNumber(runtime.coroutines) ?? 0,
+    handlers: toNumber(runtime.handlers) ?? 0,
+  }
+}
+
+// Current slot of the process on the HyperBEAM scheduler device
+const fetchAssignment = async (
+  fetcher: typeof globalThis.fetch,
+  hyperbeamNodeUrl: string,
+  processId: string,
+): Promise<SchedulerSlot> => {
+  const body = await getJson(
+    fetcher,
+    `${hyperbeamNodeUrl}/~scheduler@1.0/slot?target=${processId}`,
+    { headers: { accept: 'application/json' } },
+  )
+  const slot = toNumber(body.current ?? body.slot)
+  if (slot === undefined) {
+    throw new Error('The scheduler did not report a slot')
+  }
+  return {
+    slot,
+    timestamp: toNumber(body.timestamp),
+    blockHeight: toNumber(body['block-height']),
+  }
+}
+
+export async function fetchProcessState({
+  processId,
+  cuUrl,
+  hyperbeamNodeUrl,
+  owner,
+  fetch: fetcher = globalThis.fetch.bind(globalThis),
+}: FetchProcessStateArgs): Promise<ProcessState> {
+  const [evaluated, runtime, assignment] = await Promise.allSettled([
+    fetchEvaluated(fetcher, cuUrl, processId),
+    fetchRuntime(processId, cuUrl, owner),
+    fetchAssignment(fetcher, hyperbeamNodeUrl, processId),
+  ])
+
+  const state: ProcessState = {
+    evaluated: evaluated.status === 'fulfilled' ? evaluated.value : null,
+    runtime: runtime.status === 'fulfilled' ? runtime.value : null,
+    assignment: assignment.status === 'fulfilled' ? assignment.value : null,
+    errors: {},
+  }
+  if (evaluated.status === 'rejected') {
+    state.errors.evaluated = errorMessage(evaluated.reason)
+  }
+  if (runtime.status === 'rejected') {
+    state.errors.runtime = errorMessage(runtime.reason)
+  }
+  if (assignment.status === 'rejected') {
+    state.errors.assignment = errorMessage(assignment.reason)
+  }
+
+  if (
+    state.evaluated &&
+    state.assignment &&
+    new URL(cuUrl).origin === new URL(hyperbeamNodeUrl).origin
+  ) {
+    state.behind = Math.max(0, state.assignment.slot - state.evaluated.ordinate)
+  }
+
+  return state
+}
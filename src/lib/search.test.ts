@@ -0,0 +1,110 @@
+import { describe, expect, test, vi } from 'vitest'
+
+import type { AoMessage } from './ao-queries'
+import { classifySearch, resolveSearch, searchTargetLink } from './search'
+
+const ID = 'K2f0lOvJqTNJJ-xnRsHE7kPdqWIj9Yu9smSjw7mXchE'
+const OWNER = 'vh-NTHVvlKZqRxc8LyyTNok65yQ55a_PJ1zWLb9G2JI'
+
+const message = (tags: Record<string, string>): AoMessage =>
+  ({
+    id: ID,
+    tags,
+    fromParsed: {
+      type: 'arweave',
+      address: OWNER,
+      normalizedAddress: OWNER,
+      publicKey: '',
+    },
+  }) as AoMessage
+
+const kinds = (input: string) =>
+  classifySearch(input).map((target) => target.kind)
+
+describe('classifySearch', () => {
+  test.each([
+    ['1094394', ['block', 'arns']],
+    ['0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed', ['address']],
+    ['387a3dfc-f8a1-454f-9b5c-95fdf0a36d70', ['drive']],
+    [ID, ['id']],
+    ['ardrive', ['arns']],
+    ['docs_ardrive', ['undername']],
+    ['not a name', []],
+    ['-bad', []],
+    ['', []],
+  ])('classifies %j', (input, expected) => {
+    expect(kinds(input)).toEqual(expected)
+  })
+
+  test('normalizes names and strips ar:// prefixes', () => {
+    expect(classifySearch('  ar://ArDrive ')).toEqual([
+      { kind: 'arns', value: 'ardrive', label: 'ArNS name' },
+    ])
+  })
+
+  test('keeps the case of lowercase ids that are also valid names', () => {
+    const id = 'k2f0lovjqtnjj-xnrshe7kpdqwij9yu9smsjw7mxche'
+    expect(classifySearch(id).map(({ kind, value }) => [kind, value])).toEqual([
+      ['id', id],
+      ['arns', id],
+    ])
+  })
+})
+
+describe('resolveSearch', () => {
+  test.each([
+    [{ 'Data-Protocol': 'ao', Type: 'Process' }, 'process'],
+    [{ 'Data-Protocol': 'ao', Type: 'Module' }, 'module'],
+    [{ 'Data-Protocol': 'ao', Type: 'Message' }, 'message'],
+    [{ 'Content-Type': 'text/plain' }, 'transaction'],
+  ])('resolves %j transactions', async (tags, kind) => {
+    const targets = await resolveSearch(ID, () =>
+      Promise.resolve(message(tags)),
+    )
+
+    expect(targets.map((target) => [target.kind, target.value])).toEqual([
+      [kind, ID],
+      ['address', OWNER],
+    ])
+  })
+
+  test('treats ids without a transaction as addresses', async () => {
+    const getMessage = vi.fn(() => Promise.resolve(null))
+
+    const targets = await resolveSearch(ID, getMessage)
+
+    expect(getMessage).toHaveBeenCalledWith(ID)
+    expect(targets).toEqual([{ kind: 'address', value: ID, label: 'Address' }])
+  })
+
+  test('does not look up inputs that are not ids', async () => {
+    const getMessage = vi.fn(() => Promise.resolve(null))
+
+    await resolveSearch('ardrive', getMessage)
+
+    expect(getMessage).not.toHaveBeenCalled()
+  })
+})
+
+describe('searchTargetLink', () => {
+  test('routes undernames to their base name', () => {
+    expect(
+      searchTargetLink(
+        { kind: 'undername', value: 'docs_ardrive', label: '' },
+        '',
+      ),
+    ).toEqual({ href: '/names?search=ardrive', external: false })
+  })
+
+  test('opens blocks on the gateway', () => {
+    expect(
+      searchTargetLink(
+        { kind: 'block', value: '1000', label: '' },
+        'https://arweave.net/',
+      ),
+    ).toEqual({
+      href: 'https://arweave.net/block/height/1000',
+      external: true,
+    })
+  })
+})
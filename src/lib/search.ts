@@ -0,0 +1,194 @@
+// Universal search: classifies free text into the entities the explorer can
+// show (AO processes, modules and messages, wallets, ArNS names, ArFS drives,
+// blocks) and maps each of them to the page displaying it.
+import { isArweaveAddress, isEthereumAddress } from './address-utils'
+import type { AoMessage } from './ao-queries'
+
+export type SearchKind =
+  | 'process'
+  | 'module'
+  | 'message'
+  | 'transaction'
+  | 'address'
+  | 'arns'
+  | 'undername'
+  | 'drive'
+  | 'block'
+  // 43 character id that has not been looked up yet
+  | 'id'
+
+export interface SearchTarget {
+  kind: SearchKind
+  // Normalized value the target page is opened with
+  value: string
+  label: string
+}
+
+export interface SearchLink {
+  href: string
+  // Opened in a new tab instead of routed
+  external: boolean
+}
+
+const KIND_LABELS: Record<SearchKind, string> = {
+  process: 'Process',
+  module: 'Module',
+  message: 'Message',
+  transaction: 'Transaction',
+  address: 'Address',
+  arns: 'ArNS name',
+  undername: 'Undername',
+  drive: 'ArFS drive',
+  block: 'Block',
+  id: 'Transaction or address',
+}
+
+const ARNS_NAME_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,49}[a-z0-9])?$/
+const UNDERNAME_PATTERN = /^[a-z0-9](?:[a-z0-9_-]*[a-z0-9])?$/
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const HEIGHT_PATTERN = /^\d{1,9}$/
+// Undername and name together cannot exceed the 63 character DNS label limit
+const MAX_UNDERNAME_LENGTH = 61
+
+export const searchKindLabel = (kind: SearchKind): string => KIND_LABELS[kind]
+
+const target = (kind: SearchKind, value: string): SearchTarget => ({
+  kind,
+  value,
+  label: KIND_LABELS[kind],
+})
+
+/**
+ * Every interpretation of the input, most specific first. Needs no network,
+ * 43 character ids come back as `id` until resolved.
+ */
+export const classifySearch = (input: string): SearchTarget[] => {
+  const query = input.trim().replace(/^ar:\/\//i, '')
+  if (!query) return []
+
+  const targets: SearchTarget[] = []
+
+  if (HEIGHT_PATTERN.test(query)) {
+    targets.push(target('block', String(parseInt(query, 10))))
+  }
+  if (isEthereumAddress(query)) {
+    targets.push(target('address', query))
+  }
+  if (UUID_PATTERN.test(query)) {
+    targets.push(target('drive', query.toLowerCase()))
+  }
+  if (isArweaveAddress(query)) {
+    targets.push(target('id', query))
+  }
+
+  // ArNS names are case insensitive, ids are not. Only offer a name when the
+  // input is not clearly one of the formats above.
+  const name = query.toLowerCase()
+  const separator = name.lastIndexOf('_')
+  if (
+    isEthereumAddress(query) ||
+    UUID_PATTERN.test(query) ||
+    (isArweaveAddress(query) && query !== name)
+  ) {
+    return targets
+  }
+  if (separator === -1) {
+    if (ARNS_NAME_PATTERN.test(name)) {
+      targets.push(target('arns', name))
+    }
+  } else if (
+    separator <= MAX_UNDERNAME_LENGTH &&
+    UNDERNAME_PATTERN.test(name.slice(0, separator)) &&
+    ARNS_NAME_PATTERN.test(name.slice(separator + 1))
+  ) {
+    targets.push(target('undername', name))
+  }
+
+  return targets
+}
+
+// What a transaction found by id is, from its AO protocol tags
+const transactionKind = (message: AoMessage): SearchKind => {
+  if (message.tags['Data-Protocol'] !== 'ao') return 'transaction'
+
+  switch (message.tags['Type']) {
+    case 'Process':
+      return 'process'
+    case 'Module':
+      return 'module'
+    default:
+      return 'message'
+  }
+}
+
+/**
+ * Classify the input and look up 43 character ids (`getMessageById`) to tell
+ * processes, modules, messages and plain transactions apart. Ids without a
+ * transaction are wallet addresses, found transactions also offer their
+ * owner's address.
+ */
+export const resolveSearch = async (
+  input: string,
+  getMessage: (id: string) => Promise<AoMessage | null>,
+): Promise<SearchTarget[]> => {
+  const resolved = await Promise.all(
+    classifySearch(input).map(async (candidate) => {
+      if (candidate.kind !== 'id') return [candidate]
+
+      const message = await getMessage(candidate.value)
+      if (!message) return [target('address', candidate.value)]
+
+      const targets = [target(transactionKind(message), candidate.value)]
+      if (message.fromParsed.address) {
+        targets.push({
+          ...target('address', message.fromParsed.address),
+          label: `Owner (${message.fromParsed.type})`,
+        })
+      }
+      return targets
+    }),
+  )
+
+  return resolved.flat()
+}
+
+/**
+ * Where a search target is displayed
+ */
+export const searchTargetLink = (
+  { kind, value }: SearchTarget,
+  gatewayUrl: string,
+): SearchLink => {
+  const id = encodeURIComponent(value)
+
+  switch (kind) {
+    case 'process':
+      return { href: `/process/${id}`, external: false }
+    case 'module':
+      return { href: `/module/${id}`, external: false }
+    case 'message':
+    case 'transaction':
+    case 'id':
+      return { href: `/message/${id}`, external: false }
+    case 'address':
+      return { href: `/address/${id}`, external: false }
+    case 'arns':
+      return { href: `/names?search=${id}`, external: false }
+    case 'undername': {
+      // Undernames are listed with the ANT of their base name
+      const name = value.slice(value.lastIndexOf('_') + 1)
+      return {
+        href: `/names?search=${encodeURIComponent(name)}`,
+        external: false,
+      }
+    }
+    case 'drive':
+      return { href: `/arfs/explorer/${id}`, external: false }
+    case 'block':
+      return {
+        href: `${gatewayUrl.replace(/\/+$/, '')}/block/height/${id}`,
+        external: true,
+      }
+  }
+}
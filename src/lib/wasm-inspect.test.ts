@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'vitest'
+
+import { inspectWasm } from './wasm-inspect'
+
+const uleb = (value: number): Array<number> => {
+  const bytes: Array<number> = []
+  do {
+    let byte = value % 128
+    value = Math.floor(value / 128)
+    if (value > 0) byte |= 0x80
+    bytes.push(byte)
+  } while (value > 0)
+  return bytes
+}
+
+const name = (text: string) => {
+  const bytes = [...new TextEncoder().encode(text)]
+  return [...uleb(bytes.length), ...bytes]
+}
+
+const section = (id: number, content: Array<number>) => [
+  id,
+  ...uleb(content.length),
+  ...content,
+]
+
+const HEADER = [0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00]
+
+// A wasm64 module shaped like an aos build: imported function, own memory
+// with a 4 GiB cap, exported handler and a producers section
+const module = new Uint8Array([
+  ...HEADER,
+  ...section(2, [1, ...name('env'), ...name('emscripten_notify'), 0x00, 0]),
+  ...section(3, [2, 0, 0]),
+  ...section(5, [1, 0x05, ...uleb(1), ...uleb(65536)]),
+  ...section(7, [
+    2,
+    ...name('handle'),
+    0x00,
+    ...uleb(2),
+    ...name('memory'),
+    0x02,
+    0,
+  ]),
+  ...section(0, [
+    ...name('producers'),
+    1,
+    ...name('processed-by'),
+    1,
+    ...name('emscripten'),
+    ...name('3.1.59'),
+  ]),
+  ...section(0, [...name('build_id'), 0xaa, 0xbb]),
+])
+
+describe('inspectWasm', () => {
+  test('reads imports, exports, memories and custom sections', () => {
+    const info = inspectWasm(module.buffer)
+
+    expect(info.version).toBe(1)
+    expect(info.size).toBe(module.length)
+    expect(info.imports).toEqual([
+      { module: 'env', name: 'emscripten_notify', kind: 'function' },
+    ])
+    expect(info.functionCount).toBe(3)
+    expect(info.memories).toEqual([
+      { min: 1, max: 65536, shared: false, memory64: true },
+    ])
+    expect(info.exports).toEqual([
+      { name: 'handle', kind: 'function', index: 2 },
+      { name: 'memory', kind: 'memory', index: 0 },
+    ])
+    expect(info.customSections.map((custom) => custom.name)).toEqual([
+      'producers',
+      'build_id',
+    ])
+    expect(info.producers).toEqual([
+      { field: 'processed-by', name: 'emscripten', version: '3.1.59' },
+    ])
+  })
+
+  test('lists imported memories with their limits', () => {
+    const info = inspectWasm(
+      new Uint8Array([
+        ...HEADER,
+        ...section(2, [1, ...name('env'), ...name('memory'), 0x02, 0x00, 17]),
+      ]),
+    )
+
+    expect(info.memories).toEqual([
+      { min: 17, max: undefined, shared: false, memory64: false },
+    ])
+  })
+
+  test('rejects files that are not WASM', () => {
+    expect(() => inspectWasm(new TextEncoder().encode('<html>'))).toThrow(
+      /magic number/,
+    )
+  })
+
+  test('rejects truncated binaries', () => {
+    expect(() => inspectWasm(module.subarray(0, 20))).toThrow(/past the end/)
+  })
+})
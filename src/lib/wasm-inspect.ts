@@ -0,0 +1,261 @@
+// Reads the structure of a WebAssembly binary without compiling it: imports,
+// exports, memories and custom sections. AO modules are often wasm64 builds
+// that browsers cannot instantiate, and compiling megabytes of code only to
+// list its interface would be wasteful anyway.
+
+export type WasmExternalKind =
+  | 'function'
+  | 'table'
+  | 'memory'
+  | 'global'
+  | 'tag'
+
+export interface WasmLimits {
+  // In pages of 64 KiB for memories
+  min: number
+  max?: number
+  shared: boolean
+  memory64: boolean
+}
+
+export interface WasmImport {
+  module: string
+  name: string
+  kind: WasmExternalKind
+  // Set for memory and table imports
+  limits?: WasmLimits
+}
+
+export interface WasmExport {
+  name: string
+  kind: WasmExternalKind
+  index: number
+}
+
+export interface WasmCustomSection {
+  name: string
+  size: number
+}
+
+export interface WasmProducer {
+  // language, processed-by or sdk
+  field: string
+  name: string
+  version: string
+}
+
+export interface WasmModuleInfo {
+  version: number
+  size: number
+  imports: Array<WasmImport>
+  exports: Array<WasmExport>
+  // Imported memories first, as in the memory index space
+  memories: Array<WasmLimits>
+  functionCount: number
+  customSections: Array<WasmCustomSection>
+  producers: Array<WasmProducer>
+}
+
+export const WASM_PAGE_SIZE = 64 * 1024
+
+const EXTERNAL_KINDS: Array<WasmExternalKind> = [
+  'function',
+  'table',
+  'memory',
+  'global',
+  'tag',
+]
+
+const SECTION = {
+  custom: 0,
+  import: 2,
+  function: 3,
+  memory: 5,
+  export: 7,
+} as const
+
+class WasmReader {
+  offset = 0
+  private bytes: Uint8Array
+  private decoder = new TextDecoder('utf-8', { fatal: true })
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length
+  }
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error(`Unexpected end of WASM binary at ${this.offset}`)
+    }
+    return this.bytes[this.offset++]
+  }
+
+  // Unsigned LEB128; memory64 limits go beyond 32 bits, so no bit shifts
+  uleb(): number {
+    let result = 0
+    let scale = 1
+    for (;;) {
+      const byte = this.byte()
+      result += (byte & 0x7f) * scale
+      if ((byte & 0x80) === 0) return result
+      scale *= 128
+      if (scale > 2 ** 63) {
+        throw new Error(`Malformed LEB128 value at ${this.offset}`)
+      }
+    }
+  }
+
+  u32(): number {
+    const value = this.bytes[this.offset] | (this.bytes[this.offset + 1] << 8)
+    const high =
+      this.bytes[this.offset + 2] | (this.bytes[this.offset + 3] << 8)
+    this.skip(4)
+    return value + high * 0x10000
+  }
+
+  skip(length: number) {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error(`Unexpected end of WASM binary at ${this.offset}`)
+    }
+    this.offset += length
+  }
+
+  name(): string {
+    const length = this.uleb()
+    const start = this.offset
+    this.skip(length)
+    return this.decoder.decode(this.bytes.subarray(start, this.offset))
+  }
+
+  limits(): WasmLimits {
+    const flags = this.byte()
+    const min = this.uleb()
+    const max = flags & 0x01 ? this.uleb() : undefined
+    return {
+      min,
+      max,
+      shared: (flags & 0x02) !== 0,
+      memory64: (flags & 0x04) !== 0,
+    }
+  }
+
+  externalKind(): WasmExternalKind {
+    const kind = EXTERNAL_KINDS[this.byte()]
+    if (!kind) {
+      throw new Error(`Unknown external kind at ${this.offset - 1}`)
+    }
+    return kind
+  }
+
+  vector<T>(item: () => T): Array<T> {
+    return Array.from({ length: this.uleb() }, item)
+  }
+}
+
+const readImport = (reader: WasmReader): WasmImport => {
+  const module = reader.name()
+  const name = reader.name()
+  const kind = reader.externalKind()
+  switch (kind) {
+    case 'function':
+      reader.uleb() // type index
+      return { module, name, kind }
+    case 'table':
+      reader.byte() // reference type
+      return { module, name, kind, limits: reader.limits() }
+    case 'memory':
+      return { module, name, kind, limits: reader.limits() }
+    case 'global':
+      reader.byte() // value type
+      reader.byte() // mutability
+      return { module, name, kind }
+    case 'tag':
+      reader.byte() // attribute
+      reader.uleb() // type index
+      return { module, name, kind }
+  }
+}
+
+const readProducers = (reader: WasmReader): Array<WasmProducer> =>
+  reader
+    .vector(() => {
+      const field = reader.name()
+      return reader.vector(() => ({
+        field,
+        name: reader.name(),
+        version: reader.name(),
+      }))
+    })
+    .flat()
+
+/**
+ * Parses the module level structure of a WASM binary. Throws on anything that
+ * is not a well formed binary, code and data sections are skipped unread.
+ */
+export function inspectWasm(buffer: ArrayBuffer | Uint8Array): WasmModuleInfo {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  const reader = new WasmReader(bytes)
+
+  if (bytes.length < 8 || reader.u32() !== 0x6d736100) {
+    throw new Error('Not a WASM binary, the magic number is missing')
+  }
+
+  const info: WasmModuleInfo = {
+    version: reader.u32(),
+    size: bytes.length,
+    imports: [],
+    exports: [],
+    memories: [],
+    functionCount: 0,
+    customSections: [],
+    producers: [],
+  }
+
+  while (!reader.done) {
+    const id = reader.byte()
+    const size = reader.uleb()
+    const end = reader.offset + size
+    if (end > bytes.length) {
+      throw new Error(`Section ${id} runs past the end of the WASM binary`)
+    }
+
+    switch (id) {
+      case SECTION.custom: {
+        const name = reader.name()
+        info.customSections.push({ name, size })
+        if (name === 'producers') info.producers = readProducers(reader)
+        break
+      }
+      case SECTION.import:
+        info.imports = reader.vector(() => readImport(reader))
+        for (const entry of info.imports) {
+          if (entry.kind === 'memory' && entry.limits) {
+            info.memories.push(entry.limits)
+          }
+          if (entry.kind === 'function') info.functionCount++
+        }
+        break
+      case SECTION.function:
+        info.functionCount += reader.uleb()
+        break
+      case SECTION.memory:
+        info.memories.push(...reader.vector(() => reader.limits()))
+        break
+      case SECTION.export:
+        info.exports = reader.vector(() => ({
+          name: reader.name(),
+          kind: reader.externalKind(),
+          index: reader.uleb(),
+        }))
+        break
+    }
+
+    reader.offset = end
+  }
+
+  return info
+}
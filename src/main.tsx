@@ -24,10 +24,20 @@ import { ThemeProvider } from './components/theme-provider'
 import * as TanStackQueryProvider from './integrations/tanstack-query/root-provider.tsx'
 import reportWebVitals from './reportWebVitals.ts'
 import NotFoundRoute from './routes/404.tsx'
+import AddressRoute from './routes/address.tsx'
+import ANTRegistryRoute from './routes/ant-registry.tsx'
+import ANTRoute from './routes/ant.tsx'
+import ARFSDriveRoute from './routes/arfs-drive.tsx'
 import ARFSExplorerRoute from './routes/arfs-explorer.tsx'
 import ARFSParquetNotebookRoute from './routes/arfs-parquet-notebook.tsx'
+import GatewayRoute from './routes/gateway.tsx'
+import GatewaysRoute from './routes/gateways.tsx'
+import MessageRoute from './routes/message.tsx'
 import MessagesRoute from './routes/messages.tsx'
+import ModuleRoute from './routes/module.tsx'
 import ModulesRoute from './routes/modules.tsx'
+import NamesRoute from './routes/names.tsx'
+import ProcessRoute from './routes/process.tsx'
 import ProcessesRoute from './routes/processes.tsx'
 import SettingsRoute from './routes/settings.tsx'
 import './styles.css'
@@ -70,10 +80,20 @@ const indexRoute = createRoute({
 const routeTree = rootRoute.addChildren([
   indexRoute,
   ProcessesRoute(rootRoute),
+  ProcessRoute(rootRoute),
   MessagesRoute(rootRoute),
+  MessageRoute(rootRoute),
+  AddressRoute(rootRoute),
   ModulesRoute(rootRoute),
+  ModuleRoute(rootRoute),
   ARFSExplorerRoute(rootRoute),
+  ARFSDriveRoute(rootRoute),
   ARFSParquetNotebookRoute(rootRoute),
+  NamesRoute(rootRoute),
+  ANTRoute(rootRoute),
+  ANTRegistryRoute(rootRoute),
+  GatewaysRoute(rootRoute),
+  GatewayRoute(rootRoute),
   SettingsRoute(rootRoute),
   NotFoundRoute(rootRoute),
 ])
@@ -0,0 +1,17 @@
+import { createRoute, useParams } from '@tanstack/react-router'
+
+import { AddressDetail } from '@/components/AddressDetail'
+
+function AddressPage() {
+  const { addr } = useParams({ strict: false })
+  // Remount per address so the selected tab and tables start over
+  return <AddressDetail key={addr} address={addr!} />
+}
+
+export default function AddressRoute(rootRoute: any) {
+  return createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/address/$addr',
+    component: AddressPage,
+  })
+}
@@ -0,0 +1,32 @@
+import { createRoute, useSearch } from '@tanstack/react-router'
+
+import { ANTRegistryExplorer } from '@/components/ANTRegistryExplorer'
+
+interface ANTRegistrySearch {
+  address?: string
+  ant?: string
+}
+
+function ANTRegistryPage() {
+  const { address, ant } = useSearch({ strict: false })
+  // Remount per lookup so a new link replaces the form
+  return (
+    <ANTRegistryExplorer
+      key={`${address}-${ant}`}
+      initialAddress={address}
+      initialANT={ant}
+    />
+  )
+}
+
+export default function ANTRegistryRoute(rootRoute: any) {
+  return createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/ant-registry',
+    validateSearch: (search: Record<string, unknown>): ANTRegistrySearch => ({
+      address: typeof search.address === 'string' ? search.address : undefined,
+      ant: typeof search.ant === 'string' ? search.ant : undefined,
+    }),
+    component: ANTRegistryPage,
+  })
+}
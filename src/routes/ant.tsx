@@ -0,0 +1,16 @@
+import { createRoute, useParams } from '@tanstack/react-router'
+
+import { ANTDetail } from '@/components/ANTDetail'
+
+function ANTPage() {
+  const { id } = useParams({ strict: false })
+  return <ANTDetail key={id} id={id!} />
+}
+
+export default function ANTRoute(rootRoute: any) {
+  return createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/ant/$id',
+    component: ANTPage,
+  })
+}
@@ -0,0 +1,33 @@
+import { createRoute, useParams, useSearch } from '@tanstack/react-router'
+
+import { ARFSDriveBrowser } from '@/components/ARFSDriveBrowser'
+
+interface ARFSDriveSearch {
+  folderId?: string
+  history?: string
+}
+
+function ARFSDrivePage() {
+  const { driveId } = useParams({ strict: false })
+  const { folderId, history } = useSearch({ strict: false })
+  return (
+    <ARFSDriveBrowser
+      driveId={driveId!}
+      folderId={folderId}
+      historyId={history}
+    />
+  )
+}
+
+export default function ARFSDriveRoute(rootRoute: any) {
+  return createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/arfs/explorer/$driveId',
+    validateSearch: (search: Record<string, unknown>): ARFSDriveSearch => ({
+      folderId:
+        typeof search.folderId === 'string' ? search.folderId : undefined,
+      history: typeof search.history === 'string' ? search.history : undefined,
+    }),
+    component: ARFSDrivePage,
+  })
+}
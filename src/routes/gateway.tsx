@@ -0,0 +1,16 @@
+import { createRoute, useParams } from '@tanstack/react-router'
+
+import { GatewayDetail } from '@/components/GatewayDetail'
+
+function GatewayPage() {
+  const { address } = useParams({ strict: false })
+  return <GatewayDetail address={address!} />
+}
+
+export default function GatewayRoute(rootRoute: any) {
+  return createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/gateway/$address',
+    component: GatewayPage,
+  })
+}
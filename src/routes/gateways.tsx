@@ -0,0 +1,11 @@
+import { createRoute } from '@tanstack/react-router'
+
+import { GatewaysTable } from '@/components/GatewaysTable'
+
+export default function GatewaysRoute(rootRoute: any) {
+  return createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/gateways',
+    component: GatewaysTable,
+  })
+}
@@ -0,0 +1,17 @@
+import { createRoute, useParams } from '@tanstack/react-router'
+
+import { MessageDetail } from '@/components/MessageDetail'
+
+function MessagePage() {
+  const { id } = useParams({ strict: false })
+  // Remount per message so nested crank graph state starts over
+  return <MessageDetail key={id} id={id!} />
+}
+
+export default function MessageRoute(rootRoute: any) {
+  return createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/message/$id',
+    component: MessagePage,
+  })
+}
@@ -0,0 +1,17 @@
+import { createRoute, useParams } from '@tanstack/react-router'
+
+import { ModuleDetail } from '@/components/ModuleDetail'
+
+function ModulePage() {
+  const { id } = useParams({ strict: false })
+  // Remount per module so a previous binary inspection is not carried over
+  return <ModuleDetail key={id} id={id!} />
+}
+
+export default function ModuleRoute(rootRoute: any) {
+  return createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/module/$id',
+    component: ModulePage,
+  })
+}
@@ -0,0 +1,24 @@
+import { createRoute, useSearch } from '@tanstack/react-router'
+
+import { ArNSNamesTable } from '@/components/ArNSNamesTable'
+
+interface NamesSearch {
+  search?: string
+}
+
+function NamesPage() {
+  const { search } = useSearch({ strict: false })
+  // Remount per search so a new search from the header replaces the filters
+  return <ArNSNamesTable key={search} initialSearch={search} />
+}
+
+export default function NamesRoute(rootRoute: any) {
+  return createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/names',
+    validateSearch: (search: Record<string, unknown>): NamesSearch => ({
+      search: typeof search.search === 'string' ? search.search : undefined,
+    }),
+    component: NamesPage,
+  })
+}
@@ -0,0 +1,17 @@
+import { createRoute, useParams } from '@tanstack/react-router'
+
+import { ProcessDetail } from '@/components/ProcessDetail'
+
+function ProcessPage() {
+  const { id } = useParams({ strict: false })
+  // Remount per process so the selected tab and tables start over
+  return <ProcessDetail key={id} id={id!} />
+}
+
+export default function ProcessRoute(rootRoute: any) {
+  return createRoute({
+    getParentRoute: () => rootRoute,
+    path: '/process/$id',
+    component: ProcessPage,
+  })
+}
@@ -6,11 +6,16 @@ import {
   DEFAULT_ARIO_PROCESS_ID,
   DEFAULT_CU_URL,
   DEFAULT_DATABASE_URL,
+  DEFAULT_DATASETS_URL,
   DEFAULT_GATEWAY_URL,
   DEFAULT_HYPERBEAM_NODE_URL,
   DEFAULT_TURBO_PAYMENT_URL,
   DEFAULT_TURBO_UPLOAD_URL,
 } from '@/constants'
+import type { SearchTarget } from '@/lib/search'
+
+// Number of recent searches kept
+const MAX_RECENT_SEARCHES = 10
 
 // Theme type
 export type Theme = 'light' | 'dark' | 'system'
@@ -24,6 +29,11 @@ export interface AppConfig {
   turboPaymentUrl: string
   turboUploadUrl: string
   arioProcessId: string
+  // Parquet datasets of an AR-IO node, queried by the ArFS explorer
+  datasetsUrl: string
+  // JSON manifest of the dataset partitions, the directory listing of each
+  // dataset is read when empty
+  datasetsManifestUrl: string
   useLocalNode?: boolean // Flag to indicate if local node should be used
 }
 
@@ -45,6 +55,8 @@ export const localConfig: AppConfig = {
   turboPaymentUrl: DEFAULT_TURBO_PAYMENT_URL,
   turboUploadUrl: DEFAULT_TURBO_UPLOAD_URL,
   arioProcessId: DEFAULT_ARIO_PROCESS_ID,
+  datasetsUrl: DEFAULT_DATASETS_URL,
+  datasetsManifestUrl: '',
   useLocalNode: true,
 }
 // Production configuration values
@@ -57,6 +69,8 @@ export const productionConfig: AppConfig = {
   turboPaymentUrl: DEFAULT_TURBO_PAYMENT_URL,
   turboUploadUrl: DEFAULT_TURBO_UPLOAD_URL,
   arioProcessId: DEFAULT_ARIO_PROCESS_ID,
+  datasetsUrl: DEFAULT_DATASETS_URL,
+  datasetsManifestUrl: '',
   useLocalNode: false,
 }
 
@@ -74,6 +88,9 @@ interface AppState {
   // Search
   searchQuery: string
   setSearchQuery: (query: string) => void
+  recentSearches: SearchTarget[] // Newest first
+  addRecentSearch: (target: SearchTarget) => void
+  clearRecentSearches: () => void
 
   // Sidebar
   sidebarCollapsed: boolean
@@ -144,6 +161,18 @@ export const useAppStore = create<AppState>()(
       // Search state
       searchQuery: '',
       setSearchQuery: (searchQuery: string) => set({ searchQuery }),
+      recentSearches: [],
+      addRecentSearch: (target: SearchTarget) =>
+        set((state) => ({
+          recentSearches: [
+            target,
+            ...state.recentSearches.filter(
+              (recent) =>
+                recent.kind !== target.kind || recent.value !== target.value,
+            ),
+          ].slice(0, MAX_RECENT_SEARCHES),
+        })),
+      clearRecentSearches: () => set({ recentSearches: [] }),
 
       // Sidebar state
       sidebarCollapsed: false,
@@ -173,10 +202,20 @@ export const useAppStore = create<AppState>()(
       partialize: (state) => ({
         theme: state.theme,
         sidebarCollapsed: state.sidebarCollapsed,
+        recentSearches: state.recentSearches,
         walletAddress: state.walletAddress,
         walletConnected: state.walletConnected,
         config: state.config,
       }),
+      // Settings added since the state was saved keep their defaults
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<AppState> | undefined
+        return {
+          ...current,
+          ...saved,
+          config: { ...current.config, ...saved?.config },
+        }
+      },
     },
   ),
 )
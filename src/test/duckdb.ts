@@ -0,0 +1,67 @@
+// Runs ParquetClient queries against the parquet fixtures in node suites.
+// The wasm build fetches its parquet extension at runtime, native DuckDB
+// has it built in, so these suites need no network.
+import type { AsyncDuckDB } from '@duckdb/duckdb-wasm'
+import { DuckDBInstance } from '@duckdb/node-api'
+import { readdirSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+
+import { DatasetCatalog } from '@/lib/parquet-client/DatasetCatalog'
+import type { DatasetName, DatasetPartition } from '@/lib/parquet-client/types'
+
+export const FIXTURE_DATASETS_DIR = resolve(
+  __dirname,
+  '../../fixtures/parquet/datasets',
+)
+
+// Every parquet file of a dataset, one partition per height directory
+export const localPartitions = (
+  datasetsDir: string,
+  dataset: DatasetName,
+): DatasetPartition[] => {
+  const dataDir = join(datasetsDir, dataset, 'data')
+
+  return readdirSync(dataDir).flatMap((directory) => {
+    const match = /^height=(\d+)-(\d+)$/.exec(directory)
+    if (!match) return []
+
+    return readdirSync(join(dataDir, directory))
+      .filter((file) => file.endsWith('.parquet'))
+      .map((file) => ({
+        dataset,
+        minHeight: parseInt(match[1], 10),
+        maxHeight: parseInt(match[2], 10),
+        url: join(dataDir, directory, file),
+      }))
+  })
+}
+
+export const localCatalog = (datasetsDir = FIXTURE_DATASETS_DIR) =>
+  new DatasetCatalog({
+    baseUrl: datasetsDir,
+    partitions: {
+      tags: localPartitions(datasetsDir, 'tags'),
+      transactions: localPartitions(datasetsDir, 'transactions'),
+    },
+  })
+
+/**
+ * AsyncDuckDB facade over an in-memory native database, answering queries
+ * with rows shaped like the Arrow rows the wasm build returns.
+ */
+export async function createLocalDuckDB(): Promise<AsyncDuckDB> {
+  const instance = await DuckDBInstance.create(':memory:')
+
+  return {
+    connect: async () => {
+      const connection = await instance.connect()
+      return {
+        query: async (text: string) => {
+          const rows = (await connection.runAndReadAll(text)).getRowObjectsJS()
+          return { toArray: () => rows.map((row) => ({ toJSON: () => row })) }
+        },
+        close: () => Promise.resolve(connection.closeSync()),
+      }
+    },
+  } as unknown as AsyncDuckDB
+}